@@ -1,4 +1,7 @@
 import type { NextConfig } from "next";
+import { readFileSync } from "fs";
+
+const { version } = JSON.parse(readFileSync("./package.json", "utf8"));
 
 const nextConfig: NextConfig = {
   /* config options here */
@@ -17,6 +20,8 @@ const nextConfig: NextConfig = {
   },
   env: {
     NEXT_BUILD_ID: process.env.VERCEL_GIT_COMMIT_SHA || Date.now().toString(),
+    NEXT_BUILD_TIME: new Date().toISOString(),
+    NEXT_PUBLIC_APP_VERSION: version,
   },
 };
 
@@ -0,0 +1,104 @@
+"use client";
+
+import { useCallback } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { EmptyState } from "@/components/ui/empty-state";
+import { useToast } from "@/components/ui/useToast";
+import { DocumentReviewQueue } from "@/components/contractors/DocumentReviewQueue";
+import { useAuth } from "@/hooks/useAuth";
+import { useDocumentReviewQueue, type PendingDocumentReview } from "@/hooks/useContractorDocuments";
+import { getContractorDocument } from "@/lib/contractors/documents";
+import { ArrowLeft, FileCheck, Loader2 } from "lucide-react";
+
+export default function DocumentReviewsPage() {
+  const { role, isLoading: authLoading } = useAuth({ requiredRole: "ADMIN" });
+  const { toast } = useToast();
+  const { data: reviews, isLoading, reviewDocumentAsync, reviewMutation, getDocumentUrl } = useDocumentReviewQueue();
+
+  const handleView = useCallback(async (review: PendingDocumentReview) => {
+    if (!review.file) return;
+    try {
+      window.open(await getDocumentUrl(review.file), "_blank", "noopener,noreferrer");
+    } catch (error) {
+      toast({
+        title: "Couldn't open document",
+        description: error instanceof Error ? error.message : undefined,
+        variant: "destructive",
+      });
+    }
+  }, [getDocumentUrl, toast]);
+
+  const submitReview = useCallback(async (
+    review: PendingDocumentReview,
+    decision: "approved" | "rejected",
+    reason?: string
+  ) => {
+    const label = getContractorDocument(review.documentType).label;
+    try {
+      await reviewDocumentAsync({ id: review.id, decision, reason });
+      toast({ title: decision === "approved" ? "Document approved" : "Document rejected", description: label });
+    } catch (error) {
+      toast({
+        title: "Couldn't review document",
+        description: error instanceof Error ? error.message : undefined,
+        variant: "destructive",
+      });
+      throw error;
+    }
+  }, [reviewDocumentAsync, toast]);
+
+  if (authLoading || !role) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto max-w-4xl space-y-6 p-4 lg:p-8">
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="icon" asChild>
+            <Link href="/dashboard" aria-label="Back to dashboard">
+              <ArrowLeft className="h-5 w-5" />
+            </Link>
+          </Button>
+          <h1 className="text-2xl font-bold">Document reviews</h1>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Waiting for review</CardTitle>
+            <CardDescription>
+              Contractors can claim jobs once all of their documents are approved and their insurance is current.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex justify-center py-12">
+                <Loader2 className="h-8 w-8 animate-spin text-primary" />
+              </div>
+            ) : reviews && reviews.length > 0 ? (
+              <DocumentReviewQueue
+                reviews={reviews}
+                onView={handleView}
+                onApprove={(review) => submitReview(review, "approved").catch(() => undefined)}
+                onReject={(review, reason) => submitReview(review, "rejected", reason)}
+                isPending={reviewMutation.isPending}
+              />
+            ) : (
+              <EmptyState
+                title="All caught up"
+                description="New contractor documents will appear here."
+                icon={<FileCheck className="h-10 w-10 text-muted-foreground" />}
+              />
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
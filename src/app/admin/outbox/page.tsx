@@ -0,0 +1,106 @@
+"use client";
+
+import { useCallback, useState } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { EmptyState } from "@/components/ui/empty-state";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useToast } from "@/components/ui/useToast";
+import { NotificationOutboxList } from "@/components/notifications/NotificationOutboxList";
+import { useAuth } from "@/hooks/useAuth";
+import { useNotificationOutbox } from "@/hooks/useNotificationOutbox";
+import { OUTBOX_STATUS_LABELS } from "@/lib/notifications/outbox";
+import type { NotificationOutboxEntry, OutboxStatus } from "@/lib/db/schema";
+import { ArrowLeft, Inbox, Loader2 } from "lucide-react";
+
+const STATUSES: OutboxStatus[] = ["dead", "pending", "sent"];
+
+const EMPTY_DESCRIPTIONS: Record<OutboxStatus, string> = {
+  dead: "Deliveries that run out of retries will appear here.",
+  pending: "Nothing is waiting to be retried.",
+  sent: "Delivered notifications and emails will appear here.",
+};
+
+export default function NotificationOutboxPage() {
+  const { role, isLoading: authLoading } = useAuth({ requiredRole: "ADMIN" });
+  const { toast } = useToast();
+  const [status, setStatus] = useState<OutboxStatus>("dead");
+  const { data: entries, isLoading, replayDeliveryAsync, replayMutation } = useNotificationOutbox(status);
+
+  const handleReplay = useCallback(async (entry: NotificationOutboxEntry) => {
+    try {
+      const replayed = await replayDeliveryAsync(entry.id);
+      toast(replayed.status === "sent"
+        ? { title: "Delivered" }
+        : { title: "Still failing", description: replayed.lastError ?? undefined, variant: "destructive" });
+    } catch (error) {
+      toast({
+        title: "Couldn't replay delivery",
+        description: error instanceof Error ? error.message : undefined,
+        variant: "destructive",
+      });
+    }
+  }, [replayDeliveryAsync, toast]);
+
+  if (authLoading || !role) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto max-w-4xl space-y-6 p-4 lg:p-8">
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="icon" asChild>
+            <Link href="/dashboard" aria-label="Back to dashboard">
+              <ArrowLeft className="h-5 w-5" />
+            </Link>
+          </Button>
+          <h1 className="text-2xl font-bold">Notification deliveries</h1>
+        </div>
+
+        <Card>
+          <CardHeader className="space-y-4">
+            <div>
+              <CardTitle>Outbox</CardTitle>
+              <CardDescription>
+                Notifications and emails that failed to deliver are retried with backoff, then marked failed.
+                Replay them once the cause is fixed.
+              </CardDescription>
+            </div>
+            <Tabs value={status} onValueChange={value => setStatus(value as OutboxStatus)}>
+              <TabsList>
+                {STATUSES.map(value => (
+                  <TabsTrigger key={value} value={value}>{OUTBOX_STATUS_LABELS[value]}</TabsTrigger>
+                ))}
+              </TabsList>
+            </Tabs>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex justify-center py-12">
+                <Loader2 className="h-8 w-8 animate-spin text-primary" />
+              </div>
+            ) : entries && entries.length > 0 ? (
+              <NotificationOutboxList
+                entries={entries}
+                onReplay={handleReplay}
+                replayingId={replayMutation.isPending ? replayMutation.variables : null}
+              />
+            ) : (
+              <EmptyState
+                title="Nothing here"
+                description={EMPTY_DESCRIPTIONS[status]}
+                icon={<Inbox className="h-10 w-10 text-muted-foreground" />}
+              />
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { GET as checkInsurance } from '../insurance-expiry/route';
+import { GET as geocodeLocations } from '../geocode-locations/route';
+import { GET as sendDigests } from '../notification-digest/route';
+import { GET as processOutbox } from '../notification-outbox/route';
+
+vi.mock('@/lib/supabase/service', () => ({
+  createServiceSupabaseClient: vi.fn(() => ({})),
+}));
+
+vi.mock('@/lib/services/locations', () => ({
+  geocodePendingLocations: vi.fn().mockResolvedValue({ geocoded: ['loc-1'], notFound: [], failed: [] }),
+}));
+
+vi.mock('@/lib/services/contractorDocuments', () => ({
+  checkInsuranceExpiry: vi.fn().mockResolvedValue({ reminded: [], suspended: ['contractor-1'] }),
+}));
+
+vi.mock('@/lib/services/notificationDigests', () => ({
+  sendNotificationDigests: vi.fn().mockResolvedValue({ sent: [{ userId: 'user-1', count: 2 }], cleared: [], failed: [] }),
+}));
+
+vi.mock('@/lib/services/notificationOutbox', () => ({
+  processNotificationOutbox: vi.fn().mockResolvedValue({ sent: ['outbox-1'], retrying: [], dead: [] }),
+}));
+
+const request = (authorization?: string) =>
+  new NextRequest('http://localhost/api/cron/insurance-expiry', {
+    headers: authorization ? { authorization } : {},
+  });
+
+describe('Cron API', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv('CRON_SECRET', 'cron-secret');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should run the insurance check with the cron secret', async () => {
+    const { checkInsuranceExpiry } = await import('@/lib/services/contractorDocuments');
+
+    const response = await checkInsurance(request('Bearer cron-secret'));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ data: { reminded: [], suspended: ['contractor-1'] } });
+    expect(checkInsuranceExpiry).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject requests without the cron secret', async () => {
+    const { checkInsuranceExpiry } = await import('@/lib/services/contractorDocuments');
+
+    expect((await checkInsurance(request())).status).toBe(401);
+    expect((await checkInsurance(request('Bearer wrong'))).status).toBe(401);
+    expect(checkInsuranceExpiry).not.toHaveBeenCalled();
+  });
+
+  it('should geocode pending locations with the cron secret', async () => {
+    const response = await geocodeLocations(request('Bearer cron-secret'));
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).data.geocoded).toEqual(['loc-1']);
+    expect((await geocodeLocations(request())).status).toBe(401);
+  });
+
+  it('should send notification digests with the cron secret', async () => {
+    const { sendNotificationDigests } = await import('@/lib/services/notificationDigests');
+
+    const response = await sendDigests(request('Bearer cron-secret'));
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).data.sent).toEqual([{ userId: 'user-1', count: 2 }]);
+    expect((await sendDigests(request())).status).toBe(401);
+    expect(sendNotificationDigests).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry outbox deliveries with the cron secret', async () => {
+    const { processNotificationOutbox } = await import('@/lib/services/notificationOutbox');
+
+    const response = await processOutbox(request('Bearer cron-secret'));
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).data.sent).toEqual(['outbox-1']);
+    expect((await processOutbox(request())).status).toBe(401);
+    expect(processNotificationOutbox).toHaveBeenCalledTimes(1);
+  });
+
+  it('should refuse to run in production without a secret', async () => {
+    vi.stubEnv('CRON_SECRET', '');
+    vi.stubEnv('NODE_ENV', 'production');
+
+    expect((await checkInsurance(request())).status).toBe(401);
+  });
+});
@@ -0,0 +1,22 @@
+import { NextRequest } from 'next/server';
+import { createServiceSupabaseClient } from '@/lib/supabase/service';
+import { assertCronRequest } from '@/lib/api/session';
+import { jsonData, jsonError } from '@/lib/api/responses';
+import { geocodePendingLocations } from '@/lib/services/locations';
+
+// Never cache; every call is a run
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/cron/geocode-locations
+ * Geocode locations that have no coordinates yet
+ */
+export async function GET(request: NextRequest) {
+  try {
+    assertCronRequest(request);
+    const result = await geocodePendingLocations(createServiceSupabaseClient());
+    return jsonData(result);
+  } catch (error) {
+    return jsonError(error, 'geocoding locations');
+  }
+}
@@ -0,0 +1,22 @@
+import { NextRequest } from 'next/server';
+import { createServiceSupabaseClient } from '@/lib/supabase/service';
+import { assertCronRequest } from '@/lib/api/session';
+import { jsonData, jsonError } from '@/lib/api/responses';
+import { checkInsuranceExpiry } from '@/lib/services/contractorDocuments';
+
+// Never cache; every call is a run
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/cron/insurance-expiry
+ * Daily job: send insurance expiry reminders and suspend lapsed contractors
+ */
+export async function GET(request: NextRequest) {
+  try {
+    assertCronRequest(request);
+    const result = await checkInsuranceExpiry(createServiceSupabaseClient());
+    return jsonData(result);
+  } catch (error) {
+    return jsonError(error, 'checking insurance expiry');
+  }
+}
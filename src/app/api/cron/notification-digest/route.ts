@@ -0,0 +1,22 @@
+import { NextRequest } from 'next/server';
+import { createServiceSupabaseClient } from '@/lib/supabase/service';
+import { assertCronRequest } from '@/lib/api/session';
+import { jsonData, jsonError } from '@/lib/api/responses';
+import { sendNotificationDigests } from '@/lib/services/notificationDigests';
+
+// Never cache; every call is a run
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/cron/notification-digest
+ * Daily job: email each user a summary of their digest notifications
+ */
+export async function GET(request: NextRequest) {
+  try {
+    assertCronRequest(request);
+    const result = await sendNotificationDigests(createServiceSupabaseClient());
+    return jsonData(result);
+  } catch (error) {
+    return jsonError(error, 'sending notification digests');
+  }
+}
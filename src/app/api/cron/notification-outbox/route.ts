@@ -0,0 +1,22 @@
+import { NextRequest } from 'next/server';
+import { createServiceSupabaseClient } from '@/lib/supabase/service';
+import { assertCronRequest } from '@/lib/api/session';
+import { jsonData, jsonError } from '@/lib/api/responses';
+import { processNotificationOutbox } from '@/lib/services/notificationOutbox';
+
+// Never cache; every call is a run
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/cron/notification-outbox
+ * Every few minutes: retry failed notification and email deliveries that are due
+ */
+export async function GET(request: NextRequest) {
+  try {
+    assertCronRequest(request);
+    const result = await processNotificationOutbox(createServiceSupabaseClient());
+    return jsonData(result);
+  } catch (error) {
+    return jsonError(error, 'processing notification outbox');
+  }
+}
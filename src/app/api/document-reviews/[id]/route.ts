@@ -0,0 +1,30 @@
+import { NextRequest } from 'next/server';
+import { createServerSupabaseClient } from '@/lib/supabase/server';
+import { getRequestActor } from '@/lib/api/session';
+import { assertCan } from '@/lib/auth/rbac';
+import { jsonData, jsonError, readJson } from '@/lib/api/responses';
+import { reviewDocumentSchema } from '@/lib/contractors/schemas';
+import { reviewContractorDocument } from '@/lib/services/contractorDocuments';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * PATCH /api/document-reviews/[id]
+ * Approve or reject a contractor's compliance document
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const supabase = await createServerSupabaseClient();
+    const actor = await getRequestActor(supabase);
+    assertCan(actor.type, 'update', 'documents');
+    const { decision, reason } = reviewDocumentSchema.parse(await readJson(request));
+
+    const review = await reviewContractorDocument(supabase, { reviewId: id, decision, reason, reviewer: actor });
+    return jsonData(review);
+  } catch (error) {
+    return jsonError(error, 'reviewing document');
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest } from 'next/server';
+import { createServerSupabaseClient } from '@/lib/supabase/server';
+import { getRequestActor } from '@/lib/api/session';
+import { assertCan } from '@/lib/auth/rbac';
+import { jsonData, jsonError, readJson } from '@/lib/api/responses';
+import { updateInvitationSchema } from '@/lib/invitations/schemas';
+import { toManagedInvitation, updateInvitation } from '@/lib/services/invitations';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * PATCH /api/invitations/[id]
+ * Resend, revoke or expire an invitation
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const supabase = await createServerSupabaseClient();
+    const actor = await getRequestActor(supabase);
+    assertCan(actor.type, 'update', 'invitations');
+    const { action } = updateInvitationSchema.parse(await readJson(request));
+
+    const invitation = await updateInvitation(supabase, id, action, actor);
+    return jsonData(toManagedInvitation(invitation));
+  } catch (error) {
+    return jsonError(error, 'updating invitation');
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest } from 'next/server';
+import { createServerSupabaseClient } from '@/lib/supabase/server';
+import { createServiceSupabaseClient } from '@/lib/supabase/service';
+import { jsonData, jsonError } from '@/lib/api/responses';
+import { AppError, ErrorSeverity, ErrorType } from '@/types/errors';
+import {
+  acceptInvitation,
+  getInvitationByToken,
+  toInvitationDetails,
+} from '@/lib/services/invitations';
+
+interface RouteContext {
+  params: Promise<{ token: string }>;
+}
+
+/**
+ * GET /api/invitations/accept/[token]
+ * Public details of an invitation, used to pre-fill the signup form
+ */
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { token } = await params;
+    const invitation = await getInvitationByToken(createServiceSupabaseClient(), token);
+    return jsonData(toInvitationDetails(invitation));
+  } catch (error) {
+    return jsonError(error, 'fetching invitation');
+  }
+}
+
+/**
+ * POST /api/invitations/accept/[token]
+ * Complete an invitation for the signed-in account, once its email is confirmed
+ */
+export async function POST(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { token } = await params;
+    const supabase = await createServerSupabaseClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      throw new AppError('Please sign in to continue.', ErrorType.AUTH, ErrorSeverity.WARNING);
+    }
+
+    const invitation = await acceptInvitation(createServiceSupabaseClient(), token, user);
+    return jsonData(toInvitationDetails(invitation));
+  } catch (error) {
+    return jsonError(error, 'accepting invitation');
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest } from 'next/server';
+import { camelizeKeys } from 'humps';
+import { createServerSupabaseClient } from '@/lib/supabase/server';
+import { getRequestActor } from '@/lib/api/session';
+import { assertCan, assertCanInvite } from '@/lib/auth/rbac';
+import { jsonData, jsonError, readJson } from '@/lib/api/responses';
+import type { UserInvitation } from '@/lib/db/schema';
+import { createInvitationSchema } from '@/lib/invitations/schemas';
+import {
+  createInvitation,
+  MANAGED_INVITATION_COLUMNS,
+  toManagedInvitation,
+} from '@/lib/services/invitations';
+
+/**
+ * GET /api/invitations
+ * List invitations the current user manages. Admins see every invitation,
+ * owners only the ones they sent.
+ */
+export async function GET() {
+  try {
+    const supabase = await createServerSupabaseClient();
+    const actor = await getRequestActor(supabase);
+    assertCan(actor.type, 'read', 'invitations');
+
+    let query = supabase.from('user_invitations').select(MANAGED_INVITATION_COLUMNS);
+    if (actor.type !== 'ADMIN') {
+      query = query.eq('invited_by', actor.id);
+    }
+
+    const { data, error } = await query.order('created_at', { ascending: false });
+
+    if (error) throw error;
+    const invitations = camelizeKeys(data ?? []) as UserInvitation[];
+    return jsonData(invitations.map(toManagedInvitation));
+  } catch (error) {
+    return jsonError(error, 'listing invitations');
+  }
+}
+
+/**
+ * POST /api/invitations
+ * Invite a user by email with a chosen user type and send the invitation email
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createServerSupabaseClient();
+    const actor = await getRequestActor(supabase);
+    const input = createInvitationSchema.parse(await readJson(request));
+    assertCanInvite(actor.type, input.userType);
+
+    const invitation = await createInvitation(supabase, input, actor);
+    return jsonData(toManagedInvitation(invitation), { status: 201 });
+  } catch (error) {
+    return jsonError(error, 'creating invitation');
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest } from 'next/server';
+import { createServerSupabaseClient } from '@/lib/supabase/server';
+import { getRequestActor } from '@/lib/api/session';
+import { jsonData, jsonError } from '@/lib/api/responses';
+import { claimJob } from '@/lib/services/jobs';
+import { projectJob } from '@/lib/jobs/visibility';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/jobs/[id]/claim
+ * Claim an available job. Responds 409 if another contractor got there first.
+ */
+export async function POST(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const supabase = await createServerSupabaseClient();
+    const actor = await getRequestActor(supabase);
+
+    const job = await claimJob(supabase, { jobId: id, actor });
+    return jsonData(projectJob(job, actor.type));
+  } catch (error) {
+    return jsonError(error, 'claiming job');
+  }
+}
@@ -0,0 +1,102 @@
+import { NextRequest } from 'next/server';
+import { camelizeKeys, decamelizeKeys } from 'humps';
+import { createServerSupabaseClient } from '@/lib/supabase/server';
+import { getRequestActor } from '@/lib/api/session';
+import { assertCan } from '@/lib/auth/rbac';
+import { jsonData, jsonError, readJson } from '@/lib/api/responses';
+import type { Job } from '@/lib/db/schema';
+import { updateJobSchema } from '@/lib/jobs/schemas';
+import { JOB_TABLE_SELECT, VISIBLE_JOBS_VIEW, assertJobFieldsWritable, getJobSelect, projectJob } from '@/lib/jobs/visibility';
+import { getSoftDeleteValues } from '@/lib/trash/softDelete';
+import { NotFoundError } from '@/types/errors';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/jobs/[id]
+ * Jobs in the Trash are not found; restore them from the Trash first.
+ */
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const supabase = await createServerSupabaseClient();
+    const actor = await getRequestActor(supabase);
+    assertCan(actor.type, 'read', 'jobs');
+
+    const { data, error } = await supabase
+      .from(VISIBLE_JOBS_VIEW)
+      .select(getJobSelect(actor.type))
+      .eq('id', id)
+      .is('deleted_at', null)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) throw new NotFoundError('Job not found.', { jobId: id });
+    return jsonData(projectJob(camelizeKeys(data) as Job, actor.type));
+  } catch (error) {
+    return jsonError(error, 'fetching job');
+  }
+}
+
+/**
+ * PATCH /api/jobs/[id]
+ * Update job details. Use the transition endpoint to change status. Jobs in
+ * the Trash can't be updated.
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const supabase = await createServerSupabaseClient();
+    const actor = await getRequestActor(supabase);
+    assertCan(actor.type, 'update', 'jobs');
+    const updates = updateJobSchema.parse(await readJson(request));
+    assertJobFieldsWritable(updates, actor.type);
+
+    const { data, error } = await supabase
+      .from('jobs')
+      .update({
+        ...decamelizeKeys(updates),
+        updated_by: actor.id,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', id)
+      .is('deleted_at', null)
+      .select(JOB_TABLE_SELECT)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) throw new NotFoundError('Job not found.', { jobId: id });
+    return jsonData(projectJob(camelizeKeys(data) as Job, actor.type));
+  } catch (error) {
+    return jsonError(error, 'updating job');
+  }
+}
+
+/**
+ * DELETE /api/jobs/[id]
+ * Move a job to the Trash; it can be restored until an admin purges it.
+ */
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const supabase = await createServerSupabaseClient();
+    const actor = await getRequestActor(supabase);
+    assertCan(actor.type, 'delete', 'jobs');
+
+    const { data, error } = await supabase
+      .from('jobs')
+      .update(getSoftDeleteValues('jobs', actor.id))
+      .eq('id', id)
+      .is('deleted_at', null)
+      .select(JOB_TABLE_SELECT)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) throw new NotFoundError('Job not found.', { jobId: id });
+    return jsonData(projectJob(camelizeKeys(data) as Job, actor.type));
+  } catch (error) {
+    return jsonError(error, 'deleting job');
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest } from 'next/server';
+import { createServerSupabaseClient } from '@/lib/supabase/server';
+import { getRequestActor } from '@/lib/api/session';
+import { jsonData, jsonError, readJson } from '@/lib/api/responses';
+import { transitionJobSchema } from '@/lib/jobs/schemas';
+import { transitionJob } from '@/lib/services/jobs';
+import { projectJob } from '@/lib/jobs/visibility';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/jobs/[id]/transition
+ * Move a job to a new status, enforcing the job lifecycle rules
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const supabase = await createServerSupabaseClient();
+    const actor = await getRequestActor(supabase);
+    const { status } = transitionJobSchema.parse(await readJson(request));
+
+    const job = await transitionJob(supabase, { jobId: id, toStatus: status, actor });
+    return jsonData(projectJob(job, actor.type));
+  } catch (error) {
+    return jsonError(error, 'changing job status');
+  }
+}
@@ -0,0 +1,243 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { GET as listJobs } from '../route';
+import { GET as getJob, PATCH as updateJob, DELETE as deleteJob } from '../[id]/route';
+import { POST as transition } from '../[id]/transition/route';
+import { POST as claim } from '../[id]/claim/route';
+import { ConflictError } from '@/types/errors';
+
+vi.mock('@/lib/supabase/server', () => ({
+  createServerSupabaseClient: vi.fn(),
+}));
+
+vi.mock('@/lib/api/session', () => ({
+  getRequestActor: vi.fn(),
+}));
+
+vi.mock('@/lib/services/jobs', () => ({
+  transitionJob: vi.fn(),
+  claimJob: vi.fn(),
+}));
+
+// Rows as the database would return them if every column were selected
+const fullRow = {
+  id: 'job-1',
+  title: 'Fix leak',
+  status: 'AVAILABLE',
+  owner_id: 'owner-1',
+  contractor_id: null,
+  listing_price: '500',
+  contractor_price: '350',
+  notes: 'Internal only',
+};
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const createSupabase = (result: any) => {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const builder: any = {
+    select: vi.fn(() => builder),
+    eq: vi.fn(() => builder),
+    is: vi.fn(() => builder),
+    update: vi.fn(() => builder),
+    order: vi.fn(() => builder),
+    range: vi.fn(() => Promise.resolve(result)),
+    maybeSingle: vi.fn(() => Promise.resolve(result)),
+  };
+  return { from: vi.fn(() => builder), builder };
+};
+
+const params = Promise.resolve({ id: 'job-1' });
+
+describe('Jobs API field visibility', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    const { getRequestActor } = await import('@/lib/api/session');
+    vi.mocked(getRequestActor).mockResolvedValue({
+      id: 'contractor-1',
+      email: 'contractor@example.com',
+      type: 'CONTRACTOR',
+    });
+  });
+
+  it('should never return listingPrice or notes to a contractor when listing', async () => {
+    const supabase = createSupabase({ data: [fullRow], error: null });
+    const { createServerSupabaseClient } = await import('@/lib/supabase/server');
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    vi.mocked(createServerSupabaseClient).mockResolvedValue(supabase as any);
+
+    const response = await listJobs(new NextRequest('http://localhost/api/jobs'));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    const columns = supabase.builder.select.mock.calls[0][0].split(', ');
+    expect(columns).not.toContain('listing_price');
+    expect(columns).not.toContain('notes');
+    expect(body.data[0]).not.toHaveProperty('listingPrice');
+    expect(body.data[0]).not.toHaveProperty('notes');
+    expect(body.data[0]).toHaveProperty('contractorPrice', '350');
+  });
+
+  it('should never return listingPrice or notes to a contractor for a single job', async () => {
+    const supabase = createSupabase({ data: fullRow, error: null });
+    const { createServerSupabaseClient } = await import('@/lib/supabase/server');
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    vi.mocked(createServerSupabaseClient).mockResolvedValue(supabase as any);
+
+    const response = await getJob(new NextRequest('http://localhost/api/jobs/job-1'), { params });
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.data).not.toHaveProperty('listingPrice');
+    expect(body.data).not.toHaveProperty('notes');
+  });
+
+  it('should never return listingPrice or notes to a contractor after a transition', async () => {
+    const { createServerSupabaseClient } = await import('@/lib/supabase/server');
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    vi.mocked(createServerSupabaseClient).mockResolvedValue({} as any);
+    const { transitionJob } = await import('@/lib/services/jobs');
+    vi.mocked(transitionJob).mockResolvedValue({
+      id: 'job-1',
+      title: 'Fix leak',
+      status: 'CLAIMED',
+      listingPrice: '500',
+      contractorPrice: '350',
+      notes: 'Internal only',
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } as any);
+
+    const response = await transition(
+      new NextRequest('http://localhost/api/jobs/job-1/transition', {
+        method: 'POST',
+        body: JSON.stringify({ status: 'CLAIMED' }),
+      }),
+      { params }
+    );
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.data).not.toHaveProperty('listingPrice');
+    expect(body.data).not.toHaveProperty('notes');
+  });
+
+  it('should respond 409 to the contractor who loses a claim', async () => {
+    const { createServerSupabaseClient } = await import('@/lib/supabase/server');
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    vi.mocked(createServerSupabaseClient).mockResolvedValue({} as any);
+    const { claimJob } = await import('@/lib/services/jobs');
+    vi.mocked(claimJob).mockRejectedValue(new ConflictError('Another contractor claimed this job first.'));
+
+    const response = await claim(
+      new NextRequest('http://localhost/api/jobs/job-1/claim', { method: 'POST' }),
+      { params }
+    );
+    const body = await response.json();
+
+    expect(response.status).toBe(409);
+    expect(body.error).toMatchObject({ type: 'CONFLICT', message: 'Another contractor claimed this job first.' });
+  });
+});
+
+describe('Jobs API delete', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    const { getRequestActor } = await import('@/lib/api/session');
+    vi.mocked(getRequestActor).mockResolvedValue({
+      id: 'owner-1',
+      email: 'owner@example.com',
+      type: 'OWNER',
+    });
+  });
+
+  it('should move the job to the Trash instead of removing it', async () => {
+    const supabase = createSupabase({ data: { ...fullRow, deleted_at: '2026-03-14T12:00:00.000Z' }, error: null });
+    const { createServerSupabaseClient } = await import('@/lib/supabase/server');
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    vi.mocked(createServerSupabaseClient).mockResolvedValue(supabase as any);
+
+    const response = await deleteJob(new NextRequest('http://localhost/api/jobs/job-1', { method: 'DELETE' }), { params });
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).data).toMatchObject({ id: 'job-1' });
+    expect(supabase.builder.update).toHaveBeenCalledWith({ deleted_at: expect.any(String), deleted_by: 'owner-1' });
+    expect(supabase.builder.is).toHaveBeenCalledWith('deleted_at', null);
+  });
+
+  it('should respond 404 for a job already in the Trash', async () => {
+    const supabase = createSupabase({ data: null, error: null });
+    const { createServerSupabaseClient } = await import('@/lib/supabase/server');
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    vi.mocked(createServerSupabaseClient).mockResolvedValue(supabase as any);
+
+    const response = await deleteJob(new NextRequest('http://localhost/api/jobs/job-1', { method: 'DELETE' }), { params });
+
+    expect(response.status).toBe(404);
+  });
+});
+
+describe('Jobs API trashed jobs', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    const { getRequestActor } = await import('@/lib/api/session');
+    vi.mocked(getRequestActor).mockResolvedValue({
+      id: 'owner-1',
+      email: 'owner@example.com',
+      type: 'OWNER',
+    });
+  });
+
+  it('should respond 404 when fetching a job in the Trash', async () => {
+    const supabase = createSupabase({ data: null, error: null });
+    const { createServerSupabaseClient } = await import('@/lib/supabase/server');
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    vi.mocked(createServerSupabaseClient).mockResolvedValue(supabase as any);
+
+    const response = await getJob(new NextRequest('http://localhost/api/jobs/job-1'), { params });
+
+    expect(response.status).toBe(404);
+    expect(supabase.builder.is).toHaveBeenCalledWith('deleted_at', null);
+  });
+
+  it('should respond 404 when updating a job in the Trash', async () => {
+    const supabase = createSupabase({ data: null, error: null });
+    const { createServerSupabaseClient } = await import('@/lib/supabase/server');
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    vi.mocked(createServerSupabaseClient).mockResolvedValue(supabase as any);
+
+    const response = await updateJob(
+      new NextRequest('http://localhost/api/jobs/job-1', { method: 'PATCH', body: JSON.stringify({ title: 'New title' }) }),
+      { params }
+    );
+
+    expect(response.status).toBe(404);
+    expect(supabase.builder.is).toHaveBeenCalledWith('deleted_at', null);
+  });
+});
+
+describe('Jobs API request bodies', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    const { getRequestActor } = await import('@/lib/api/session');
+    vi.mocked(getRequestActor).mockResolvedValue({
+      id: 'owner-1',
+      email: 'owner@example.com',
+      type: 'OWNER',
+    });
+  });
+
+  it('should respond 400 to a malformed JSON body', async () => {
+    const { createServerSupabaseClient } = await import('@/lib/supabase/server');
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    vi.mocked(createServerSupabaseClient).mockResolvedValue(createSupabase({ data: null, error: null }) as any);
+
+    const response = await updateJob(
+      new NextRequest('http://localhost/api/jobs/job-1', { method: 'PATCH', body: '{"title": ' }),
+      { params }
+    );
+    const body = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(body.error).toMatchObject({ type: 'VALIDATION', message: 'The request body must be valid JSON.' });
+  });
+});
@@ -0,0 +1,25 @@
+import { createServerSupabaseClient } from '@/lib/supabase/server';
+import { getRequestActor } from '@/lib/api/session';
+import { jsonData, jsonError } from '@/lib/api/responses';
+import { PermissionError } from '@/types/errors';
+import { projectJobs } from '@/lib/jobs/visibility';
+import { fetchMatchedJobs } from '@/lib/services/matching';
+
+/**
+ * GET /api/jobs/matches
+ * Available jobs matching the signed-in contractor, best match first
+ */
+export async function GET() {
+  try {
+    const supabase = await createServerSupabaseClient();
+    const actor = await getRequestActor(supabase);
+    if (actor.type !== 'CONTRACTOR') {
+      throw new PermissionError('Only contractors have job matches.');
+    }
+
+    const jobs = await fetchMatchedJobs(supabase, actor.id);
+    return jsonData(projectJobs(jobs, actor.type));
+  } catch (error) {
+    return jsonError(error, 'matching jobs');
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest } from 'next/server';
+import { createServerSupabaseClient } from '@/lib/supabase/server';
+import { getRequestActor } from '@/lib/api/session';
+import { assertCan } from '@/lib/auth/rbac';
+import { jsonData, jsonError } from '@/lib/api/responses';
+import { nearbyJobsQuerySchema } from '@/lib/jobs/schemas';
+import { projectJobs } from '@/lib/jobs/visibility';
+import { findJobsWithinRadius } from '@/lib/services/locations';
+
+/**
+ * GET /api/jobs/nearby?latitude=&longitude=&radiusKm=&status=
+ * Jobs at geocoded locations within radiusKm of a point, nearest first
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createServerSupabaseClient();
+    const actor = await getRequestActor(supabase);
+    assertCan(actor.type, 'read', 'jobs');
+
+    const { latitude, longitude, radiusKm, status } = nearbyJobsQuerySchema.parse(
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+
+    const jobs = await findJobsWithinRadius(supabase, {
+      origin: { latitude, longitude },
+      radiusKm,
+      status,
+      role: actor.type,
+    });
+    return jsonData(projectJobs(jobs, actor.type));
+  } catch (error) {
+    return jsonError(error, 'finding nearby jobs');
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest } from 'next/server';
+import { camelizeKeys, decamelize, decamelizeKeys } from 'humps';
+import { createServerSupabaseClient } from '@/lib/supabase/server';
+import { getRequestActor } from '@/lib/api/session';
+import { assertCan } from '@/lib/auth/rbac';
+import { jsonData, jsonError, readJson } from '@/lib/api/responses';
+import type { Job } from '@/lib/db/schema';
+import { createJobSchema, listJobsQuerySchema } from '@/lib/jobs/schemas';
+import { JOB_TABLE_SELECT, VISIBLE_JOBS_VIEW, assertJobFieldsWritable, getJobSelect, projectJob, projectJobs } from '@/lib/jobs/visibility';
+
+/**
+ * GET /api/jobs
+ * List jobs visible to the current user, with optional filters and pagination
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createServerSupabaseClient();
+    const actor = await getRequestActor(supabase);
+    assertCan(actor.type, 'read', 'jobs');
+
+    const { orderBy, ascending, limit, offset, ...filters } = listJobsQuerySchema.parse(
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+
+    let query = supabase.from(VISIBLE_JOBS_VIEW).select(getJobSelect(actor.type)).is('deleted_at', null);
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value !== undefined) {
+        query = query.eq(decamelize(key), value);
+      }
+    });
+
+    const { data, error } = await query
+      .order(decamelize(orderBy), { ascending })
+      .range(offset, offset + limit - 1);
+
+    if (error) throw error;
+    return jsonData(projectJobs(camelizeKeys(data ?? []) as Job[], actor.type));
+  } catch (error) {
+    return jsonError(error, 'listing jobs');
+  }
+}
+
+/**
+ * POST /api/jobs
+ * Create a job owned by the current user. New jobs always start as DRAFT.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createServerSupabaseClient();
+    const actor = await getRequestActor(supabase);
+    assertCan(actor.type, 'create', 'jobs');
+    const input = createJobSchema.parse(await readJson(request));
+    assertJobFieldsWritable(input, actor.type);
+
+    const { data, error } = await supabase
+      .from('jobs')
+      .insert({
+        ...decamelizeKeys(input),
+        status: 'DRAFT',
+        owner_id: actor.id,
+        created_by: actor.id,
+        updated_by: actor.id,
+      })
+      .select(JOB_TABLE_SELECT)
+      .single();
+
+    if (error) throw error;
+    return jsonData(projectJob(camelizeKeys(data) as Job, actor.type), { status: 201 });
+  } catch (error) {
+    return jsonError(error, 'creating job');
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest } from 'next/server';
+import { createServerSupabaseClient } from '@/lib/supabase/server';
+import { getRequestActor } from '@/lib/api/session';
+import { assertCan } from '@/lib/auth/rbac';
+import { jsonData, jsonError } from '@/lib/api/responses';
+import { geocodeLocation } from '@/lib/services/locations';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/locations/[id]/geocode
+ * Look up the location's address now instead of waiting for the scheduled job
+ */
+export async function POST(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const supabase = await createServerSupabaseClient();
+    const actor = await getRequestActor(supabase);
+    assertCan(actor.type, 'update', 'locations');
+
+    const location = await geocodeLocation(supabase, id);
+    return jsonData(location);
+  } catch (error) {
+    return jsonError(error, 'geocoding location');
+  }
+}
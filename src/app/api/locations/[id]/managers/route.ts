@@ -0,0 +1,55 @@
+import { NextRequest } from 'next/server';
+import { camelizeKeys } from 'humps';
+import { createServerSupabaseClient } from '@/lib/supabase/server';
+import { getRequestActor } from '@/lib/api/session';
+import { assertCan } from '@/lib/auth/rbac';
+import { jsonData, jsonError, readJson } from '@/lib/api/responses';
+import type { LocationManager } from '@/lib/db/schema';
+import { setLocationManagersSchema } from '@/lib/locations/schemas';
+import { setLocationManagers } from '@/lib/services/locationManagers';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/locations/[id]/managers
+ * List the managers assigned to a location
+ */
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const supabase = await createServerSupabaseClient();
+    const actor = await getRequestActor(supabase);
+    assertCan(actor.type, 'read', 'locations');
+
+    const { data, error } = await supabase
+      .from('location_managers')
+      .select('*')
+      .eq('location_id', id);
+
+    if (error) throw error;
+    return jsonData(camelizeKeys(data ?? []) as LocationManager[]);
+  } catch (error) {
+    return jsonError(error, 'listing location managers');
+  }
+}
+
+/**
+ * PUT /api/locations/[id]/managers
+ * Replace the managers assigned to a location
+ */
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const supabase = await createServerSupabaseClient();
+    const actor = await getRequestActor(supabase);
+    assertCan(actor.type, 'update', 'locations');
+    const { managerIds } = setLocationManagersSchema.parse(await readJson(request));
+
+    const assignments = await setLocationManagers(supabase, { locationId: id, managerIds, actor });
+    return jsonData(assignments);
+  } catch (error) {
+    return jsonError(error, 'assigning location managers');
+  }
+}
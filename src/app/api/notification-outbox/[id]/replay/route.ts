@@ -0,0 +1,30 @@
+import { NextRequest } from 'next/server';
+import { createServerSupabaseClient } from '@/lib/supabase/server';
+import { createServiceSupabaseClient } from '@/lib/supabase/service';
+import { getRequestActor } from '@/lib/api/session';
+import { assertCan } from '@/lib/auth/rbac';
+import { jsonData, jsonError } from '@/lib/api/responses';
+import { replayDelivery } from '@/lib/services/notificationOutbox';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/notification-outbox/[id]/replay
+ * Retry a failed delivery now. Uses the service client because delivering
+ * creates notifications for other users.
+ */
+export async function POST(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const supabase = await createServerSupabaseClient();
+    const actor = await getRequestActor(supabase);
+    assertCan(actor.type, 'update', 'outbox');
+
+    const entry = await replayDelivery(createServiceSupabaseClient(), id);
+    return jsonData(entry);
+  } catch (error) {
+    return jsonError(error, 'replaying delivery');
+  }
+}
@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server';
+import { getVersionInfo } from '@/lib/version';
+
+// Always read the environment of the running deployment
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/version
+ * Polled by useVersionCheck to detect new deployments and unsupported clients
+ */
+export async function GET() {
+  return NextResponse.json(getVersionInfo(), {
+    headers: {
+      'Cache-Control': 'no-store, max-age=0',
+    },
+  });
+}
@@ -0,0 +1,120 @@
+"use client";
+
+import { useCallback } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { EmptyState } from "@/components/ui/empty-state";
+import { useToast } from "@/components/ui/useToast";
+import { InvitationsTable } from "@/components/invitations/InvitationsTable";
+import { InviteUserForm } from "@/components/invitations/InviteUserForm";
+import { useAuth } from "@/hooks/useAuth";
+import { useInvitations } from "@/hooks/useInvitations";
+import type { CreateInvitationInput } from "@/lib/invitations/schemas";
+import { INVITATION_TTL_DAYS, type InvitationAction } from "@/lib/invitations/status";
+import type { ManagedInvitation } from "@/lib/services/invitations";
+import { ArrowLeft, Loader2, Mail } from "lucide-react";
+
+const actionMessages: Record<InvitationAction, string> = {
+  resend: "Invitation resent",
+  revoke: "Invitation revoked",
+  expire: "Invitation expired",
+};
+
+export default function InvitationsPage() {
+  const { role, isLoading: authLoading } = useAuth({ requiredRole: ["ADMIN", "OWNER"] });
+  const { toast } = useToast();
+  const {
+    data: invitations,
+    isLoading,
+    inviteUserAsync,
+    createMutation,
+    updateInvitation,
+    updateMutation,
+  } = useInvitations();
+
+  const handleInvite = useCallback(async (input: CreateInvitationInput) => {
+    try {
+      await inviteUserAsync(input);
+      toast({ title: "Invitation sent", description: `We've emailed ${input.email} a link to sign up.` });
+    } catch (error) {
+      toast({
+        title: "Couldn't send invitation",
+        description: error instanceof Error ? error.message : undefined,
+        variant: "destructive",
+      });
+      throw error;
+    }
+  }, [inviteUserAsync, toast]);
+
+  const handleAction = useCallback((invitation: ManagedInvitation, action: InvitationAction) => {
+    updateInvitation({ id: invitation.id, action }, {
+      onSuccess: () => toast({ title: actionMessages[action], description: invitation.email }),
+      onError: (error) => toast({
+        title: "Couldn't update invitation",
+        description: error.message,
+        variant: "destructive",
+      }),
+    });
+  }, [updateInvitation, toast]);
+
+  if (authLoading || !role) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto max-w-6xl space-y-6 p-4 lg:p-8">
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="icon" asChild>
+            <Link href="/dashboard" aria-label="Back to dashboard">
+              <ArrowLeft className="h-5 w-5" />
+            </Link>
+          </Button>
+          <h1 className="text-2xl font-bold">Invitations</h1>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Invite a user</CardTitle>
+            <CardDescription>
+              They&apos;ll get an email with a link to create their account. Links expire after {INVITATION_TTL_DAYS} days.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <InviteUserForm role={role} onSubmit={handleInvite} isPending={createMutation.isPending} />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Sent invitations</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex justify-center py-12">
+                <Loader2 className="h-8 w-8 animate-spin text-primary" />
+              </div>
+            ) : invitations && invitations.length > 0 ? (
+              <InvitationsTable
+                invitations={invitations}
+                onAction={handleAction}
+                isPending={updateMutation.isPending}
+              />
+            ) : (
+              <EmptyState
+                title="No invitations yet"
+                description="Invitations you send will appear here."
+                icon={<Mail className="h-10 w-10 text-muted-foreground" />}
+              />
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+"use client";
+
+import { useCallback, useMemo } from "react";
+import Link from "next/link";
+import { useParams, useRouter } from "next/navigation";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { EmptyState } from "@/components/ui/empty-state";
+import { useToast } from "@/components/ui/useToast";
+import { JobStatusActions } from "@/components/jobs/JobStatusActions";
+import { HistoryTimeline } from "@/components/history/HistoryTimeline";
+import { useAuth } from "@/hooks/useAuth";
+import { useCan } from "@/hooks/useCan";
+import { useJob, useJobs, useTransitionJob } from "@/hooks/useJobs";
+import { useManagedLocations } from "@/hooks/useLocationManagers";
+import { useUndoableDelete } from "@/hooks/useUndoableDelete";
+import { ALL_ROLES } from "@/lib/auth/rbac";
+import type { JobStatus } from "@/lib/db/schema";
+import { ArrowLeft, Briefcase, Trash2 } from "lucide-react";
+
+const formatLabel = (value: string) => value.replace(/_/g, " ").toLowerCase();
+
+export default function JobDetailPage() {
+  const { id } = useParams<{ id: string }>();
+  const router = useRouter();
+  const { tofilUser: user, isLoading: authLoading } = useAuth({ requiredRole: ALL_ROLES });
+  const { toast } = useToast();
+  const { data: job, isLoading } = useJob(id);
+  const { transitionJobAsync, transitionMutation } = useTransitionJob();
+  const canDelete = useCan("delete", "jobs");
+  const jobs = useJobs({ filters: { id } });
+  const { deleteWithUndo } = useUndoableDelete(jobs);
+  const { data: managedLocations } = useManagedLocations();
+  const managedLocationIds = useMemo(
+    () => managedLocations?.map(location => location.id),
+    [managedLocations]
+  );
+
+  const handleTransition = useCallback(async (status: JobStatus) => {
+    try {
+      await transitionJobAsync({ jobId: id, status });
+      toast({ title: "Job updated" });
+    } catch (error) {
+      toast({
+        title: "Couldn't change the job's status",
+        description: error instanceof Error ? error.message : undefined,
+        variant: "destructive",
+      });
+    }
+  }, [id, transitionJobAsync, toast]);
+
+  // The toast's Undo brings the job back from the Trash
+  const handleDelete = useCallback(async () => {
+    if (job && await deleteWithUndo(job.id, job.title)) {
+      router.push("/dashboard");
+    }
+  }, [job, deleteWithUndo, router]);
+
+  if (authLoading || !user || isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto max-w-4xl space-y-6 p-4 lg:p-8">
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="icon" asChild>
+            <Link href="/dashboard" aria-label="Back to dashboard">
+              <ArrowLeft className="h-5 w-5" />
+            </Link>
+          </Button>
+          <h1 className="flex-1 text-2xl font-bold">{job?.title ?? "Job"}</h1>
+          {job && canDelete && (
+            <Button variant="outline" onClick={handleDelete} disabled={jobs.deleteMutation.isPending}>
+              <Trash2 className="mr-2 h-4 w-4" />
+              Delete
+            </Button>
+          )}
+        </div>
+
+        {!job ? (
+          <EmptyState
+            title="Job not found"
+            description="It may have been deleted, or you may not have access to it."
+            icon={<Briefcase className="h-10 w-10 text-muted-foreground" />}
+          />
+        ) : (
+          <>
+            <Card>
+              <CardHeader className="space-y-4">
+                <div className="flex flex-wrap items-center gap-2">
+                  <Badge variant="secondary" className="capitalize">{formatLabel(job.status)}</Badge>
+                  <Badge variant="outline" className="capitalize">{formatLabel(job.category)}</Badge>
+                </div>
+                {job.description && <CardDescription>{job.description}</CardDescription>}
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <dl className="grid gap-4 sm:grid-cols-2">
+                  {"listingPrice" in job && (
+                    <div>
+                      <dt className="text-sm text-muted-foreground">Listing price</dt>
+                      <dd className="font-medium">{job.listingPrice ?? "—"}</dd>
+                    </div>
+                  )}
+                  {"contractorPrice" in job && (
+                    <div>
+                      <dt className="text-sm text-muted-foreground">Contractor price</dt>
+                      <dd className="font-medium">{job.contractorPrice ?? "—"}</dd>
+                    </div>
+                  )}
+                  {job.completionNotes && (
+                    <div className="sm:col-span-2">
+                      <dt className="text-sm text-muted-foreground">Completion notes</dt>
+                      <dd>{job.completionNotes}</dd>
+                    </div>
+                  )}
+                </dl>
+                <JobStatusActions
+                  job={job}
+                  actor={{ id: user.id, type: user.type, managedLocationIds }}
+                  onTransition={handleTransition}
+                  isPending={transitionMutation.isPending}
+                />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>History</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <HistoryTimeline entity="jobs" entityId={job.id} />
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
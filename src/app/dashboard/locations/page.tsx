@@ -0,0 +1,116 @@
+"use client";
+
+import { useCallback } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { EmptyState } from "@/components/ui/empty-state";
+import { useToast } from "@/components/ui/useToast";
+import { LocationManagersTable } from "@/components/locations/LocationManagersTable";
+import { OrganisationSwitcher } from "@/components/organisations/OrganisationSwitcher";
+import { useUser } from "@/components/UserContext";
+import { useAuth } from "@/hooks/useAuth";
+import { useLocationManagers } from "@/hooks/useLocationManagers";
+import { useLocations } from "@/hooks/useLocations";
+import { useUndoableDelete } from "@/hooks/useUndoableDelete";
+import type { Location } from "@/lib/db/schema";
+import { ArrowLeft, Loader2, MapPin } from "lucide-react";
+
+export default function LocationManagersPage() {
+  const { role, isLoading: authLoading } = useAuth({ requiredRole: ["ADMIN", "OWNER"] });
+  const { activeOrganisationId } = useUser();
+  const { toast } = useToast();
+  const {
+    locations,
+    managers,
+    managerIdsByLocation,
+    isLoading,
+    setLocationManagersAsync,
+    assignMutation,
+  } = useLocationManagers();
+  const locationActions = useLocations();
+  const { deleteWithUndo } = useUndoableDelete(locationActions);
+
+  const handleSave = useCallback(async (locationId: string, managerIds: string[]) => {
+    try {
+      await setLocationManagersAsync({ locationId, managerIds });
+      toast({ title: "Managers updated" });
+    } catch (error) {
+      toast({
+        title: "Couldn't update managers",
+        description: error instanceof Error ? error.message : undefined,
+        variant: "destructive",
+      });
+      throw error;
+    }
+  }, [setLocationManagersAsync, toast]);
+
+  const handleDelete = useCallback(
+    (location: Location) => deleteWithUndo(location.id, location.name),
+    [deleteWithUndo]
+  );
+
+  if (authLoading || !role) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto max-w-4xl space-y-6 p-4 lg:p-8">
+        <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+          <div className="flex items-center gap-2">
+            <Button variant="ghost" size="icon" asChild>
+              <Link href="/dashboard" aria-label="Back to dashboard">
+                <ArrowLeft className="h-5 w-5" />
+              </Link>
+            </Button>
+            <h1 className="text-2xl font-bold">Location managers</h1>
+          </div>
+          <OrganisationSwitcher className="sm:w-64" />
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Assign managers</CardTitle>
+            <CardDescription>
+              Managers only see the jobs, files and notifications for the locations they&apos;re assigned to.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {!activeOrganisationId ? (
+              <EmptyState
+                title="Choose an organisation"
+                description="Pick an organisation to manage its locations."
+                icon={<MapPin className="h-10 w-10 text-muted-foreground" />}
+              />
+            ) : isLoading ? (
+              <div className="flex justify-center py-12">
+                <Loader2 className="h-8 w-8 animate-spin text-primary" />
+              </div>
+            ) : locations.length > 0 ? (
+              <LocationManagersTable
+                locations={locations}
+                managers={managers}
+                managerIdsByLocation={managerIdsByLocation}
+                onSave={handleSave}
+                savingLocationId={assignMutation.isPending ? assignMutation.variables?.locationId : null}
+                onDelete={handleDelete}
+                deletingLocationId={locationActions.deleteMutation.isPending ? locationActions.deleteMutation.variables : null}
+              />
+            ) : (
+              <EmptyState
+                title="No locations yet"
+                description="Locations added to this organisation will appear here."
+                icon={<MapPin className="h-10 w-10 text-muted-foreground" />}
+              />
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,176 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { EmptyState } from "@/components/ui/empty-state";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/components/ui/useToast";
+import { NotificationList } from "@/components/notifications/NotificationList";
+import { useAuth } from "@/hooks/useAuth";
+import { useNotifications } from "@/hooks/useNotifications";
+import {
+  getNotificationHref,
+  NOTIFICATION_TYPE_LABELS,
+  NOTIFICATION_TYPES,
+  type NotificationType,
+} from "@/lib/notifications/types";
+import type { Notification } from "@/lib/db/schema";
+import { ArrowLeft, Bell, ChevronLeft, ChevronRight, Loader2 } from "lucide-react";
+
+const ALL_TYPES = "all";
+
+export default function NotificationsPage() {
+  const router = useRouter();
+  const { tofilUser: user, isLoading: authLoading } = useAuth();
+  const { toast } = useToast();
+  const [type, setType] = useState<NotificationType | null>(null);
+  const [unreadOnly, setUnreadOnly] = useState(false);
+  const [page, setPage] = useState(0);
+  const {
+    notifications,
+    total,
+    pageCount,
+    isLoading,
+    isFetching,
+    markAsRead,
+    markAllAsReadAsync,
+    markAllAsReadMutation,
+  } = useNotifications({ type, unreadOnly, page });
+
+  // Filters change the results, so start again from the first page
+  const changeType = (value: string) => {
+    setType(value === ALL_TYPES ? null : value as NotificationType);
+    setPage(0);
+  };
+  const changeUnreadOnly = (checked: boolean) => {
+    setUnreadOnly(checked);
+    setPage(0);
+  };
+
+  const handleOpen = (notification: Notification) => {
+    if (!notification.read) markAsRead(notification.id);
+    const href = getNotificationHref(notification.link);
+    if (href) router.push(href);
+  };
+
+  const handleMarkAllRead = async () => {
+    try {
+      await markAllAsReadAsync(type);
+      toast({ title: "All caught up", description: type ? NOTIFICATION_TYPE_LABELS[type] : undefined });
+    } catch (error) {
+      toast({
+        title: "Couldn't mark notifications as read",
+        description: error instanceof Error ? error.message : undefined,
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (authLoading || !user) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto max-w-3xl space-y-6 p-4 lg:p-8">
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="icon" asChild>
+            <Link href="/dashboard" aria-label="Back to dashboard">
+              <ArrowLeft className="h-5 w-5" />
+            </Link>
+          </Button>
+          <h1 className="text-2xl font-bold">Notifications</h1>
+        </div>
+
+        <Card>
+          <CardHeader className="space-y-4">
+            <div className="flex items-center justify-between gap-2">
+              <CardTitle>Inbox</CardTitle>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleMarkAllRead}
+                disabled={markAllAsReadMutation.isPending}
+              >
+                {markAllAsReadMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Mark all read
+              </Button>
+            </div>
+            <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+              <Select value={type ?? ALL_TYPES} onValueChange={changeType}>
+                <SelectTrigger className="sm:w-56" aria-label="Notification type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_TYPES}>All notifications</SelectItem>
+                  {NOTIFICATION_TYPES.map(notificationType => (
+                    <SelectItem key={notificationType} value={notificationType}>
+                      {NOTIFICATION_TYPE_LABELS[notificationType]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div className="flex items-center gap-2">
+                <Switch id="unread-only" checked={unreadOnly} onCheckedChange={changeUnreadOnly} />
+                <Label htmlFor="unread-only">Unread only</Label>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="p-0">
+            {isLoading ? (
+              <div className="flex justify-center py-12">
+                <Loader2 className="h-8 w-8 animate-spin text-primary" />
+              </div>
+            ) : notifications.length > 0 ? (
+              <NotificationList notifications={notifications} onOpen={handleOpen} />
+            ) : (
+              <EmptyState
+                title={unreadOnly ? "No unread notifications" : "No notifications"}
+                description="Updates about your jobs and account will appear here."
+                icon={<Bell className="h-10 w-10 text-muted-foreground" />}
+              />
+            )}
+          </CardContent>
+        </Card>
+
+        {total > 0 && (
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-muted-foreground">
+              Page {page + 1} of {pageCount} · {total} notification{total === 1 ? "" : "s"}
+            </p>
+            <div className="flex items-center gap-2">
+              {isFetching && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => setPage(current => current - 1)}
+                disabled={page === 0}
+                aria-label="Previous page"
+              >
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => setPage(current => current + 1)}
+                disabled={page + 1 >= pageCount}
+                aria-label="Next page"
+              >
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+"use client";
+
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { OnboardingWizard } from "@/components/contractors/OnboardingWizard";
+import { useAuth } from "@/hooks/useAuth";
+import { ArrowLeft } from "lucide-react";
+
+export default function OnboardingPage() {
+  const { role, isLoading } = useAuth({ requiredRole: "CONTRACTOR" });
+
+  if (isLoading || !role) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto flex max-w-2xl flex-col items-center space-y-6 p-4 lg:p-8">
+        <div className="flex w-full items-center gap-2">
+          <Button variant="ghost" size="icon" asChild>
+            <Link href="/dashboard" aria-label="Back to dashboard">
+              <ArrowLeft className="h-5 w-5" />
+            </Link>
+          </Button>
+          <h1 className="text-2xl font-bold">Get verified</h1>
+        </div>
+        <OnboardingWizard />
+      </div>
+    </div>
+  );
+}
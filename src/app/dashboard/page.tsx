@@ -1,11 +1,17 @@
 "use client";
 
 import { useState, useEffect } from "react";
+import Link from "next/link";
 import { useRouter } from "next/navigation";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { useSupabase } from "@/components/SupabaseContext";
 import { useAuth } from "@/hooks/useAuth";
+import { OrganisationSwitcher } from "@/components/organisations/OrganisationSwitcher";
+import { ManagedLocationsCard } from "@/components/locations/ManagedLocationsCard";
+import { NotificationBell } from "@/components/notifications/NotificationBell";
+import { NotificationPreferencesCard } from "@/components/notifications/NotificationPreferencesCard";
+import { ConnectionStatus } from "@/components/realtime/ConnectionStatus";
 import { 
   Home, 
   User, 
@@ -18,11 +24,12 @@ import {
   Sun
 } from "lucide-react";
 import { useTheme } from "next-themes";
+import type { User as AppUser } from "@/lib/db/schema";
 
 export default function DashboardPage() {
   const router = useRouter();
   const { client: supabase } = useSupabase();
-  const { user, isLoading } = useAuth();
+  const { tofilUser: user, isLoading } = useAuth();
   const { theme, setTheme } = useTheme();
   const [activeTab, setActiveTab] = useState("home");
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
@@ -57,6 +64,8 @@ export default function DashboardPage() {
         <div className="flex items-center justify-between p-4">
           <h1 className="text-xl font-bold">Dashboard</h1>
           <div className="flex items-center gap-2">
+            <ConnectionStatus />
+            <NotificationBell />
             <Button
               variant="ghost"
               size="icon"
@@ -81,6 +90,9 @@ export default function DashboardPage() {
             </Button>
           </div>
         </div>
+        <div className="px-4 pb-4 empty:hidden">
+          <OrganisationSwitcher />
+        </div>
       </div>
 
       {/* Mobile Menu */}
@@ -139,8 +151,15 @@ export default function DashboardPage() {
         {/* Sidebar */}
         <div className="w-64 border-r bg-muted/10">
           <div className="flex flex-col h-full">
-            <div className="p-6 border-b">
-              <h1 className="text-2xl font-bold">Dashboard</h1>
+            <div className="p-6 border-b space-y-4">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-3">
+                  <h1 className="text-2xl font-bold">Dashboard</h1>
+                  <ConnectionStatus />
+                </div>
+                <NotificationBell align="start" />
+              </div>
+              <OrganisationSwitcher />
             </div>
             <nav className="flex-1 p-4">
               <div className="space-y-2">
@@ -205,7 +224,7 @@ export default function DashboardPage() {
   );
 }
 
-function DashboardContent({ activeTab, user }: { activeTab: string; user: { supabaseUser: { email?: string } | null } }) {
+function DashboardContent({ activeTab, user }: { activeTab: string; user: AppUser }) {
   const content = {
     home: (
       <div className="space-y-6">
@@ -246,6 +265,33 @@ function DashboardContent({ activeTab, user }: { activeTab: string; user: { supa
               <p className="text-xs text-muted-foreground">5 completed this week</p>
             </CardContent>
           </Card>
+          {user.type === "MANAGER" && <ManagedLocationsCard />}
+          {(user.type === "OWNER" || user.type === "ADMIN") && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Location managers</CardTitle>
+                <CardDescription>Choose which managers look after each location</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Button variant="outline" asChild>
+                  <Link href="/dashboard/locations">Assign managers</Link>
+                </Button>
+              </CardContent>
+            </Card>
+          )}
+          {(user.type === "OWNER" || user.type === "ADMIN") && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Trash</CardTitle>
+                <CardDescription>Restore deleted jobs and locations</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Button variant="outline" asChild>
+                  <Link href="/dashboard/trash">Open Trash</Link>
+                </Button>
+              </CardContent>
+            </Card>
+          )}
         </div>
       </div>
     ),
@@ -272,8 +318,8 @@ function DashboardContent({ activeTab, user }: { activeTab: string; user: { supa
             <div>
               <Label className="text-sm text-muted-foreground">Created At</Label>
               <p className="text-sm">
-                {user?.created_at 
-                  ? new Date(user.created_at).toLocaleDateString() 
+                {user?.createdAt 
+                  ? new Date(user.createdAt).toLocaleDateString() 
                   : "Unknown"}
               </p>
             </div>
@@ -346,21 +392,7 @@ function DashboardContent({ activeTab, user }: { activeTab: string; user: { supa
               </div>
             </CardContent>
           </Card>
-          <Card>
-            <CardHeader>
-              <CardTitle>Notifications</CardTitle>
-              <CardDescription>Configure notification preferences</CardDescription>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              <div className="flex items-center justify-between">
-                <div>
-                  <p className="font-medium">Email Notifications</p>
-                  <p className="text-sm text-muted-foreground">Receive updates via email</p>
-                </div>
-                <p className="text-sm">Enabled</p>
-              </div>
-            </CardContent>
-          </Card>
+          <NotificationPreferencesCard />
         </div>
       </div>
     ),
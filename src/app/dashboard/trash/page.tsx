@@ -0,0 +1,155 @@
+"use client";
+
+import { useCallback, useMemo, useState } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ConfirmationDialog } from "@/components/ui/confirmation-dialog";
+import { EmptyState } from "@/components/ui/empty-state";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useToast } from "@/components/ui/useToast";
+import { TrashList, type TrashItem } from "@/components/trash/TrashList";
+import { OrganisationSwitcher } from "@/components/organisations/OrganisationSwitcher";
+import { useAuth } from "@/hooks/useAuth";
+import { useJobs } from "@/hooks/useJobs";
+import { useLocations } from "@/hooks/useLocations";
+import { useUndoableDelete } from "@/hooks/useUndoableDelete";
+import { TRASH_ROLES } from "@/lib/auth/rbac";
+import { canPurge } from "@/lib/trash/softDelete";
+import type { Job, Location } from "@/lib/db/schema";
+import type { ListOptions } from "@/hooks/useCrudFactory";
+import { ArrowLeft, Loader2, Trash2 } from "lucide-react";
+
+type TrashTab = "jobs" | "locations";
+
+const TAB_LABELS: Record<TrashTab, string> = {
+  jobs: "Jobs",
+  locations: "Locations",
+};
+
+// Only what's in the Trash, most recently deleted first
+const JOB_OPTIONS: ListOptions<Job> = {
+  includeDeleted: true,
+  filters: { deletedAt: { isNot: null } },
+  orderBy: { column: "deletedAt", ascending: false },
+};
+
+const LOCATION_OPTIONS: ListOptions<Location> = {
+  includeDeleted: true,
+  filters: { deletedAt: { isNot: null } },
+  orderBy: { column: "deletedAt", ascending: false },
+};
+
+export default function TrashPage() {
+  const { role, isLoading: authLoading } = useAuth({ requiredRole: TRASH_ROLES });
+  const { toast } = useToast();
+  const [tab, setTab] = useState<TrashTab>("jobs");
+  const [purging, setPurging] = useState<TrashItem | null>(null);
+
+  const jobs = useJobs(JOB_OPTIONS);
+  const locations = useLocations(LOCATION_OPTIONS);
+  const jobActions = useUndoableDelete(jobs);
+  const locationActions = useUndoableDelete(locations);
+
+  const active = tab === "jobs" ? jobs : locations;
+  const { restoreWithUndo } = tab === "jobs" ? jobActions : locationActions;
+
+  const items = useMemo<TrashItem[]>(() => tab === "jobs"
+    ? (jobs.data ?? []).map(job => ({ id: job.id, label: job.title, detail: job.category, deletedAt: job.deletedAt }))
+    : (locations.data ?? []).map(location => ({
+      id: location.id,
+      label: location.name,
+      detail: location.address,
+      deletedAt: location.deletedAt,
+    })), [tab, jobs.data, locations.data]);
+
+  const handlePurge = useCallback(async () => {
+    if (!purging) return;
+    try {
+      await active.purgeItemAsync(purging.id);
+      toast({ title: "Deleted forever", description: purging.label });
+    } catch {
+      // Rolled back and reported by the hook
+    }
+  }, [active, purging, toast]);
+
+  if (authLoading || !role) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  const busyId = active.restoreMutation.isPending
+    ? active.restoreMutation.variables
+    : active.purgeMutation.isPending ? active.purgeMutation.variables : null;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto max-w-4xl space-y-6 p-4 lg:p-8">
+        <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+          <div className="flex items-center gap-2">
+            <Button variant="ghost" size="icon" asChild>
+              <Link href="/dashboard" aria-label="Back to dashboard">
+                <ArrowLeft className="h-5 w-5" />
+              </Link>
+            </Button>
+            <h1 className="text-2xl font-bold">Trash</h1>
+          </div>
+          <OrganisationSwitcher className="sm:w-64" />
+        </div>
+
+        <Card>
+          <CardHeader className="space-y-4">
+            <div>
+              <CardTitle>Deleted items</CardTitle>
+              <CardDescription>
+                Deleted jobs and locations stay here until an admin deletes them for good. Restore them to bring
+                them back where they were.
+              </CardDescription>
+            </div>
+            <Tabs value={tab} onValueChange={value => setTab(value as TrashTab)}>
+              <TabsList>
+                {(Object.keys(TAB_LABELS) as TrashTab[]).map(value => (
+                  <TabsTrigger key={value} value={value}>{TAB_LABELS[value]}</TabsTrigger>
+                ))}
+              </TabsList>
+            </Tabs>
+          </CardHeader>
+          <CardContent>
+            {active.isLoading ? (
+              <div className="flex justify-center py-12">
+                <Loader2 className="h-8 w-8 animate-spin text-primary" />
+              </div>
+            ) : items.length > 0 ? (
+              <TrashList
+                items={items}
+                onRestore={item => restoreWithUndo(item.id, item.label)}
+                onPurge={canPurge(role) ? setPurging : undefined}
+                busyId={busyId}
+              />
+            ) : (
+              <EmptyState
+                title="Trash is empty"
+                description={`Deleted ${TAB_LABELS[tab].toLowerCase()} will appear here.`}
+                icon={<Trash2 className="h-10 w-10 text-muted-foreground" />}
+              />
+            )}
+          </CardContent>
+        </Card>
+
+        <ConfirmationDialog
+          open={!!purging}
+          onOpenChange={open => !open && setPurging(null)}
+          title="Delete forever?"
+          description={`${purging?.label ?? "This item"} will be permanently deleted. This can't be undone.`}
+          confirmText="Delete forever"
+          variant="destructive"
+          onConfirm={handlePurge}
+          isLoading={active.purgeMutation.isPending}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { formatDistanceToNow } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { getEmailTransportName, getOutbox } from "@/lib/email/transport";
+import { cn } from "@/lib/utils";
+
+// Always read the outbox fresh
+export const dynamic = "force-dynamic";
+
+interface OutboxPageProps {
+  searchParams: Promise<{ id?: string; view?: string }>;
+}
+
+/**
+ * Development-only preview of emails written to the local outbox
+ * (EMAIL_TRANSPORT=outbox, the default outside production)
+ */
+export default async function OutboxPage({ searchParams }: OutboxPageProps) {
+  if (process.env.NODE_ENV === "production") {
+    notFound();
+  }
+
+  const { id, view } = await searchParams;
+  const outbox = getOutbox();
+  const messages = await outbox.list();
+  const selected = (id ? await outbox.get(id) : null) ?? messages[0] ?? null;
+  const showText = view === "text";
+  const transportName = getEmailTransportName();
+
+  const hrefFor = (messageId: string, textView = showText) =>
+    `/dev/outbox?id=${messageId}${textView ? "&view=text" : ""}`;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto space-y-6 p-4 lg:p-8">
+        <div>
+          <h1 className="text-2xl font-bold">Email outbox</h1>
+          <p className="text-sm text-muted-foreground">
+            Emails written to the local outbox instead of being sent.
+            {transportName !== "outbox" && (
+              <> The current transport is <code>{transportName}</code>, so new emails won&apos;t appear here.</>
+            )}
+          </p>
+        </div>
+
+        {messages.length === 0 ? (
+          <Card>
+            <CardHeader>
+              <CardTitle>No emails yet</CardTitle>
+              <CardDescription>
+                Trigger a notification or invitation and it will show up here. Delete the <code>.outbox</code> folder
+                to clear it.
+              </CardDescription>
+            </CardHeader>
+          </Card>
+        ) : (
+          <div className="grid gap-6 lg:grid-cols-[minmax(0,1fr)_minmax(0,2fr)]">
+            <Card>
+              <CardHeader>
+                <CardTitle>Messages</CardTitle>
+                <CardDescription>{messages.length} sent, newest first</CardDescription>
+              </CardHeader>
+              <CardContent className="p-0">
+                <ul className="divide-y">
+                  {messages.map(message => (
+                    <li key={message.id}>
+                      <Link
+                        href={hrefFor(message.id)}
+                        className={cn(
+                          "block px-4 py-3 transition-colors hover:bg-muted/50",
+                          message.id === selected?.id && "bg-muted"
+                        )}
+                      >
+                        <p className="truncate font-medium">{message.subject}</p>
+                        <p className="truncate text-sm text-muted-foreground">{message.to}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {formatDistanceToNow(new Date(message.sentAt), { addSuffix: true })}
+                        </p>
+                      </Link>
+                    </li>
+                  ))}
+                </ul>
+              </CardContent>
+            </Card>
+
+            {selected && (
+              <Card>
+                <CardHeader className="space-y-2">
+                  <CardTitle>{selected.subject}</CardTitle>
+                  <CardDescription>
+                    To {selected.to} · {new Date(selected.sentAt).toLocaleString()}
+                  </CardDescription>
+                  <div className="flex gap-2">
+                    <Link href={hrefFor(selected.id, false)}>
+                      <Badge variant={showText ? "outline" : "default"}>HTML</Badge>
+                    </Link>
+                    <Link href={hrefFor(selected.id, true)}>
+                      <Badge variant={showText ? "default" : "outline"}>Text</Badge>
+                    </Link>
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  {showText ? (
+                    <pre className="whitespace-pre-wrap rounded-md border bg-muted/30 p-4 text-sm">{selected.text}</pre>
+                  ) : (
+                    // Sandboxed so the email's markup can't run scripts or reach the app
+                    <iframe
+                      title={selected.subject}
+                      srcDoc={selected.html}
+                      sandbox=""
+                      className="h-[600px] w-full rounded-md border bg-white"
+                    />
+                  )}
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
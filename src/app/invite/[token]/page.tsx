@@ -0,0 +1,82 @@
+"use client";
+
+import { useEffect } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { SignupForm } from "@/components/auth/SignupForm";
+import { useUser } from "@/components/UserContext";
+import { apiFetch } from "@/lib/api/client";
+import { userInvitationKeys } from "@/lib/queryKeys";
+import type { InvitationDetails } from "@/lib/services/invitations";
+import type { InvitationStatus } from "@/lib/db/schema";
+import { Loader2, MailX } from "lucide-react";
+
+const unavailableMessages: Record<Exclude<InvitationStatus, "pending">, string> = {
+  completed: "This invitation has already been accepted. Sign in to continue.",
+  expired: "This invitation has expired. Ask whoever invited you to send a new one.",
+  revoked: "This invitation has been withdrawn. Contact whoever invited you if you think this is a mistake.",
+};
+
+export default function InvitePage() {
+  const { token } = useParams<{ token: string }>();
+
+  const { data: invitation, isLoading, error } = useQuery({
+    queryKey: userInvitationKeys.byToken(token),
+    queryFn: () => apiFetch<InvitationDetails>(`/api/invitations/accept/${token}`),
+    retry: false,
+  });
+
+  // Invitees land back here from the confirmation email, signed in: accept
+  // the invitation for them and reload so the new users row is picked up
+  const { supabaseUser, isLoading: userLoading } = useUser();
+  const accept = useMutation({
+    mutationFn: () => apiFetch<InvitationDetails>(`/api/invitations/accept/${token}`, { method: "POST" }),
+    onSuccess: () => window.location.assign("/dashboard"),
+  });
+  const signedInAsInvitee = invitation?.status === "pending"
+    && supabaseUser?.email?.toLowerCase() === invitation.email.toLowerCase();
+  const { mutate: acceptInvitation, isIdle: acceptIdle } = accept;
+
+  useEffect(() => {
+    if (signedInAsInvitee && acceptIdle) acceptInvitation();
+  }, [signedInAsInvitee, acceptIdle, acceptInvitation]);
+
+  if (isLoading || userLoading || (signedInAsInvitee && !accept.isError)) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (invitation?.status === "pending" && !accept.isError) {
+    return <SignupForm invitation={{ token, email: invitation.email, name: invitation.name }} />;
+  }
+
+  const message = accept.error?.message
+    ?? (invitation && invitation.status !== "pending"
+      ? unavailableMessages[invitation.status]
+      : error?.message || "This invitation link is not valid.");
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4 bg-gradient-to-b from-background to-muted/20">
+      <Card className="w-full max-w-md text-center">
+        <CardHeader className="space-y-4">
+          <div className="flex justify-center text-muted-foreground">
+            <MailX className="h-16 w-16" />
+          </div>
+          <CardTitle className="text-2xl">Invitation unavailable</CardTitle>
+          <CardDescription>{message}</CardDescription>
+        </CardHeader>
+        <CardFooter className="flex flex-col sm:flex-row gap-2">
+          <Button asChild className="w-full sm:w-auto">
+            <Link href="/login">Go to Login</Link>
+          </Button>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+}
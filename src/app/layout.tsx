@@ -5,6 +5,7 @@ import { ThemeProvider } from "@/components/ThemeProvider";
 import { UserProvider } from "@/components/UserContext";
 import { Toaster } from "@/components/ui/toaster";
 import { SupabaseProvider } from "@/components/SupabaseContext";
+import { RealtimeProvider } from "@/components/RealtimeContext";
 import { QueryClientProviderWrapper } from "./providers/query-client-provider";
 import { ErrorBoundary } from "@/components/ErrorBoundary";
 import { UpdateNotification } from "@/components/UpdateNotification";
@@ -56,16 +57,18 @@ export default function RootLayout({
           <SupabaseProvider>
             <UserProvider>
               <QueryClientProviderWrapper>
-                <ThemeProvider
-                  attribute="class"
-                  defaultTheme="dark"
-                  enableSystem
-                  disableTransitionOnChange
-                >
-                  {children}
-                  <Toaster />
-                  <UpdateNotification />
-                </ThemeProvider>
+                <RealtimeProvider>
+                  <ThemeProvider
+                    attribute="class"
+                    defaultTheme="dark"
+                    enableSystem
+                    disableTransitionOnChange
+                  >
+                    {children}
+                    <Toaster />
+                    <UpdateNotification />
+                  </ThemeProvider>
+                </RealtimeProvider>
               </QueryClientProviderWrapper>
             </UserProvider>
           </SupabaseProvider>
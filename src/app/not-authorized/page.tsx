@@ -0,0 +1,30 @@
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Card, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Home, ShieldAlert } from "lucide-react";
+
+export default function NotAuthorized() {
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4 bg-gradient-to-b from-background to-muted/20">
+      <Card className="w-full max-w-md text-center">
+        <CardHeader className="space-y-4">
+          <div className="flex justify-center text-destructive">
+            <ShieldAlert className="h-16 w-16" />
+          </div>
+          <CardTitle className="text-2xl">Not Authorized</CardTitle>
+          <CardDescription>
+            You don&apos;t have permission to view this page. If you think this is a mistake, contact your administrator.
+          </CardDescription>
+        </CardHeader>
+        <CardFooter className="flex flex-col sm:flex-row gap-2">
+          <Button asChild className="w-full sm:w-auto">
+            <Link href="/dashboard">
+              <Home className="mr-2 h-4 w-4" />
+              Back to Dashboard
+            </Link>
+          </Button>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+}
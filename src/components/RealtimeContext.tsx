@@ -0,0 +1,152 @@
+"use client";
+
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { useSupabase } from '@/components/SupabaseContext';
+import { useUser } from '@/components/UserContext';
+import { useToast } from '@/components/ui/useToast';
+import {
+  getAllRealtimeKeys,
+  getInvalidationKeys,
+  getRealtimeToast,
+  getReconnectDelay,
+  REALTIME_TABLES,
+  type RealtimeChange,
+  type RealtimeStatus,
+} from '@/lib/realtime/changes';
+
+const RealtimeContext = createContext<RealtimeStatus>('disconnected');
+
+/**
+ * Subscribes the signed-in user to realtime changes on jobs, notifications
+ * and job files, keeping React Query in sync and toasting new notifications
+ *
+ * When the channel errors or times out it is torn down and resubscribed with
+ * backoff; once it's back every realtime query is refetched to pick up
+ * anything missed while disconnected.
+ */
+export function RealtimeProvider({ children }: { children: React.ReactNode }) {
+  const { client } = useSupabase();
+  const { tofilUser } = useUser();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [status, setStatus] = useState<RealtimeStatus>('disconnected');
+  const userId = tofilUser?.id;
+
+  useEffect(() => {
+    if (!userId) {
+      setStatus('disconnected');
+      return;
+    }
+
+    let channel: RealtimeChannel | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | null = null;
+    let attempt = 0;
+    let hasDropped = false;
+    let stopped = false;
+
+    const handleChange = (change: RealtimeChange) => {
+      for (const queryKey of getInvalidationKeys(change, userId)) {
+        queryClient.invalidateQueries({ queryKey });
+      }
+      const notification = getRealtimeToast(change, userId);
+      if (notification) {
+        toast(notification);
+      }
+    };
+
+    const teardown = () => {
+      if (retryTimer) {
+        clearTimeout(retryTimer);
+        retryTimer = null;
+      }
+      if (channel) {
+        client.removeChannel(channel);
+        channel = null;
+      }
+    };
+
+    const scheduleReconnect = () => {
+      teardown();
+      hasDropped = true;
+      if (typeof navigator !== 'undefined' && !navigator.onLine) {
+        // Wait for the browser's online event instead of retrying blindly
+        setStatus('disconnected');
+        return;
+      }
+      setStatus('reconnecting');
+      retryTimer = setTimeout(connect, getReconnectDelay(attempt++));
+    };
+
+    function connect() {
+      if (stopped) return;
+      teardown();
+      setStatus(hasDropped ? 'reconnecting' : 'connecting');
+
+      const current = client.channel(`realtime:${userId}`);
+      for (const table of REALTIME_TABLES) {
+        current.on(
+          'postgres_changes',
+          {
+            event: '*',
+            schema: 'public',
+            table,
+            ...(table === 'notifications' ? { filter: `user_id=eq.${userId}` } : {}),
+          },
+          payload => handleChange(payload as unknown as RealtimeChange)
+        );
+      }
+
+      channel = current;
+      current.subscribe((state, error) => {
+        // Ignore channels that have since been torn down
+        if (stopped || channel !== current) return;
+        if (state === 'SUBSCRIBED') {
+          setStatus('connected');
+          attempt = 0;
+          if (hasDropped) {
+            hasDropped = false;
+            for (const queryKey of getAllRealtimeKeys(userId!)) {
+              queryClient.invalidateQueries({ queryKey });
+            }
+          }
+        } else if (state === 'CHANNEL_ERROR' || state === 'TIMED_OUT') {
+          if (error) console.warn('Realtime channel error:', error);
+          scheduleReconnect();
+        } else if (state === 'CLOSED') {
+          scheduleReconnect();
+        }
+      });
+    }
+
+    const handleOnline = () => {
+      attempt = 0;
+      connect();
+    };
+    const handleOffline = () => {
+      teardown();
+      hasDropped = true;
+      setStatus('disconnected');
+    };
+
+    connect();
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+
+    return () => {
+      stopped = true;
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      teardown();
+    };
+  }, [client, queryClient, toast, userId]);
+
+  return (
+    <RealtimeContext.Provider value={status}>
+      {children}
+    </RealtimeContext.Provider>
+  );
+}
+
+export const useRealtimeStatus = () => useContext(RealtimeContext);
@@ -0,0 +1,28 @@
+"use client";
+
+import React from "react";
+import { useUser } from "@/components/UserContext";
+import type { UserType } from "@/lib/db/schema";
+
+interface RequireRoleProps {
+  roles: UserType | readonly UserType[];
+  children: React.ReactNode;
+  fallback?: React.ReactNode;
+}
+
+/**
+ * Render children only when the current user has one of the given roles
+ *
+ * This hides UI only; routes are protected by the middleware and data by
+ * row-level security.
+ */
+export function RequireRole({ roles, children, fallback = null }: RequireRoleProps) {
+  const { tofilUser, isLoading } = useUser();
+
+  if (isLoading || !tofilUser) {
+    return <>{fallback}</>;
+  }
+
+  const allowed = typeof roles === "string" ? roles === tofilUser.type : roles.includes(tofilUser.type);
+  return <>{allowed ? children : fallback}</>;
+}
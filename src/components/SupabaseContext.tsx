@@ -8,6 +8,8 @@ import { Database } from '@/types/drizzle';
 import { useRouter } from 'next/navigation';
 import { camelizeKeys } from 'humps';
 import { getUserFriendlyError } from '@/lib/error-handling';
+import { isClientOutdated } from '@/lib/version';
+import { OutdatedClientError } from '@/types/errors';
 
 // Context
 const SupabaseContext = createContext<SupabaseClient<Database> | null>(null);
@@ -92,6 +94,17 @@ export function useSupabase<T = unknown>() {
         error: PostgrestError | null;
       }>
     ): Promise<{ data: R | null; error: PostgrestError | null; loading: boolean }> => {
+      // Refuse writes from clients older than the minimum supported version
+      if (isClientOutdated()) {
+        const { message } = new OutdatedClientError();
+        toast({
+          title: 'Update required',
+          description: message,
+          variant: 'destructive',
+        });
+        return { data: null, error: { message } as PostgrestError, loading: false };
+      }
+
       setLoading(true);
       try {
         const { data, error } = await mutationFn(client);
@@ -6,10 +6,11 @@ import { RefreshCw, X } from 'lucide-react';
 import { useState } from 'react';
 
 export function UpdateNotification() {
-  const { updateAvailable, reload } = useVersionCheck();
+  const { updateAvailable, updateRequired, reload } = useVersionCheck();
   const [isDismissed, setIsDismissed] = useState(false);
 
-  if (!updateAvailable || isDismissed) {
+  // Forced updates can't be dismissed
+  if (!updateAvailable || (isDismissed && !updateRequired)) {
     return null;
   }
 
@@ -21,9 +22,13 @@ export function UpdateNotification() {
         </div>
         
         <div className="flex-1 min-w-0">
-          <p className="font-semibold text-sm">New version available!</p>
+          <p className="font-semibold text-sm">
+            {updateRequired ? 'Update required' : 'New version available!'}
+          </p>
           <p className="text-xs opacity-90 mt-0.5 break-words">
-            We&apos;ve shipped new features and improvements. Reload to update.
+            {updateRequired
+              ? 'This version is no longer supported. Reload to keep saving changes.'
+              : "We've shipped new features and improvements. Reload to update."}
           </p>
         </div>
         
@@ -38,15 +43,17 @@ export function UpdateNotification() {
             Reload
           </Button>
           
-          <Button
-            size="icon"
-            variant="ghost"
-            onClick={() => setIsDismissed(true)}
-            className="h-8 w-8 text-primary-foreground hover:bg-primary-foreground/20"
-            aria-label="Dismiss update notification"
-          >
-            <X className="h-4 w-4" />
-          </Button>
+          {!updateRequired && (
+            <Button
+              size="icon"
+              variant="ghost"
+              onClick={() => setIsDismissed(true)}
+              className="h-8 w-8 text-primary-foreground hover:bg-primary-foreground/20"
+              aria-label="Dismiss update notification"
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          )}
         </div>
       </div>
     </div>
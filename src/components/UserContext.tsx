@@ -1,31 +1,76 @@
 "use client";
 
-import React, { createContext, useContext, useState, useEffect } from "react";
+import React, { createContext, useContext, useState, useEffect, useCallback } from "react";
 import { User as SupabaseUser } from '@supabase/supabase-js';
 import { useSupabase } from '@/components/SupabaseContext';
 import { useRouter } from 'next/navigation';
+import { camelizeKeys } from "humps";
 import { type Profile } from "@/types/drizzle";
+import { type Organisation, type User } from "@/lib/db/schema";
+import {
+  ACTIVE_ORGANISATION_STORAGE_KEY,
+  canViewAllOrganisations,
+  resolveActiveOrganisationId,
+} from "@/lib/organisations/scope";
 
 export type UserContextType = {
   supabaseUser: SupabaseUser | null;
   profile: Profile | null;
+  tofilUser: User | null;
   setUser: (user: { supabaseUser: SupabaseUser | null; profile: Profile | null }) => void;
   isLoading: boolean;
   signOut: () => Promise<void>;
+  // Organisations the user can see and the one CRUD hooks are scoped to
+  organisations: Organisation[];
+  activeOrganisationId: string | null;
+  setActiveOrganisationId: (organisationId: string | null) => void;
+  isOrganisationLoading: boolean;
+};
+
+const readStoredOrganisationId = () => {
+  if (typeof window === 'undefined') return null;
+  try {
+    return window.localStorage.getItem(ACTIVE_ORGANISATION_STORAGE_KEY);
+  } catch {
+    return null;
+  }
+};
+
+const storeOrganisationId = (organisationId: string | null) => {
+  if (typeof window === 'undefined') return;
+  try {
+    if (organisationId) {
+      window.localStorage.setItem(ACTIVE_ORGANISATION_STORAGE_KEY, organisationId);
+    } else {
+      window.localStorage.removeItem(ACTIVE_ORGANISATION_STORAGE_KEY);
+    }
+  } catch (error) {
+    console.warn('Error saving active organisation:', error);
+  }
 };
 
 const UserContext = createContext<UserContextType>({
   supabaseUser: null,
   profile: null,
+  tofilUser: null,
   setUser: () => {},
   isLoading: true,
   signOut: async () => {},
+  organisations: [],
+  activeOrganisationId: null,
+  setActiveOrganisationId: () => {},
+  isOrganisationLoading: false,
 });
 
 export function UserProvider({ children }: { children: React.ReactNode }) {
   const [supabaseUser, setSupabaseUser] = useState<SupabaseUser | null>(null);
   const [profile, setProfile] = useState<Profile | null>(null);
+  const [tofilUser, setTofilUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [userLoadedFor, setUserLoadedFor] = useState<string | null>(null);
+  const [organisations, setOrganisations] = useState<Organisation[]>([]);
+  const [activeOrganisationId, setActiveOrganisationIdState] = useState<string | null>(null);
+  const [organisationsLoadedFor, setOrganisationsLoadedFor] = useState<string | null>(null);
   const { client: supabase } = useSupabase();
   const router = useRouter();
 
@@ -34,12 +79,25 @@ export function UserProvider({ children }: { children: React.ReactNode }) {
     setProfile(profile);
   };
 
+  // Only organisations the user can see, or none for admins viewing them all
+  const setActiveOrganisationId = useCallback((organisationId: string | null) => {
+    const role = tofilUser?.type ?? null;
+    if (organisationId === null ? !canViewAllOrganisations(role) : !organisations.some(o => o.id === organisationId)) {
+      return;
+    }
+    setActiveOrganisationIdState(organisationId);
+    storeOrganisationId(organisationId);
+  }, [organisations, tofilUser?.type]);
+
   const signOut = async () => {
     setIsLoading(true);
     try {
       await supabase.auth.signOut();
       setSupabaseUser(null);
       setProfile(null);
+      setTofilUser(null);
+      setOrganisations([]);
+      setActiveOrganisationIdState(null);
       router.push('/login');
     } catch (error) {
       console.error('Error signing out:', error);
@@ -65,13 +123,80 @@ export function UserProvider({ children }: { children: React.ReactNode }) {
       }
     };
 
+    // The users row carries the role (`type`) used for access control
+    const fetchTofilUser = async (supabaseUser: SupabaseUser) => {
+      try {
+        const { data } = await supabase
+          .from("users")
+          .select("*")
+          .eq("id", supabaseUser.id)
+          .single();
+
+        setTofilUser(data ? camelizeKeys(data as object) as User : null);
+      } catch (error) {
+        console.error("Error fetching user record:", error);
+        setTofilUser(null);
+      } finally {
+        setUserLoadedFor(supabaseUser.id);
+      }
+    };
+
     if (supabaseUser) {
       fetchUserProfile(supabaseUser);
+      fetchTofilUser(supabaseUser);
     } else {
       setProfile(null);
+      setTofilUser(null);
     }
   }, [supabaseUser, supabase]);
 
+  // Row-level security limits organisations to the ones the user belongs to
+  // or owns (admins see every organisation), so no membership filter is needed
+  useEffect(() => {
+    if (!tofilUser || tofilUser.type === 'CONTRACTOR') {
+      setOrganisations([]);
+      setActiveOrganisationIdState(null);
+      return;
+    }
+
+    let cancelled = false;
+    const fetchOrganisations = async () => {
+      try {
+        const { data, error } = await supabase
+          .from("organisations")
+          .select("*")
+          .is("deleted_at", null)
+          .order("name");
+        if (error) throw error;
+        if (cancelled) return;
+
+        const visible = camelizeKeys(data ?? []) as Organisation[];
+        setOrganisations(visible);
+        setActiveOrganisationIdState(resolveActiveOrganisationId(visible, readStoredOrganisationId(), tofilUser.type));
+      } catch (error) {
+        console.error("Error fetching organisations:", error);
+        if (!cancelled) {
+          setOrganisations([]);
+          setActiveOrganisationIdState(null);
+        }
+      } finally {
+        if (!cancelled) setOrganisationsLoadedFor(tofilUser.id);
+      }
+    };
+
+    fetchOrganisations();
+    return () => {
+      cancelled = true;
+    };
+  }, [tofilUser, supabase]);
+
+  // Scoped queries wait until the active organisation is known
+  const isOrganisationLoading = !!tofilUser && tofilUser.type !== 'CONTRACTOR' && organisationsLoadedFor !== tofilUser.id;
+
+  // The role comes from the users row, so a signed-in user isn't loaded until
+  // it has been fetched (or failed to)
+  const isUserLoading = !!supabaseUser && userLoadedFor !== supabaseUser.id;
+
   // Listen to auth state changes
   useEffect(() => {
     setIsLoading(true);
@@ -81,6 +206,7 @@ export function UserProvider({ children }: { children: React.ReactNode }) {
       } else {
         setSupabaseUser(null);
         setProfile(null);
+        setTofilUser(null);
       }
       setIsLoading(false);
     });
@@ -94,9 +220,14 @@ export function UserProvider({ children }: { children: React.ReactNode }) {
     <UserContext.Provider value={{
       supabaseUser,
       profile,
+      tofilUser,
       setUser,
-      isLoading,
+      isLoading: isLoading || isUserLoading,
       signOut,
+      organisations,
+      activeOrganisationId,
+      setActiveOrganisationId,
+      isOrganisationLoading,
     }}>
       {children}
     </UserContext.Provider>
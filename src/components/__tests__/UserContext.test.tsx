@@ -0,0 +1,69 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import type { ReactNode } from 'react';
+import { UserProvider, useUser } from '../UserContext';
+
+vi.mock('next/navigation', () => ({
+  useRouter: () => ({ push: vi.fn() }),
+}));
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+let authCallback: (event: string, session: any) => void;
+let resolveUserRow: (row: object) => void;
+
+vi.mock('@/components/SupabaseContext', () => {
+  const builder = (table: string) => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const query: any = {
+      select: () => query,
+      eq: () => query,
+      is: () => query,
+      order: () => Promise.resolve({ data: [], error: null }),
+      single: () => table === 'users'
+        ? new Promise(resolve => { resolveUserRow = row => resolve({ data: row, error: null }); })
+        : Promise.resolve({ data: null, error: null }),
+    };
+    return query;
+  };
+  const client = {
+    from: builder,
+    auth: {
+      onAuthStateChange: (callback: typeof authCallback) => {
+        authCallback = callback;
+        return { data: { subscription: { unsubscribe: vi.fn() } } };
+      },
+    },
+  };
+  return { useSupabase: () => ({ client }) };
+});
+
+const wrapper = ({ children }: { children: ReactNode }) => <UserProvider>{children}</UserProvider>;
+
+describe('UserProvider', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should stay loading until the signed-in user\'s role has loaded', async () => {
+    const { result } = renderHook(() => useUser(), { wrapper });
+
+    act(() => authCallback('SIGNED_IN', { user: { id: 'user-1' } }));
+
+    expect(result.current.supabaseUser).toMatchObject({ id: 'user-1' });
+    expect(result.current.tofilUser).toBeNull();
+    expect(result.current.isLoading).toBe(true);
+
+    await act(async () => resolveUserRow({ id: 'user-1', type: 'OWNER' }));
+
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+    expect(result.current.tofilUser).toMatchObject({ type: 'OWNER' });
+  });
+
+  it('should finish loading straight away when signed out', () => {
+    const { result } = renderHook(() => useUser(), { wrapper });
+
+    act(() => authCallback('SIGNED_OUT', null));
+
+    expect(result.current.isLoading).toBe(false);
+  });
+});
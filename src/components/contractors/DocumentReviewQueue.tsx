@@ -0,0 +1,109 @@
+'use client';
+
+import { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { getContractorDocument } from '@/lib/contractors/documents';
+import type { PendingDocumentReview } from '@/hooks/useContractorDocuments';
+import { Check, ExternalLink, X } from 'lucide-react';
+
+interface DocumentReviewQueueProps {
+  reviews: PendingDocumentReview[];
+  onView: (review: PendingDocumentReview) => void;
+  onApprove: (review: PendingDocumentReview) => void;
+  onReject: (review: PendingDocumentReview, reason: string) => Promise<void>;
+  isPending?: boolean;
+}
+
+export function DocumentReviewQueue({ reviews, onView, onApprove, onReject, isPending }: DocumentReviewQueueProps) {
+  const [rejecting, setRejecting] = useState<PendingDocumentReview | null>(null);
+  const [reason, setReason] = useState('');
+
+  const closeRejectDialog = () => {
+    setRejecting(null);
+    setReason('');
+  };
+
+  const handleReject = async () => {
+    if (!rejecting || !reason.trim()) return;
+    try {
+      await onReject(rejecting, reason.trim());
+      closeRejectDialog();
+    } catch {
+      // The page shows the error; keep the dialog open so the reason isn't lost
+    }
+  };
+
+  return (
+    <>
+      <ul className="divide-y">
+        {reviews.map(review => (
+          <li key={review.id} className="flex flex-col gap-3 py-4 sm:flex-row sm:items-center sm:justify-between">
+            <div className="min-w-0">
+              <p className="font-medium">{getContractorDocument(review.documentType).label}</p>
+              <p className="truncate text-sm text-muted-foreground">
+                {review.user?.name ?? 'Unknown contractor'}
+                {review.user?.email && ` · ${review.user.email}`}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                Submitted {formatDistanceToNow(new Date(review.updatedAt), { addSuffix: true })}
+              </p>
+            </div>
+            <div className="flex shrink-0 gap-2">
+              <Button variant="outline" size="sm" onClick={() => onView(review)} disabled={!review.file}>
+                <ExternalLink className="mr-1 h-4 w-4" />
+                View
+              </Button>
+              <Button size="sm" onClick={() => onApprove(review)} disabled={isPending}>
+                <Check className="mr-1 h-4 w-4" />
+                Approve
+              </Button>
+              <Button variant="destructive" size="sm" onClick={() => setRejecting(review)} disabled={isPending}>
+                <X className="mr-1 h-4 w-4" />
+                Reject
+              </Button>
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      <Dialog open={!!rejecting} onOpenChange={(open) => !open && closeRejectDialog()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reject document</DialogTitle>
+            <DialogDescription>
+              {rejecting && `${getContractorDocument(rejecting.documentType).label} from ${rejecting.user?.name ?? 'this contractor'}. `}
+              The reason is emailed to the contractor.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="rejection-reason">Reason</Label>
+            <Textarea
+              id="rejection-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. The photo is blurry; the card number can't be read"
+              rows={4}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={closeRejectDialog}>Cancel</Button>
+            <Button variant="destructive" onClick={handleReject} disabled={!reason.trim() || isPending}>
+              Reject
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,67 @@
+'use client';
+
+import { useRef } from 'react';
+import { Badge, type BadgeProps } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import type { ContractorDocumentReview, DocumentReviewStatus } from '@/lib/db/schema';
+import { ALLOWED_DOCUMENT_MIME_TYPES } from '@/lib/contractors/documents';
+import { Loader2, Upload } from 'lucide-react';
+
+interface DocumentUploadFieldProps {
+  label: string;
+  review?: ContractorDocumentReview;
+  onSelect: (file: File) => void;
+  isUploading?: boolean;
+}
+
+const statusVariants: Record<DocumentReviewStatus, BadgeProps['variant']> = {
+  pending: 'secondary',
+  approved: 'default',
+  rejected: 'destructive',
+};
+
+const statusLabels: Record<DocumentReviewStatus, string> = {
+  pending: 'Awaiting review',
+  approved: 'Approved',
+  rejected: 'Rejected',
+};
+
+/**
+ * One compliance document: its review status and a button to upload or replace it
+ */
+export function DocumentUploadField({ label, review, onSelect, isUploading = false }: DocumentUploadFieldProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <div className="rounded-lg border p-4 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <p className="font-medium">{label}</p>
+        {review && <Badge variant={statusVariants[review.status]}>{statusLabels[review.status]}</Badge>}
+      </div>
+      {review?.status === 'rejected' && review.reason && (
+        <p className="text-sm text-destructive">{review.reason}</p>
+      )}
+      <input
+        ref={inputRef}
+        type="file"
+        accept={ALLOWED_DOCUMENT_MIME_TYPES.join(',')}
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) onSelect(file);
+          e.target.value = '';
+        }}
+      />
+      <Button
+        type="button"
+        variant={review ? 'outline' : 'default'}
+        size="sm"
+        disabled={isUploading}
+        onClick={() => inputRef.current?.click()}
+      >
+        {isUploading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+        {review ? 'Replace' : 'Upload'}
+      </Button>
+    </div>
+  );
+}
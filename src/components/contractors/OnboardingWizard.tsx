@@ -0,0 +1,238 @@
+'use client';
+
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ProgressIndicator } from '@/components/ui/progress-indicator';
+import { useToast } from '@/components/ui/useToast';
+import { DocumentUploadField } from '@/components/contractors/DocumentUploadField';
+import { useContractorDocuments } from '@/hooks/useContractorDocuments';
+import { getContractorDocument } from '@/lib/contractors/documents';
+import { contractorDetailsSchema } from '@/lib/contractors/schemas';
+import type { ContractorDocumentType } from '@/lib/db/schema';
+import { AlertCircle, CheckCircle2, Clock, Loader2 } from 'lucide-react';
+
+interface WizardStep {
+  title: string;
+  description: string;
+  documents: ContractorDocumentType[];
+  details?: boolean;
+}
+
+const STEPS: WizardStep[] = [
+  {
+    title: 'White card',
+    description: 'Upload a clear photo of both sides of your construction induction (white) card.',
+    documents: ['white_card_front', 'white_card_back'],
+  },
+  {
+    title: "Driver's licence",
+    description: "Upload a clear photo of both sides of your driver's licence.",
+    documents: ['license_front', 'license_back'],
+  },
+  {
+    title: 'Insurance & business details',
+    description: 'Upload your public liability insurance certificate and tell us where to pay you.',
+    documents: ['insurance'],
+    details: true,
+  },
+  {
+    title: 'Review',
+    description: 'An admin will check each document. You can claim jobs once everything is approved.',
+    documents: [],
+  },
+];
+
+/**
+ * Contractor onboarding: upload each compliance document, then track its review
+ */
+export function OnboardingWizard() {
+  const { toast } = useToast();
+  const {
+    documents,
+    reviews,
+    verification,
+    isLoading,
+    uploadDocumentAsync,
+    uploadMutation,
+    saveDetailsAsync,
+    detailsMutation,
+  } = useContractorDocuments();
+  const [step, setStep] = useState(0);
+  const [uploading, setUploading] = useState<ContractorDocumentType | null>(null);
+  const [details, setDetails] = useState<{ abn: string; bsb: string; accountNumber: string; insuranceExpiryDate: string } | null>(null);
+  const [detailErrors, setDetailErrors] = useState<Record<string, string>>({});
+
+  const current = STEPS[step];
+  const reviewFor = (type: ContractorDocumentType) => reviews.find(review => review.documentType === type);
+  const stepComplete = current.documents.every(type => reviewFor(type)) &&
+    (!current.details || (!!documents?.abn && !!documents.insuranceExpiryDate));
+
+  // Pre-fill from saved details the first time they're available
+  const detailValues = details ?? {
+    abn: documents?.abn ?? '',
+    bsb: documents?.bsb ?? '',
+    accountNumber: documents?.accountNumber ?? '',
+    insuranceExpiryDate: documents?.insuranceExpiryDate
+      ? format(new Date(documents.insuranceExpiryDate), 'yyyy-MM-dd')
+      : '',
+  };
+
+  const handleUpload = async (type: ContractorDocumentType, file: File) => {
+    setUploading(type);
+    try {
+      await uploadDocumentAsync({ type, file });
+      toast({ title: 'Document uploaded', description: `${getContractorDocument(type).label} is waiting for review.` });
+    } catch (error) {
+      toast({
+        title: 'Upload failed',
+        description: error instanceof Error ? error.message : undefined,
+        variant: 'destructive',
+      });
+    } finally {
+      setUploading(null);
+    }
+  };
+
+  const handleSaveDetails = async () => {
+    const result = contractorDetailsSchema.safeParse(detailValues);
+    if (!result.success) {
+      setDetailErrors(Object.fromEntries(result.error.issues.map(issue => [issue.path[0], issue.message])));
+      return false;
+    }
+    setDetailErrors({});
+    try {
+      await saveDetailsAsync(result.data);
+      setDetails(null);
+      return true;
+    } catch {
+      return false;
+    }
+  };
+
+  const handleNext = async () => {
+    if (current.details && !(await handleSaveDetails())) return;
+    setStep(s => Math.min(s + 1, STEPS.length - 1));
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <Card className="w-full max-w-2xl">
+      <CardHeader className="space-y-4">
+        <ProgressIndicator
+          variant="steps"
+          current={step + 1}
+          total={STEPS.length}
+          label={current.title}
+        />
+        <div>
+          <CardTitle>{current.title}</CardTitle>
+          <CardDescription>{current.description}</CardDescription>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {current.documents.map(type => (
+          <DocumentUploadField
+            key={type}
+            label={getContractorDocument(type).label}
+            review={reviewFor(type)}
+            onSelect={(file) => handleUpload(type, file)}
+            isUploading={uploading === type || (uploadMutation.isPending && uploading === null)}
+          />
+        ))}
+
+        {current.details && (
+          <div className="grid gap-4 sm:grid-cols-2">
+            {([
+              ['insuranceExpiryDate', 'Insurance expiry date', 'date'],
+              ['abn', 'ABN', 'text'],
+              ['bsb', 'BSB', 'text'],
+              ['accountNumber', 'Account number', 'text'],
+            ] as const).map(([field, label, type]) => (
+              <div key={field} className="space-y-2">
+                <Label htmlFor={`contractor-${field}`}>{label}</Label>
+                <Input
+                  id={`contractor-${field}`}
+                  type={type}
+                  inputMode={type === 'text' ? 'numeric' : undefined}
+                  value={detailValues[field]}
+                  onChange={(e) => setDetails({ ...detailValues, [field]: e.target.value })}
+                  disabled={detailsMutation.isPending}
+                />
+                {detailErrors[field] && <p className="text-sm text-destructive">{detailErrors[field]}</p>}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {step === STEPS.length - 1 && <VerificationSummary verification={verification} />}
+      </CardContent>
+      <CardFooter className="flex justify-between">
+        <Button variant="outline" onClick={() => setStep(s => Math.max(s - 1, 0))} disabled={step === 0}>
+          Back
+        </Button>
+        {step < STEPS.length - 1 && (
+          <Button onClick={handleNext} disabled={(!stepComplete && !current.details) || detailsMutation.isPending}>
+            {detailsMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Continue
+          </Button>
+        )}
+      </CardFooter>
+    </Card>
+  );
+}
+
+function VerificationSummary({ verification }: { verification: ReturnType<typeof useContractorDocuments>['verification'] }) {
+  if (verification.verified) {
+    return (
+      <Alert>
+        <CheckCircle2 className="h-4 w-4" />
+        <AlertDescription>You&apos;re verified and can claim jobs.</AlertDescription>
+      </Alert>
+    );
+  }
+
+  const label = (type: ContractorDocumentType) => getContractorDocument(type).label;
+
+  return (
+    <div className="space-y-3">
+      {verification.rejected.length > 0 && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            Please upload new copies of: {verification.rejected.map(label).join(', ')}.
+          </AlertDescription>
+        </Alert>
+      )}
+      {verification.missing.length > 0 && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>Still to upload: {verification.missing.map(label).join(', ')}.</AlertDescription>
+        </Alert>
+      )}
+      {verification.pending.length > 0 && (
+        <Alert>
+          <Clock className="h-4 w-4" />
+          <AlertDescription>Awaiting review: {verification.pending.map(label).join(', ')}.</AlertDescription>
+        </Alert>
+      )}
+      {verification.insuranceExpired && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>Your insurance has expired or has no expiry date set.</AlertDescription>
+        </Alert>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,186 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { decamelize } from 'humps';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useHistory } from '@/hooks/useHistory';
+import { cn } from '@/lib/utils';
+import { HISTORY_SOURCES, type HistoryEntity, type TimelineEntry } from '@/lib/history/timeline';
+import { FilePlus, FileMinus, History, Loader2, Pencil, Sparkles } from 'lucide-react';
+
+interface HistoryTimelineProps {
+  entity: HistoryEntity;
+  entityId: string;
+  /** Display names for fields, e.g. `{ ownerId: 'Owner' }` */
+  fieldLabels?: Record<string, string>;
+  /** Format a field value for display, e.g. to resolve IDs to names */
+  formatValue?: (field: string, value: unknown) => string;
+  className?: string;
+}
+
+const defaultLabel = (field: string) => {
+  const words = decamelize(field, { separator: ' ' }).replace(/ id$/, '');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+const defaultFormatValue = (_field: string, value: unknown) => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (Array.isArray(value)) return value.join(', ') || '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return String(value);
+};
+
+/**
+ * Timeline of changes to a record, with field-by-field diffs, file events and
+ * an "as of" date picker showing the record as it was at that point in time
+ */
+export function HistoryTimeline({
+  entity,
+  entityId,
+  fieldLabels = {},
+  formatValue = defaultFormatValue,
+  className,
+}: HistoryTimelineProps) {
+  const [asOfInput, setAsOfInput] = useState('');
+  // End of the chosen day, so changes made that day are included
+  const asOf = useMemo(() => (asOfInput ? new Date(`${asOfInput}T23:59:59.999`) : null), [asOfInput]);
+  const { data, timeline, versionAsOf, isLoading } = useHistory(entity, entityId, { asOf });
+
+  const changerNames = useMemo(() => {
+    const names = new Map<string, string>();
+    data?.forEach(row => {
+      if (row.changedBy && row.changedByUser) names.set(row.changedBy, row.changedByUser.name);
+    });
+    return names;
+  }, [data]);
+
+  const entries = useMemo(
+    () => timeline.filter(entry => !asOf || entry.at <= asOf).reverse(),
+    [timeline, asOf]
+  );
+
+  const label = (field: string) => fieldLabels[field] ?? defaultLabel(field);
+  const changer = (entry: TimelineEntry) =>
+    entry.changedBy ? changerNames.get(entry.changedBy) ?? 'Unknown user' : 'System';
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className={cn('space-y-4', className)}>
+      <div className="flex flex-wrap items-end gap-2">
+        <div className="space-y-2">
+          <Label htmlFor={`history-as-of-${entityId}`}>As of</Label>
+          <Input
+            id={`history-as-of-${entityId}`}
+            type="date"
+            value={asOfInput}
+            max={format(new Date(), 'yyyy-MM-dd')}
+            onChange={(e) => setAsOfInput(e.target.value)}
+            className="w-44"
+          />
+        </div>
+        {asOfInput && (
+          <Button variant="ghost" onClick={() => setAsOfInput('')}>
+            Show current
+          </Button>
+        )}
+      </div>
+
+      {asOf && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">As of {format(asOf, 'd MMM yyyy')}</CardTitle>
+            {!versionAsOf && <CardDescription>This record didn&apos;t exist yet.</CardDescription>}
+          </CardHeader>
+          {versionAsOf && (
+            <CardContent>
+              <dl className="grid gap-2 sm:grid-cols-[10rem_1fr]">
+                {HISTORY_SOURCES[entity].fields.map(field => (
+                  <div key={field} className="contents">
+                    <dt className="text-sm text-muted-foreground">{label(field)}</dt>
+                    <dd className="text-sm break-words">
+                      {formatValue(field, (versionAsOf as Record<string, unknown>)[field])}
+                    </dd>
+                  </div>
+                ))}
+              </dl>
+            </CardContent>
+          )}
+        </Card>
+      )}
+
+      {entries.length === 0 ? (
+        <div className="flex flex-col items-center py-8 text-center text-muted-foreground">
+          <History className="mb-2 h-8 w-8" />
+          <p className="text-sm">No history recorded yet.</p>
+        </div>
+      ) : (
+        <ol className="relative space-y-6 border-l pl-6">
+          {entries.map(entry => (
+            <li key={entry.id} className="relative">
+              <span className="absolute -left-[2.1rem] flex h-7 w-7 items-center justify-center rounded-full border bg-background">
+                <EntryIcon entry={entry} />
+              </span>
+              <div className="flex flex-wrap items-baseline justify-between gap-x-4">
+                <p className="text-sm font-medium">
+                  <EntryTitle entry={entry} />
+                </p>
+                <time className="text-xs text-muted-foreground" dateTime={entry.at.toISOString()}>
+                  {format(entry.at, 'd MMM yyyy, HH:mm')}
+                </time>
+              </div>
+              <p className="text-xs text-muted-foreground">by {changer(entry)}</p>
+              {entry.kind === 'updated' && (
+                <ul className="mt-2 space-y-1">
+                  {entry.changes.map(change => (
+                    <li key={change.field} className="text-sm">
+                      <span className="font-medium">{label(change.field)}:</span>{' '}
+                      <span className="text-muted-foreground line-through">{formatValue(change.field, change.from)}</span>
+                      {' → '}
+                      <span>{formatValue(change.field, change.to)}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
+
+function EntryIcon({ entry }: { entry: TimelineEntry }) {
+  const className = 'h-3.5 w-3.5';
+  switch (entry.kind) {
+    case 'created':
+      return <Sparkles className={className} />;
+    case 'updated':
+      return <Pencil className={className} />;
+    case 'file':
+      return entry.event === 'ADDED'
+        ? <FilePlus className={cn(className, 'text-success')} />
+        : <FileMinus className={cn(className, 'text-destructive')} />;
+  }
+}
+
+function EntryTitle({ entry }: { entry: TimelineEntry }) {
+  switch (entry.kind) {
+    case 'created':
+      return <>Created</>;
+    case 'updated':
+      return <>Updated {entry.changes.length} field{entry.changes.length === 1 ? '' : 's'}</>;
+    case 'file':
+      return <>{entry.event === 'ADDED' ? 'File added' : 'File removed'}: {entry.fileName ?? 'Unknown file'}</>;
+  }
+}
@@ -0,0 +1,104 @@
+'use client';
+
+import { useMemo } from 'react';
+import { ColumnDef } from '@tanstack/react-table';
+import { format } from 'date-fns';
+import { DataTable } from '@/components/ui/data-table';
+import { DataTableColumnHeader } from '@/components/ui/data-table-column-header';
+import { Badge, type BadgeProps } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import type { InvitationStatus } from '@/lib/db/schema';
+import { canApplyInvitationAction, type InvitationAction } from '@/lib/invitations/status';
+import type { ManagedInvitation } from '@/lib/services/invitations';
+
+interface InvitationsTableProps {
+  invitations: ManagedInvitation[];
+  onAction: (invitation: ManagedInvitation, action: InvitationAction) => void;
+  isPending?: boolean;
+}
+
+const statusVariants: Record<InvitationStatus, BadgeProps['variant']> = {
+  pending: 'default',
+  completed: 'secondary',
+  expired: 'outline',
+  revoked: 'destructive',
+};
+
+const actionLabels: Record<InvitationAction, string> = {
+  resend: 'Resend',
+  revoke: 'Revoke',
+  expire: 'Expire',
+};
+
+const statusFilterOptions = Object.keys(statusVariants).map(status => ({
+  label: status.charAt(0).toUpperCase() + status.slice(1),
+  value: status,
+}));
+
+/**
+ * Management table for sent invitations, with resend/revoke/expire actions
+ */
+export function InvitationsTable({ invitations, onAction, isPending = false }: InvitationsTableProps) {
+  const columns = useMemo<ColumnDef<ManagedInvitation>[]>(() => [
+    {
+      accessorKey: 'name',
+      header: ({ column }) => <DataTableColumnHeader column={column} title="Name" />,
+    },
+    {
+      accessorKey: 'email',
+      header: ({ column }) => <DataTableColumnHeader column={column} title="Email" />,
+    },
+    {
+      accessorKey: 'userType',
+      header: 'Role',
+    },
+    {
+      accessorKey: 'status',
+      header: 'Status',
+      cell: ({ row }) => (
+        <Badge variant={statusVariants[row.original.status]} className="capitalize">
+          {row.original.status}
+        </Badge>
+      ),
+    },
+    {
+      accessorKey: 'expiresAt',
+      header: ({ column }) => <DataTableColumnHeader column={column} title="Expires" />,
+      cell: ({ row }) => format(new Date(row.original.expiresAt), 'd MMM yyyy'),
+    },
+    {
+      id: 'actions',
+      cell: ({ row }) => (
+        <div className="flex justify-end gap-2">
+          {(Object.keys(actionLabels) as InvitationAction[])
+            .filter(action => canApplyInvitationAction(row.original, action))
+            .map(action => (
+              <Button
+                key={action}
+                size="sm"
+                variant={action === 'resend' ? 'outline' : 'ghost'}
+                disabled={isPending}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onAction(row.original, action);
+                }}
+              >
+                {actionLabels[action]}
+              </Button>
+            ))}
+        </div>
+      ),
+      enableSorting: false,
+    },
+  ], [onAction, isPending]);
+
+  return (
+    <DataTable
+      columns={columns}
+      data={invitations}
+      searchKey="email"
+      searchPlaceholder="Search by email..."
+      filters={[{ column: 'status', title: 'Status', options: statusFilterOptions }]}
+    />
+  );
+}
@@ -0,0 +1,94 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { INVITABLE_ROLES } from '@/lib/auth/rbac';
+import type { UserType } from '@/lib/db/schema';
+import { createInvitationSchema, type CreateInvitationInput } from '@/lib/invitations/schemas';
+import { Loader2 } from 'lucide-react';
+
+interface InviteUserFormProps {
+  role: UserType;
+  onSubmit: (input: CreateInvitationInput) => Promise<unknown>;
+  isPending?: boolean;
+}
+
+/**
+ * Invite a user by email, offering only the user types the current role may invite
+ */
+export function InviteUserForm({ role, onSubmit, isPending = false }: InviteUserFormProps) {
+  const userTypes = INVITABLE_ROLES[role];
+  const [email, setEmail] = useState('');
+  const [name, setName] = useState('');
+  const [userType, setUserType] = useState<UserType | ''>(userTypes[0] ?? '');
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const result = createInvitationSchema.safeParse({ email, name, userType });
+    if (!result.success) {
+      setErrors(Object.fromEntries(result.error.issues.map(issue => [issue.path[0], issue.message])));
+      return;
+    }
+
+    setErrors({});
+    try {
+      await onSubmit(result.data);
+      setEmail('');
+      setName('');
+    } catch {
+      // The caller reports the failure; keep the form filled in so it can be retried
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="grid gap-4 sm:grid-cols-[1fr_1fr_12rem_auto] sm:items-end">
+      <div className="space-y-2">
+        <Label htmlFor="invite-name">Name</Label>
+        <Input
+          id="invite-name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          disabled={isPending}
+        />
+        {errors.name && <p className="text-sm text-destructive">{errors.name}</p>}
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="invite-email">Email</Label>
+        <Input
+          id="invite-email"
+          type="email"
+          placeholder="name@example.com"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          disabled={isPending}
+        />
+        {errors.email && <p className="text-sm text-destructive">{errors.email}</p>}
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="invite-role">Role</Label>
+        <Select value={userType} onValueChange={(value) => setUserType(value as UserType)} disabled={isPending}>
+          <SelectTrigger id="invite-role">
+            <SelectValue placeholder="Select a role" />
+          </SelectTrigger>
+          <SelectContent>
+            {userTypes.map(type => (
+              <SelectItem key={type} value={type} className="capitalize">
+                {type.toLowerCase()}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {errors.userType && <p className="text-sm text-destructive">{errors.userType}</p>}
+      </div>
+      <Button type="submit" disabled={isPending}>
+        {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        Send Invitation
+      </Button>
+    </form>
+  );
+}
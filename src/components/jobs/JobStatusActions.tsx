@@ -0,0 +1,55 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import type { JobStatus } from '@/lib/db/schema';
+import {
+  getAvailableJobTransitions,
+  type TransitionableJob,
+  type TransitionActor,
+} from '@/lib/jobs/transitions';
+
+interface JobStatusActionsProps {
+  job: TransitionableJob;
+  actor: TransitionActor | null;
+  onTransition: (toStatus: JobStatus) => void | Promise<void>;
+  isPending?: boolean;
+  className?: string;
+}
+
+/**
+ * Renders one button per status change the current user may make on a job
+ */
+export function JobStatusActions({
+  job,
+  actor,
+  onTransition,
+  isPending = false,
+  className,
+}: JobStatusActionsProps) {
+  if (!actor) {
+    return null;
+  }
+
+  const transitions = getAvailableJobTransitions(job, actor);
+  if (transitions.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className={cn('flex flex-wrap gap-2', className)}>
+      {transitions.map((transition, index) => (
+        <Button
+          key={`${transition.action}-${transition.to}`}
+          size="sm"
+          variant={index === 0 ? 'default' : 'outline'}
+          disabled={isPending}
+          onClick={() => onTransition(transition.to)}
+          className="min-h-[44px] touch-manipulation"
+        >
+          {transition.label}
+        </Button>
+      ))}
+    </div>
+  );
+}
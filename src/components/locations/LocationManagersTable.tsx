@@ -0,0 +1,125 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import type { Location } from '@/lib/db/schema';
+import type { AssignableManager } from '@/hooks/useLocationManagers';
+import { Loader2, MapPin, Trash2 } from 'lucide-react';
+
+interface LocationManagersTableProps {
+  locations: Location[];
+  managers: AssignableManager[];
+  managerIdsByLocation: Record<string, string[]>;
+  onSave: (locationId: string, managerIds: string[]) => Promise<unknown>;
+  savingLocationId?: string | null;
+  // Shows a delete button on each location when given
+  onDelete?: (location: Location) => void;
+  deletingLocationId?: string | null;
+}
+
+const sameIds = (a: string[], b: string[]) => a.length === b.length && a.every(id => b.includes(id));
+
+/**
+ * Tick the managers assigned to each location and save one location at a time
+ */
+export function LocationManagersTable({
+  locations,
+  managers,
+  managerIdsByLocation,
+  onSave,
+  savingLocationId,
+  onDelete,
+  deletingLocationId,
+}: LocationManagersTableProps) {
+  // Unsaved selections, by location
+  const [drafts, setDrafts] = useState<Record<string, string[]>>({});
+
+  const getSelected = (locationId: string) => drafts[locationId] ?? managerIdsByLocation[locationId] ?? [];
+
+  const toggle = (locationId: string, managerId: string, checked: boolean) => {
+    const selected = getSelected(locationId);
+    setDrafts(prev => ({
+      ...prev,
+      [locationId]: checked ? [...selected, managerId] : selected.filter(id => id !== managerId),
+    }));
+  };
+
+  const handleSave = async (locationId: string) => {
+    try {
+      await onSave(locationId, getSelected(locationId));
+      setDrafts(prev => {
+        const next = { ...prev };
+        delete next[locationId];
+        return next;
+      });
+    } catch {
+      // The page shows the error; keep the selection so it can be retried
+    }
+  };
+
+  return (
+    <ul className="divide-y">
+      {locations.map(location => {
+        const selected = getSelected(location.id);
+        const isDirty = !sameIds(selected, managerIdsByLocation[location.id] ?? []);
+        const isSaving = savingLocationId === location.id;
+
+        return (
+          <li key={location.id} className="space-y-3 py-4">
+            <div className="flex items-start justify-between gap-4">
+              <div className="min-w-0">
+                <p className="font-medium">{location.name}</p>
+                <p className="flex items-center gap-1 truncate text-sm text-muted-foreground">
+                  <MapPin className="h-3 w-3 shrink-0" />
+                  {location.address}
+                </p>
+              </div>
+              <div className="flex shrink-0 gap-2">
+                <Button size="sm" onClick={() => handleSave(location.id)} disabled={!isDirty || isSaving}>
+                  {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Save
+                </Button>
+                {onDelete && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => onDelete(location)}
+                    disabled={isSaving || deletingLocationId === location.id}
+                    aria-label={`Delete ${location.name}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            </div>
+            {managers.length > 0 ? (
+              <div className="grid gap-2 sm:grid-cols-2">
+                {managers.map(manager => {
+                  const id = `location-${location.id}-manager-${manager.id}`;
+                  return (
+                    <div key={manager.id} className="flex items-center gap-2">
+                      <Checkbox
+                        id={id}
+                        checked={selected.includes(manager.id)}
+                        onCheckedChange={(checked) => toggle(location.id, manager.id, checked === true)}
+                        disabled={isSaving}
+                      />
+                      <Label htmlFor={id} className="truncate font-normal">
+                        {manager.name}
+                        <span className="ml-1 text-muted-foreground">{manager.email}</span>
+                      </Label>
+                    </div>
+                  );
+                })}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">Invite managers to this organisation to assign them.</p>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -0,0 +1,43 @@
+'use client';
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useManagedLocations } from '@/hooks/useLocationManagers';
+import { Loader2, MapPin } from 'lucide-react';
+
+/**
+ * The locations the signed-in manager is assigned to, which scope every job,
+ * file and notification they see
+ */
+export function ManagedLocationsCard() {
+  const { data: locations, isLoading } = useManagedLocations();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Your locations</CardTitle>
+        <CardDescription>You see jobs, files and notifications for these locations</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Loader2 className="h-5 w-5 animate-spin text-primary" />
+        ) : locations && locations.length > 0 ? (
+          <ul className="space-y-2">
+            {locations.map(location => (
+              <li key={location.id} className="flex items-start gap-2">
+                <MapPin className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
+                <div className="min-w-0">
+                  <p className="text-sm font-medium">{location.name}</p>
+                  <p className="truncate text-xs text-muted-foreground">{location.address}</p>
+                </div>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            You haven&apos;t been assigned to any locations yet. Ask your organisation&apos;s owner to add you.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,110 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { NotificationList } from '@/components/notifications/NotificationList';
+import { useNotifications, useUnreadNotificationCount } from '@/hooks/useNotifications';
+import { useOnClickOutside } from '@/hooks/useOnClickOutside';
+import { getNotificationHref } from '@/lib/notifications/types';
+import type { Notification } from '@/lib/db/schema';
+import { cn } from '@/lib/utils';
+import { Bell, Loader2 } from 'lucide-react';
+
+const DROPDOWN_SIZE = 5;
+
+/**
+ * Bell with the unread count, opening a dropdown of the latest notifications
+ */
+export function NotificationBell({ align = 'end' }: { align?: 'start' | 'end' }) {
+  const router = useRouter();
+  const [isOpen, setIsOpen] = useState(false);
+  const { data: unreadCount = 0 } = useUnreadNotificationCount();
+  const { notifications, isLoading, markAsRead, markAllAsRead, markAllAsReadMutation } = useNotifications({
+    pageSize: DROPDOWN_SIZE,
+    enabled: isOpen,
+  });
+
+  const close = useCallback(() => setIsOpen(false), []);
+  const containerRef = useOnClickOutside<HTMLDivElement>(close);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') close();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen, close]);
+
+  const handleOpen = (notification: Notification) => {
+    if (!notification.read) markAsRead(notification.id);
+    const href = getNotificationHref(notification.link);
+    if (href) {
+      close();
+      router.push(href);
+    }
+  };
+
+  const badge = unreadCount > 99 ? '99+' : String(unreadCount);
+
+  return (
+    <div ref={containerRef} className="relative">
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={() => setIsOpen(open => !open)}
+        aria-label={unreadCount > 0 ? `Notifications, ${unreadCount} unread` : 'Notifications'}
+        aria-expanded={isOpen}
+        aria-haspopup="true"
+        className="relative"
+      >
+        <Bell className="h-5 w-5" />
+        {unreadCount > 0 && (
+          <span className="absolute -right-0.5 -top-0.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-destructive px-1 text-[10px] font-semibold leading-none text-destructive-foreground">
+            {badge}
+          </span>
+        )}
+      </Button>
+
+      {isOpen && (
+        <div
+          className={cn(
+            'absolute z-50 mt-2 w-80 max-w-[calc(100vw-2rem)] overflow-hidden rounded-md border bg-popover text-popover-foreground shadow-md',
+            align === 'end' ? 'right-0' : 'left-0'
+          )}
+        >
+          <div className="flex items-center justify-between border-b px-3 py-2">
+            <span className="text-sm font-semibold">Notifications</span>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 px-2 text-xs"
+              onClick={() => markAllAsRead(null)}
+              disabled={unreadCount === 0 || markAllAsReadMutation.isPending}
+            >
+              Mark all read
+            </Button>
+          </div>
+          <div className="max-h-96 overflow-y-auto">
+            {isLoading ? (
+              <div className="flex justify-center py-6">
+                <Loader2 className="h-5 w-5 animate-spin text-primary" />
+              </div>
+            ) : notifications.length > 0 ? (
+              <NotificationList notifications={notifications} onOpen={handleOpen} compact />
+            ) : (
+              <p className="px-3 py-6 text-center text-sm text-muted-foreground">You&apos;re all caught up.</p>
+            )}
+          </div>
+          <div className="border-t p-1">
+            <Button variant="ghost" size="sm" className="w-full" asChild>
+              <Link href="/dashboard/notifications" onClick={close}>View all notifications</Link>
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
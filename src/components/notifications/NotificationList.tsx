@@ -0,0 +1,59 @@
+'use client';
+
+import { formatDistanceToNow } from 'date-fns';
+import { Badge } from '@/components/ui/badge';
+import { isNotificationType, NOTIFICATION_TYPE_LABELS } from '@/lib/notifications/types';
+import type { Notification } from '@/lib/db/schema';
+import { cn } from '@/lib/utils';
+
+interface NotificationListProps {
+  notifications: Notification[];
+  onOpen: (notification: Notification) => void;
+  compact?: boolean;
+}
+
+/**
+ * Notifications, newest first. Unread ones are highlighted; opening one is
+ * left to the caller so it can mark it read and follow its link.
+ */
+export function NotificationList({ notifications, onOpen, compact = false }: NotificationListProps) {
+  return (
+    <ul className="divide-y">
+      {notifications.map(notification => (
+        <li key={notification.id}>
+          <button
+            type="button"
+            onClick={() => onOpen(notification)}
+            className={cn(
+              'flex w-full items-start gap-3 text-left transition-colors hover:bg-muted/50 focus:bg-muted/50 focus:outline-none',
+              compact ? 'px-3 py-2' : 'px-4 py-3',
+              !notification.read && 'bg-primary/5'
+            )}
+          >
+            <span
+              className={cn('mt-1.5 h-2 w-2 shrink-0 rounded-full', notification.read ? 'bg-transparent' : 'bg-primary')}
+              aria-hidden
+            />
+            <span className="min-w-0 flex-1 space-y-1">
+              <span className="flex items-center justify-between gap-2">
+                <span className={cn('truncate text-sm', !notification.read && 'font-semibold')}>
+                  {notification.title}
+                </span>
+                <span className="shrink-0 text-xs text-muted-foreground">
+                  {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                </span>
+              </span>
+              <span className={cn('block text-sm text-muted-foreground', compact && 'line-clamp-2')}>
+                {notification.message}
+              </span>
+              {!compact && isNotificationType(notification.type) && (
+                <Badge variant="secondary">{NOTIFICATION_TYPE_LABELS[notification.type]}</Badge>
+              )}
+              <span className="sr-only">{notification.read ? 'Read' : 'Unread'}</span>
+            </span>
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+}
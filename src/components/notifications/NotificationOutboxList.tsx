@@ -0,0 +1,74 @@
+'use client';
+
+import { formatDistanceToNow } from 'date-fns';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { getOutboxRecipient, MAX_DELIVERY_ATTEMPTS } from '@/lib/notifications/outbox';
+import type { NotificationOutboxEntry } from '@/lib/db/schema';
+import { RotateCcw } from 'lucide-react';
+
+interface NotificationOutboxListProps {
+  entries: NotificationOutboxEntry[];
+  onReplay: (entry: NotificationOutboxEntry) => void;
+  replayingId?: string | null;
+}
+
+const getSummary = (entry: NotificationOutboxEntry) => {
+  const payload = entry.payload as { subject?: string; title?: string };
+  return (entry.kind === 'email' ? payload.subject : payload.title) ?? 'Untitled';
+};
+
+/**
+ * Deliveries in the notification outbox with their attempts and last error.
+ * Anything not yet delivered can be replayed.
+ */
+export function NotificationOutboxList({ entries, onReplay, replayingId }: NotificationOutboxListProps) {
+  return (
+    <ul className="divide-y">
+      {entries.map(entry => (
+        <li key={entry.id} className="space-y-2 py-4">
+          <div className="flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between">
+            <div className="min-w-0 space-y-1">
+              <div className="flex items-center gap-2">
+                <Badge variant="outline">{entry.kind === 'email' ? 'Email' : 'In-app'}</Badge>
+                <p className="truncate font-medium">{getSummary(entry)}</p>
+              </div>
+              <p className="truncate text-sm text-muted-foreground">{getOutboxRecipient(entry)}</p>
+              <p className="text-xs text-muted-foreground">
+                {entry.attempts} of {MAX_DELIVERY_ATTEMPTS} attempts
+                {entry.status === 'pending' &&
+                  ` · next ${formatDistanceToNow(new Date(entry.nextAttemptAt), { addSuffix: true })}`}
+                {entry.status === 'sent' && entry.sentAt &&
+                  ` · delivered ${formatDistanceToNow(new Date(entry.sentAt), { addSuffix: true })}`}
+                {entry.status === 'dead' &&
+                  ` · gave up ${formatDistanceToNow(new Date(entry.updatedAt), { addSuffix: true })}`}
+              </p>
+            </div>
+            {entry.status !== 'sent' && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => onReplay(entry)}
+                disabled={!!replayingId}
+              >
+                <RotateCcw className={replayingId === entry.id ? 'mr-2 h-4 w-4 animate-spin' : 'mr-2 h-4 w-4'} />
+                Replay
+              </Button>
+            )}
+          </div>
+          {entry.lastError && (
+            <p className="break-words rounded-md bg-destructive/10 px-3 py-2 font-mono text-xs text-destructive">
+              {entry.lastError}
+            </p>
+          )}
+          <details className="text-xs">
+            <summary className="cursor-pointer text-muted-foreground">Payload</summary>
+            <pre className="mt-2 max-h-64 overflow-auto rounded-md border bg-muted/30 p-3">
+              {JSON.stringify(entry.payload, null, 2)}
+            </pre>
+          </details>
+        </li>
+      ))}
+    </ul>
+  );
+}
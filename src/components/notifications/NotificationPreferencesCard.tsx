@@ -0,0 +1,84 @@
+'use client';
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useToast } from '@/components/ui/useToast';
+import { useNotificationPreferences } from '@/hooks/useNotificationPreferences';
+import {
+  isNotificationDelivery,
+  NOTIFICATION_DELIVERIES,
+  NOTIFICATION_DELIVERY_OPTIONS,
+} from '@/lib/notifications/preferences';
+import { NOTIFICATION_TYPE_LABELS, NOTIFICATION_TYPES, type NotificationType } from '@/lib/notifications/types';
+
+/**
+ * Settings card for choosing how each notification type is delivered
+ */
+export function NotificationPreferencesCard() {
+  const { preferences, isLoading, updatePreferenceAsync, updateMutation } = useNotificationPreferences();
+  const { toast } = useToast();
+
+  const handleChange = async (type: NotificationType, value: string) => {
+    if (!isNotificationDelivery(value)) return;
+    try {
+      await updatePreferenceAsync({ type, delivery: value });
+      toast({
+        title: 'Notification preference saved',
+        description: `${NOTIFICATION_TYPE_LABELS[type]}: ${NOTIFICATION_DELIVERY_OPTIONS[value].label}`,
+      });
+    } catch (error) {
+      toast({
+        title: "Couldn't save preference",
+        description: error instanceof Error ? error.message : undefined,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Notifications</CardTitle>
+        <CardDescription>
+          Choose how you hear about each kind of update. Daily digests arrive as one email a day.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {NOTIFICATION_TYPES.map(type => {
+          const id = `notification-delivery-${type}`;
+          const delivery = preferences[type];
+          return (
+            <div key={type} className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+              <div>
+                <Label htmlFor={id} className="font-medium">{NOTIFICATION_TYPE_LABELS[type]}</Label>
+                <p className="text-sm text-muted-foreground">{NOTIFICATION_DELIVERY_OPTIONS[delivery].description}</p>
+              </div>
+              {isLoading ? (
+                <Skeleton className="h-10 sm:w-48" />
+              ) : (
+                <Select
+                  value={delivery}
+                  onValueChange={value => handleChange(type, value)}
+                  disabled={updateMutation.isPending}
+                >
+                  <SelectTrigger id={id} className="sm:w-48">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {NOTIFICATION_DELIVERIES.map(option => (
+                      <SelectItem key={option} value={option}>
+                        {NOTIFICATION_DELIVERY_OPTIONS[option].label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
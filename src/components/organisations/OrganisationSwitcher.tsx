@@ -0,0 +1,43 @@
+'use client';
+
+import { Building2 } from 'lucide-react';
+import { useUser } from '@/components/UserContext';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { canViewAllOrganisations } from '@/lib/organisations/scope';
+import { cn } from '@/lib/utils';
+
+// Radix Select items can't have an empty value
+const ALL_ORGANISATIONS = 'all';
+
+/**
+ * Choose the active organisation that lists are scoped to. Hidden for users
+ * with nothing to switch between.
+ */
+export function OrganisationSwitcher({ className }: { className?: string }) {
+  const { tofilUser, organisations, activeOrganisationId, setActiveOrganisationId } = useUser();
+  const canViewAll = canViewAllOrganisations(tofilUser?.type ?? null);
+
+  if (organisations.length === 0 || (organisations.length === 1 && !canViewAll)) {
+    return null;
+  }
+
+  return (
+    <Select
+      value={activeOrganisationId ?? ALL_ORGANISATIONS}
+      onValueChange={(value) => setActiveOrganisationId(value === ALL_ORGANISATIONS ? null : value)}
+    >
+      <SelectTrigger className={cn('w-full', className)} aria-label="Organisation">
+        <Building2 className="mr-2 h-4 w-4 shrink-0 text-muted-foreground" />
+        <SelectValue placeholder="Select an organisation" />
+      </SelectTrigger>
+      <SelectContent>
+        {canViewAll && <SelectItem value={ALL_ORGANISATIONS}>All organisations</SelectItem>}
+        {organisations.map(organisation => (
+          <SelectItem key={organisation.id} value={organisation.id}>
+            {organisation.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
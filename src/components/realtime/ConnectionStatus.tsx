@@ -0,0 +1,34 @@
+"use client";
+
+import { useRealtimeStatus } from "@/components/RealtimeContext";
+import type { RealtimeStatus } from "@/lib/realtime/changes";
+import { cn } from "@/lib/utils";
+
+const STATUS_DISPLAY: Record<RealtimeStatus, { label: string; dotClassName: string }> = {
+  connected: { label: "Live updates on", dotClassName: "bg-green-500" },
+  connecting: { label: "Connecting to live updates", dotClassName: "bg-amber-500 animate-pulse" },
+  reconnecting: { label: "Reconnecting to live updates", dotClassName: "bg-amber-500 animate-pulse" },
+  disconnected: { label: "Live updates offline", dotClassName: "bg-muted-foreground" },
+};
+
+interface ConnectionStatusProps {
+  /** Show the label next to the dot rather than only as a tooltip */
+  showLabel?: boolean;
+  className?: string;
+}
+
+export function ConnectionStatus({ showLabel = false, className }: ConnectionStatusProps) {
+  const status = useRealtimeStatus();
+  const { label, dotClassName } = STATUS_DISPLAY[status];
+
+  return (
+    <div
+      role="status"
+      title={label}
+      className={cn("flex items-center gap-2 text-xs text-muted-foreground", className)}
+    >
+      <span className={cn("h-2 w-2 rounded-full", dotClassName)} aria-hidden="true" />
+      <span className={showLabel ? undefined : "sr-only"}>{label}</span>
+    </div>
+  );
+}
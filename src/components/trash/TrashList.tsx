@@ -0,0 +1,56 @@
+'use client';
+
+import { formatDistanceToNow } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { RotateCcw, Trash2 } from 'lucide-react';
+
+export interface TrashItem {
+  id: string;
+  label: string;
+  detail?: string | null;
+  deletedAt: Date | string | null;
+}
+
+interface TrashListProps {
+  items: TrashItem[];
+  onRestore: (item: TrashItem) => void;
+  // Only passed for admins, who can delete items for good
+  onPurge?: (item: TrashItem) => void;
+  busyId?: string | null;
+}
+
+/**
+ * Soft-deleted items, most recently deleted first, with restore and (for
+ * admins) permanent delete actions
+ */
+export function TrashList({ items, onRestore, onPurge, busyId }: TrashListProps) {
+  return (
+    <ul className="divide-y">
+      {items.map(item => (
+        <li key={item.id} className="flex flex-col gap-3 py-4 sm:flex-row sm:items-center sm:justify-between">
+          <div className="min-w-0 space-y-1">
+            <p className="truncate font-medium">{item.label}</p>
+            {item.detail && <p className="truncate text-sm text-muted-foreground">{item.detail}</p>}
+            {item.deletedAt && (
+              <p className="text-xs text-muted-foreground">
+                Deleted {formatDistanceToNow(new Date(item.deletedAt), { addSuffix: true })}
+              </p>
+            )}
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => onRestore(item)} disabled={!!busyId}>
+              <RotateCcw className={busyId === item.id ? 'mr-2 h-4 w-4 animate-spin' : 'mr-2 h-4 w-4'} />
+              Restore
+            </Button>
+            {onPurge && (
+              <Button variant="destructive" size="sm" onClick={() => onPurge(item)} disabled={!!busyId}>
+                <Trash2 className="mr-2 h-4 w-4" />
+                Delete forever
+              </Button>
+            )}
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -21,11 +21,13 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { Button } from "@/components/ui/button";
-import { useState, useMemo, useCallback, memo } from "react";
+import { useState, useMemo, useCallback, useEffect, memo } from "react";
 import { ConfirmationDialog } from "@/components/ui/confirmation-dialog";
 import { Checkbox } from "@/components/ui/checkbox";
 import { DataTableToolbar } from "@/components/ui/data-table-toolbar";
 import { useMobileViewport, useMobileViewportClasses } from "@/hooks/useMobileViewport";
+import { useMediaQuery, mediaQueries } from "@/hooks/useMediaQuery";
+import { useIntersectionObserver } from "@/hooks/useIntersectionObserver";
 import { cn } from "@/lib/utils";
 import * as React from "react";
 
@@ -41,9 +43,39 @@ interface DataTableProps<TData, TValue> {
   }[];
   onBulkDelete?: (selectedRows: TData[]) => Promise<void> | void;
   // Optionally, add onBulkStatusChange, etc.
+  // Pages loaded from the server, e.g. a createInfiniteCrudHook result;
+  // without it the table pages through `data` itself
+  pagination?: ServerPagination<TData>;
 }
 
-// Memoize the component
+interface ServerPagination<TData> {
+  pages: TData[][];
+  pageCount: number;
+  hasNextPage: boolean;
+  fetchNextPage: () => void;
+  isFetchingNextPage: boolean;
+}
+
+// Loads the next page when scrolled into view
+function LoadMoreTrigger({ pagination }: { pagination: ServerPagination<unknown> }) {
+  const { ref, isIntersecting } = useIntersectionObserver({ rootMargin: "200px" });
+  const { hasNextPage, isFetchingNextPage, fetchNextPage } = pagination;
+
+  useEffect(() => {
+    if (isIntersecting && hasNextPage && !isFetchingNextPage) {
+      fetchNextPage();
+    }
+  }, [isIntersecting, hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  if (!hasNextPage) return null;
+  return (
+    <div ref={ref} className="py-4 text-center text-sm text-muted-foreground">
+      {isFetchingNextPage ? "Loading more..." : "Scroll for more"}
+    </div>
+  );
+}
+
+// Memoize the component (memo drops generics, so restore the signature)
 export const DataTable = memo(function DataTable<TData, TValue>({
   columns,
   data,
@@ -51,6 +83,7 @@ export const DataTable = memo(function DataTable<TData, TValue>({
   searchPlaceholder,
   filters,
   onBulkDelete,
+  pagination,
 }: DataTableProps<TData, TValue>) {
   const [sorting, setSorting] = useState<SortingState>([]);
   const [columnFilters, setColumnFilters] = useState<ColumnFiltersState>([]);
@@ -62,6 +95,18 @@ export const DataTable = memo(function DataTable<TData, TValue>({
   const { hasBottomBar, safeAreaBottom } = useMobileViewport();
   const mobileClasses = useMobileViewportClasses();
 
+  // With server pages, desktop shows one page at a time and mobile scrolls
+  // through every page loaded so far
+  const isMobile = useMediaQuery(mediaQueries.mobile);
+  const [serverPageIndex, setServerPageIndex] = useState(0);
+  const loadedPageCount = pagination?.pages.length ?? 0;
+  // Back to the last loaded page when the pages are reset, e.g. by new filters
+  const pageIndex = Math.min(serverPageIndex, pagination?.isFetchingNextPage ? loadedPageCount : Math.max(loadedPageCount - 1, 0));
+  const rows = useMemo(() => {
+    if (!pagination) return data;
+    return isMobile ? data : pagination.pages[pageIndex] ?? [];
+  }, [pagination, isMobile, data, pageIndex]);
+
   // Memoize the selection column
   const selectionColumn = useMemo<ColumnDef<TData, TData>>(() => ({
     id: "select",
@@ -89,10 +134,12 @@ export const DataTable = memo(function DataTable<TData, TValue>({
   const columnsWithSelection = useMemo(() => [selectionColumn, ...columns], [selectionColumn, columns]);
 
   const table = useReactTable({
-    data,
+    data: rows,
     columns: columnsWithSelection,
     getCoreRowModel: getCoreRowModel(),
     getPaginationRowModel: getPaginationRowModel(),
+    manualPagination: !!pagination,
+    pageCount: pagination?.pageCount,
     onSortingChange: setSorting,
     getSortedRowModel: getSortedRowModel(),
     onColumnFiltersChange: setColumnFilters,
@@ -122,8 +169,22 @@ export const DataTable = memo(function DataTable<TData, TValue>({
   }, [onBulkDelete, selectedRows]);
 
   // Memoize pagination handlers
-  const handlePreviousPage = useCallback(() => table.previousPage(), [table]);
-  const handleNextPage = useCallback(() => table.nextPage(), [table]);
+  const handlePreviousPage = useCallback(() => {
+    if (pagination) setServerPageIndex(Math.max(pageIndex - 1, 0));
+    else table.previousPage();
+  }, [pagination, pageIndex, table]);
+  const handleNextPage = useCallback(() => {
+    if (!pagination) return table.nextPage();
+    // Fetch the page first if it hasn't been loaded yet
+    if (pageIndex + 1 >= pagination.pages.length) pagination.fetchNextPage();
+    setServerPageIndex(pageIndex + 1);
+  }, [pagination, pageIndex, table]);
+  const currentPage = pagination ? pageIndex + 1 : table.getState().pagination.pageIndex + 1;
+  const pageCount = pagination ? pagination.pageCount : table.getPageCount();
+  const canPreviousPage = pagination ? pageIndex > 0 : table.getCanPreviousPage();
+  const canNextPage = pagination
+    ? !pagination.isFetchingNextPage && (pageIndex + 1 < pagination.pages.length || pagination.hasNextPage)
+    : table.getCanNextPage();
 
   // Calculate dynamic styles for mobile
   const containerStyle = useMemo(() => {
@@ -196,12 +257,13 @@ export const DataTable = memo(function DataTable<TData, TValue>({
                       colSpan={columns.length}
                       className="h-24 text-center"
                     >
-                      No results.
+                      {pagination?.isFetchingNextPage ? "Loading..." : "No results."}
                     </TableCell>
                   </TableRow>
                 )}
               </TableBody>
             </Table>
+            {pagination && isMobile && <LoadMoreTrigger pagination={pagination} />}
           </div>
           {/* Bulk actions bar - at bottom of scrollable area */}
           {selectedRows.length > 0 && (
@@ -222,7 +284,7 @@ export const DataTable = memo(function DataTable<TData, TValue>({
           )}
         </div>
         {/* Pagination now inside the flex container but outside the scrollable area */}
-        <div className={cn(
+        {!(pagination && isMobile) && <div className={cn(
           "flex-shrink-0 flex items-center justify-between px-2 py-2 border-x border-b rounded-b-md bg-background",
           hasBottomBar && "mb-safe" // Add margin bottom for safe area
         )}
@@ -230,15 +292,15 @@ export const DataTable = memo(function DataTable<TData, TValue>({
           marginBottom: hasBottomBar ? `${safeAreaBottom}px` : undefined
         }}>
           <div className="text-xs sm:text-sm text-muted-foreground">
-            Page {table.getState().pagination.pageIndex + 1} of{' '}
-            {table.getPageCount()}
+            Page {currentPage} of{' '}
+            {pageCount}
           </div>
           <div className="flex items-center gap-1 sm:gap-2">
             <Button
               variant="outline"
               size="sm"
               onClick={handlePreviousPage}
-              disabled={!table.getCanPreviousPage()}
+              disabled={!canPreviousPage}
               className="h-8 px-2 sm:px-3"
             >
               <span className="sm:hidden">Prev</span>
@@ -248,13 +310,13 @@ export const DataTable = memo(function DataTable<TData, TValue>({
               variant="outline"
               size="sm"
               onClick={handleNextPage}
-              disabled={!table.getCanNextPage()}
+              disabled={!canNextPage}
               className="h-8 px-2 sm:px-3"
             >
               Next
             </Button>
           </div>
-        </div>
+        </div>}
       </div>
       <ConfirmationDialog
         open={showBulkDelete}
@@ -269,4 +331,4 @@ export const DataTable = memo(function DataTable<TData, TValue>({
       />
     </div>
   );
-}); 
\ No newline at end of file
+}) as <TData, TValue>(props: DataTableProps<TData, TValue>) => React.JSX.Element;
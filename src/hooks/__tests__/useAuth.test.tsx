@@ -40,6 +40,7 @@ describe('useAuth', () => {
     };
 
     mockUserContext = {
+      profile: null,
       tofilUser: null,
       supabaseUser: null,
       isLoading: false,
@@ -59,6 +60,7 @@ describe('useAuth', () => {
       const { result } = renderHook(() => useAuth());
 
       expect(result.current.user).toBe(null);
+      expect(result.current.tofilUser).toBe(null);
       expect(result.current.isLoading).toBe(false);
       expect(result.current.error).toBe(null);
     });
@@ -71,11 +73,15 @@ describe('useAuth', () => {
     });
 
     it('should return user when available', () => {
+      const mockProfile = { id: '1', email: 'test@example.com', fullName: 'Test User' };
       const mockUser = { id: '1', name: 'Test User', type: 'OWNER' };
+      mockUserContext.profile = mockProfile;
       mockUserContext.tofilUser = mockUser;
       const { result } = renderHook(() => useAuth());
 
-      expect(result.current.user).toEqual(mockUser);
+      expect(result.current.user).toEqual(mockProfile);
+      expect(result.current.tofilUser).toEqual(mockUser);
+      expect(result.current.role).toBe('OWNER');
     });
   });
 
@@ -1,8 +1,12 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { renderHook, waitFor } from '@testing-library/react';
+import { act, renderHook, waitFor } from '@testing-library/react';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
-import { createCrudHook, createSingleItemHook } from '../useCrudFactory';
+import { createCrudHook, createInfiniteCrudHook, createSingleItemHook } from '../useCrudFactory';
 import React from 'react';
+import { ConflictError, NotFoundError, PermissionError } from '@/types/errors';
+import { include } from '@/lib/db/relations';
+import { useSupabase } from '@/components/SupabaseContext';
+import { useUser } from '@/components/UserContext';
 
 // Mock the dependencies
 vi.mock('@/components/SupabaseContext', () => ({
@@ -12,6 +16,17 @@ vi.mock('@/components/SupabaseContext', () => ({
   })),
 }));
 
+vi.mock('@/components/UserContext', () => ({
+  useUser: vi.fn(),
+}));
+
+const toast = vi.hoisted(() => vi.fn());
+
+vi.mock('@/components/ui/useToast', async importOriginal => ({
+  ...await importOriginal<typeof import('@/components/ui/useToast')>(),
+  useToast: () => ({ toast }),
+}));
+
 vi.mock('humps', () => ({
   camelizeKeys: vi.fn((obj) => obj),
   decamelizeKeys: vi.fn((obj) => obj),
@@ -27,11 +42,52 @@ interface TestEntity {
 
 type NewTestEntity = Omit<TestEntity, 'id' | 'createdAt'>;
 
+interface BuilderCall {
+  method: string;
+  args: unknown[];
+}
+
+type QueryRunner = (fn: (supabase: { from: () => unknown }) => unknown) => unknown;
+
+const mockSupabaseContext = (context: { query?: unknown; mutate?: unknown }) => {
+  vi.mocked(useSupabase).mockReturnValue(context as unknown as ReturnType<typeof useSupabase>);
+};
+
+const mockUserContext = (context: Record<string, unknown>) => {
+  vi.mocked(useUser).mockReturnValue(context as unknown as ReturnType<typeof useUser>);
+};
+
+/**
+ * Stub a chainable query builder whose methods are recorded in `calls`.
+ * Awaiting the builder resolves with the next `result()`; `query` and
+ * `mutate` both run against it.
+ */
+const mockQueryBuilder = (
+  methods: string[],
+  result: () => unknown = () => ({ data: [], error: null }),
+  extras: Record<string, unknown> = {}
+) => {
+  const calls: BuilderCall[] = [];
+  const builder: Record<string, unknown> = { ...extras };
+  methods.forEach(method => {
+    builder[method] = (...args: unknown[]) => {
+      calls.push({ method, args });
+      return builder;
+    };
+  });
+  builder.then = (resolve: (value: unknown) => unknown) => Promise.resolve(result()).then(resolve);
+  const run = vi.fn<QueryRunner>(fn => fn({ from: () => builder }));
+  mockSupabaseContext({ query: run, mutate: run });
+  return { calls, run };
+};
+
 describe('useCrudFactory', () => {
   let queryClient: QueryClient;
   let wrapper: React.FC<{ children: React.ReactNode }>;
 
   beforeEach(() => {
+    mockUserContext({ tofilUser: null, activeOrganisationId: null, isOrganisationLoading: false });
+
     queryClient = new QueryClient({
       defaultOptions: {
         queries: { retry: false },
@@ -71,9 +127,7 @@ describe('useCrudFactory', () => {
       ];
 
       const mockQuery = vi.fn().mockResolvedValue({ data: mockData, error: null });
-      const { useSupabase } = await import('@/components/SupabaseContext');
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      (useSupabase as any).mockReturnValue({
+      mockSupabaseContext({
         query: mockQuery,
         mutate: vi.fn(),
       });
@@ -101,9 +155,7 @@ describe('useCrudFactory', () => {
       const createdItem = { id: '3', ...newItem, createdAt: new Date() };
 
       const mockMutate = vi.fn().mockResolvedValue({ data: [createdItem], error: null });
-      const { useSupabase } = await import('@/components/SupabaseContext');
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      (useSupabase as any).mockReturnValue({
+      mockSupabaseContext({
         query: vi.fn().mockResolvedValue({ data: [], error: null }),
         mutate: mockMutate,
       });
@@ -129,9 +181,7 @@ describe('useCrudFactory', () => {
       const updatedItem = { id: '1', name: 'Updated Test', createdAt: new Date() };
 
       const mockMutate = vi.fn().mockResolvedValue({ data: [updatedItem], error: null });
-      const { useSupabase } = await import('@/components/SupabaseContext');
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      (useSupabase as any).mockReturnValue({
+      mockSupabaseContext({
         query: vi.fn().mockResolvedValue({ data: [], error: null }),
         mutate: mockMutate,
       });
@@ -156,9 +206,7 @@ describe('useCrudFactory', () => {
       const deletedItem = { id: '1', name: 'Deleted Test', createdAt: new Date() };
 
       const mockMutate = vi.fn().mockResolvedValue({ data: [deletedItem], error: null });
-      const { useSupabase } = await import('@/components/SupabaseContext');
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      (useSupabase as any).mockReturnValue({
+      mockSupabaseContext({
         query: vi.fn().mockResolvedValue({ data: [], error: null }),
         mutate: mockMutate,
       });
@@ -182,9 +230,7 @@ describe('useCrudFactory', () => {
     it('should handle errors gracefully', async () => {
       const mockError = new Error('Database error');
       const mockQuery = vi.fn().mockRejectedValue(mockError);
-      const { useSupabase } = await import('@/components/SupabaseContext');
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      (useSupabase as any).mockReturnValue({
+      mockSupabaseContext({
         query: mockQuery,
         mutate: vi.fn(),
       });
@@ -204,26 +250,7 @@ describe('useCrudFactory', () => {
     });
 
     it('should apply pagination options', async () => {
-      const mockQuery = vi.fn((fn) => {
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        const queryBuilder: any = {
-          from: vi.fn().mockReturnThis(),
-          select: vi.fn().mockReturnThis(),
-          limit: vi.fn().mockReturnThis(),
-          range: vi.fn().mockResolvedValue({ data: [], error: null }),
-        };
-        
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        const supabase = { from: () => queryBuilder } as any;
-        return fn(supabase);
-      });
-
-      const { useSupabase } = await import('@/components/SupabaseContext');
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      (useSupabase as any).mockReturnValue({
-        query: mockQuery,
-        mutate: vi.fn(),
-      });
+      const { run: mockQuery } = mockQueryBuilder(['select', 'limit', 'range']);
 
       const useTestEntity = createCrudHook<TestEntity, NewTestEntity>({
         tableName: 'test_entities',
@@ -243,6 +270,323 @@ describe('useCrudFactory', () => {
     });
   });
 
+  describe('organisation scoping', () => {
+    let calls: BuilderCall[];
+
+    const mockScopedSupabase = () => {
+      const builder = mockQueryBuilder(
+        ['select', 'eq', 'is', 'filter', 'insert', 'update', 'delete'],
+        undefined,
+        { single: () => Promise.resolve({ data: { id: 'job-1' }, error: null }) }
+      );
+      calls = builder.calls;
+      return builder.run;
+    };
+
+    const setActiveOrganisation = (activeOrganisationId: string | null, isOrganisationLoading = false) => {
+      mockUserContext({
+        tofilUser: { id: 'manager-1', type: 'MANAGER' },
+        activeOrganisationId,
+        isOrganisationLoading,
+      });
+    };
+
+    it('should filter organisation-owned tables by the active organisation', async () => {
+      mockScopedSupabase();
+      setActiveOrganisation('org-1');
+      const useJobs = createCrudHook<TestEntity>({ tableName: 'jobs', queryKey: 'jobs' });
+
+      const { result } = renderHook(() => useJobs(), { wrapper });
+      await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+      expect(calls).toContainEqual({ method: 'eq', args: ['organisation_id', 'org-1'] });
+      expect(queryClient.getQueryCache().find({ queryKey: ['jobs', { organisationId: 'org-1' }] })).toBeDefined();
+    });
+
+    it('should create items in the active organisation', async () => {
+      mockScopedSupabase();
+      setActiveOrganisation('org-1');
+      const useJobs = createCrudHook<TestEntity, NewTestEntity>({ tableName: 'jobs', queryKey: 'jobs' });
+
+      const { result } = renderHook(() => useJobs(), { wrapper });
+      await waitFor(() => expect(result.current.isLoading).toBe(false));
+      await result.current.createItemAsync({ name: 'New job' });
+
+      expect(calls.find(c => c.method === 'insert')?.args[0]).toEqual({ organisation_id: 'org-1', name: 'New job' });
+    });
+
+    it('should wait until the active organisation is known', async () => {
+      const run = mockScopedSupabase();
+      setActiveOrganisation(null, true);
+      const useJobs = createCrudHook<TestEntity>({ tableName: 'jobs', queryKey: 'jobs' });
+
+      renderHook(() => useJobs(), { wrapper });
+
+      expect(run).not.toHaveBeenCalled();
+    });
+
+    it('should apply typed filters and key them stably', async () => {
+      mockScopedSupabase();
+      setActiveOrganisation(null);
+      const useEntities = createCrudHook<TestEntity>({ tableName: 'test_entities', queryKey: 'test-entities' });
+
+      const { result } = renderHook(
+        () => useEntities({ filters: { name: { ilike: '%boiler%' }, description: null } }),
+        { wrapper }
+      );
+      await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+      expect(calls).toContainEqual({ method: 'filter', args: ['name', 'ilike', '%boiler%'] });
+      expect(calls).toContainEqual({ method: 'filter', args: ['description', 'is', 'null'] });
+      expect(queryClient.getQueryCache().find({
+        queryKey: ['test-entities', { filters: 'description.is.null&name.ilike.%boiler%' }],
+      })).toBeDefined();
+    });
+
+    it('should not scope tables without an organisation column', async () => {
+      mockScopedSupabase();
+      setActiveOrganisation('org-1');
+      const useEntities = createCrudHook<TestEntity>({ tableName: 'test_entities', queryKey: 'test-entities' });
+      const useUnscopedJobs = createCrudHook<TestEntity>({
+        tableName: 'jobs',
+        queryKey: 'unscoped-jobs',
+        organisationColumn: null,
+      });
+
+      const entities = renderHook(() => useEntities(), { wrapper });
+      const jobs = renderHook(() => useUnscopedJobs(), { wrapper });
+      await waitFor(() => expect(entities.result.current.isLoading).toBe(false));
+      await waitFor(() => expect(jobs.result.current.isLoading).toBe(false));
+
+      expect(calls.some(c => c.method === 'eq')).toBe(false);
+    });
+  });
+
+  describe('soft delete', () => {
+    let calls: BuilderCall[];
+
+    const mockSupabase = (type: 'ADMIN' | 'OWNER') => {
+      ({ calls } = mockQueryBuilder(['select', 'eq', 'is', 'filter', 'update', 'delete']));
+      mockUserContext({
+        tofilUser: { id: 'user-1', type },
+        activeOrganisationId: null,
+        isOrganisationLoading: false,
+      });
+    };
+
+    const useJobs = createCrudHook<TestEntity>({ tableName: 'jobs', queryKey: 'jobs' });
+
+    it('should leave deleted rows out of lists unless they are asked for', async () => {
+      mockSupabase('OWNER');
+
+      const { result } = renderHook(() => useJobs(), { wrapper });
+      await waitFor(() => expect(result.current.isLoading).toBe(false));
+      expect(calls).toContainEqual({ method: 'is', args: ['deleted_at', null] });
+
+      calls.length = 0;
+      const trash = renderHook(() => useJobs({ includeDeleted: true }), { wrapper });
+      await waitFor(() => expect(trash.result.current.isLoading).toBe(false));
+      expect(calls.some(c => c.method === 'is')).toBe(false);
+      expect(queryClient.getQueryCache().find({ queryKey: ['jobs', { includeDeleted: true }] })).toBeDefined();
+    });
+
+    it('should soft-delete and restore items', async () => {
+      mockSupabase('OWNER');
+
+      const { result } = renderHook(() => useJobs(), { wrapper });
+      await waitFor(() => expect(result.current.isLoading).toBe(false));
+      await result.current.deleteItemAsync('job-1');
+      await result.current.restoreItemAsync('job-1');
+
+      const updates = calls.filter(c => c.method === 'update').map(c => c.args[0]);
+      expect(updates[0]).toEqual({ deleted_at: expect.any(String), deleted_by: 'user-1' });
+      expect(updates[1]).toEqual({ deleted_at: null, deleted_by: null });
+      expect(calls.some(c => c.method === 'delete')).toBe(false);
+    });
+
+    it('should not find a deleted item unless it is asked for', async () => {
+      mockSupabase('OWNER');
+      const useJob = createSingleItemHook<TestEntity>({ tableName: 'jobs', queryKey: 'jobs' });
+
+      const { result } = renderHook(() => useJob('job-1'), { wrapper });
+      await waitFor(() => expect(result.current.isLoading).toBe(false));
+      expect(calls).toContainEqual({ method: 'is', args: ['deleted_at', null] });
+
+      calls.length = 0;
+      const trashed = renderHook(() => useJob('job-1', { includeDeleted: true }), { wrapper });
+      await waitFor(() => expect(trashed.result.current.isLoading).toBe(false));
+      expect(calls.some(c => c.method === 'is')).toBe(false);
+    });
+
+    it('should only let admins purge items', async () => {
+      mockSupabase('OWNER');
+      const owner = renderHook(() => useJobs(), { wrapper });
+      await waitFor(() => expect(owner.result.current.isLoading).toBe(false));
+
+      await expect(owner.result.current.purgeItemAsync('job-1')).rejects.toThrow('Only admins');
+      expect(calls.some(c => c.method === 'delete')).toBe(false);
+
+      mockSupabase('ADMIN');
+      const admin = renderHook(() => useJobs(), { wrapper });
+      await waitFor(() => expect(admin.result.current.isLoading).toBe(false));
+      await admin.result.current.purgeItemAsync('job-1');
+
+      expect(calls).toContainEqual({ method: 'delete', args: [] });
+    });
+  });
+
+  describe('relation includes', () => {
+    it('should embed included relations and key the cache by them', async () => {
+      const { calls } = mockQueryBuilder(['select', 'eq', 'is'], () => ({
+        data: [{ id: 'job-1', name: 'Fix leak', location: null, files: [{ target: { id: 'file-1' } }] }],
+        error: null,
+      }));
+
+      const useJobs = createCrudHook<TestEntity>({ tableName: 'jobs', queryKey: 'jobs', select: 'id, name' });
+      const withDetails = include('jobs', { location: true, files: ['id'] });
+      const { result } = renderHook(() => useJobs({ include: withDetails }), { wrapper });
+
+      await waitFor(() => expect(result.current.isLoading).toBe(false));
+      expect(calls[0]).toEqual({
+        method: 'select',
+        args: ['id, name, files:job_files!job_id(target:files!file_id(id)), location:locations!location_id(*)'],
+      });
+      expect(calls).toContainEqual({ method: 'is', args: ['files.deleted_at', null] });
+      expect(result.current.data?.[0].files).toEqual([{ id: 'file-1' }]);
+      expect(result.current.data?.[0].location).toBeNull();
+      expect(queryClient.getQueryCache().find({ queryKey: ['jobs', { include: withDetails.key }] })).toBeDefined();
+    });
+  });
+
+  describe('optimistic updates', () => {
+    interface VersionedEntity {
+      id: string;
+      name: string;
+      updatedAt: string;
+    }
+
+    let calls: BuilderCall[];
+    // Each query resolves with the next result, or waits for a deferred one
+    let results: unknown[];
+
+    const mockSupabase = () => {
+      ({ calls } = mockQueryBuilder(['select', 'eq', 'update'], () => results.shift()));
+    };
+
+    const useItems = createCrudHook<VersionedEntity>({ tableName: 'items', queryKey: 'items' });
+    const loaded = { data: [{ id: '1', name: 'Old', updatedAt: 'v1' }], error: null };
+
+    it('should show updates straight away and roll back with a retry when they fail', async () => {
+      mockSupabase();
+      let fail: (result: unknown) => void = () => {};
+      results = [loaded, new Promise(resolve => { fail = resolve; }), loaded];
+
+      const { result } = renderHook(() => useItems(), { wrapper });
+      await waitFor(() => expect(result.current.data).toEqual(loaded.data));
+
+      act(() => result.current.updateItem({ id: '1', name: 'New' }));
+      await waitFor(() => expect(result.current.data?.[0]).toMatchObject({ name: 'New', updatedAt: 'v1' }));
+      expect(calls).toContainEqual({ method: 'eq', args: ['updated_at', 'v1'] });
+      expect(calls.find(c => c.method === 'update')?.args[0]).toEqual({ name: 'New', updatedAt: expect.any(String) });
+
+      await act(async () => fail({ data: null, error: { message: 'Network down' } }));
+      await waitFor(() => expect(result.current.data?.[0].name).toBe('Old'));
+      expect(toast).toHaveBeenCalledWith(expect.objectContaining({
+        title: 'Change undone',
+        variant: 'destructive',
+        action: expect.anything(),
+      }));
+    });
+
+    it('should detect changes made since the item was loaded', async () => {
+      mockSupabase();
+      const changed = { data: [{ id: '1', name: 'Theirs', updatedAt: 'v2' }], error: null };
+      results = [loaded, { data: [], error: null }, { data: [{ updatedAt: 'v2' }], error: null }, changed];
+
+      const { result } = renderHook(() => useItems(), { wrapper });
+      await waitFor(() => expect(result.current.data).toEqual(loaded.data));
+
+      await act(async () => {
+        await expect(result.current.updateItemAsync({ id: '1', name: 'Mine' })).rejects.toThrow(ConflictError);
+      });
+      await waitFor(() => expect(result.current.data).toEqual(changed.data));
+      const { title, action } = toast.mock.calls[0][0];
+      expect(title).toBe('Changed by someone else');
+
+      // Retrying applies the change to the latest version
+      calls.length = 0;
+      results = [{ data: [{ id: '1', name: 'Mine', updatedAt: 'v3' }], error: null }, { data: [], error: null }];
+      act(() => action.props.onClick());
+      await waitFor(() => expect(calls).toContainEqual({ method: 'eq', args: ['updated_at', 'v2'] }));
+    });
+
+    it('should tell deleted items apart from changed ones, without offering a retry', async () => {
+      mockSupabase();
+      results = [loaded, { data: [], error: null }, { data: [], error: null }, { data: [], error: null }];
+
+      const { result } = renderHook(() => useItems(), { wrapper });
+      await waitFor(() => expect(result.current.data).toEqual(loaded.data));
+
+      await act(async () => {
+        await expect(result.current.updateItemAsync({ id: '1', name: 'Mine' })).rejects.toThrow(NotFoundError);
+      });
+      expect(toast).toHaveBeenCalledWith(expect.objectContaining({
+        title: 'Change undone',
+        description: 'This item no longer exists.',
+        action: undefined,
+      }));
+    });
+
+    it('should report a refused update of an unchanged item as a permission error', async () => {
+      mockSupabase();
+      results = [loaded, { data: [], error: null }, { data: [{ updatedAt: 'v1' }], error: null }, loaded];
+
+      const { result } = renderHook(() => useItems(), { wrapper });
+      await waitFor(() => expect(result.current.data).toEqual(loaded.data));
+
+      await act(async () => {
+        await expect(result.current.updateItemAsync({ id: '1', name: 'Mine' })).rejects.toThrow(PermissionError);
+      });
+      expect(calls).toContainEqual({ method: 'select', args: ['updated_at'] });
+      await waitFor(() => expect(result.current.data).toEqual(loaded.data));
+    });
+  });
+
+  describe('createInfiniteCrudHook', () => {
+    it('should page with keyset cursors and count the total once', async () => {
+      const rows = [
+        { id: 'c', name: 'Third', createdAt: '2026-03-14T12:00:02.000001' },
+        { id: 'b', name: 'Second', createdAt: '2026-03-14T12:00:01.000001' },
+        { id: 'a', name: 'First', createdAt: '2026-03-14T12:00:00.000001' },
+      ];
+      const results = [{ data: rows, count: 3, error: null }, { data: rows.slice(2), count: null, error: null }];
+      const { calls } = mockQueryBuilder(['select', 'eq', 'is', 'filter', 'or', 'order', 'limit'], () => results.shift());
+
+      const useTestPages = createInfiniteCrudHook<TestEntity>({ tableName: 'test_entities', queryKey: 'test-entities' });
+      const { result } = renderHook(() => useTestPages({ pageSize: 2 }), { wrapper });
+
+      await waitFor(() => expect(result.current.isLoading).toBe(false));
+      expect(result.current.pages.map(page => page.map(row => row.id))).toEqual([['c', 'b']]);
+      expect(result.current.totalCount).toBe(3);
+      expect(result.current.pageCount).toBe(2);
+      expect(result.current.hasNextPage).toBe(true);
+      expect(calls).toContainEqual({ method: 'select', args: ['*', { count: 'exact' }] });
+      expect(calls).toContainEqual({ method: 'limit', args: [3] });
+
+      calls.length = 0;
+      result.current.fetchNextPage();
+
+      await waitFor(() => expect(result.current.data).toHaveLength(3));
+      expect(result.current.hasNextPage).toBe(false);
+      expect(result.current.totalCount).toBe(3);
+      expect(calls).toContainEqual({ method: 'select', args: ['*', undefined] });
+      expect(calls).toContainEqual({
+        method: 'or',
+        args: ['created_at.lt."2026-03-14T12:00:01.000001",and(created_at.eq."2026-03-14T12:00:01.000001",id.lt.b)'],
+      });
+    });
+  });
+
   describe('createSingleItemHook', () => {
     it('should create a hook for fetching single items', () => {
       const useTestEntity = createSingleItemHook<TestEntity>({
@@ -260,9 +604,7 @@ describe('useCrudFactory', () => {
     it('should fetch a single item by ID', async () => {
       const mockItem = { id: '1', name: 'Test Item', createdAt: new Date() };
       const mockQuery = vi.fn().mockResolvedValue({ data: mockItem, error: null });
-      const { useSupabase } = await import('@/components/SupabaseContext');
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      (useSupabase as any).mockReturnValue({
+      mockSupabaseContext({
         query: mockQuery,
       });
 
@@ -282,9 +624,7 @@ describe('useCrudFactory', () => {
 
     it('should not fetch when ID is not provided', async () => {
       const mockQuery = vi.fn();
-      const { useSupabase } = await import('@/components/SupabaseContext');
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      (useSupabase as any).mockReturnValue({
+      mockSupabaseContext({
         query: mockQuery,
       });
 
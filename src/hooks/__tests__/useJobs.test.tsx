@@ -0,0 +1,83 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, waitFor } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { useJobs, useJob } from '../useJobs';
+import React from 'react';
+
+vi.mock('@/components/SupabaseContext', () => ({
+  useSupabase: vi.fn(),
+}));
+
+vi.mock('@/components/UserContext', () => ({
+  useUser: vi.fn(),
+}));
+
+describe('useJobs', () => {
+  let queryClient: QueryClient;
+  let wrapper: React.FC<{ children: React.ReactNode }>;
+  let selectedColumns: string[];
+
+  beforeEach(async () => {
+    queryClient = new QueryClient({
+      defaultOptions: { queries: { retry: false } },
+    });
+    wrapper = ({ children }) => (
+      <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+    );
+    selectedColumns = [];
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const runQuery = vi.fn((fn: any) => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const builder: any = {
+        select: vi.fn((columns: string) => {
+          selectedColumns = columns.split(', ');
+          return builder;
+        }),
+        eq: vi.fn(() => builder),
+        is: vi.fn(() => builder),
+        filter: vi.fn(() => builder),
+        single: vi.fn(() => Promise.resolve({ data: { id: 'job-1' }, error: null })),
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        then: (resolve: any) => resolve({ data: [{ id: 'job-1' }], error: null }),
+      };
+      return fn({ from: () => builder });
+    });
+
+    const { useSupabase } = await import('@/components/SupabaseContext');
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    (useSupabase as any).mockReturnValue({ query: runQuery, mutate: vi.fn() });
+
+    const { useUser } = await import('@/components/UserContext');
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    (useUser as any).mockReturnValue({ tofilUser: { id: 'contractor-1', type: 'CONTRACTOR' } });
+  });
+
+  it('should never request listingPrice or notes for a contractor list', async () => {
+    const { result } = renderHook(() => useJobs(), { wrapper });
+
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+    expect(selectedColumns).toContain('contractor_price');
+    expect(selectedColumns).not.toContain('listing_price');
+    expect(selectedColumns).not.toContain('notes');
+    expect(selectedColumns).not.toContain('*');
+  });
+
+  it('should never request listingPrice or notes for a contractor detail', async () => {
+    const { result } = renderHook(() => useJob('job-1'), { wrapper });
+
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+    expect(selectedColumns).not.toContain('listing_price');
+    expect(selectedColumns).not.toContain('notes');
+  });
+
+  it('should scope the cache key by role', async () => {
+    const { result } = renderHook(() => useJobs({ filters: { status: 'AVAILABLE' } }), { wrapper });
+
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+    expect(queryClient.getQueryData(['jobs', { filters: 'status.eq.AVAILABLE' }, 'CONTRACTOR'])).toBeDefined();
+  });
+});
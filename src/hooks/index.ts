@@ -1,13 +1,26 @@
 // Core hooks - always imported
 export { useAuth } from './useAuth';
+export { useCan } from './useCan';
 export { useUser } from '@/components/UserContext';
 export { useSupabase } from '@/components/SupabaseContext';
 export { useToast } from '@/components/ui/useToast';
 
 // Factory hooks
-export { createCrudHook, createSingleItemHook } from './useCrudFactory';
+export { createCrudHook, createInfiniteCrudHook, createSingleItemHook } from './useCrudFactory';
 export { createSmartCrudHook, createSmartSingleItemHook } from './useSmartCrud';
 
+// Data hooks
+export { useJobs, useJob, useMatchedJobs, useClaimJob, useTransitionJob } from './useJobs';
+export { useInvitations } from './useInvitations';
+export { useHistory } from './useHistory';
+export { useContractorDocuments, useDocumentReviewQueue } from './useContractorDocuments';
+export { useLocations } from './useLocations';
+export { useLocationManagers, useManagedLocations } from './useLocationManagers';
+export { useNotifications, useUnreadNotificationCount } from './useNotifications';
+export { useNotificationPreferences } from './useNotificationPreferences';
+export { useNotificationOutbox } from './useNotificationOutbox';
+export { useUndoableDelete } from './useUndoableDelete';
+
 // State management hooks
 export { useLocalStorage } from './useLocalStorage';
 export { useDebounce } from './useDebounce';
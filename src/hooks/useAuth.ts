@@ -5,12 +5,10 @@ import { useSupabase } from '@/components/SupabaseContext';
 import { AuthError } from '@supabase/supabase-js';
 import { transformError } from '@/lib/error-handling';
 import { getBaseUrl } from '@/lib/utils';
-
-
-type UserRole = 'ADMIN' | 'OWNER' | 'MANAGER' | 'CONTRACTOR';
+import type { UserType } from '@/lib/db/schema';
 
 interface UseAuthOptions {
-  requiredRole?: UserRole;
+  requiredRole?: UserType | readonly UserType[];
   redirectTo?: string;
 }
 
@@ -21,7 +19,7 @@ interface AuthState {
 
 export function useAuth(options: UseAuthOptions = {}) {
   const { requiredRole, redirectTo = '/login' } = options;
-  const { profile, isLoading: userLoading, signOut, supabaseUser } = useUser();
+  const { profile, tofilUser, isLoading: userLoading, signOut, supabaseUser } = useUser();
   const { client: supabase } = useSupabase();
   const router = useRouter();
   const [authState, setAuthState] = useState<AuthState>({
@@ -29,16 +27,24 @@ export function useAuth(options: UseAuthOptions = {}) {
     error: null,
   });
 
+  const role = tofilUser?.type ?? null;
+
+  // Check whether the current user has one of the given roles
+  const hasRole = useCallback((roles: UserType | readonly UserType[]) => {
+    if (!role) return false;
+    return typeof roles === 'string' ? roles === role : roles.includes(role);
+  }, [role]);
+
   // Optional: role-based redirect
   useEffect(() => {
-    // Note: Role-based access control needs to be implemented based on your profile schema
-    // Example: if (!userLoading && requiredRole && profile && profile.role !== requiredRole) {
-    //   router.push('/not-authorized');
-    // }
-    if (!userLoading && requiredRole && !profile) {
+    if (userLoading || !requiredRole) return;
+
+    if (!tofilUser) {
       router.push(redirectTo);
+    } else if (!hasRole(requiredRole)) {
+      router.push('/not-authorized');
     }
-  }, [userLoading, requiredRole, profile, redirectTo, router]);
+  }, [userLoading, requiredRole, tofilUser, hasRole, redirectTo, router]);
 
   // Sign in with email and password
   const signInWithPassword = useCallback(async (email: string, password: string) => {
@@ -179,7 +185,10 @@ export function useAuth(options: UseAuthOptions = {}) {
   return {
     // User state
     user: profile,
+    tofilUser,
     supabaseUser,
+    role,
+    hasRole,
     isLoading: userLoading || authState.isLoading,
     error: authState.error,
     
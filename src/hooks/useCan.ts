@@ -0,0 +1,15 @@
+import { useUser } from '@/components/UserContext';
+import { can, type RbacAction, type RbacResource } from '@/lib/auth/rbac';
+
+/**
+ * Check whether the current user may perform an action on a resource
+ *
+ * @example
+ * ```typescript
+ * const canCreateJobs = useCan('create', 'jobs');
+ * ```
+ */
+export function useCan(action: RbacAction, resource: RbacResource): boolean {
+  const { tofilUser } = useUser();
+  return can(tofilUser?.type, action, resource);
+}
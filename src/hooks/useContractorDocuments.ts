@@ -0,0 +1,238 @@
+import { useCallback, useMemo } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { camelizeKeys, decamelize } from 'humps';
+import { PostgrestError, SupabaseClient } from '@supabase/supabase-js';
+import { useSupabase } from '@/components/SupabaseContext';
+import { useUser } from '@/components/UserContext';
+import { contractorKeys } from '@/lib/queryKeys';
+import { apiFetch } from '@/lib/api/client';
+import { transformError } from '@/lib/error-handling';
+import type { Database } from '@/types/drizzle';
+import type {
+  ContractorDocumentReview,
+  ContractorDocuments,
+  ContractorDocumentType,
+  FileRecord,
+} from '@/lib/db/schema';
+import {
+  CONTRACTOR_DOCUMENTS_BUCKET,
+  getContractorDocument,
+  getContractorVerification,
+  getDocumentStoragePath,
+  validateDocumentFile,
+} from '@/lib/contractors/documents';
+import type { ContractorDetailsInput, ReviewDocumentInput } from '@/lib/contractors/schemas';
+
+interface ContractorDocumentsData {
+  documents: ContractorDocuments | null;
+  reviews: ContractorDocumentReview[];
+}
+
+export type PendingDocumentReview = ContractorDocumentReview & {
+  user: { id: string; name: string; email: string } | null;
+  file: Pick<FileRecord, 'id' | 'name' | 'type' | 'bucket' | 'storagePath'> | null;
+};
+
+/**
+ * The signed-in contractor's compliance documents, reviews and verification,
+ * with mutations to upload a document and save business/insurance details
+ */
+export function useContractorDocuments() {
+  const { query, mutate } = useSupabase<ContractorDocumentsData>();
+  const { tofilUser } = useUser();
+  const queryClient = useQueryClient();
+  const userId = tofilUser?.id ?? '';
+
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey: contractorKeys.documents(userId),
+    queryFn: async () => {
+      const { data, error } = await query(async (supabase: SupabaseClient<Database>) => {
+        const [documents, reviews] = await Promise.all([
+          supabase.from('contractor_documents').select('*').eq('user_id', userId).maybeSingle(),
+          supabase.from('contractor_document_reviews').select('*').eq('user_id', userId),
+        ]);
+        return {
+          data: {
+            documents: documents.data ? camelizeKeys(documents.data as object) as ContractorDocuments : null,
+            reviews: camelizeKeys(reviews.data ?? []) as ContractorDocumentReview[],
+          },
+          error: documents.error ?? reviews.error,
+        };
+      });
+      if (error) {
+        throw transformError(error, 'fetching contractor documents');
+      }
+      return data as ContractorDocumentsData;
+    },
+    enabled: !!userId,
+  });
+
+  const verification = useMemo(
+    () => getContractorVerification(data?.documents ?? null, data?.reviews ?? []),
+    [data]
+  );
+
+  const invalidateQueries = useCallback(() => {
+    queryClient.invalidateQueries({ queryKey: contractorKeys.documents(userId) });
+  }, [queryClient, userId]);
+
+  // Upload to Storage, record it in `files`, link it and submit it for review
+  const uploadMutation = useMutation({
+    mutationFn: async ({ type, file }: { type: ContractorDocumentType; file: File }) => {
+      validateDocumentFile(file);
+      const { column } = getContractorDocument(type);
+      const storagePath = getDocumentStoragePath(userId, type, file.name);
+
+      const { error } = await mutate(async (supabase: SupabaseClient<Database>) => {
+        const upload = await supabase.storage
+          .from(CONTRACTOR_DOCUMENTS_BUCKET)
+          .upload(storagePath, file, { contentType: file.type });
+        if (upload.error) {
+          return { data: null, error: { message: `storage/${upload.error.message}` } as PostgrestError };
+        }
+
+        const record = await supabase
+          .from('files')
+          .insert({
+            storage_path: storagePath,
+            bucket: CONTRACTOR_DOCUMENTS_BUCKET,
+            name: file.name,
+            type: file.type,
+            size: file.size,
+            uploaded_by: userId,
+            created_by: userId,
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          } as any)
+          .select('id')
+          .single();
+        if (record.error) return { data: null, error: record.error };
+        const fileId = (record.data as { id: string }).id;
+
+        const link = await supabase
+          .from('contractor_documents')
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          .upsert({ user_id: userId, [decamelize(column)]: fileId } as any, { onConflict: 'user_id' });
+        if (link.error) return { data: null, error: link.error };
+
+        const review = await supabase
+          .from('contractor_document_reviews')
+          .upsert({
+            user_id: userId,
+            document_type: type,
+            file_id: fileId,
+            status: 'pending',
+            reason: null,
+            reviewed_by: null,
+            reviewed_at: null,
+            updated_at: new Date().toISOString(),
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          } as any, { onConflict: 'user_id,document_type' });
+        return { data: null, error: review.error };
+      });
+      if (error) {
+        throw transformError(error, `uploading ${type}`);
+      }
+    },
+    onSuccess: invalidateQueries,
+  });
+
+  const detailsMutation = useMutation({
+    mutationFn: async (details: ContractorDetailsInput) => {
+      const { error } = await mutate(async (supabase: SupabaseClient<Database>) => {
+        const result = await supabase
+          .from('contractor_documents')
+          .upsert({
+            user_id: userId,
+            abn: details.abn,
+            bsb: details.bsb,
+            account_number: details.accountNumber,
+            insurance_expiry_date: details.insuranceExpiryDate.toISOString(),
+            updated_at: new Date().toISOString(),
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          } as any, { onConflict: 'user_id' });
+        return { data: null, error: result.error };
+      });
+      if (error) {
+        throw transformError(error, 'saving contractor details');
+      }
+    },
+    onSuccess: invalidateQueries,
+  });
+
+  return {
+    documents: data?.documents ?? null,
+    reviews: data?.reviews ?? [],
+    verification,
+    isLoading,
+    error,
+    refetch,
+    uploadDocument: uploadMutation.mutate,
+    uploadDocumentAsync: uploadMutation.mutateAsync,
+    uploadMutation,
+    saveDetails: detailsMutation.mutate,
+    saveDetailsAsync: detailsMutation.mutateAsync,
+    detailsMutation,
+  };
+}
+
+/**
+ * Admin queue of documents waiting for review
+ */
+export function useDocumentReviewQueue() {
+  const { client, query } = useSupabase<PendingDocumentReview[]>();
+  const queryClient = useQueryClient();
+
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey: contractorKeys.reviews('pending'),
+    queryFn: async () => {
+      const { data, error } = await query(async (supabase: SupabaseClient<Database>) => {
+        const result = await supabase
+          .from('contractor_document_reviews')
+          .select('*, user:users!user_id(id, name, email), file:files(id, name, type, bucket, storage_path)')
+          .eq('status', 'pending')
+          .order('updated_at', { ascending: true });
+        return {
+          data: result.data ? camelizeKeys(result.data) as PendingDocumentReview[] : [],
+          error: result.error,
+        };
+      });
+      if (error) {
+        throw transformError(error, 'fetching document reviews');
+      }
+      return data ?? [];
+    },
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: ({ id, ...input }: ReviewDocumentInput & { id: string }) =>
+      apiFetch<ContractorDocumentReview>(`/api/document-reviews/${id}`, {
+        method: 'PATCH',
+        body: JSON.stringify(input),
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: contractorKeys.reviews() });
+      queryClient.invalidateQueries({ queryKey: contractorKeys.documents() });
+    },
+  });
+
+  // Short-lived link for previewing a private document
+  const getDocumentUrl = useCallback(async (file: NonNullable<PendingDocumentReview['file']>) => {
+    const { data, error } = await client.storage.from(file.bucket).createSignedUrl(file.storagePath, 60 * 5);
+    if (error) {
+      throw transformError(error, 'opening document');
+    }
+    return data.signedUrl;
+  }, [client]);
+
+  return {
+    data,
+    isLoading,
+    error,
+    refetch,
+    reviewDocument: reviewMutation.mutate,
+    reviewDocumentAsync: reviewMutation.mutateAsync,
+    reviewMutation,
+    getDocumentUrl,
+  };
+}
+
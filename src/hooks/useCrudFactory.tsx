@@ -0,0 +1,873 @@
+import { 
+  useQuery, 
+  useInfiniteQuery,
+  useMutation, 
+  useQueryClient,
+  UseMutationResult 
+} from '@tanstack/react-query';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { camelizeKeys, decamelizeKeys } from 'humps';
+import { useSupabase } from '@/components/SupabaseContext';
+import { useUser } from '@/components/UserContext';
+import { useToast, ToastAction } from '@/components/ui/useToast';
+import { Database } from '@/types/drizzle';
+import { transformError } from '@/lib/error-handling';
+import { useCallback, useMemo } from 'react';
+import { ConflictError, NotFoundError, PermissionError } from '@/types/errors';
+import { addCachedItem, findCachedItem, removeCachedItem, updateCachedItem } from '@/lib/queryCache';
+import type { UserType } from '@/lib/db/schema';
+import { getOrganisationColumn } from '@/lib/organisations/scope';
+import { applyFilters, getFilterKey, type Filters } from '@/lib/supabase/filters';
+import { getCursor, getCursorFilters, type Cursor } from '@/lib/supabase/cursor';
+import type { Include } from '@/lib/db/relations';
+import {
+  assertCanPurge,
+  getRestoreValues,
+  getSoftDeleteValues,
+  isSoftDeleteTable,
+} from '@/lib/trash/softDelete';
+
+// A select string, or a function choosing the columns the current role may read
+type SelectOption = string | ((role: UserType | null) => string);
+
+interface CrudOptions {
+  tableName: string;
+  queryKey: string | (() => readonly unknown[]);
+  select?: SelectOption;
+  // View to read rows from instead of the table, e.g. one that masks columns
+  readFrom?: string;
+  // Columns writes return, when the table itself hides some of `select`'s
+  writeSelect?: string;
+  // Column holding the row's organisation, or null to never scope by organisation
+  organisationColumn?: string | null;
+  // Whether deleting sets deleted_at instead of removing the row
+  softDelete?: boolean;
+  staleTime?: number;
+  gcTime?: number;
+}
+
+export interface ListOptions<T, R = unknown> {
+  // Typed filters on T's fields; see src/lib/supabase/filters.ts
+  filters?: Filters<T>;
+  // Related rows to embed, from include() in src/lib/db/relations.ts
+  include?: Include<R>;
+  orderBy?: { column: string; ascending?: boolean };
+  limit?: number;
+  offset?: number;
+  // Include soft-deleted rows; filter on deletedAt to list only those
+  includeDeleted?: boolean;
+}
+
+export interface InfiniteListOptions<T, R = unknown>
+  extends Pick<ListOptions<T, R>, 'filters' | 'include' | 'includeDeleted'> {
+  // Rows per page (default: 20)
+  pageSize?: number;
+  // Oldest first instead of newest first
+  ascending?: boolean;
+}
+
+interface InfinitePage<T> {
+  rows: T[];
+  nextCursor: Cursor | null;
+  // Only counted for the first page
+  totalCount: number | null;
+}
+
+interface InfiniteCrudHook<T> {
+  // Every row loaded so far, in order
+  data: T[] | undefined;
+  pages: T[][];
+  totalCount: number | undefined;
+  pageCount: number;
+  hasNextPage: boolean;
+  fetchNextPage: () => void;
+  isFetchingNextPage: boolean;
+  isLoading: boolean;
+  isFetching: boolean;
+  error: Error | null;
+  refetch: () => void;
+}
+
+// Cached query data from before an optimistic write, to roll back to
+interface OptimisticContext {
+  snapshot: [readonly unknown[], unknown][];
+}
+
+// Marks unfiltered list queries, which optimistically created items are added to
+const UNFILTERED_LIST = { crudList: 'unfiltered' };
+
+// The select with the embeds for included relations
+const getSelect = (tableName: string, select: string, include: Include<unknown> | undefined) => {
+  if (!include) return select;
+  if (include.table !== tableName) {
+    throw new Error(`Relations for ${include.table} can't be included in ${tableName}`);
+  }
+  return `${select}, ${include.select}`;
+};
+
+interface CrudHook<T, NewT = Partial<T>, R = unknown> {
+  data: (T & R)[] | undefined;
+  isLoading: boolean;
+  isFetching: boolean;
+  hasData: boolean;
+  error: Error | null;
+  createItem: (item: NewT) => void;
+  createItemAsync: (item: NewT) => Promise<T[]>;
+  createMutation: UseMutationResult<T[], unknown, NewT>;
+  updateItem: (params: { id: string } & Partial<T>) => void;
+  updateItemAsync: (params: { id: string } & Partial<T>) => Promise<T[]>;
+  updateMutation: UseMutationResult<T[], unknown, { id: string } & Partial<T>>;
+  deleteItem: (id: string) => void;
+  deleteItemAsync: (id: string) => Promise<T[]>;
+  deleteMutation: UseMutationResult<T[], unknown, string>;
+  restoreItem: (id: string) => void;
+  restoreItemAsync: (id: string) => Promise<T[]>;
+  restoreMutation: UseMutationResult<T[], unknown, string>;
+  purgeItem: (id: string) => void;
+  purgeItemAsync: (id: string) => Promise<T[]>;
+  purgeMutation: UseMutationResult<T[], unknown, string>;
+  refetch: () => void;
+}
+
+/**
+ * Factory function to create CRUD hooks for any Supabase table
+ * 
+ * Creates a fully-featured data hook with automatic caching, optimistic updates,
+ * and consistent error handling. Supports typed filtering (see
+ * src/lib/supabase/filters.ts), typed relation includes (see
+ * src/lib/db/relations.ts), ordering, and pagination.
+ *
+ * Mutations change every cached list and detail query holding the item before
+ * the request is sent, roll back if it fails and offer to retry in a toast.
+ * Updates to items with `updatedAt` only apply if nobody else has changed the
+ * item since it was loaded (or since the `updatedAt` passed in); otherwise they
+ * fail with a ConflictError.
+ * 
+ * @template T - The entity type (must have an id property)
+ * @template NewT - The type for creating new entities (defaults to T without id)
+ * 
+ * @param options - Configuration for the CRUD hook
+ * @param options.tableName - The Supabase table name
+ * @param options.queryKey - Query key for React Query caching (string or factory function)
+ * @param options.select - SQL select statement, or a function of the user's role (default: '*')
+ * @param options.readFrom - View to read rows through instead of the table (default: the table)
+ * @param options.writeSelect - Columns creates, updates and deletes return (default: `select`);
+ *   needed when the table hides columns that `readFrom` shows
+ * @param options.organisationColumn - Column scoping rows to the active organisation (default: from
+ *   ORGANISATION_SCOPED_TABLES). Lists are filtered by the active organisation and new items are
+ *   created in it; pass null to opt out.
+ * @param options.softDelete - Whether `deleteItem` soft-deletes (default: for tables in
+ *   SOFT_DELETE_TABLES). Soft-deleted rows are left out of lists unless `includeDeleted` is set,
+ *   `restoreItem` brings them back and `purgeItem` removes them for good (admins only).
+ * @param options.staleTime - Time in ms before data is considered stale (default: 5 minutes)
+ * @param options.gcTime - Time in ms before inactive data is garbage collected (default: 10 minutes)
+ * 
+ * @returns A hook function that provides CRUD operations
+ * 
+ * @example
+ * ```typescript
+ * // Create a users hook
+ * export const useUsers = createCrudHook<User, NewUser>({
+ *   tableName: 'users',
+ *   queryKey: userKeys.all,
+ *   select: '*',
+ *   staleTime: 5 * 60 * 1000,
+ * });
+ * 
+ * // Use the hook
+ * const {
+ *   data,
+ *   isLoading,
+ *   createItemAsync,
+ *   updateItemAsync,
+ *   deleteItemAsync,
+ * } = useUsers({
+ *   filters: { status: 'ACTIVE', type: { in: ['OWNER', 'MANAGER'] }, name: { ilike: '%smith%' } },
+ *   orderBy: { column: 'createdAt', ascending: false },
+ *   limit: 10,
+ * });
+ * ```
+ */
+export function createCrudHook<T extends { id: string }, NewT = Omit<T, 'id'>>(
+  options: CrudOptions
+): <R = unknown>(listOptions?: ListOptions<T, R>) => CrudHook<T, NewT, R> {
+  const { 
+    tableName, 
+    queryKey,
+    select = '*',
+    readFrom = tableName,
+    writeSelect,
+    organisationColumn = getOrganisationColumn(tableName),
+    softDelete = isSoftDeleteTable(tableName),
+    staleTime = 5 * 60 * 1000, // 5 minutes
+    gcTime = 10 * 60 * 1000, // 10 minutes
+  } = options;
+
+  return function useCrud<R = unknown>(listOptions?: ListOptions<T, R>): CrudHook<T, NewT, R> {
+    const { query, mutate } = useSupabase<T[]>();
+    const { tofilUser, activeOrganisationId, isOrganisationLoading } = useUser();
+    const { toast } = useToast();
+    const queryClient = useQueryClient();
+    const role = tofilUser?.type ?? null;
+    const organisationId = organisationColumn ? activeOrganisationId ?? null : null;
+    const isRoleScoped = typeof select === 'function';
+    const selectColumns = typeof select === 'function' ? select(role) : select;
+    const writeColumns = writeSelect ?? selectColumns;
+    const includeDeleted = !softDelete || !!listOptions?.includeDeleted;
+
+    // Get base query key - support both strings and functions
+    const getBaseKey = useCallback(() => 
+      typeof queryKey === 'function' ? queryKey() : [queryKey], 
+      []
+    );
+    
+    const baseKey = useMemo(() => getBaseKey(), [getBaseKey]);
+    
+    // Build query key with filters (and role, when columns depend on it, and
+    // the active organisation for scoped tables) for cache management.
+    // Filters go in as a stable string, so the same filters written in a
+    // different order share a cache entry; so do included relations.
+    const filterKey = getFilterKey(listOptions?.filters);
+    const include = listOptions?.include;
+    const includeKey = include?.key;
+    const fullQueryKey = useMemo(() => {
+      const key: unknown[] = filterKey
+        ? [...baseKey, { filters: filterKey }]
+        : [...baseKey];
+      if (includeKey) key.push({ include: includeKey });
+      if (isRoleScoped) key.push(role);
+      if (organisationId) key.push({ organisationId });
+      if (softDelete && includeDeleted) key.push({ includeDeleted });
+      return key;
+    }, [baseKey, filterKey, includeKey, isRoleScoped, role, organisationId, includeDeleted]);
+
+    // Memoize query function
+    const queryFn = useCallback(async () => {
+      const { data, error } = await query(async (supabase: SupabaseClient<Database>) => {
+        let queryBuilder = supabase.from(readFrom).select(getSelect(tableName, selectColumns, include));
+
+        // Scope to the active organisation
+        if (organisationColumn && organisationId) {
+          queryBuilder = queryBuilder.eq(organisationColumn, organisationId);
+        }
+        
+        // Leave out soft-deleted rows, and those of included relations
+        if (!includeDeleted) {
+          queryBuilder = queryBuilder.is('deleted_at', null);
+        }
+        if (include && !listOptions?.includeDeleted) {
+          include.softDeleted.forEach(alias => {
+            queryBuilder = queryBuilder.is(`${alias}.deleted_at`, null);
+          });
+        }
+
+        // Apply filters
+        queryBuilder = applyFilters(queryBuilder, listOptions?.filters);
+
+        // Apply ordering
+        if (listOptions?.orderBy) {
+          const { column, ascending = true } = listOptions.orderBy;
+          const snakeColumn = decamelizeKeys({ [column]: true });
+          const dbColumn = Object.keys(snakeColumn)[0];
+          queryBuilder = queryBuilder.order(dbColumn, { ascending });
+        }
+
+        // Apply pagination
+        if (listOptions?.limit) {
+          queryBuilder = queryBuilder.limit(listOptions.limit);
+        }
+        if (listOptions?.offset) {
+          queryBuilder = queryBuilder.range(
+            listOptions.offset,
+            listOptions.offset + (listOptions.limit || 10) - 1
+          );
+        }
+
+        const result = await queryBuilder;
+        const rows = result.data ? camelizeKeys(result.data) as T[] : [];
+        return { 
+          data: include ? rows.map(row => include.transform(row)) : rows, 
+          error: result.error 
+        };
+      });
+      
+      if (error) {
+        throw transformError(error, `fetching ${tableName}`);
+      }
+      return data as (T & R)[];
+    }, [query, listOptions, include, selectColumns, organisationId, includeDeleted]);
+
+    // Fetch data, waiting for the active organisation on scoped tables
+    const { data, isLoading, isFetching, error, refetch } = useQuery({
+      queryKey: fullQueryKey,
+      queryFn,
+      enabled: !(organisationColumn && isOrganisationLoading),
+      // Optimistic items have no relations, so only go in plain lists
+      meta: filterKey || includeKey ? undefined : UNFILTERED_LIST,
+      staleTime,
+      gcTime,
+    });
+
+    // Memoize mutation callbacks
+    const invalidateQueries = useCallback(() => {
+      const invalidateKey = getBaseKey();
+      queryClient.invalidateQueries({ queryKey: invalidateKey });
+    }, [queryClient, getBaseKey]);
+
+    // Apply a change to every cached query under the key (or those matching
+    // `meta`), keeping a snapshot to roll back to
+    const writeOptimistic = useCallback(async (
+      change: (data: unknown) => unknown,
+      meta?: typeof UNFILTERED_LIST
+    ): Promise<OptimisticContext> => {
+      const key = getBaseKey();
+      await queryClient.cancelQueries({ queryKey: key });
+      const snapshot = queryClient.getQueriesData({ queryKey: key });
+      queryClient.setQueriesData(
+        { queryKey: key, predicate: meta ? cached => cached.meta?.crudList === meta.crudList : undefined },
+        change
+      );
+      return { snapshot };
+    }, [queryClient, getBaseKey]);
+
+    // Undo an optimistic write and offer to try the mutation again
+    const rollBack = useCallback((error: unknown, context: OptimisticContext | undefined, retry: () => void) => {
+      context?.snapshot.forEach(([key, data]) => queryClient.setQueryData(key, data));
+      const isConflict = error instanceof ConflictError;
+      // Retrying won't bring back a deleted item or grant a missing permission
+      const canRetry = !(error instanceof NotFoundError || error instanceof PermissionError);
+      toast({
+        title: isConflict ? 'Changed by someone else' : 'Change undone',
+        description: isConflict
+          ? "Your change wasn't saved. Retry to apply it to the latest version."
+          : error instanceof Error ? error.message : undefined,
+        variant: 'destructive',
+        action: canRetry ? <ToastAction altText="Retry" onClick={retry}>Retry</ToastAction> : undefined,
+      });
+    }, [queryClient, toast]);
+
+    // An update of a loaded version matched no rows: read the row back to
+    // tell a newer version apart from a row that's gone or can't be changed
+    const explainMissedUpdate = useCallback(async (id: string, expectedUpdatedAt: string) => {
+      const context = { table: tableName, id };
+      const { data, error } = await query(async (supabase: SupabaseClient<Database>) => {
+        const result = await supabase
+          .from(readFrom)
+          .select(softDelete ? 'updated_at, deleted_at' : 'updated_at')
+          .eq('id', id);
+        return { data: result.data as T[] | null, error: result.error };
+      });
+      if (error) {
+        return transformError(error, `checking ${tableName} item`);
+      }
+      const current = data?.[0] as { updatedAt?: string | null; deletedAt?: string | null } | undefined;
+      if (!current || current.deletedAt) {
+        return new NotFoundError('This item no longer exists.', context);
+      }
+      if (current.updatedAt !== expectedUpdatedAt
+        && Date.parse(current.updatedAt ?? '') !== Date.parse(expectedUpdatedAt)) {
+        return new ConflictError('This item was changed by someone else.', context);
+      }
+      // Still the version that was loaded, so the update was refused
+      return new PermissionError("You don't have permission to change this item.", context);
+    }, [query]);
+
+    // Create mutation
+    const createMutation = useMutation({
+      mutationFn: useCallback(async (newItem: NewT) => {
+        const { data, error } = await mutate(async (supabase: SupabaseClient<Database>) => {
+          // New items go in the active organisation unless they name one
+          const organisationDefault = organisationColumn && organisationId
+            ? { [organisationColumn]: organisationId }
+            : {};
+          const result = await supabase
+            .from(tableName)
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            .insert({ ...organisationDefault, ...decamelizeKeys(newItem as object) } as any)
+            .select(writeColumns);
+          return { 
+            data: result.data ? camelizeKeys(result.data) as T[] : [], 
+            error: result.error 
+          };
+        });
+        if (error) {
+          throw transformError(error, `creating ${tableName} item`);
+        }
+        return data as T[];
+      }, [mutate, writeColumns, organisationId]),
+      // Shown at the top of unfiltered lists until the real item loads
+      onMutate: (newItem: NewT) => writeOptimistic(
+        data => addCachedItem(data, { ...newItem, id: `optimistic-${Date.now()}` }),
+        UNFILTERED_LIST
+      ),
+      onError: (error, newItem, context) => rollBack(error, context, () => createMutation.mutate(newItem)),
+      onSettled: invalidateQueries,
+    });
+
+    // Update mutation
+    const updateMutation = useMutation({
+      mutationFn: useCallback(async ({ id, ...params }: { id: string } & Partial<T>) => {
+        // The version being changed: as passed in, or as loaded before the
+        // optimistic write (which leaves updatedAt alone)
+        const { updatedAt: passedVersion, ...updates } = params as Partial<T> & { updatedAt?: Date | string | null };
+        const loadedVersion = findCachedItem<T & { updatedAt?: Date | string | null }>(
+          queryClient.getQueriesData({ queryKey: getBaseKey() }),
+          id
+        )?.updatedAt;
+        const version = passedVersion ?? loadedVersion;
+        const expectedUpdatedAt = version instanceof Date ? version.toISOString() : version;
+
+        const { data, error } = await mutate(async (supabase: SupabaseClient<Database>) => {
+          // Remove any relation properties that shouldn't be updated
+          // Remove relation properties that shouldn't be updated
+          const relationKeys = [
+            'managers',
+            'organisation',
+            'organization',
+            'owner',
+            'contractor',
+            'location',
+            'createdByUser',
+            'updatedByUser',
+            'deletedByUser',
+            'jobHistories',
+            'jobFiles'
+          ];
+          
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          const cleanedUpdates = Object.entries(updates as any).reduce((acc, [key, value]) => {
+            if (!relationKeys.includes(key)) {
+              acc[key] = value;
+            }
+            return acc;
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          }, {} as any);
+          
+          // Filter out any remaining array properties
+          const finalUpdates = Object.entries(cleanedUpdates).reduce((acc, [key, value]) => {
+            if (!Array.isArray(value)) {
+              acc[key] = value;
+            }
+            return acc;
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          }, {} as any);
+          
+          // Only update the version that was loaded, bumping it
+          let updateBuilder = supabase
+            .from(tableName)
+            // @ts-expect-error - Complex generic typing issue with Supabase client
+            .update(decamelizeKeys(expectedUpdatedAt
+              ? { ...finalUpdates, updatedAt: new Date().toISOString() }
+              : finalUpdates))
+            .eq('id', id);
+          if (expectedUpdatedAt) {
+            updateBuilder = updateBuilder.eq('updated_at', expectedUpdatedAt);
+          }
+          const result = await updateBuilder.select(writeColumns);
+          return { 
+            data: result.data ? camelizeKeys(result.data) as T[] : [], 
+            error: result.error 
+          };
+        });
+        if (error) {
+          throw transformError(error, `updating ${tableName} item`);
+        }
+        if (expectedUpdatedAt && (!data || data.length === 0)) {
+          throw await explainMissedUpdate(id, expectedUpdatedAt);
+        }
+        return data as T[];
+      }, [mutate, explainMissedUpdate, writeColumns, queryClient, getBaseKey]),
+      // One at a time, so each update starts from the version the last one saved
+      scope: { id: `${tableName}:update` },
+      onMutate: ({ id, ...params }) => {
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        const { updatedAt, ...changes } = params as Partial<T> & { updatedAt?: unknown };
+        return writeOptimistic(data => updateCachedItem(data, id, changes));
+      },
+      onSuccess: rows => {
+        rows.forEach(row => queryClient.setQueriesData(
+          { queryKey: getBaseKey() },
+          data => updateCachedItem(data, row.id, row)
+        ));
+      },
+      onError: (error, params, context) => rollBack(error, context, () => updateMutation.mutate(
+        // Apply the change to whatever version is current now
+        { ...params, updatedAt: undefined }
+      )),
+      onSettled: invalidateQueries,
+    });
+
+    // Delete mutation: soft-deletes where the table supports it
+    const deleteMutation = useMutation({
+      mutationFn: useCallback(async (id: string) => {
+        const { data, error } = await mutate(async (supabase: SupabaseClient<Database>) => {
+          const result = softDelete
+            ? await supabase
+              .from(tableName)
+              // @ts-expect-error - Complex generic typing issue with Supabase client
+              .update(getSoftDeleteValues(tableName, tofilUser?.id ?? null))
+              .eq('id', id)
+              .select(writeColumns)
+            : await supabase
+              .from(tableName)
+              .delete()
+              .eq('id', id)
+              .select(writeColumns);
+          return { 
+            data: result.data ? camelizeKeys(result.data) as T[] : [], 
+            error: result.error 
+          };
+        });
+        if (error) {
+          throw transformError(error, `deleting ${tableName} item`);
+        }
+        return data as T[];
+      }, [mutate, writeColumns, tofilUser?.id]),
+      onMutate: (id: string) => writeOptimistic(data => removeCachedItem(data, id)),
+      onError: (error, id, context) => rollBack(error, context, () => deleteMutation.mutate(id)),
+      onSettled: invalidateQueries,
+    });
+
+    // Restore mutation: takes a soft-deleted item out of the Trash
+    const restoreMutation = useMutation({
+      mutationFn: useCallback(async (id: string) => {
+        const { data, error } = await mutate(async (supabase: SupabaseClient<Database>) => {
+          const result = await supabase
+            .from(tableName)
+            // @ts-expect-error - Complex generic typing issue with Supabase client
+            .update(getRestoreValues(tableName))
+            .eq('id', id)
+            .select(writeColumns);
+          return { 
+            data: result.data ? camelizeKeys(result.data) as T[] : [], 
+            error: result.error 
+          };
+        });
+        if (error) {
+          throw transformError(error, `restoring ${tableName} item`);
+        }
+        return data as T[];
+      }, [mutate, writeColumns]),
+      // Out of the Trash lists straight away; other lists get it on refetch
+      onMutate: (id: string) => writeOptimistic(data => removeCachedItem(data, id)),
+      onError: (error, id, context) => rollBack(error, context, () => restoreMutation.mutate(id)),
+      onSettled: invalidateQueries,
+    });
+
+    // Purge mutation: deletes for good, admins only
+    const purgeMutation = useMutation({
+      mutationFn: useCallback(async (id: string) => {
+        assertCanPurge(role);
+        const { data, error } = await mutate(async (supabase: SupabaseClient<Database>) => {
+          const result = await supabase
+            .from(tableName)
+            .delete()
+            .eq('id', id)
+            .select(writeColumns);
+          return { 
+            data: result.data ? camelizeKeys(result.data) as T[] : [], 
+            error: result.error 
+          };
+        });
+        if (error) {
+          throw transformError(error, `purging ${tableName} item`);
+        }
+        return data as T[];
+      }, [mutate, writeColumns, role]),
+      onMutate: (id: string) => writeOptimistic(data => removeCachedItem(data, id)),
+      onError: (error, id, context) => rollBack(error, context, () => purgeMutation.mutate(id)),
+      onSettled: invalidateQueries,
+    });
+
+    return {
+      data,
+      isLoading,
+      isFetching,
+      error,
+      refetch,
+      hasData: !!data && data.length > 0,
+      createItem: createMutation.mutate,
+      createItemAsync: createMutation.mutateAsync,
+      createMutation,
+      updateItem: updateMutation.mutate,
+      updateItemAsync: updateMutation.mutateAsync,
+      updateMutation,
+      deleteItem: deleteMutation.mutate,
+      deleteItemAsync: deleteMutation.mutateAsync,
+      deleteMutation,
+      restoreItem: restoreMutation.mutate,
+      restoreItemAsync: restoreMutation.mutateAsync,
+      restoreMutation,
+      purgeItem: purgeMutation.mutate,
+      purgeItemAsync: purgeMutation.mutateAsync,
+      purgeMutation,
+    };
+  };
+}
+
+/**
+ * Factory function to create an infinitely paginated list hook
+ *
+ * Pages through a table with keyset cursors on `(createdAt, id)`, newest
+ * first, so rows added while paging don't shift later pages; the select must
+ * include both columns. The first page also fetches the total count. Lists are
+ * scoped and filtered like `createCrudHook`'s, whose mutations refresh these
+ * pages too when both share a query key.
+ *
+ * Pass the result to `DataTable`'s `pagination` prop for page controls on
+ * desktop and infinite scroll on mobile.
+ *
+ * @template T - The entity type (must have id and createdAt properties)
+ *
+ * @param options - Configuration as for `createCrudHook`
+ *
+ * @returns A hook function taking filters and a page size
+ *
+ * @example
+ * ```typescript
+ * export const useJobPages = createInfiniteCrudHook<Job>({
+ *   tableName: 'jobs',
+ *   queryKey: jobKeys.all,
+ *   select: getJobSelect,
+ *   readFrom: VISIBLE_JOBS_VIEW,
+ * });
+ *
+ * const jobs = useJobPages({ filters: { status: 'AVAILABLE' }, pageSize: 25 });
+ * <DataTable columns={columns} data={jobs.data ?? []} searchKey="title" pagination={jobs} />
+ * ```
+ */
+export function createInfiniteCrudHook<T extends { id: string; createdAt: Date | string }>(
+  options: CrudOptions
+): <R = unknown>(listOptions?: InfiniteListOptions<T, R>) => InfiniteCrudHook<T & R> {
+  const {
+    tableName,
+    queryKey,
+    select = '*',
+    readFrom = tableName,
+    organisationColumn = getOrganisationColumn(tableName),
+    softDelete = isSoftDeleteTable(tableName),
+    staleTime = 5 * 60 * 1000,
+    gcTime = 10 * 60 * 1000,
+  } = options;
+
+  return function useInfiniteCrud<R = unknown>(listOptions?: InfiniteListOptions<T, R>): InfiniteCrudHook<T & R> {
+    const { query } = useSupabase<InfinitePage<T & R>>();
+    const { tofilUser, activeOrganisationId, isOrganisationLoading } = useUser();
+    const role = tofilUser?.type ?? null;
+    const organisationId = organisationColumn ? activeOrganisationId ?? null : null;
+    const selectColumns = typeof select === 'function' ? select(role) : select;
+    const includeDeleted = !softDelete || !!listOptions?.includeDeleted;
+    const pageSize = listOptions?.pageSize ?? 20;
+    const ascending = listOptions?.ascending ?? false;
+    const filterKey = getFilterKey(listOptions?.filters);
+    const include = listOptions?.include;
+    const includeKey = include?.key;
+
+    // Under the list key, so invalidating the table refreshes these pages
+    // too, but with its own 'infinite' segment: the cached shape differs
+    const fullQueryKey = useMemo(() => {
+      const key: unknown[] = [
+        ...(typeof queryKey === 'function' ? queryKey() : [queryKey]),
+        'infinite',
+        { filters: filterKey, pageSize, ascending },
+      ];
+      if (includeKey) key.push({ include: includeKey });
+      if (typeof select === 'function') key.push(role);
+      if (organisationId) key.push({ organisationId });
+      if (softDelete && includeDeleted) key.push({ includeDeleted });
+      return key;
+    }, [filterKey, includeKey, pageSize, ascending, role, organisationId, includeDeleted]);
+
+    const queryFn = useCallback(async ({ pageParam }: { pageParam: Cursor | null }) => {
+      const { data, error } = await query(async (supabase: SupabaseClient<Database>) => {
+        let queryBuilder = supabase
+          .from(readFrom)
+          .select(getSelect(tableName, selectColumns, include), pageParam ? undefined : { count: 'exact' });
+
+        if (organisationColumn && organisationId) {
+          queryBuilder = queryBuilder.eq(organisationColumn, organisationId);
+        }
+        if (!includeDeleted) {
+          queryBuilder = queryBuilder.is('deleted_at', null);
+        }
+        if (include && !listOptions?.includeDeleted) {
+          include.softDeleted.forEach(alias => {
+            queryBuilder = queryBuilder.is(`${alias}.deleted_at`, null);
+          });
+        }
+        queryBuilder = applyFilters(queryBuilder, listOptions?.filters);
+        queryBuilder = applyFilters(queryBuilder, getCursorFilters(pageParam, ascending));
+
+        // One extra row tells us whether there's another page
+        const result = await queryBuilder
+          .order('created_at', { ascending })
+          .order('id', { ascending })
+          .limit(pageSize + 1);
+        const camelized = result.data ? camelizeKeys(result.data) as T[] : [];
+        const rows = include ? camelized.map(row => include.transform(row)) : camelized as (T & R)[];
+        const hasMore = rows.length > pageSize;
+        const pageRows = hasMore ? rows.slice(0, pageSize) : rows;
+        return {
+          data: {
+            rows: pageRows,
+            nextCursor: hasMore ? getCursor(pageRows[pageRows.length - 1]) : null,
+            totalCount: result.count ?? null,
+          },
+          error: result.error,
+        };
+      });
+
+      if (error) {
+        throw transformError(error, `fetching ${tableName}`);
+      }
+      return data as InfinitePage<T & R>;
+    }, [query, listOptions?.filters, listOptions?.includeDeleted, include, selectColumns, organisationId, includeDeleted, pageSize, ascending]);
+
+    const {
+      data,
+      isLoading,
+      isFetching,
+      error,
+      refetch,
+      fetchNextPage,
+      hasNextPage,
+      isFetchingNextPage,
+    } = useInfiniteQuery({
+      queryKey: fullQueryKey,
+      queryFn,
+      initialPageParam: null as Cursor | null,
+      getNextPageParam: lastPage => lastPage.nextCursor,
+      enabled: !(organisationColumn && isOrganisationLoading),
+      meta: filterKey || includeKey ? undefined : UNFILTERED_LIST,
+      staleTime,
+      gcTime,
+    });
+
+    const pages = useMemo(() => data?.pages.map(page => page.rows) ?? [], [data]);
+    const rows = useMemo(() => (data ? pages.flat() : undefined), [data, pages]);
+    const totalCount = data?.pages[0]?.totalCount ?? undefined;
+
+    return {
+      data: rows,
+      pages,
+      totalCount,
+      pageCount: totalCount !== undefined ? Math.max(Math.ceil(totalCount / pageSize), 1) : pages.length,
+      hasNextPage,
+      fetchNextPage: useCallback(() => { fetchNextPage(); }, [fetchNextPage]),
+      isFetchingNextPage,
+      isLoading,
+      isFetching,
+      error,
+      refetch,
+    };
+  };
+}
+
+/**
+ * Factory function to create a single item fetch hook
+ * 
+ * Creates a hook for fetching individual items by ID with automatic caching
+ * and error handling. Only fetches when an ID is provided. Items aren't
+ * filtered by the active organisation, so links to anything the user can
+ * read (as decided by row-level security) still open. Soft-deleted items
+ * aren't found unless `includeDeleted` is set.
+ * 
+ * @template T - The entity type (must have an id property)
+ * 
+ * @param options - Configuration for the hook
+ * @param options.tableName - The Supabase table name
+ * @param options.queryKey - Query key for React Query caching
+ * @param options.select - SQL select statement (default: '*')
+ * @param options.softDelete - Whether the table is soft-deleted (default: from SOFT_DELETE_TABLES)
+ * @param options.staleTime - Time before data is considered stale
+ * @param options.gcTime - Time before garbage collection
+ * 
+ * @returns A hook function that fetches a single item by ID
+ * 
+ * @example
+ * ```typescript
+ * // Create a single user hook
+ * export const useUser = createSingleItemHook<User>({
+ *   tableName: 'users',
+ *   queryKey: userKeys.all,
+ *   select: '*',
+ * });
+ * 
+ * // Use the hook
+ * const { data: user, isLoading, error } = useUser(userId);
+ *
+ * // With related rows, typed from the schema
+ * const { data: job } = useJob(jobId, { include: include('jobs', { location: true, files: true }) });
+ * 
+ * // Conditional fetching (won't fetch if userId is undefined)
+ * const { data } = useUser(shouldFetch ? userId : undefined);
+ * ```
+ */
+export function createSingleItemHook<T extends { id: string }>(
+  options: Pick<CrudOptions, 'tableName' | 'queryKey' | 'select' | 'readFrom' | 'softDelete' | 'staleTime' | 'gcTime'>
+) {
+  const {
+    tableName,
+    queryKey,
+    select = '*',
+    readFrom = tableName,
+    softDelete = isSoftDeleteTable(tableName),
+    staleTime = 5 * 60 * 1000,
+    gcTime = 10 * 60 * 1000,
+  } = options;
+
+  return function useSingleItem<R = unknown>(
+    id: string,
+    itemOptions?: { include?: Include<R>; includeDeleted?: boolean }
+  ) {
+    const { query } = useSupabase<(T & R) | null>();
+    const { tofilUser } = useUser();
+    const role = tofilUser?.type ?? null;
+    const selectColumns = typeof select === 'function' ? select(role) : select;
+    const include = itemOptions?.include;
+    const includeDeleted = !softDelete || !!itemOptions?.includeDeleted;
+    
+    // Build query key for single item
+    const buildQueryKey = () => {
+      const key: unknown[] = typeof queryKey === 'function'
+        ? [...queryKey(), 'detail', id]
+        : [queryKey, id];
+      if (include) key.push({ include: include.key });
+      if (typeof select === 'function') key.push(role);
+      if (softDelete && includeDeleted) key.push({ includeDeleted });
+      return key;
+    };
+    
+    return useQuery({
+      queryKey: buildQueryKey(),
+      queryFn: async () => {
+        const { data, error } = await query(async (supabase: SupabaseClient<Database>) => {
+          let queryBuilder = supabase
+            .from(readFrom)
+            .select(getSelect(tableName, selectColumns, include))
+            .eq('id', id);
+          if (!includeDeleted) {
+            queryBuilder = queryBuilder.is('deleted_at', null);
+          }
+          include?.softDeleted.forEach(alias => {
+            queryBuilder = queryBuilder.is(`${alias}.deleted_at`, null);
+          });
+          const result = await queryBuilder.single();
+          // @ts-expect-error - Complex generic typing issue with Supabase client
+          const item = result.data ? camelizeKeys(result.data) as T : null;
+          return { 
+            data: item && include ? include.transform(item) : item as (T & R) | null, 
+            error: result.error 
+          };
+        });
+        if (error) {
+          throw transformError(error, `fetching ${tableName} item`);
+        }
+        return data as (T & R) | null;
+      },
+      enabled: !!id,
+      staleTime,
+      gcTime,
+    });
+  };
+}
\ No newline at end of file
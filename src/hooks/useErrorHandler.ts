@@ -165,6 +165,26 @@ export function useErrorHandler(options: UseErrorHandlerOptions = {}) {
           }
           break;
 
+        case ErrorType.CONFLICT:
+          if (showToast) {
+            toast({
+              title: "Already Changed",
+              description: appError.message,
+              variant: "destructive",
+            });
+          }
+          break;
+
+        case ErrorType.OUTDATED_CLIENT:
+          if (showToast) {
+            toast({
+              title: "Update Required",
+              description: appError.message,
+              variant: "destructive",
+            });
+          }
+          break;
+
         case ErrorType.DATABASE:
           if (showToast) {
             toast({
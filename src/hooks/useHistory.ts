@@ -0,0 +1,89 @@
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { camelizeKeys } from 'humps';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { useSupabase } from '@/components/SupabaseContext';
+import { useUser } from '@/components/UserContext';
+import { queryKeys } from '@/lib/queryKeys';
+import { transformError } from '@/lib/error-handling';
+import type { Database } from '@/types/drizzle';
+import {
+  buildTimeline,
+  getVersionAt,
+  HISTORY_SOURCES,
+  type HistoryEntity,
+  type HistoryRow,
+} from '@/lib/history/timeline';
+
+export type HistoryRowWithChanger<E extends HistoryEntity = HistoryEntity> = HistoryRow<E> & {
+  changedByUser: { id: string; name: string } | null;
+};
+
+interface UseHistoryOptions {
+  /** Also resolve the version that was current at this point in time */
+  asOf?: Date | null;
+}
+
+const historyKey = (entity: HistoryEntity, id: string, role: string | null) => {
+  switch (entity) {
+    case 'jobs':
+      return queryKeys.jobs.history(id, role ?? undefined);
+    case 'users':
+      return queryKeys.users.history(id);
+    case 'organisations':
+      return queryKeys.organisations.history(id);
+    case 'locations':
+      return queryKeys.locations.history(id);
+  }
+};
+
+/**
+ * Temporal history for a job, user, organisation or location
+ *
+ * Returns the raw versions, a timeline of field-by-field changes (and file
+ * events for jobs), and optionally the version current as of a given date.
+ */
+export function useHistory<E extends HistoryEntity>(entity: E, id: string, options: UseHistoryOptions = {}) {
+  const { query } = useSupabase<HistoryRowWithChanger<E>[]>();
+  const { tofilUser } = useUser();
+  const role = tofilUser?.type ?? null;
+  const { table, foreignKey } = HISTORY_SOURCES[entity];
+
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey: historyKey(entity, id, role),
+    queryFn: async () => {
+      const { data, error } = await query(async (supabase: SupabaseClient<Database>) => {
+        const result = await supabase
+          .from(table)
+          .select('*, changed_by_user:users!changed_by(id, name)')
+          .eq(foreignKey, id)
+          .order('valid_from', { ascending: true });
+        return {
+          data: result.data ? camelizeKeys(result.data) as HistoryRowWithChanger<E>[] : [],
+          error: result.error,
+        };
+      });
+      if (error) {
+        throw transformError(error, `fetching ${entity} history`);
+      }
+      return data ?? [];
+    },
+    enabled: !!id,
+  });
+
+  const timeline = useMemo(() => buildTimeline(entity, (data ?? []) as HistoryRow<E>[]), [entity, data]);
+
+  const versionAsOf = useMemo(
+    () => (options.asOf && data ? getVersionAt(data as HistoryRow<E>[], options.asOf) as HistoryRowWithChanger<E> | null : null),
+    [options.asOf, data]
+  );
+
+  return {
+    data,
+    timeline,
+    versionAsOf,
+    isLoading,
+    error,
+    refetch,
+  };
+}
@@ -1,4 +1,4 @@
-import { RefObject, useEffect, useRef, useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 
 interface IntersectionObserverOptions {
   /**
@@ -28,7 +28,8 @@ interface IntersectionObserverOptions {
 }
 
 interface IntersectionObserverResult {
-  ref: RefObject<Element>;
+  // Callback ref for the element to observe
+  ref: (element: Element | null) => void;
   entry?: IntersectionObserverEntry;
   isIntersecting: boolean;
 }
@@ -93,14 +94,11 @@ export function useIntersectionObserver({
 }: IntersectionObserverOptions = {}): IntersectionObserverResult {
   const [entry, setEntry] = useState<IntersectionObserverEntry>();
   const [isIntersecting, setIsIntersecting] = useState(initialIntersecting);
-  const elementRef = useRef<Element | null>(null);
+  // In state, so the observer follows the element as it mounts and unmounts
+  const [element, setElement] = useState<Element | null>(null);
   const unobserveRef = useRef<(() => void) | null>(null);
 
-  const ref = useRef<(element: Element | null) => void>((element: Element | null) => {
-    if (element) {
-      elementRef.current = element;
-    }
-  });
+  const ref = useCallback((node: Element | null) => setElement(node), []);
 
   useEffect(() => {
     // Skip if explicitly disabled or no IntersectionObserver support
@@ -113,7 +111,7 @@ export function useIntersectionObserver({
       unobserveRef.current = null;
     }
 
-    if (!elementRef.current) return;
+    if (!element) return;
 
     const observer = new IntersectionObserver(
       ([entry]) => {
@@ -128,12 +126,10 @@ export function useIntersectionObserver({
       { root, rootMargin, threshold }
     );
 
-    observer.observe(elementRef.current);
+    observer.observe(element);
 
     unobserveRef.current = () => {
-      if (elementRef.current) {
-        observer.unobserve(elementRef.current);
-      }
+      observer.unobserve(element);
       observer.disconnect();
     };
 
@@ -142,9 +138,8 @@ export function useIntersectionObserver({
         unobserveRef.current();
       }
     };
-  }, [root, rootMargin, threshold, triggerOnce, skip]);
+  }, [element, root, rootMargin, threshold, triggerOnce, skip]);
 
-  // @ts-expect-error - Hook interface mismatch, but hook is unused
   return { ref, entry, isIntersecting };
 }
 
@@ -237,15 +232,12 @@ export function useMultipleIntersectionObserver(
   }, [count, options]);
 
   return Array.from({ length: count }, (_, index) => ({
-    // @ts-expect-error - Hook interface mismatch, but hook is unused
-    ref: {
-      current: (el: Element | null) => {
-        refs.current[index] = el;
-        if (el && observerRef.current) {
-          observerRef.current.observe(el);
-        }
+    ref: (el: Element | null) => {
+      refs.current[index] = el;
+      if (el && observerRef.current) {
+        observerRef.current.observe(el);
       }
-    } as RefObject<Element>,
+    },
     isIntersecting: intersectionStates[index],
     entry: undefined, // Not tracking individual entries for performance
   }));
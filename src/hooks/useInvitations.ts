@@ -0,0 +1,59 @@
+import { useCallback } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { userInvitationKeys } from '@/lib/queryKeys';
+import { apiFetch } from '@/lib/api/client';
+import type { CreateInvitationInput } from '@/lib/invitations/schemas';
+import type { InvitationAction } from '@/lib/invitations/status';
+import type { ManagedInvitation } from '@/lib/services/invitations';
+
+/**
+ * Invitations the current user manages, with create/resend/revoke/expire
+ *
+ * Goes through /api/invitations rather than Supabase directly so tokens are
+ * generated and emails sent on the server.
+ */
+export function useInvitations() {
+  const queryClient = useQueryClient();
+
+  const { data, isLoading, isFetching, error, refetch } = useQuery({
+    queryKey: userInvitationKeys.list(),
+    queryFn: () => apiFetch<ManagedInvitation[]>('/api/invitations'),
+  });
+
+  const invalidateQueries = useCallback(() => {
+    queryClient.invalidateQueries({ queryKey: userInvitationKeys.all() });
+  }, [queryClient]);
+
+  const createMutation = useMutation({
+    mutationFn: (input: CreateInvitationInput) =>
+      apiFetch<ManagedInvitation>('/api/invitations', {
+        method: 'POST',
+        body: JSON.stringify(input),
+      }),
+    onSuccess: invalidateQueries,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, action }: { id: string; action: InvitationAction }) =>
+      apiFetch<ManagedInvitation>(`/api/invitations/${id}`, {
+        method: 'PATCH',
+        body: JSON.stringify({ action }),
+      }),
+    onSuccess: invalidateQueries,
+  });
+
+  return {
+    data,
+    isLoading,
+    isFetching,
+    error,
+    refetch,
+    hasData: !!data && data.length > 0,
+    inviteUser: createMutation.mutate,
+    inviteUserAsync: createMutation.mutateAsync,
+    createMutation,
+    updateInvitation: updateMutation.mutate,
+    updateInvitationAsync: updateMutation.mutateAsync,
+    updateMutation,
+  };
+}
@@ -0,0 +1,88 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { createCrudHook, createSingleItemHook } from './useCrudFactory';
+import { jobKeys } from '@/lib/queryKeys';
+import { apiFetch } from '@/lib/api/client';
+import { getJobSelect, JOB_TABLE_SELECT, VISIBLE_JOBS_VIEW } from '@/lib/jobs/visibility';
+import type { Job, JobStatus, NewJob } from '@/lib/db/schema';
+import type { MatchedJob } from '@/lib/services/matching';
+
+/**
+ * Jobs list and mutations, selecting only the columns the current role may
+ * read through visible_jobs
+ */
+export const useJobs = createCrudHook<Job, NewJob>({
+  tableName: 'jobs',
+  queryKey: jobKeys.all,
+  select: getJobSelect,
+  readFrom: VISIBLE_JOBS_VIEW,
+  writeSelect: JOB_TABLE_SELECT,
+});
+
+/**
+ * Single job by ID, selecting only the columns the current role may read
+ * through visible_jobs
+ */
+export const useJob = createSingleItemHook<Job>({
+  tableName: 'jobs',
+  queryKey: jobKeys.all,
+  select: getJobSelect,
+  readFrom: VISIBLE_JOBS_VIEW,
+});
+
+/**
+ * Available jobs matching the signed-in contractor's specialities and service
+ * radius, best match first
+ */
+export function useMatchedJobs(options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: jobKeys.matches(),
+    queryFn: () => apiFetch<MatchedJob[]>('/api/jobs/matches'),
+    enabled: options.enabled ?? true,
+  });
+}
+
+/**
+ * Claim an available job as the signed-in contractor
+ *
+ * Goes through /api/jobs/[id]/claim so only one contractor can win; the
+ * others get an AppError of type CONFLICT.
+ */
+export function useClaimJob() {
+  const queryClient = useQueryClient();
+
+  const claimMutation = useMutation({
+    mutationFn: (jobId: string) => apiFetch<Job>(`/api/jobs/${jobId}/claim`, { method: 'POST' }),
+    // Refresh on failure too, so a lost race shows the job as taken
+    onSettled: () => queryClient.invalidateQueries({ queryKey: jobKeys.all() }),
+  });
+
+  return {
+    claimJob: claimMutation.mutate,
+    claimJobAsync: claimMutation.mutateAsync,
+    claimMutation,
+  };
+}
+
+/**
+ * Move a job to a new status through /api/jobs/[id]/transition, which
+ * enforces the job lifecycle rules
+ */
+export function useTransitionJob() {
+  const queryClient = useQueryClient();
+
+  const transitionMutation = useMutation({
+    mutationFn: ({ jobId, status }: { jobId: string; status: JobStatus }) =>
+      apiFetch<Job>(`/api/jobs/${jobId}/transition`, {
+        method: 'POST',
+        body: JSON.stringify({ status }),
+      }),
+    // Refresh on failure too, so a conflicting change shows the current status
+    onSettled: () => queryClient.invalidateQueries({ queryKey: jobKeys.all() }),
+  });
+
+  return {
+    transitionJob: transitionMutation.mutate,
+    transitionJobAsync: transitionMutation.mutateAsync,
+    transitionMutation,
+  };
+}
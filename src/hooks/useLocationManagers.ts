@@ -0,0 +1,139 @@
+import { useMemo } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { camelizeKeys } from 'humps';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { useSupabase } from '@/components/SupabaseContext';
+import { useUser } from '@/components/UserContext';
+import { locationKeys } from '@/lib/queryKeys';
+import { apiFetch } from '@/lib/api/client';
+import { transformError } from '@/lib/error-handling';
+import type { Database } from '@/types/drizzle';
+import type { Location, LocationManager, User } from '@/lib/db/schema';
+
+export type AssignableManager = Pick<User, 'id' | 'name' | 'email'>;
+
+interface LocationManagersData {
+  locations: Location[];
+  managers: AssignableManager[];
+  assignments: LocationManager[];
+}
+
+/**
+ * Locations in the active organisation, the managers who can be assigned to
+ * them and the current assignments, with a mutation to replace a location's
+ * managers
+ */
+export function useLocationManagers() {
+  const { query } = useSupabase<LocationManagersData>();
+  const { activeOrganisationId } = useUser();
+  const queryClient = useQueryClient();
+
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey: locationKeys.managers(activeOrganisationId),
+    queryFn: async () => {
+      const { data, error } = await query(async (supabase: SupabaseClient<Database>) => {
+        const [locations, members, assignments] = await Promise.all([
+          supabase
+            .from('locations')
+            .select('*')
+            .eq('organisation_id', activeOrganisationId!)
+            .is('deleted_at', null)
+            .order('name'),
+          supabase
+            .from('user_organisations')
+            .select('user:users!inner(id, name, email, type, status)')
+            .eq('organisation_id', activeOrganisationId!)
+            .eq('user.type', 'MANAGER')
+            .eq('user.status', 'ACTIVE'),
+          // Row-level security limits these to locations the user can see;
+          // other organisations' are ignored below
+          supabase.from('location_managers').select('*'),
+        ]);
+        const managers = (members.data ?? [])
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          .map(({ user }: any) => ({ id: user.id, name: user.name, email: user.email }) as AssignableManager)
+          .sort((a, b) => a.name.localeCompare(b.name));
+        return {
+          data: {
+            locations: camelizeKeys(locations.data ?? []) as Location[],
+            managers,
+            assignments: camelizeKeys(assignments.data ?? []) as LocationManager[],
+          },
+          error: locations.error ?? members.error ?? assignments.error,
+        };
+      });
+      if (error) {
+        throw transformError(error, 'fetching location managers');
+      }
+      return data as LocationManagersData;
+    },
+    enabled: !!activeOrganisationId,
+  });
+
+  // Manager IDs keyed by location, for this organisation's locations
+  const managerIdsByLocation = useMemo(() => {
+    const byLocation: Record<string, string[]> = Object.fromEntries(
+      (data?.locations ?? []).map(location => [location.id, []])
+    );
+    for (const { locationId, managerId } of data?.assignments ?? []) {
+      byLocation[locationId]?.push(managerId);
+    }
+    return byLocation;
+  }, [data]);
+
+  const assignMutation = useMutation({
+    mutationFn: ({ locationId, managerIds }: { locationId: string; managerIds: string[] }) =>
+      apiFetch<LocationManager[]>(`/api/locations/${locationId}/managers`, {
+        method: 'PUT',
+        body: JSON.stringify({ managerIds }),
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: locationKeys.managers() });
+      queryClient.invalidateQueries({ queryKey: locationKeys.all() });
+    },
+  });
+
+  return {
+    locations: data?.locations ?? [],
+    managers: data?.managers ?? [],
+    managerIdsByLocation,
+    isLoading,
+    error,
+    refetch,
+    setLocationManagers: assignMutation.mutate,
+    setLocationManagersAsync: assignMutation.mutateAsync,
+    assignMutation,
+  };
+}
+
+/**
+ * Locations the signed-in manager is assigned to. Jobs, files and
+ * notifications are limited to these by row-level security.
+ */
+export function useManagedLocations() {
+  const { query } = useSupabase<Location[]>();
+  const { tofilUser } = useUser();
+  const managerId = tofilUser?.type === 'MANAGER' ? tofilUser.id : '';
+
+  return useQuery({
+    queryKey: locationKeys.managed(managerId),
+    queryFn: async () => {
+      const { data, error } = await query(async (supabase: SupabaseClient<Database>) => {
+        const result = await supabase
+          .from('location_managers')
+          .select('location:locations!inner(*)')
+          .eq('manager_id', managerId);
+        return {
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          data: (result.data ?? []).map(({ location }: any) => camelizeKeys(location) as Location),
+          error: result.error,
+        };
+      });
+      if (error) {
+        throw transformError(error, 'fetching your locations');
+      }
+      return (data ?? []).sort((a, b) => a.name.localeCompare(b.name));
+    },
+    enabled: !!managerId,
+  });
+}
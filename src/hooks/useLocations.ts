@@ -0,0 +1,11 @@
+import { createCrudHook } from './useCrudFactory';
+import { locationKeys } from '@/lib/queryKeys';
+import type { Location, NewLocation } from '@/lib/db/schema';
+
+/**
+ * Locations in the active organisation, with mutations
+ */
+export const useLocations = createCrudHook<Location, NewLocation>({
+  tableName: 'locations',
+  queryKey: locationKeys.all,
+});
@@ -0,0 +1,58 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { camelizeKeys } from 'humps';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { useSupabase } from '@/components/SupabaseContext';
+import { notificationOutboxKeys } from '@/lib/queryKeys';
+import { apiFetch } from '@/lib/api/client';
+import { transformError } from '@/lib/error-handling';
+import type { Database } from '@/types/drizzle';
+import type { NotificationOutboxEntry, OutboxStatus } from '@/lib/db/schema';
+
+/**
+ * Admin view of the notification outbox: deliveries with the given status,
+ * most recently updated first, with a mutation to replay one
+ */
+export function useNotificationOutbox(status: OutboxStatus = 'dead') {
+  const { query } = useSupabase<NotificationOutboxEntry[]>();
+  const queryClient = useQueryClient();
+
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey: notificationOutboxKeys.list(status),
+    queryFn: async () => {
+      const { data, error } = await query(async (supabase: SupabaseClient<Database>) => {
+        const result = await supabase
+          .from('notification_outbox')
+          .select('*')
+          .eq('status', status)
+          .order('updated_at', { ascending: false })
+          .limit(100);
+        return {
+          data: camelizeKeys(result.data ?? []) as NotificationOutboxEntry[],
+          error: result.error,
+        };
+      });
+      if (error) {
+        throw transformError(error, 'fetching notification outbox');
+      }
+      return data ?? [];
+    },
+  });
+
+  const replayMutation = useMutation({
+    mutationFn: (id: string) =>
+      apiFetch<NotificationOutboxEntry>(`/api/notification-outbox/${id}/replay`, { method: 'POST' }),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: notificationOutboxKeys.all() });
+    },
+  });
+
+  return {
+    data,
+    isLoading,
+    error,
+    refetch,
+    replayDelivery: replayMutation.mutate,
+    replayDeliveryAsync: replayMutation.mutateAsync,
+    replayMutation,
+  };
+}
@@ -0,0 +1,79 @@
+import { useMemo } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { camelizeKeys } from 'humps';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { useSupabase } from '@/components/SupabaseContext';
+import { useUser } from '@/components/UserContext';
+import { notificationKeys } from '@/lib/queryKeys';
+import { transformError } from '@/lib/error-handling';
+import { resolveNotificationPreferences } from '@/lib/notifications/preferences';
+import type { NotificationType } from '@/lib/notifications/types';
+import type { Database } from '@/types/drizzle';
+import type { NotificationDelivery, NotificationPreference } from '@/lib/db/schema';
+
+/**
+ * How the signed-in user wants each notification type delivered, with a
+ * mutation to change one
+ */
+export function useNotificationPreferences() {
+  const { query, mutate } = useSupabase<NotificationPreference[]>();
+  const { tofilUser } = useUser();
+  const queryClient = useQueryClient();
+  const userId = tofilUser?.id ?? '';
+
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey: notificationKeys.preferences(userId),
+    queryFn: async () => {
+      const { data, error } = await query(async (supabase: SupabaseClient<Database>) => {
+        const result = await supabase
+          .from('notification_preferences')
+          .select('type, delivery')
+          .eq('user_id', userId);
+        return {
+          data: camelizeKeys(result.data ?? []) as NotificationPreference[],
+          error: result.error,
+        };
+      });
+      if (error) {
+        throw transformError(error, 'fetching notification preferences');
+      }
+      return data ?? [];
+    },
+    enabled: !!userId,
+  });
+
+  const preferences = useMemo(() => resolveNotificationPreferences(data ?? []), [data]);
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ type, delivery }: { type: NotificationType; delivery: NotificationDelivery }) => {
+      const { error } = await mutate(async (supabase: SupabaseClient<Database>) => {
+        const result = await supabase
+          .from('notification_preferences')
+          .upsert({
+            user_id: userId,
+            type,
+            delivery,
+            updated_at: new Date().toISOString(),
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          } as any, { onConflict: 'user_id,type' });
+        return { data: null, error: result.error };
+      });
+      if (error) {
+        throw transformError(error, 'saving notification preference');
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: notificationKeys.preferences(userId) });
+    },
+  });
+
+  return {
+    preferences,
+    isLoading,
+    error,
+    refetch,
+    updatePreference: updateMutation.mutate,
+    updatePreferenceAsync: updateMutation.mutateAsync,
+    updateMutation,
+  };
+}
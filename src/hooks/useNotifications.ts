@@ -0,0 +1,168 @@
+import { useCallback } from 'react';
+import { keepPreviousData, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { camelizeKeys } from 'humps';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { useSupabase } from '@/components/SupabaseContext';
+import { useUser } from '@/components/UserContext';
+import { notificationKeys } from '@/lib/queryKeys';
+import { transformError } from '@/lib/error-handling';
+import { NOTIFICATIONS_PAGE_SIZE, type NotificationType } from '@/lib/notifications/types';
+import type { Database } from '@/types/drizzle';
+import type { Notification } from '@/lib/db/schema';
+
+interface NotificationListOptions {
+  type?: NotificationType | null;
+  unreadOnly?: boolean;
+  page?: number;
+  pageSize?: number;
+  enabled?: boolean;
+}
+
+interface NotificationPage {
+  notifications: Notification[];
+  total: number;
+}
+
+/**
+ * A page of the signed-in user's notifications, newest first, with
+ * mutations to mark them as read
+ *
+ * @param options.type - Only notifications of this type
+ * @param options.unreadOnly - Only unread notifications
+ * @param options.page - Zero-based page number
+ */
+export function useNotifications({
+  type = null,
+  unreadOnly = false,
+  page = 0,
+  pageSize = NOTIFICATIONS_PAGE_SIZE,
+  enabled = true,
+}: NotificationListOptions = {}) {
+  const { query, mutate } = useSupabase<NotificationPage>();
+  const { tofilUser } = useUser();
+  const queryClient = useQueryClient();
+  const userId = tofilUser?.id ?? '';
+
+  const { data, isLoading, isFetching, error, refetch } = useQuery({
+    queryKey: notificationKeys.list(userId, { type, unreadOnly, page, pageSize }),
+    queryFn: async () => {
+      const { data, error } = await query(async (supabase: SupabaseClient<Database>) => {
+        let builder = supabase
+          .from('notifications')
+          .select('*', { count: 'exact' })
+          .eq('user_id', userId);
+        if (type) builder = builder.eq('type', type);
+        if (unreadOnly) builder = builder.eq('read', false);
+
+        const result = await builder
+          .order('created_at', { ascending: false })
+          .range(page * pageSize, (page + 1) * pageSize - 1);
+        return {
+          data: {
+            notifications: camelizeKeys(result.data ?? []) as Notification[],
+            total: result.count ?? 0,
+          },
+          error: result.error,
+        };
+      });
+      if (error) {
+        throw transformError(error, 'fetching notifications');
+      }
+      return data as NotificationPage;
+    },
+    enabled: enabled && !!userId,
+    // Keep the current page on screen while the next one loads
+    placeholderData: keepPreviousData,
+  });
+
+  const invalidateQueries = useCallback(() => {
+    queryClient.invalidateQueries({ queryKey: notificationKeys.all(userId) });
+    queryClient.invalidateQueries({ queryKey: notificationKeys.unread(userId) });
+  }, [queryClient, userId]);
+
+  const markAsReadMutation = useMutation({
+    mutationFn: async (ids: string[]) => {
+      const { error } = await mutate(async (supabase: SupabaseClient<Database>) => {
+        const result = await supabase
+          .from('notifications')
+          // @ts-expect-error - Complex generic typing issue with Supabase client
+          .update({ read: true })
+          .eq('user_id', userId)
+          .in('id', ids);
+        return { data: null, error: result.error };
+      });
+      if (error) {
+        throw transformError(error, 'marking notifications as read');
+      }
+    },
+    onSuccess: invalidateQueries,
+  });
+
+  // Marks every unread notification, or every one of a type, not just this page
+  const markAllAsReadMutation = useMutation({
+    mutationFn: async (onlyType: NotificationType | null = null) => {
+      const { error } = await mutate(async (supabase: SupabaseClient<Database>) => {
+        let builder = supabase
+          .from('notifications')
+          // @ts-expect-error - Complex generic typing issue with Supabase client
+          .update({ read: true })
+          .eq('user_id', userId)
+          .eq('read', false);
+        if (onlyType) builder = builder.eq('type', onlyType);
+        const result = await builder;
+        return { data: null, error: result.error };
+      });
+      if (error) {
+        throw transformError(error, 'marking notifications as read');
+      }
+    },
+    onSuccess: invalidateQueries,
+  });
+
+  const total = data?.total ?? 0;
+
+  return {
+    notifications: data?.notifications ?? [],
+    total,
+    pageCount: Math.max(1, Math.ceil(total / pageSize)),
+    isLoading,
+    isFetching,
+    error,
+    refetch,
+    markAsRead: (id: string) => markAsReadMutation.mutate([id]),
+    markAsReadAsync: (id: string) => markAsReadMutation.mutateAsync([id]),
+    markAsReadMutation,
+    markAllAsRead: markAllAsReadMutation.mutate,
+    markAllAsReadAsync: markAllAsReadMutation.mutateAsync,
+    markAllAsReadMutation,
+  };
+}
+
+/**
+ * Number of unread notifications for the signed-in user, for the bell badge
+ */
+export function useUnreadNotificationCount() {
+  const { query } = useSupabase<number>();
+  const { tofilUser } = useUser();
+  const userId = tofilUser?.id ?? '';
+
+  return useQuery({
+    queryKey: notificationKeys.unread(userId),
+    queryFn: async () => {
+      const { data, error } = await query(async (supabase: SupabaseClient<Database>) => {
+        const result = await supabase
+          .from('notifications')
+          .select('id', { count: 'exact', head: true })
+          .eq('user_id', userId)
+          .eq('read', false);
+        return { data: result.count ?? 0, error: result.error };
+      });
+      if (error) {
+        throw transformError(error, 'counting notifications');
+      }
+      return data ?? 0;
+    },
+    enabled: !!userId,
+    staleTime: 60 * 1000,
+  });
+}
@@ -1,10 +1,13 @@
 import { useSmartLoading } from './useSmartLoading';
 import { createCrudHook, createSingleItemHook } from './useCrudFactory';
+import type { UserType } from '@/lib/db/schema';
 
 interface SmartCrudOptions {
   tableName: string;
   queryKey: string | (() => readonly unknown[]);
-  select?: string;
+  select?: string | ((role: UserType | null) => string);
+  organisationColumn?: string | null;
+  softDelete?: boolean;
   staleTime?: number;
   gcTime?: number;
   showBackgroundRefetch?: boolean;
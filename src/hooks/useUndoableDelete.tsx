@@ -0,0 +1,64 @@
+import { useCallback } from 'react';
+import { useToast, ToastAction } from '@/components/ui/useToast';
+
+interface UndoableDeleteOptions {
+  deleteItemAsync: (id: string) => Promise<unknown>;
+  restoreItemAsync: (id: string) => Promise<unknown>;
+}
+
+// Failures are rolled back and reported (with a retry) by the CRUD hook
+const attempt = async (action: () => Promise<unknown>) => {
+  try {
+    await action();
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Delete and restore items from a CRUD hook with an "Undo" action on the
+ * toast confirming each, e.g.
+ *
+ * ```typescript
+ * const jobs = useJobs();
+ * const { deleteWithUndo } = useUndoableDelete(jobs);
+ * deleteWithUndo(job.id, job.title);
+ * ```
+ *
+ * Meant for soft-delete tables, where undoing a delete restores the item.
+ * Both resolve to whether the change was made.
+ */
+export function useUndoableDelete({ deleteItemAsync, restoreItemAsync }: UndoableDeleteOptions) {
+  const { toast } = useToast();
+
+  const deleteWithUndo = useCallback(async (id: string, label: string) => {
+    if (!await attempt(() => deleteItemAsync(id))) return false;
+    toast({
+      title: 'Moved to Trash',
+      description: label,
+      action: (
+        <ToastAction altText="Undo delete" onClick={() => attempt(() => restoreItemAsync(id))}>
+          Undo
+        </ToastAction>
+      ),
+    });
+    return true;
+  }, [deleteItemAsync, restoreItemAsync, toast]);
+
+  const restoreWithUndo = useCallback(async (id: string, label: string) => {
+    if (!await attempt(() => restoreItemAsync(id))) return false;
+    toast({
+      title: 'Restored',
+      description: label,
+      action: (
+        <ToastAction altText="Undo restore" onClick={() => attempt(() => deleteItemAsync(id))}>
+          Undo
+        </ToastAction>
+      ),
+    });
+    return true;
+  }, [deleteItemAsync, restoreItemAsync, toast]);
+
+  return { deleteWithUndo, restoreWithUndo };
+}
@@ -2,13 +2,23 @@
 
 import { useEffect, useState, useCallback, useRef } from 'react';
 import { usePathname } from 'next/navigation';
+import { APP_VERSION, VersionInfo, isVersionSupported, markClientOutdated } from '@/lib/version';
 
 const CHECK_INTERVAL = 60000; // Check every 60 seconds
 const VERSION_CHECK_KEY = 'app-build-id';
 const MIN_CHECK_INTERVAL = 5000; // Minimum 5 seconds between checks
 
+/**
+ * Poll /api/version for new deployments
+ *
+ * `updateAvailable` is an optional update: a newer build has been deployed.
+ * `updateRequired` is a forced update: this client is older than the server's
+ * minimum supported version, so writes are blocked until the page reloads.
+ */
 export function useVersionCheck() {
   const [updateAvailable, setUpdateAvailable] = useState(false);
+  const [updateRequired, setUpdateRequired] = useState(false);
+  const [versionInfo, setVersionInfo] = useState<VersionInfo | null>(null);
   const isCheckingRef = useRef(false);
   const lastCheckRef = useRef(0);
   const pathname = usePathname();
@@ -51,7 +61,17 @@ export function useVersionCheck() {
       
       if (!response.ok) return;
       
-      const data = await response.json();
+      const data: VersionInfo = await response.json();
+      setVersionInfo(data);
+
+      if (!isVersionSupported(APP_VERSION, data.minSupportedVersion)) {
+        // Breaking change deployed, stop this client from writing stale data
+        markClientOutdated();
+        setUpdateRequired(true);
+        setUpdateAvailable(true);
+        return;
+      }
+
       const currentBuildId = localStorage.getItem(VERSION_CHECK_KEY);
       
       if (!currentBuildId) {
@@ -101,6 +121,8 @@ export function useVersionCheck() {
 
   return {
     updateAvailable,
+    updateRequired,
+    versionInfo,
     reload,
     checkForUpdates,
   };
@@ -0,0 +1,73 @@
+// @vitest-environment node
+import { describe, it, expect, vi } from 'vitest';
+import { z } from 'zod';
+import { jsonData, jsonError } from '../api/responses';
+import {
+  AppError,
+  ErrorType,
+  NotFoundError,
+  PermissionError,
+  ValidationError,
+} from '@/types/errors';
+
+describe('API responses', () => {
+  describe('jsonData', () => {
+    it('should wrap camelized data in a data envelope', async () => {
+      const response = jsonData([{ id: '1', owner_id: 'u1', created_at: '2024-01-01' }]);
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({
+        data: [{ id: '1', ownerId: 'u1', createdAt: '2024-01-01' }],
+      });
+    });
+
+    it('should accept a custom status', () => {
+      expect(jsonData([], { status: 201 }).status).toBe(201);
+    });
+  });
+
+  describe('jsonError', () => {
+    it.each([
+      [new AppError('Sign in', ErrorType.AUTH), 401],
+      [new PermissionError('Denied'), 403],
+      [new NotFoundError('Missing'), 404],
+      [new ValidationError('Invalid'), 400],
+    ])('should map %s to status %i', async (error, status) => {
+      const response = jsonError(error);
+      const body = await response.json();
+
+      expect(response.status).toBe(status);
+      expect(body.error).toMatchObject({ message: error.message, type: error.type });
+    });
+
+    it('should transform database errors through transformError', async () => {
+      const response = jsonError({
+        message: 'new row violates row-level security policy',
+        code: '42501',
+        details: '',
+        hint: '',
+      });
+
+      expect(response.status).toBe(403);
+      expect((await response.json()).error.type).toBe(ErrorType.PERMISSION);
+    });
+
+    it('should report zod issues as field errors', async () => {
+      const result = z.object({ title: z.string() }).safeParse({});
+      const response = jsonError(result.error);
+      const body = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(body.error.context.fields).toHaveProperty('title');
+    });
+
+    it('should hide context on server errors', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const response = jsonError(new Error('boom'), 'testing');
+      const body = await response.json();
+
+      expect(response.status).toBe(500);
+      expect(body.error.context).toBeUndefined();
+    });
+  });
+});
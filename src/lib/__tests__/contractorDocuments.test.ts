@@ -0,0 +1,365 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  CONTRACTOR_DOCUMENTS,
+  MAX_DOCUMENT_SIZE,
+  assertContractorVerified,
+  getContractorVerification,
+  getDocumentStoragePath,
+  validateDocumentFile,
+} from '../contractors/documents';
+import { getDaysUntilExpiry, getDueInsuranceReminder } from '../contractors/insurance';
+import { contractorDetailsSchema } from '../contractors/schemas';
+import { checkInsuranceExpiry, reviewContractorDocument } from '../services/contractorDocuments';
+import { transitionJob } from '../services/jobs';
+import { FileUploadError, NotFoundError, PermissionError, ValidationError } from '@/types/errors';
+
+vi.mock('@/lib/services/notifications', () => ({
+  notifyDocumentReviewed: vi.fn().mockResolvedValue(true),
+  notifyInsuranceExpiring: vi.fn().mockResolvedValue(true),
+  notifyInsuranceLapsed: vi.fn().mockResolvedValue(true),
+  notifyJobStatusChange: vi.fn().mockResolvedValue(true),
+  notifyAdminJobClaimed: vi.fn().mockResolvedValue(true),
+}));
+
+const admin = { id: 'admin-1', email: 'admin@example.com', type: 'ADMIN' as const };
+const contractor = { id: 'contractor-1', type: 'CONTRACTOR' as const };
+
+const now = new Date('2024-06-01T12:00:00Z');
+const nextYear = new Date('2025-06-01T12:00:00Z');
+const lastMonth = new Date('2024-05-01T12:00:00Z');
+
+const allApproved = CONTRACTOR_DOCUMENTS.map(({ type }) => ({ documentType: type, status: 'approved' as const }));
+
+describe('Contractor verification', () => {
+  it('should verify contractors with every document approved and current insurance', () => {
+    const verification = getContractorVerification({ insuranceExpiryDate: nextYear }, allApproved, now);
+    expect(verification.verified).toBe(true);
+    expect(() => assertContractorVerified(verification)).not.toThrow();
+  });
+
+  it('should group documents by review status', () => {
+    const verification = getContractorVerification(
+      { insuranceExpiryDate: nextYear },
+      [
+        { documentType: 'white_card_front', status: 'approved' },
+        { documentType: 'white_card_back', status: 'rejected' },
+        { documentType: 'insurance', status: 'pending' },
+      ],
+      now
+    );
+
+    expect(verification.verified).toBe(false);
+    expect(verification.approved).toEqual(['white_card_front']);
+    expect(verification.rejected).toEqual(['white_card_back']);
+    expect(verification.pending).toEqual(['insurance']);
+    expect(verification.missing).toEqual(['license_front', 'license_back']);
+  });
+
+  it('should not verify contractors whose insurance has expired or is unset', () => {
+    expect(getContractorVerification({ insuranceExpiryDate: lastMonth }, allApproved, now).verified).toBe(false);
+    expect(getContractorVerification({ insuranceExpiryDate: null }, allApproved, now).verified).toBe(false);
+    expect(getContractorVerification(null, allApproved, now).insuranceExpired).toBe(true);
+  });
+
+  it('should explain expired insurance when everything else is approved', () => {
+    const verification = getContractorVerification({ insuranceExpiryDate: lastMonth }, allApproved, now);
+    expect(() => assertContractorVerified(verification)).toThrow(/insurance has expired/);
+  });
+});
+
+describe('Document files', () => {
+  it('should accept images and PDFs up to the size limit', () => {
+    expect(() => validateDocumentFile({ name: 'card.jpg', type: 'image/jpeg', size: 1024 })).not.toThrow();
+    expect(() => validateDocumentFile({ name: 'policy.pdf', type: 'application/pdf', size: MAX_DOCUMENT_SIZE })).not.toThrow();
+  });
+
+  it('should reject other file types and oversized files', () => {
+    expect(() => validateDocumentFile({ name: 'card.gif', type: 'image/gif', size: 1024 })).toThrow(FileUploadError);
+    expect(() => validateDocumentFile({ name: 'card.png', type: 'image/png', size: MAX_DOCUMENT_SIZE + 1 })).toThrow(FileUploadError);
+  });
+
+  it('should store documents under the contractor\'s folder', () => {
+    expect(getDocumentStoragePath('contractor-1', 'insurance', 'Policy.PDF', 123)).toBe('contractor-1/insurance-123.pdf');
+  });
+});
+
+describe('Insurance reminders', () => {
+  const inDays = (days: number) => new Date(now.getTime() + days * 24 * 60 * 60 * 1000);
+
+  it('should round partial days up', () => {
+    expect(getDaysUntilExpiry(new Date(now.getTime() + 60 * 60 * 1000), now)).toBe(1);
+    expect(getDaysUntilExpiry(now, now)).toBe(0);
+  });
+
+  it('should send each threshold once as expiry approaches', () => {
+    expect(getDueInsuranceReminder(inDays(45), null, now)).toBeNull();
+    expect(getDueInsuranceReminder(inDays(30), null, now)).toBe(30);
+    expect(getDueInsuranceReminder(inDays(20), 30, now)).toBeNull();
+    expect(getDueInsuranceReminder(inDays(14), 30, now)).toBe(14);
+    expect(getDueInsuranceReminder(inDays(7), 14, now)).toBe(7);
+    expect(getDueInsuranceReminder(inDays(3), 7, now)).toBeNull();
+  });
+
+  it('should send only the most urgent reminder after missed runs', () => {
+    expect(getDueInsuranceReminder(inDays(5), null, now)).toBe(7);
+  });
+
+  it('should not remind once insurance has lapsed', () => {
+    expect(getDueInsuranceReminder(inDays(-1), null, now)).toBeNull();
+  });
+});
+
+describe('contractorDetailsSchema', () => {
+  const details = {
+    abn: '51824753556',
+    bsb: '062000',
+    accountNumber: '12345678',
+    insuranceExpiryDate: new Date(Date.now() + 365 * 86400000),
+  };
+
+  it('should accept valid details', () => {
+    expect(contractorDetailsSchema.safeParse(details).success).toBe(true);
+  });
+
+  it('should reject malformed numbers and past expiry dates', () => {
+    expect(contractorDetailsSchema.safeParse({ ...details, abn: '1234' }).success).toBe(false);
+    expect(contractorDetailsSchema.safeParse({ ...details, bsb: '06-200' }).success).toBe(false);
+    expect(contractorDetailsSchema.safeParse({ ...details, insuranceExpiryDate: lastMonth }).success).toBe(false);
+  });
+});
+
+describe('Contractor document services', () => {
+  const reviewRow = {
+    id: 'review-1',
+    user_id: contractor.id,
+    document_type: 'insurance',
+    file_id: 'file-1',
+    status: 'pending',
+    reason: null,
+    reviewed_by: null,
+    reviewed_at: null,
+    created_at: '2024-06-01T12:00:00Z',
+    updated_at: '2024-06-01T12:00:00Z',
+  };
+  const approvedReviewRows = CONTRACTOR_DOCUMENTS.map(({ type }) => ({ document_type: type, status: 'approved' }));
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  let calls: { table: string; method: string; args: any[] }[];
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const createSupabase = (results: Record<string, any[]>) => ({
+    from: (table: string) => {
+      const queue = results[table] ?? [];
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const builder: any = {};
+      ['select', 'update', 'insert', 'eq', 'is', 'gt', 'lte'].forEach(method => {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        builder[method] = (...args: any[]) => {
+          calls.push({ table, method, args });
+          return builder;
+        };
+      });
+      builder.maybeSingle = () => Promise.resolve(queue.shift() ?? { data: null, error: null });
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      builder.then = (resolve: any) => resolve(queue.shift() ?? { data: null, error: null });
+      return builder;
+    },
+  });
+
+  beforeEach(() => {
+    calls = [];
+    vi.clearAllMocks();
+  });
+
+  describe('reviewContractorDocument', () => {
+    it('should require a reason when rejecting', async () => {
+      const supabase = createSupabase({});
+
+      await expect(
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        reviewContractorDocument(supabase as any, { reviewId: 'review-1', decision: 'rejected', reason: '  ', reviewer: admin })
+      ).rejects.toThrow(ValidationError);
+      expect(calls).toEqual([]);
+    });
+
+    it('should verify the contractor once their last document is approved', async () => {
+      const { notifyDocumentReviewed } = await import('@/lib/services/notifications');
+      const supabase = createSupabase({
+        contractor_document_reviews: [
+          { data: { ...reviewRow, status: 'approved' }, error: null },
+          { data: approvedReviewRows, error: null },
+        ],
+        contractor_documents: [
+          { data: { insurance_expiry_date: new Date(Date.now() + 86400000).toISOString() }, error: null },
+          { error: null },
+        ],
+      });
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      await reviewContractorDocument(supabase as any, { reviewId: 'review-1', decision: 'approved', reviewer: admin });
+
+      expect(calls).toContainEqual({ table: 'contractor_document_reviews', method: 'eq', args: ['status', 'pending'] });
+      const update = calls.find(c => c.table === 'contractor_documents' && c.method === 'update')?.args[0];
+      expect(update.verified_at).toEqual(expect.any(String));
+      expect(calls.find(c => c.table === 'users' && c.method === 'update')?.args[0]).toMatchObject({
+        claims_suspended: false,
+      });
+      expect(notifyDocumentReviewed).toHaveBeenCalledWith(contractor.id, 'Insurance certificate', true, null);
+    });
+
+    it('should clear verification and pass the reason on when rejecting', async () => {
+      const { notifyDocumentReviewed } = await import('@/lib/services/notifications');
+      const supabase = createSupabase({
+        contractor_document_reviews: [
+          { data: { ...reviewRow, status: 'rejected', reason: 'Expired policy' }, error: null },
+          { data: [], error: null },
+        ],
+        contractor_documents: [{ data: null, error: null }, { error: null }],
+      });
+
+      await reviewContractorDocument(
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        supabase as any,
+        { reviewId: 'review-1', decision: 'rejected', reason: ' Expired policy ', reviewer: admin }
+      );
+
+      const reviewUpdate = calls.find(c => c.table === 'contractor_document_reviews' && c.method === 'update')?.args[0];
+      expect(reviewUpdate).toMatchObject({ status: 'rejected', reason: 'Expired policy', reviewed_by: admin.id });
+      const update = calls.find(c => c.table === 'contractor_documents' && c.method === 'update')?.args[0];
+      expect(update.verified_at).toBeNull();
+      expect(calls.some(c => c.table === 'users' && c.method === 'update')).toBe(false);
+      expect(notifyDocumentReviewed).toHaveBeenCalledWith(contractor.id, 'Insurance certificate', false, 'Expired policy');
+    });
+
+    it('should throw NotFoundError when the review was already handled', async () => {
+      const supabase = createSupabase({ contractor_document_reviews: [{ data: null, error: null }] });
+
+      await expect(
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        reviewContractorDocument(supabase as any, { reviewId: 'review-1', decision: 'approved', reviewer: admin })
+      ).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('claiming jobs', () => {
+    const availableJob = {
+      id: 'job-1',
+      title: 'Fix leak',
+      status: 'AVAILABLE',
+      owner_id: 'owner-1',
+      contractor_id: null,
+    };
+
+    it('should block unverified contractors from claiming', async () => {
+      const supabase = createSupabase({
+        visible_jobs: [{ data: availableJob, error: null }],
+        contractor_documents: [{ data: { insurance_expiry_date: nextYear.toISOString() }, error: null }],
+        contractor_document_reviews: [{ data: [{ document_type: 'insurance', status: 'pending' }], error: null }],
+      });
+
+      await expect(
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        transitionJob(supabase as any, { jobId: 'job-1', toStatus: 'CLAIMED', actor: contractor })
+      ).rejects.toThrow(PermissionError);
+      expect(calls.some(c => c.table === 'jobs' && c.method === 'update')).toBe(false);
+    });
+
+    it('should block contractors suspended for lapsed insurance', async () => {
+      const supabase = createSupabase({
+        visible_jobs: [{ data: availableJob, error: null }],
+        users: [{ data: { claims_suspended: true }, error: null }],
+      });
+
+      await expect(
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        transitionJob(supabase as any, { jobId: 'job-1', toStatus: 'CLAIMED', actor: contractor })
+      ).rejects.toThrow(/insurance has expired/);
+    });
+
+    it('should let verified contractors claim', async () => {
+      const supabase = createSupabase({
+        visible_jobs: [{ data: availableJob, error: null }],
+        jobs: [{ data: { ...availableJob, status: 'CLAIMED' }, error: null }],
+        contractor_documents: [{ data: { insurance_expiry_date: new Date(Date.now() + 86400000).toISOString() }, error: null }],
+        contractor_document_reviews: [{ data: approvedReviewRows, error: null }],
+      });
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const job = await transitionJob(supabase as any, { jobId: 'job-1', toStatus: 'CLAIMED', actor: contractor });
+      expect(job.status).toBe('CLAIMED');
+    });
+  });
+
+  describe('checkInsuranceExpiry', () => {
+    const inDays = (days: number) => new Date(now.getTime() + days * 24 * 60 * 60 * 1000).toISOString();
+
+    it('should send due reminders and record the threshold', async () => {
+      const { notifyInsuranceExpiring } = await import('@/lib/services/notifications');
+      const supabase = createSupabase({
+        contractor_documents: [
+          {
+            data: [
+              { user_id: 'contractor-1', insurance_expiry_date: inDays(14), insurance_reminder_days: 30 },
+              { user_id: 'contractor-2', insurance_expiry_date: inDays(20), insurance_reminder_days: 30 },
+            ],
+            error: null,
+          },
+          { data: { user_id: 'contractor-1' }, error: null },
+          { data: [], error: null },
+        ],
+      });
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const result = await checkInsuranceExpiry(supabase as any, now);
+
+      expect(result).toEqual({ reminded: [{ userId: 'contractor-1', days: 14 }], suspended: [] });
+      expect(calls.find(c => c.table === 'contractor_documents' && c.method === 'update')?.args[0]).toEqual({
+        insurance_reminder_days: 14,
+      });
+      expect(notifyInsuranceExpiring).toHaveBeenCalledTimes(1);
+      expect(notifyInsuranceExpiring).toHaveBeenCalledWith('contractor-1', 14, new Date(inDays(14)));
+    });
+
+    it('should suspend contractors whose insurance has lapsed', async () => {
+      const { notifyInsuranceLapsed } = await import('@/lib/services/notifications');
+      const supabase = createSupabase({
+        contractor_documents: [
+          { data: [], error: null },
+          { data: [{ user_id: 'contractor-1', insurance_expiry_date: inDays(-1) }], error: null },
+          { error: null },
+        ],
+        users: [{ data: { id: 'contractor-1' }, error: null }],
+      });
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const result = await checkInsuranceExpiry(supabase as any, now);
+
+      expect(result.suspended).toEqual(['contractor-1']);
+      expect(calls.find(c => c.table === 'users' && c.method === 'update')?.args[0]).toMatchObject({
+        claims_suspended: true,
+      });
+      expect(calls).toContainEqual({ table: 'users', method: 'eq', args: ['claims_suspended', false] });
+      expect(calls.find(c => c.table === 'contractor_documents' && c.method === 'update')?.args[0]).toMatchObject({
+        verified_at: null,
+      });
+      expect(notifyInsuranceLapsed).toHaveBeenCalledWith('contractor-1', new Date(inDays(-1)));
+    });
+
+    it('should not notify contractors suspended by an earlier run', async () => {
+      const { notifyInsuranceLapsed } = await import('@/lib/services/notifications');
+      const supabase = createSupabase({
+        contractor_documents: [
+          { data: [], error: null },
+          { data: [{ user_id: 'contractor-1', insurance_expiry_date: inDays(-1) }], error: null },
+        ],
+        users: [{ data: null, error: null }],
+      });
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const result = await checkInsuranceExpiry(supabase as any, now);
+
+      expect(result.suspended).toEqual([]);
+      expect(notifyInsuranceLapsed).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { getCursor, getCursorFilters } from '../supabase/cursor';
+import { compileFilters, formatClause } from '../supabase/filters';
+
+describe('Keyset cursors', () => {
+  it('should keep the timestamp as the database returned it', () => {
+    expect(getCursor({ id: 'job-1', createdAt: '2026-03-14T12:00:00.123456' }))
+      .toEqual({ id: 'job-1', createdAt: '2026-03-14T12:00:00.123456' });
+    expect(getCursor({ id: 'job-1', createdAt: new Date('2026-03-14T12:00:00Z') }))
+      .toEqual({ id: 'job-1', createdAt: '2026-03-14T12:00:00.000Z' });
+  });
+
+  it('should select the rows after the cursor, breaking ties on id', () => {
+    const cursor = { createdAt: '2026-03-14T12:00:00.123456', id: 'job-9' };
+
+    expect(compileFilters(getCursorFilters(cursor)).map(formatClause)).toEqual([
+      'or(created_at.lt."2026-03-14T12:00:00.123456",and(created_at.eq."2026-03-14T12:00:00.123456",id.lt.job-9))',
+    ]);
+    expect(compileFilters(getCursorFilters(cursor, true)).map(formatClause)).toEqual([
+      'or(created_at.gt."2026-03-14T12:00:00.123456",and(created_at.eq."2026-03-14T12:00:00.123456",id.gt.job-9))',
+    ]);
+  });
+
+  it('should not filter the first page', () => {
+    expect(compileFilters(getCursorFilters(null))).toEqual([]);
+  });
+});
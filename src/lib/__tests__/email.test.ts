@@ -0,0 +1,209 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import net from 'node:net';
+import os from 'node:os';
+import path from 'node:path';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { createEdgeFunctionTransport, getEmailTransport, getEmailTransportName } from '../email/transport';
+import { createFileOutbox, createMemoryOutbox } from '../email/outbox';
+import { buildMimeMessage, createSmtpTransport, getAddress } from '../email/smtp';
+import { NetworkError } from '@/types/errors';
+
+const message = {
+  to: 'contractor@example.com',
+  subject: 'Job assigned',
+  html: '<p>You have a new job</p>',
+  text: 'You have a new job',
+};
+
+describe('Email transports', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+
+  describe('getEmailTransport', () => {
+    it('should use the configured transport', () => {
+      vi.stubEnv('EMAIL_TRANSPORT', 'smtp');
+      expect(getEmailTransport().name).toBe('smtp');
+      vi.stubEnv('EMAIL_TRANSPORT', 'memory');
+      expect(getEmailTransport().name).toBe('memory');
+    });
+
+    it('should default to the edge function in production and the outbox elsewhere', () => {
+      vi.stubEnv('EMAIL_TRANSPORT', '');
+      vi.stubEnv('NODE_ENV', 'production');
+      expect(getEmailTransportName()).toBe('edge-function');
+      vi.stubEnv('NODE_ENV', 'development');
+      expect(getEmailTransportName()).toBe('outbox');
+    });
+  });
+
+  describe('edge function', () => {
+    it('should post the message to the send-email function', async () => {
+      const fetchMock = vi.fn().mockResolvedValue(new Response('ok'));
+      vi.stubGlobal('fetch', fetchMock);
+
+      await createEdgeFunctionTransport({ supabaseUrl: 'https://project.supabase.co', serviceKey: 'key' }).send(message);
+
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe('https://project.supabase.co/functions/v1/send-email');
+      expect(init.headers.Authorization).toBe('Bearer key');
+      expect(JSON.parse(init.body)).toEqual(message);
+    });
+
+    it('should reject when the function fails', async () => {
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('boom', { status: 500 })));
+      const transport = createEdgeFunctionTransport({ supabaseUrl: 'https://project.supabase.co', serviceKey: 'key' });
+
+      await expect(transport.send(message)).rejects.toBeInstanceOf(NetworkError);
+    });
+  });
+
+  describe('outboxes', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await mkdtemp(path.join(os.tmpdir(), 'outbox-'));
+    });
+
+    afterEach(async () => {
+      await rm(directory, { recursive: true, force: true });
+    });
+
+    it('should keep messages in memory', async () => {
+      const outbox = createMemoryOutbox();
+      await outbox.send(message);
+
+      const [stored] = await outbox.list();
+      expect(stored).toMatchObject(message);
+      expect(await outbox.get(stored.id)).toEqual(stored);
+
+      await outbox.clear();
+      expect(await outbox.list()).toEqual([]);
+    });
+
+    it('should write messages to files', async () => {
+      const outbox = createFileOutbox(directory);
+      await outbox.send(message);
+      await outbox.send({ ...message, subject: 'Second' });
+
+      const messages = await createFileOutbox(directory).list();
+      expect(messages).toHaveLength(2);
+      expect(await outbox.get(messages[0].id)).toEqual(messages[0]);
+    });
+
+    it('should not read files outside the outbox', async () => {
+      expect(await createFileOutbox(directory).get('../package')).toBeNull();
+    });
+  });
+
+  describe('SMTP', () => {
+    it('should find the address in a mailbox', () => {
+      expect(getAddress('Tofil <no-reply@example.com>')).toBe('no-reply@example.com');
+      expect(getAddress('no-reply@example.com')).toBe('no-reply@example.com');
+    });
+
+    it('should not let a subject add headers', () => {
+      const mime = buildMimeMessage({ ...message, subject: 'Hi\r\nBcc: everyone@example.com' }, 'no-reply@example.com');
+      expect(mime).toContain('Subject: Hi Bcc: everyone@example.com\r\n');
+      expect(mime).not.toMatch(/^Bcc:/m);
+    });
+
+    // Plaintext SMTP server that accepts everything, recording the commands
+    const startServer = async (received: string[]) => {
+      const server = net.createServer(socket => {
+        let inData = false;
+        let buffer = '';
+        socket.write('220 test ready\r\n');
+        socket.on('data', chunk => {
+          buffer += chunk.toString();
+          let index: number;
+          while ((index = buffer.indexOf('\r\n')) !== -1) {
+            const line = buffer.slice(0, index);
+            buffer = buffer.slice(index + 2);
+            if (inData) {
+              if (line === '.') {
+                inData = false;
+                socket.write('250 queued\r\n');
+              }
+              continue;
+            }
+            received.push(line);
+            if (line.startsWith('EHLO')) socket.write('250-test\r\n250 AUTH PLAIN\r\n');
+            else if (line.startsWith('AUTH')) socket.write('235 ok\r\n');
+            else if (line === 'DATA') {
+              inData = true;
+              socket.write('354 go ahead\r\n');
+            } else if (line === 'QUIT') socket.end('221 bye\r\n');
+            else socket.write('250 ok\r\n');
+          }
+        });
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      return { server, port: (server.address() as net.AddressInfo).port };
+    };
+
+    it('should deliver a message to an SMTP server', async () => {
+      const received: string[] = [];
+      const { server, port } = await startServer(received);
+
+      try {
+        await createSmtpTransport({
+          host: '127.0.0.1',
+          port,
+          secure: false,
+          user: 'user',
+          password: 'secret',
+          allowInsecureAuth: true,
+          from: 'Tofil <no-reply@example.com>',
+        }).send(message);
+      } finally {
+        server.close();
+      }
+
+      expect(received).toEqual([
+        'EHLO example.com',
+        `AUTH PLAIN ${Buffer.from('\0user\0secret').toString('base64')}`,
+        'MAIL FROM:<no-reply@example.com>',
+        'RCPT TO:<contractor@example.com>',
+        'DATA',
+        'QUIT',
+      ]);
+    });
+
+    it('should not send credentials unencrypted unless allowed', async () => {
+      const received: string[] = [];
+      const { server, port } = await startServer(received);
+
+      try {
+        const transport = createSmtpTransport({
+          host: '127.0.0.1',
+          port,
+          secure: false,
+          user: 'user',
+          password: 'secret',
+          from: 'no-reply@example.com',
+        });
+        await expect(transport.send(message)).rejects.toThrow(/AUTH refused.*SMTP_ALLOW_INSECURE_AUTH/);
+      } finally {
+        server.close();
+      }
+
+      expect(received).toEqual(['EHLO example.com']);
+    });
+
+    it('should reject when the server refuses the message', async () => {
+      const server = net.createServer(socket => socket.end('554 no service\r\n'));
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      const { port } = server.address() as net.AddressInfo;
+
+      try {
+        const transport = createSmtpTransport({ host: '127.0.0.1', port, secure: false, from: 'no-reply@example.com' });
+        await expect(transport.send(message)).rejects.toThrow('greeting failed: 554 no service');
+      } finally {
+        server.close();
+      }
+    });
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { escapeHtml, html, raw, safeUrl } from '../email/html';
+import { EMAIL_LOCALES, createTranslator, resolveEmailLocale } from '../email/locales';
+import { getEmailTheme, hslToHex } from '../email/theme';
+import {
+  documentReviewedEmail,
+  fileUploadedEmail,
+  insuranceExpiringEmail,
+  insuranceLapsedEmail,
+  jobClaimedEmail,
+  jobCompletedEmail,
+  jobStatusChangeEmail,
+  newJobAvailableEmail,
+  notificationDigestEmail,
+  userInvitationEmail,
+  type EmailTemplate,
+  type EmailTemplateOptions,
+} from '../email/templates';
+
+const theme = getEmailTheme('https://app.test');
+const date = new Date('2026-03-14T12:00:00Z');
+
+const TEMPLATES: [string, (options: EmailTemplateOptions) => EmailTemplate][] = [
+  ['job status change', options => jobStatusChangeEmail('Fix boiler', 'IN_PROGRESS', 'https://app.test/jobs/job-1', options)],
+  ['new job available', options => newJobAvailableEmail('Fix boiler', 'Leeds', 'https://app.test/jobs/job-1', options)],
+  ['job completed', options => jobCompletedEmail('Fix boiler', 'Sam Smith', 'Replaced the valve', 'https://app.test/jobs/job-1', options)],
+  ['job claimed', options => jobClaimedEmail('Fix boiler', 'Sam Smith', 'sam@example.com', 'Leeds', 'https://app.test/jobs/job-1', options)],
+  ['file uploaded', options => fileUploadedEmail('Fix boiler', 'boiler-photo.jpg', 'Sam Smith', 'https://app.test/jobs/job-1', options)],
+  ['user invitation', options => userInvitationEmail('Alex', 'Jo Admin', 'CONTRACTOR', 'https://app.test/invite/token', date, options)],
+  ['document approved', options => documentReviewedEmail('Public liability insurance', true, null, 'https://app.test/onboarding', options)],
+  ['document rejected', options => documentReviewedEmail('Public liability insurance', false, 'The certificate has expired', 'https://app.test/onboarding', options)],
+  ['insurance expiring', options => insuranceExpiringEmail(7, date, 'https://app.test/onboarding', options)],
+  ['insurance lapsed', options => insuranceLapsedEmail(date, 'https://app.test/onboarding', options)],
+  ['notification digest', options => notificationDigestEmail(
+    [
+      { title: 'Job assigned', message: 'You have a new job', url: 'https://app.test/jobs/job-1', createdAt: date },
+      { title: 'Insurance', message: 'Expires soon', createdAt: date },
+    ],
+    'https://app.test/dashboard/notifications',
+    options
+  )],
+];
+
+describe('Email HTML', () => {
+  it('should escape interpolated values', () => {
+    expect(html`<p>${'<script>alert("x")</script>'}</p>`.value)
+      .toBe('<p>&lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt;</p>');
+    expect(escapeHtml("Tom & Jerry's")).toBe('Tom &amp; Jerry&#39;s');
+  });
+
+  it('should keep nested fragments, join arrays and skip empty values', () => {
+    const items = ['a', '<b>'].map(item => html`<li>${item}</li>`);
+
+    expect(html`<ul>${items}</ul>${null}${false}${undefined}${raw('<hr>')}`.value)
+      .toBe('<ul><li>a</li><li>&lt;b&gt;</li></ul><hr>');
+  });
+
+  it('should only allow http, mailto and relative links', () => {
+    expect(safeUrl('https://app.test/jobs/1')).toBe('https://app.test/jobs/1');
+    expect(safeUrl('/jobs/1')).toBe('/jobs/1');
+    expect(safeUrl('javascript:alert(1)')).toBe('#');
+  });
+});
+
+describe('Email theme and locales', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should convert theme colours to hex', () => {
+    expect(hslToHex('210 100% 50%')).toBe('#0080ff');
+    expect(hslToHex('0 0% 100%')).toBe('#ffffff');
+    expect(theme.colors.primary).toBe('#0080ff');
+    expect(theme.logoUrl).toBe('https://app.test/logo.png');
+  });
+
+  it('should resolve language tags to supported locales', () => {
+    expect(resolveEmailLocale('fr-BE')).toBe('fr');
+    expect(resolveEmailLocale('de')).toBe('en');
+
+    vi.stubEnv('EMAIL_LOCALE', 'fr');
+    expect(resolveEmailLocale(null)).toBe('fr');
+  });
+
+  it('should escape messages and values but keep safe values', () => {
+    const t = createTranslator('en');
+
+    expect(t.html('Your {document} & more', { document: html`<strong>${'<ID>'}</strong>` }).value)
+      .toBe('Your <strong>&lt;ID&gt;</strong> &amp; more');
+    expect(t.text(t.strings.digest.subject, { count: 1 })).toBe('Your daily summary: 1 new notification');
+    expect(t.text(t.strings.digest.subject, { count: 3 })).toBe('Your daily summary: 3 new notifications');
+  });
+});
+
+describe('Email templates', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(date);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should escape user content in HTML but not in text', () => {
+    const email = jobStatusChangeEmail('<img src=x onerror=alert(1)>', 'AVAILABLE', 'javascript:alert(1)', { theme });
+
+    expect(email.html).not.toContain('<img src=x');
+    expect(email.html).toContain('&lt;img src=x onerror=alert(1)&gt;');
+    expect(email.html).toContain('href="#"');
+    expect(email.text).toContain('Job: <img src=x onerror=alert(1)>');
+  });
+
+  it('should escape the file name and uploader in file upload emails', () => {
+    const email = fileUploadedEmail('Fix boiler', '<script>x</script>.pdf', '<b>Sam</b>', 'https://app.test/jobs/job-1', { theme });
+
+    expect(email.html).not.toContain('<script>');
+    expect(email.html).toContain('&lt;script&gt;x&lt;/script&gt;.pdf');
+    expect(email.html).toContain('&lt;b&gt;Sam&lt;/b&gt;');
+  });
+
+  it('should use the brand from the theme', () => {
+    const email = userInvitationEmail('Alex', null, 'MANAGER', 'https://app.test/invite/token', date, { theme });
+
+    expect(email.subject).toBe(`You've been invited to join ${theme.name}`);
+    expect(email.text).toContain(`The ${theme.name} team has invited you`);
+    expect(email.html).toContain(`© 2026 ${theme.legalName}`);
+  });
+
+  describe.each(EMAIL_LOCALES)('in %s', locale => {
+    it.each(TEMPLATES)('should render the %s email', (_name, render) => {
+      const email = render({ locale, theme });
+
+      expect(email.subject).toMatchSnapshot('subject');
+      expect(email.html).toMatchSnapshot('html');
+      expect(email.text).toMatchSnapshot('text');
+    });
+  });
+});
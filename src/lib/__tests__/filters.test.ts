@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { applyFilters, compileFilters, formatClause, getFilterKey, type Filters } from '../supabase/filters';
+import type { Job } from '../db/schema';
+
+// Records the calls applyFilters makes on a query builder
+const createQuery = () => {
+  const calls: [string, ...unknown[]][] = [];
+  const query = {
+    filter(column: string, operator: string, value: unknown) {
+      calls.push(['filter', column, operator, value]);
+      return this;
+    },
+    or(filters: string) {
+      calls.push(['or', filters]);
+      return this;
+    },
+  };
+  return { query, calls };
+};
+
+describe('Query filters', () => {
+  it('should treat plain values as equality and null as is null', () => {
+    expect(compileFilters<Job>({ status: 'AVAILABLE', contractorId: null, title: undefined })).toEqual([
+      { column: 'contractor_id', operator: 'is', value: null },
+      { column: 'status', operator: 'eq', value: 'AVAILABLE' },
+    ]);
+  });
+
+  it('should apply each operator', () => {
+    const { query, calls } = createQuery();
+
+    applyFilters<typeof query, Job>(query, {
+      status: { in: ['CLAIMED', 'AVAILABLE'], neq: 'DRAFT' },
+      title: { ilike: '%boiler, kitchen%' },
+      locationId: { isNot: null },
+      requiredSpecialities: { overlaps: ['plumbing', 'general maintenance'] },
+      listingPrice: { notIn: ['0'] },
+    });
+
+    expect(calls).toEqual([
+      ['filter', 'listing_price', 'not.in', '(0)'],
+      ['filter', 'location_id', 'not.is', 'null'],
+      ['filter', 'required_specialities', 'ov', '{"general maintenance",plumbing}'],
+      ['filter', 'status', 'in', '(AVAILABLE,CLAIMED)'],
+      ['filter', 'status', 'neq', 'DRAFT'],
+      ['filter', 'title', 'ilike', '%boiler, kitchen%'],
+    ]);
+  });
+
+  it('should turn date ranges into inclusive bounds', () => {
+    const from = new Date('2026-01-01T00:00:00Z');
+    const to = new Date('2026-01-31T23:59:59Z');
+
+    expect(compileFilters<Job>({ createdAt: { between: [from, to] } }).map(formatClause)).toEqual([
+      'created_at.gte.2026-01-01T00:00:00.000Z',
+      'created_at.lte.2026-01-31T23:59:59.000Z',
+    ]);
+  });
+
+  it('should serialise or groups, quoting reserved characters', () => {
+    const { query, calls } = createQuery();
+
+    applyFilters<typeof query, Job>(query, {
+      or: [
+        { category: 'PLUMBING' },
+        { status: 'AVAILABLE', updatedAt: { lt: '2026-01-01T00:00:00Z' } },
+        { title: { ilike: '%a,b%' } },
+      ],
+    });
+
+    expect(calls).toEqual([
+      ['or', 'category.eq.PLUMBING,and(status.eq.AVAILABLE,updated_at.lt."2026-01-01T00:00:00Z"),title.ilike."%a,b%"'],
+    ]);
+  });
+
+  it('should give the same key whatever order filters are written in', () => {
+    const a: Filters<Job> = { status: { in: ['AVAILABLE', 'CLAIMED'] }, category: 'PLUMBING' };
+    const b: Filters<Job> = { category: 'PLUMBING', status: { in: ['CLAIMED', 'AVAILABLE'] } };
+
+    expect(getFilterKey(a)).toBe(getFilterKey(b));
+    expect(getFilterKey(a)).not.toBe(getFilterKey<Job>({ category: 'PLUMBING' }));
+    expect(getFilterKey<Job>({ title: undefined })).toBe('');
+  });
+
+  it('should reject unknown operators', () => {
+    // @ts-expect-error - not an operator
+    expect(() => compileFilters<Job>({ status: { like: 'A%' } })).toThrow('Unknown filter operator "like" for status');
+  });
+
+  it('should check filters against the entity type', () => {
+    const filters: Filters<Job>[] = [
+      // @ts-expect-error - not a job status
+      { status: 'OPEN' },
+      // @ts-expect-error - not a field of Job
+      { colour: 'red' },
+      // @ts-expect-error - ilike is only for text fields
+      { createdAt: { ilike: '%2026%' } },
+      // @ts-expect-error - array fields take contains/overlaps
+      { requiredSpecialities: 'plumbing' },
+      // @ts-expect-error - title can't be null
+      { title: null },
+    ];
+
+    expect(filters).toHaveLength(5);
+  });
+});
@@ -0,0 +1,173 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { getAddressKey, normalizeAddress } from '../geo/address';
+import { getBoundingBox, haversineDistanceKm } from '../geo/distance';
+import { createFixtureGeocoder, createNominatimGeocoder } from '../geo/geocoder';
+import { findJobsWithinRadius, geocodeLocation, geocodePendingLocations } from '../services/locations';
+import { NetworkError, NotFoundError } from '@/types/errors';
+
+const sydney = { latitude: -33.8611, longitude: 151.2100 };
+
+describe('Address normalization', () => {
+  it('should tidy whitespace, commas and state codes', () => {
+    expect(normalizeAddress('  1   George St ,Sydney  nsw 2000, ')).toBe('1 George St, Sydney NSW 2000');
+  });
+
+  it('should give equivalent spellings the same key', () => {
+    expect(getAddressKey('1 George St, Sydney NSW 2000')).toBe(getAddressKey('1 george street sydney nsw 2000'));
+    expect(getAddressKey('12/5 Smith Rd.')).toBe('12/5 smith road');
+    expect(getAddressKey('1 George St')).not.toBe(getAddressKey('1 George Rd'));
+  });
+});
+
+describe('getBoundingBox', () => {
+  it('should contain every point within the radius', () => {
+    const box = getBoundingBox(sydney, 10);
+    const north = { latitude: box.maxLatitude, longitude: sydney.longitude };
+    const east = { latitude: sydney.latitude, longitude: box.maxLongitude };
+
+    expect(haversineDistanceKm(sydney, north)).toBeCloseTo(10, 1);
+    expect(haversineDistanceKm(sydney, east)).toBeGreaterThanOrEqual(9.9);
+  });
+});
+
+describe('Geocoders', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should answer fixture addresses regardless of spelling', async () => {
+    const geocoder = createFixtureGeocoder({ '1 George Street, Sydney NSW 2000': sydney });
+
+    expect(await geocoder.geocode('1 george st sydney NSW 2000')).toMatchObject(sydney);
+    expect(await geocoder.geocode('2 George Street, Sydney NSW 2000')).toBeNull();
+  });
+
+  it('should query Nominatim with the normalized address', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response(JSON.stringify([
+      { lat: '-33.8611', lon: '151.21', display_name: '1, George Street, Sydney' },
+    ])));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const result = await createNominatimGeocoder({ baseUrl: 'https://geo.test' }).geocode(' 1 George St,Sydney ');
+
+    const url = new URL(fetchMock.mock.calls[0][0]);
+    expect(url.origin + url.pathname).toBe('https://geo.test/search');
+    expect(url.searchParams.get('q')).toBe('1 George St, Sydney');
+    expect(url.searchParams.get('countrycodes')).toBe('au');
+    expect(result).toEqual({ latitude: -33.8611, longitude: 151.21, formattedAddress: '1, George Street, Sydney' });
+  });
+
+  it('should resolve to null when Nominatim finds nothing', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('[]')));
+    expect(await createNominatimGeocoder().geocode('Nowhere')).toBeNull();
+  });
+
+  it('should throw a NetworkError when Nominatim fails', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('busy', { status: 429 })));
+    await expect(createNominatimGeocoder().geocode('1 George St')).rejects.toThrow(NetworkError);
+  });
+});
+
+describe('Location services', () => {
+  const geocoder = createFixtureGeocoder({ '1 George Street, Sydney NSW 2000': sydney });
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  let calls: { table: string; method: string; args: any[] }[];
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const createSupabase = (results: Record<string, any[]>) => ({
+    from: (table: string) => {
+      const queue = results[table] ?? [];
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const builder: any = {};
+      ['select', 'update', 'eq', 'is', 'or', 'order', 'limit', 'gte', 'lte'].forEach(method => {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        builder[method] = (...args: any[]) => {
+          calls.push({ table, method, args });
+          return builder;
+        };
+      });
+      builder.maybeSingle = () => Promise.resolve(queue.shift() ?? { data: null, error: null });
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      builder.then = (resolve: any) => resolve(queue.shift() ?? { data: null, error: null });
+      return builder;
+    },
+  });
+
+  beforeEach(() => {
+    calls = [];
+  });
+
+  it('should store coordinates only if the address is unchanged', async () => {
+    const address = '1 George St, Sydney NSW 2000';
+    const supabase = createSupabase({
+      locations: [
+        { data: { id: 'loc-1', address }, error: null },
+        { data: { id: 'loc-1', address, ...sydney }, error: null },
+      ],
+    });
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const location = await geocodeLocation(supabase as any, 'loc-1', geocoder);
+
+    expect(calls.find(c => c.method === 'update')?.args[0]).toMatchObject(sydney);
+    expect(calls).toContainEqual({ table: 'locations', method: 'eq', args: ['address', address] });
+    expect(location.latitude).toBe(sydney.latitude);
+  });
+
+  it('should throw NotFoundError for unknown locations', async () => {
+    const supabase = createSupabase({ locations: [{ data: null, error: null }] });
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    await expect(geocodeLocation(supabase as any, 'missing', geocoder)).rejects.toThrow(NotFoundError);
+  });
+
+  it('should sort pending locations into geocoded, not found and failed', async () => {
+    const supabase = createSupabase({
+      locations: [
+        {
+          data: [
+            { id: 'loc-1', address: '1 George Street, Sydney NSW 2000' },
+            { id: 'loc-2', address: 'Somewhere unknown' },
+            { id: 'loc-3', address: '1 George Street, Sydney NSW 2000' },
+          ],
+          error: null,
+        },
+        { data: { id: 'loc-1', ...sydney }, error: null },
+        { data: { id: 'loc-2', latitude: null, longitude: null }, error: null },
+        { data: null, error: null },
+      ],
+    });
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const result = await geocodePendingLocations(supabase as any, { geocoder });
+
+    expect(result).toEqual({ geocoded: ['loc-1'], notFound: ['loc-2'], failed: ['loc-3'] });
+    consoleError.mockRestore();
+  });
+
+  it('should return jobs within the radius, nearest first', async () => {
+    const job = (id: string, latitude: number | null, longitude: number | null) => ({
+      id,
+      title: id,
+      location: { name: id, address: id, latitude, longitude },
+    });
+    const supabase = createSupabase({
+      visible_jobs: [{
+        data: [
+          job('far-corner', sydney.latitude + 0.08, sydney.longitude + 0.1),
+          job('near', sydney.latitude + 0.01, sydney.longitude),
+          job('here', sydney.latitude, sydney.longitude),
+        ],
+        error: null,
+      }],
+    });
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const jobs = await findJobsWithinRadius(supabase as any, { origin: sydney, radiusKm: 10, role: 'CONTRACTOR' });
+
+    expect(jobs.map(j => j.id)).toEqual(['here', 'near']);
+    expect(jobs[1].distanceKm).toBeCloseTo(1.1, 1);
+    expect(calls.filter(c => c.method === 'gte').map(c => c.args[0])).toEqual(['location.latitude', 'location.longitude']);
+  });
+});
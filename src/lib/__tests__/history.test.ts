@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import { buildTimeline, diffVersions, getVersionAt } from '../history/timeline';
+import type { JobHistory, UserHistory } from '@/lib/db/schema';
+
+const jobVersion = (overrides: Partial<JobHistory>): JobHistory => ({
+  id: 'h1',
+  jobId: 'job-1',
+  title: 'Fix leak',
+  description: 'Kitchen sink',
+  status: 'DRAFT',
+  ownerId: 'owner-1',
+  locationId: null,
+  contractorId: null,
+  completionNotes: null,
+  changedBy: 'owner-1',
+  validFrom: new Date('2024-01-01T09:00:00Z'),
+  validTo: null,
+  fileEventType: null,
+  fileId: null,
+  fileName: null,
+  ...overrides,
+});
+
+describe('History timeline', () => {
+  describe('diffVersions', () => {
+    it('should list only the tracked fields that changed', () => {
+      const changes = diffVersions(
+        { title: 'A', status: 'DRAFT', notes: 'x' },
+        { title: 'A', status: 'AVAILABLE', notes: 'y' },
+        ['title', 'status']
+      );
+      expect(changes).toEqual([{ field: 'status', from: 'DRAFT', to: 'AVAILABLE' }]);
+    });
+
+    it('should treat null and undefined as the same value', () => {
+      expect(diffVersions({ locationId: null }, {}, ['locationId'])).toEqual([]);
+    });
+  });
+
+  describe('buildTimeline', () => {
+    const rows = [
+      jobVersion({
+        id: 'h3',
+        title: 'Fix kitchen leak',
+        status: 'AVAILABLE',
+        changedBy: 'admin-1',
+        validFrom: new Date('2024-01-03T09:00:00Z'),
+      }),
+      jobVersion({ id: 'h1', validTo: new Date('2024-01-02T09:00:00Z') }),
+      jobVersion({
+        id: 'h2',
+        status: 'PENDING_REVIEW',
+        title: 'Fix kitchen leak',
+        validFrom: new Date('2024-01-02T09:00:00Z'),
+        validTo: new Date('2024-01-03T09:00:00Z'),
+      }),
+      jobVersion({
+        id: 'f1',
+        status: 'PENDING_REVIEW',
+        validFrom: new Date('2024-01-02T12:00:00Z'),
+        validTo: new Date('2024-01-02T12:00:00Z'),
+        fileEventType: 'ADDED',
+        fileId: 'file-1',
+        fileName: 'photo.jpg',
+      }),
+    ];
+
+    it('should diff consecutive versions in chronological order', () => {
+      const timeline = buildTimeline('jobs', rows);
+
+      expect(timeline.map(entry => entry.kind)).toEqual(['created', 'updated', 'file', 'updated']);
+      expect(timeline[1]).toMatchObject({
+        kind: 'updated',
+        changes: [
+          { field: 'title', from: 'Fix leak', to: 'Fix kitchen leak' },
+          { field: 'status', from: 'DRAFT', to: 'PENDING_REVIEW' },
+        ],
+      });
+      expect(timeline[3]).toMatchObject({
+        kind: 'updated',
+        changedBy: 'admin-1',
+        changes: [{ field: 'status', from: 'PENDING_REVIEW', to: 'AVAILABLE' }],
+      });
+    });
+
+    it('should include file events without breaking the version chain', () => {
+      const timeline = buildTimeline('jobs', rows);
+      expect(timeline[2]).toMatchObject({ kind: 'file', event: 'ADDED', fileName: 'photo.jpg' });
+    });
+
+    it('should skip versions that changed no tracked field', () => {
+      const userRows: UserHistory[] = [
+        {
+          id: 'u1', userId: 'user-1', email: 'a@example.com', name: 'Ann', type: 'CONTRACTOR',
+          status: 'ACTIVE', claimsSuspended: false, changedBy: null, validFrom: new Date('2024-01-01'), validTo: new Date('2024-02-01'),
+        },
+        {
+          id: 'u2', userId: 'user-1', email: 'a@example.com', name: 'Ann', type: 'CONTRACTOR',
+          status: 'ACTIVE', claimsSuspended: false, changedBy: null, validFrom: new Date('2024-02-01'), validTo: null,
+        },
+      ];
+      expect(buildTimeline('users', userRows).map(entry => entry.kind)).toEqual(['created']);
+    });
+  });
+
+  describe('getVersionAt', () => {
+    const rows = [
+      jobVersion({ id: 'h1', validTo: new Date('2024-01-02T09:00:00Z') }),
+      jobVersion({ id: 'h2', status: 'AVAILABLE', validFrom: new Date('2024-01-02T09:00:00Z') }),
+      jobVersion({
+        id: 'f1',
+        validFrom: new Date('2024-01-01T12:00:00Z'),
+        validTo: new Date('2024-01-01T12:00:00Z'),
+        fileEventType: 'ADDED',
+      }),
+    ];
+
+    it('should return the version valid at the given time', () => {
+      expect(getVersionAt(rows, new Date('2024-01-01T12:00:00Z'))?.id).toBe('h1');
+      expect(getVersionAt(rows, new Date('2024-01-02T09:00:00Z'))?.id).toBe('h2');
+      expect(getVersionAt(rows, new Date('2025-01-01T00:00:00Z'))?.id).toBe('h2');
+    });
+
+    it('should return null before the record existed', () => {
+      expect(getVersionAt(rows, new Date('2023-12-31T00:00:00Z'))).toBeNull();
+    });
+  });
+});
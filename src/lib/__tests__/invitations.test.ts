@@ -0,0 +1,308 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import {
+  canApplyInvitationAction,
+  getEffectiveInvitationStatus,
+  getInvitationExpiry,
+  INVITATION_TTL_DAYS,
+} from '../invitations/status';
+import { assertCanInvite, INVITABLE_ROLES } from '../auth/rbac';
+import {
+  acceptInvitation,
+  createInvitation,
+  toManagedInvitation,
+  updateInvitation,
+} from '../services/invitations';
+import { NotFoundError, PermissionError, ValidationError } from '@/types/errors';
+
+vi.mock('@/lib/services/notifications', () => ({
+  sendEmailNotification: vi.fn().mockResolvedValue(undefined),
+}));
+
+const admin = { id: 'admin-1', email: 'admin@example.com', type: 'ADMIN' as const };
+const owner = { id: 'owner-1', email: 'owner@example.com', type: 'OWNER' as const };
+const otherOwner = { id: 'owner-2', email: 'other@example.com', type: 'OWNER' as const };
+
+const now = new Date('2024-06-01T12:00:00Z');
+const tomorrow = new Date('2024-06-02T12:00:00Z');
+const yesterday = new Date('2024-05-31T12:00:00Z');
+
+describe('Invitation status', () => {
+  it('should expire invitations after the TTL', () => {
+    const expiry = getInvitationExpiry(now);
+    expect(expiry.getTime() - now.getTime()).toBe(INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000);
+  });
+
+  it('should treat overdue pending invitations as expired', () => {
+    expect(getEffectiveInvitationStatus({ status: 'pending', expiresAt: yesterday }, now)).toBe('expired');
+    expect(getEffectiveInvitationStatus({ status: 'pending', expiresAt: tomorrow }, now)).toBe('pending');
+    expect(getEffectiveInvitationStatus({ status: 'completed', expiresAt: yesterday }, now)).toBe('completed');
+  });
+
+  it('should only allow resending pending or expired invitations', () => {
+    expect(canApplyInvitationAction({ status: 'pending', expiresAt: tomorrow }, 'resend', now)).toBe(true);
+    expect(canApplyInvitationAction({ status: 'pending', expiresAt: yesterday }, 'resend', now)).toBe(true);
+    expect(canApplyInvitationAction({ status: 'completed', expiresAt: tomorrow }, 'resend', now)).toBe(false);
+    expect(canApplyInvitationAction({ status: 'revoked', expiresAt: tomorrow }, 'resend', now)).toBe(false);
+  });
+
+  it('should not revoke or expire invitations that are no longer pending', () => {
+    expect(canApplyInvitationAction({ status: 'pending', expiresAt: yesterday }, 'revoke', now)).toBe(false);
+    expect(canApplyInvitationAction({ status: 'completed', expiresAt: tomorrow }, 'expire', now)).toBe(false);
+  });
+});
+
+describe('assertCanInvite', () => {
+  it('should let admins invite any user type', () => {
+    expect(() => assertCanInvite('ADMIN', 'ADMIN')).not.toThrow();
+    expect(() => assertCanInvite('ADMIN', 'OWNER')).not.toThrow();
+  });
+
+  it('should limit owners to managers and contractors', () => {
+    expect(() => assertCanInvite('OWNER', 'CONTRACTOR')).not.toThrow();
+    expect(() => assertCanInvite('OWNER', 'MANAGER')).not.toThrow();
+    expect(() => assertCanInvite('OWNER', 'ADMIN')).toThrow(PermissionError);
+  });
+
+  it('should not let managers or contractors invite anyone', () => {
+    expect(() => assertCanInvite('MANAGER', 'CONTRACTOR')).toThrow(PermissionError);
+    expect(() => assertCanInvite('CONTRACTOR', 'CONTRACTOR')).toThrow(PermissionError);
+  });
+
+  it('should match the owner invitation policy in supabase/rls-policies.sql', () => {
+    const sql = readFileSync(join(process.cwd(), 'supabase/rls-policies.sql'), 'utf8');
+    const policy = sql.slice(sql.indexOf('create policy "Owners send invitations"'));
+    const roles = policy.match(/user_type in \(([^)]*)\)/)?.[1].replace(/[\s']/g, '').split(',');
+
+    expect(roles?.sort()).toEqual([...INVITABLE_ROLES.OWNER].sort());
+  });
+});
+
+describe('Invitations service', () => {
+  const invitationRow = {
+    id: 'inv-1',
+    email: 'new@example.com',
+    name: 'New User',
+    user_type: 'CONTRACTOR',
+    invited_by: owner.id,
+    status: 'pending',
+    token: 'token-1',
+    expires_at: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
+    completed_at: null,
+    created_at: '2024-06-01T12:00:00Z',
+    updated_at: '2024-06-01T12:00:00Z',
+  };
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  let calls: { table: string; method: string; args: any[] }[];
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const createSupabase = (results: Record<string, any[]>) => ({
+    from: (table: string) => {
+      const queue = results[table] ?? [];
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const builder: any = {};
+      ['select', 'update', 'insert', 'eq', 'gt', 'lte', 'limit'].forEach(method => {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        builder[method] = (...args: any[]) => {
+          calls.push({ table, method, args });
+          return builder;
+        };
+      });
+      builder.maybeSingle = () => Promise.resolve(queue.shift() ?? { data: null, error: null });
+      builder.single = builder.maybeSingle;
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      builder.then = (resolve: any) => resolve(queue.shift() ?? { data: null, error: null });
+      return builder;
+    },
+  });
+
+  const account = { id: 'auth-1', email: 'New@Example.com', email_confirmed_at: '2024-06-01T12:00:00Z' };
+
+  beforeEach(() => {
+    calls = [];
+    vi.clearAllMocks();
+  });
+
+  describe('createInvitation', () => {
+    it('should insert a pending invitation and email the invite link', async () => {
+      const { sendEmailNotification } = await import('@/lib/services/notifications');
+      const supabase = createSupabase({
+        users: [{ data: null, error: null }, { data: { name: 'Olive Owner' }, error: null }],
+        user_invitations: [{ data: [], error: null }, { data: invitationRow, error: null }],
+      });
+
+      const invitation = await createInvitation(
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        supabase as any,
+        { email: 'new@example.com', name: 'New User', userType: 'CONTRACTOR' },
+        owner
+      );
+
+      const insert = calls.find(c => c.table === 'user_invitations' && c.method === 'insert')?.args[0];
+      expect(insert).toMatchObject({
+        email: 'new@example.com',
+        user_type: 'CONTRACTOR',
+        invited_by: owner.id,
+        status: 'pending',
+      });
+      expect(insert.token).toMatch(/^[A-Za-z0-9_-]{43}$/);
+      expect(invitation.userType).toBe('CONTRACTOR');
+      expect(sendEmailNotification).toHaveBeenCalledWith(
+        'new@example.com',
+        expect.objectContaining({ text: expect.stringContaining('/invite/token-1') })
+      );
+    });
+
+    it('should reject emails that already have an account', async () => {
+      const supabase = createSupabase({ users: [{ data: { id: 'user-1' }, error: null }] });
+
+      await expect(
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        createInvitation(supabase as any, { email: 'taken@example.com', name: 'Taken', userType: 'MANAGER' }, admin)
+      ).rejects.toThrow(ValidationError);
+      expect(calls.some(c => c.method === 'insert')).toBe(false);
+    });
+
+    it('should reject emails with a pending invitation', async () => {
+      const supabase = createSupabase({
+        users: [{ data: null, error: null }],
+        user_invitations: [{ data: [{ id: 'inv-0' }], error: null }],
+      });
+
+      await expect(
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        createInvitation(supabase as any, { email: 'new@example.com', name: 'New', userType: 'MANAGER' }, admin)
+      ).rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe('updateInvitation', () => {
+    it('should issue a new token when resending', async () => {
+      const supabase = createSupabase({
+        users: [{ data: { name: 'Olive Owner' }, error: null }],
+        user_invitations: [
+          { data: { ...invitationRow, status: 'expired' }, error: null },
+          { data: { ...invitationRow, token: 'token-2' }, error: null },
+        ],
+      });
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const invitation = await updateInvitation(supabase as any, 'inv-1', 'resend', owner);
+
+      const update = calls.find(c => c.table === 'user_invitations' && c.method === 'update')?.args[0];
+      expect(update.status).toBe('pending');
+      expect(update.token).not.toBe('token-1');
+      expect(calls).toContainEqual({ table: 'user_invitations', method: 'eq', args: ['status', 'expired'] });
+      expect(invitation.status).toBe('pending');
+    });
+
+    it('should revoke pending invitations', async () => {
+      const supabase = createSupabase({
+        user_invitations: [
+          { data: invitationRow, error: null },
+          { data: { ...invitationRow, status: 'revoked' }, error: null },
+        ],
+      });
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      await updateInvitation(supabase as any, 'inv-1', 'revoke', admin);
+
+      const update = calls.find(c => c.table === 'user_invitations' && c.method === 'update')?.args[0];
+      expect(update).toMatchObject({ status: 'revoked' });
+      expect(update).not.toHaveProperty('token');
+    });
+
+    it('should not let owners manage invitations sent by others', async () => {
+      const supabase = createSupabase({ user_invitations: [{ data: invitationRow, error: null }] });
+
+      await expect(
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        updateInvitation(supabase as any, 'inv-1', 'revoke', otherOwner)
+      ).rejects.toThrow(PermissionError);
+    });
+
+    it('should not revoke completed invitations', async () => {
+      const supabase = createSupabase({
+        user_invitations: [{ data: { ...invitationRow, status: 'completed' }, error: null }],
+      });
+
+      await expect(
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        updateInvitation(supabase as any, 'inv-1', 'revoke', owner)
+      ).rejects.toThrow(ValidationError);
+      expect(calls.some(c => c.method === 'update')).toBe(false);
+    });
+  });
+
+  describe('acceptInvitation', () => {
+    it('should create the user with the invited type and complete the invitation', async () => {
+      const supabase = createSupabase({
+        user_invitations: [
+          { data: invitationRow, error: null },
+          { data: { ...invitationRow, status: 'completed' }, error: null },
+        ],
+        users: [{ error: null }],
+      });
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const invitation = await acceptInvitation(supabase as any, 'token-1', account);
+
+      expect(calls.find(c => c.table === 'users' && c.method === 'insert')?.args[0]).toEqual({
+        id: 'auth-1',
+        email: 'new@example.com',
+        name: 'New User',
+        type: 'CONTRACTOR',
+        status: 'ACTIVE',
+      });
+      expect(invitation.status).toBe('completed');
+    });
+
+    it('should reject accounts with a different email', async () => {
+      const supabase = createSupabase({ user_invitations: [{ data: invitationRow, error: null }] });
+
+      await expect(
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        acceptInvitation(supabase as any, 'token-1', { ...account, id: 'auth-2', email: 'someone@example.com' })
+      ).rejects.toThrow(PermissionError);
+      expect(calls.some(c => c.method === 'insert')).toBe(false);
+    });
+
+    it('should reject accounts whose email is unconfirmed', async () => {
+      const supabase = createSupabase({ user_invitations: [{ data: invitationRow, error: null }] });
+
+      await expect(
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        acceptInvitation(supabase as any, 'token-1', { ...account, email_confirmed_at: undefined })
+      ).rejects.toThrow('Confirm your email address');
+      expect(calls.some(c => c.method === 'insert')).toBe(false);
+    });
+
+    it('should reject expired invitations', async () => {
+      const supabase = createSupabase({
+        user_invitations: [{ data: { ...invitationRow, expires_at: yesterday.toISOString() }, error: null }],
+      });
+
+      await expect(
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        acceptInvitation(supabase as any, 'token-1', account)
+      ).rejects.toThrow(ValidationError);
+    });
+
+    it('should reject unknown tokens', async () => {
+      const supabase = createSupabase({ user_invitations: [{ data: null, error: null }] });
+
+      await expect(
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        acceptInvitation(supabase as any, 'nope', account)
+      ).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  it('should never expose the token to the management table', () => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const managed = toManagedInvitation({ ...invitationRow, token: 'secret' } as any);
+    expect(managed).not.toHaveProperty('token');
+  });
+});
@@ -0,0 +1,206 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { assertContractorSpecialities, getMissingSpecialities } from '../jobs/claims';
+import { claimJob, transitionJob } from '../services/jobs';
+import { ConflictError, PermissionError } from '@/types/errors';
+
+vi.mock('@/lib/services/notifications', () => ({
+  notifyJobStatusChange: vi.fn().mockResolvedValue(true),
+  notifyAdminJobClaimed: vi.fn().mockResolvedValue(true),
+}));
+
+vi.mock('@/lib/services/contractorDocuments', () => ({
+  assertContractorCanClaim: vi.fn().mockResolvedValue(undefined),
+}));
+
+const admin = { id: 'admin-1', type: 'ADMIN' as const };
+const alice = { id: 'contractor-1', type: 'CONTRACTOR' as const };
+const bob = { id: 'contractor-2', type: 'CONTRACTOR' as const };
+
+describe('Claim specialities', () => {
+  it('should list required specialities the contractor lacks', () => {
+    expect(getMissingSpecialities(['plumbing', 'electrical'], ['plumbing'])).toEqual(['electrical']);
+    expect(getMissingSpecialities(['Plumbing'], ['plumbing'])).toEqual([]);
+    expect(getMissingSpecialities([], null)).toEqual([]);
+  });
+
+  it('should name the missing specialities', () => {
+    expect(() => assertContractorSpecialities(['general_maintenance'], [])).toThrow(/general maintenance/);
+    expect(() => assertContractorSpecialities(['plumbing'], ['plumbing'])).not.toThrow();
+  });
+});
+
+describe('claimJob', () => {
+  type Row = Record<string, unknown>;
+  type Filter = [string, unknown];
+
+  let jobs: Row[];
+  let profiles: Row[];
+  let updates: Row[];
+
+  /**
+   * In-memory stand-in for Supabase. Every query resolves on a later tick, so
+   * concurrent claims interleave the way separate requests would, and each
+   * conditional update checks its filters against the row as it is when the
+   * update runs, like Postgres does after taking the row lock.
+   */
+  const createSupabase = () => ({
+    from: (table: string) => {
+      const filters: Filter[] = [];
+      let patch: Row | null = null;
+      const rows = () => (table === 'jobs' || table === 'visible_jobs' ? jobs : table === 'contractor_profiles' ? profiles : []);
+      const matches = (row: Row) => filters.every(([column, value]) => (row[column] ?? null) === value);
+
+      const run = async () => {
+        await new Promise(resolve => setTimeout(resolve, 0));
+        const row = rows().find(matches) ?? null;
+        if (row && patch) {
+          Object.assign(row, patch);
+          updates.push(patch);
+        }
+        return { data: row ? { ...row } : null, error: null };
+      };
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const builder: any = {
+        select: () => builder,
+        eq: (column: string, value: unknown) => {
+          filters.push([column, value]);
+          return builder;
+        },
+        is: (column: string, value: null) => {
+          filters.push([column, value]);
+          return builder;
+        },
+        update: (values: Row) => {
+          patch = values;
+          return builder;
+        },
+        maybeSingle: run,
+      };
+      return builder;
+    },
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    jobs = [{
+      id: 'job-1',
+      title: 'Fix leak',
+      status: 'AVAILABLE',
+      owner_id: 'owner-1',
+      contractor_id: null,
+      location_id: null,
+      required_specialities: ['plumbing'],
+    }];
+    profiles = [
+      { user_id: alice.id, specialities: ['plumbing'] },
+      { user_id: bob.id, specialities: ['plumbing', 'electrical'] },
+    ];
+    updates = [];
+  });
+
+  it('should assign the job to the contractor and notify admins', async () => {
+    const { notifyAdminJobClaimed } = await import('@/lib/services/notifications');
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const job = await claimJob(createSupabase() as any, { jobId: 'job-1', actor: alice });
+
+    expect(job).toMatchObject({ status: 'CLAIMED', contractorId: alice.id });
+    expect(notifyAdminJobClaimed).toHaveBeenCalledWith('job-1', 'Fix leak', 'No location', 'Unknown contractor', '');
+  });
+
+  it('should let exactly one of two simultaneous claims succeed', async () => {
+    const supabase = createSupabase();
+
+    const results = await Promise.allSettled([
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      claimJob(supabase as any, { jobId: 'job-1', actor: alice }),
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      claimJob(supabase as any, { jobId: 'job-1', actor: bob }),
+    ]);
+
+    const fulfilled = results.filter(result => result.status === 'fulfilled');
+    const rejected = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+    expect(fulfilled).toHaveLength(1);
+    expect(rejected).toHaveLength(1);
+    expect(rejected[0].reason).toBeInstanceOf(ConflictError);
+    expect(rejected[0].reason.message).toBe('Another contractor claimed this job first.');
+    expect(updates).toHaveLength(1);
+    expect(jobs[0].contractor_id).toBe(updates[0].contractor_id);
+  });
+
+  it('should let only one of many simultaneous claims succeed', async () => {
+    const supabase = createSupabase();
+    const contractors = Array.from({ length: 10 }, (_, i) => ({ id: `contractor-${i}`, type: 'CONTRACTOR' as const }));
+    profiles = contractors.map(contractor => ({ user_id: contractor.id, specialities: ['plumbing'] }));
+
+    const results = await Promise.allSettled(
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      contractors.map(actor => claimJob(supabase as any, { jobId: 'job-1', actor }))
+    );
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+    expect(updates).toHaveLength(1);
+  });
+
+  it('should report a conflict when the job was already claimed', async () => {
+    jobs[0] = { ...jobs[0], status: 'CLAIMED', contractor_id: bob.id };
+
+    await expect(
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      claimJob(createSupabase() as any, { jobId: 'job-1', actor: alice })
+    ).rejects.toThrow(ConflictError);
+    expect(updates).toEqual([]);
+  });
+
+  it('should reject contractors without the required specialities', async () => {
+    profiles = [{ user_id: alice.id, specialities: ['electrical'] }];
+
+    await expect(
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      claimJob(createSupabase() as any, { jobId: 'job-1', actor: alice })
+    ).rejects.toThrow(PermissionError);
+    expect(updates).toEqual([]);
+  });
+
+  it('should only let contractors claim', async () => {
+    await expect(
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      claimJob(createSupabase() as any, { jobId: 'job-1', actor: admin })
+    ).rejects.toThrow(PermissionError);
+  });
+
+  it('should claim through transitionJob too', async () => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const job = await transitionJob(createSupabase() as any, { jobId: 'job-1', toStatus: 'CLAIMED', actor: alice });
+    expect(job.contractorId).toBe(alice.id);
+  });
+
+  it('should unassign the contractor when a job is released', async () => {
+    jobs[0] = { ...jobs[0], status: 'CLAIMED', contractor_id: alice.id };
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const job = await transitionJob(createSupabase() as any, { jobId: 'job-1', toStatus: 'AVAILABLE', actor: alice });
+
+    expect(job).toMatchObject({ status: 'AVAILABLE', contractorId: null });
+  });
+
+  it('should only write the columns the database lets contractors update', async () => {
+    const triggers = readFileSync(join(process.cwd(), 'supabase/triggers.sql'), 'utf8');
+    const declared = triggers.match(/function guard_contractor_job_update\(\)[\s\S]*?progress_columns text\[\] := array\[([^\]]*)\]/);
+    const progressColumns = declared![1].split(',').map(column => column.trim().replace(/'/g, ''));
+    const supabase = createSupabase();
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    await claimJob(supabase as any, { jobId: 'job-1', actor: alice });
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    await transitionJob(supabase as any, { jobId: 'job-1', toStatus: 'SUBMITTED', actor: alice });
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    await transitionJob(supabase as any, { jobId: 'job-1', toStatus: 'IN_PROGRESS', actor: alice });
+
+    expect(updates).toHaveLength(3);
+    updates.forEach(update => expect(progressColumns).toEqual(expect.arrayContaining(Object.keys(update))));
+  });
+});
@@ -0,0 +1,171 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { haversineDistanceKm } from '../geo/distance';
+import { findMatchingContractors, matchJob, rankJobsForContractor, type MatchProfile } from '../jobs/matching';
+import { notifyMatchingContractors } from '../services/matching';
+
+vi.mock('@/lib/services/notifications', () => ({
+  notifyNewJob: vi.fn().mockResolvedValue(true),
+}));
+
+// Sydney CBD, Parramatta (~19km west) and Newcastle (~117km north)
+const sydney = { latitude: -33.8688, longitude: 151.2093 };
+const parramatta = { latitude: -33.8150, longitude: 151.0011 };
+const newcastle = { latitude: -32.9283, longitude: 151.7817 };
+
+const plumber: MatchProfile = {
+  userId: 'contractor-1',
+  specialities: ['plumbing'],
+  serviceRadiusKm: 50,
+  baseLatitude: sydney.latitude,
+  baseLongitude: sydney.longitude,
+};
+
+const job = (overrides: Partial<Parameters<typeof matchJob>[0]> & { id: string }) => ({
+  category: 'GENERAL_MAINTENANCE' as const,
+  requiredSpecialities: [] as string[],
+  createdAt: new Date('2024-06-01'),
+  location: null,
+  ...overrides,
+});
+
+describe('haversineDistanceKm', () => {
+  it('should measure great-circle distances', () => {
+    expect(haversineDistanceKm(sydney, sydney)).toBe(0);
+    expect(haversineDistanceKm(sydney, parramatta)).toBeCloseTo(20, 0);
+    expect(haversineDistanceKm(sydney, newcastle)).toBeGreaterThan(110);
+    expect(haversineDistanceKm(sydney, newcastle)).toBeLessThan(125);
+  });
+});
+
+describe('Job matching', () => {
+  it('should require every required speciality', () => {
+    expect(matchJob(job({ id: 'j1', requiredSpecialities: ['plumbing'] }), plumber).eligible).toBe(true);
+    expect(matchJob(job({ id: 'j2', requiredSpecialities: ['electrical'] }), plumber)).toMatchObject({
+      eligible: false,
+      missingSpecialities: ['electrical'],
+    });
+  });
+
+  it('should exclude jobs outside the service radius', () => {
+    const near = matchJob(job({ id: 'j1', location: parramatta }), plumber);
+    const far = matchJob(job({ id: 'j2', location: newcastle }), plumber);
+
+    expect(near).toMatchObject({ eligible: true, withinRadius: true });
+    expect(far).toMatchObject({ eligible: false, withinRadius: false });
+  });
+
+  it('should not exclude jobs when the distance is unknown', () => {
+    const ungeocoded = matchJob(job({ id: 'j1', location: { latitude: null, longitude: null } }), plumber);
+    expect(ungeocoded).toMatchObject({ eligible: true, distanceKm: null });
+
+    const noBase = matchJob(job({ id: 'j2', location: newcastle }), { ...plumber, baseLatitude: null });
+    expect(noBase.eligible).toBe(true);
+  });
+
+  it('should count the category as a matched speciality', () => {
+    expect(matchJob(job({ id: 'j1', category: 'PLUMBING' }), plumber).matchedSpecialities).toEqual(['plumbing']);
+    expect(matchJob(job({ id: 'j2', category: 'ELECTRICAL' }), plumber).matchedSpecialities).toEqual([]);
+  });
+
+  it('should rank by matched specialities, then distance, then newest', () => {
+    const ranked = rankJobsForContractor([
+      job({ id: 'general-near', location: sydney }),
+      job({ id: 'plumbing-far', category: 'PLUMBING', location: parramatta }),
+      job({ id: 'plumbing-near', category: 'PLUMBING', location: sydney }),
+      job({ id: 'general-unknown-new', createdAt: new Date('2024-07-01') }),
+      job({ id: 'general-unknown-old' }),
+      job({ id: 'too-far', category: 'PLUMBING', location: newcastle }),
+      job({ id: 'wrong-trade', requiredSpecialities: ['electrical'] }),
+    ], plumber);
+
+    expect(ranked.map(j => j.id)).toEqual([
+      'plumbing-near',
+      'plumbing-far',
+      'general-near',
+      'general-unknown-new',
+      'general-unknown-old',
+    ]);
+    expect(ranked[1].match.distanceKm).toBeCloseTo(20, 0);
+  });
+
+  it('should find the contractors who match a job', () => {
+    const electrician = { ...plumber, userId: 'contractor-2', specialities: ['electrical'] };
+    const remotePlumber = { ...plumber, userId: 'contractor-3', baseLatitude: newcastle.latitude, baseLongitude: newcastle.longitude };
+
+    expect(findMatchingContractors(
+      job({ id: 'j1', category: 'PLUMBING', requiredSpecialities: ['plumbing'], location: sydney }),
+      [plumber, electrician, remotePlumber]
+    )).toEqual(['contractor-1']);
+  });
+});
+
+describe('notifyMatchingContractors', () => {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const createSupabase = (results: Record<string, any>) => ({
+    from: (table: string) => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const builder: any = {};
+      ['select', 'eq', 'not'].forEach(method => {
+        builder[method] = () => builder;
+      });
+      builder.maybeSingle = () => Promise.resolve(results[table]);
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      builder.then = (resolve: any) => resolve(results[table]);
+      return builder;
+    },
+  });
+
+  const profileRow = (userId: string, specialities: string[]) => ({
+    user_id: userId,
+    specialities,
+    service_radius_km: 50,
+    base_latitude: sydney.latitude,
+    base_longitude: sydney.longitude,
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should only notify contractors who match', async () => {
+    const { notifyNewJob } = await import('@/lib/services/notifications');
+    const supabase = createSupabase({
+      contractor_profiles: {
+        data: [profileRow('contractor-1', ['plumbing']), profileRow('contractor-2', ['electrical'])],
+        error: null,
+      },
+      locations: { data: { name: 'Head office', address: '1 George St, Sydney', ...parramatta }, error: null },
+    });
+
+    const notified = await notifyMatchingContractors(
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      supabase as any,
+      {
+        id: 'job-1',
+        title: 'Fix leak',
+        category: 'PLUMBING',
+        requiredSpecialities: ['plumbing'],
+        createdAt: new Date(),
+        locationId: 'loc-1',
+      }
+    );
+
+    expect(notified).toEqual(['contractor-1']);
+    expect(notifyNewJob).toHaveBeenCalledWith('job-1', 'Fix leak', '1 George St, Sydney', ['contractor-1']);
+  });
+
+  it('should not send anything when nobody matches', async () => {
+    const { notifyNewJob } = await import('@/lib/services/notifications');
+    const supabase = createSupabase({
+      contractor_profiles: { data: [profileRow('contractor-2', ['electrical'])], error: null },
+    });
+
+    await notifyMatchingContractors(
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      supabase as any,
+      { id: 'job-1', title: 'Fix leak', category: 'PLUMBING', requiredSpecialities: ['plumbing'], createdAt: new Date(), locationId: null }
+    );
+
+    expect(notifyNewJob).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,234 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import {
+  JOB_TRANSITIONS,
+  assertJobTransition,
+  canTransitionJob,
+  findJobTransition,
+  getAvailableJobTransitions,
+} from '../jobs/transitions';
+import { transitionJob } from '../services/jobs';
+import { ConflictError, PermissionError, ValidationError, NotFoundError } from '@/types/errors';
+
+vi.mock('@/lib/services/notifications', () => ({
+  notifyJobStatusChange: vi.fn().mockResolvedValue(true),
+}));
+
+const admin = { id: 'admin-1', type: 'ADMIN' as const };
+const owner = { id: 'owner-1', type: 'OWNER' as const };
+const otherOwner = { id: 'owner-2', type: 'OWNER' as const };
+const contractor = { id: 'contractor-1', type: 'CONTRACTOR' as const };
+const otherContractor = { id: 'contractor-2', type: 'CONTRACTOR' as const };
+const manager = { id: 'manager-1', type: 'MANAGER' as const, managedLocationIds: ['location-1'] };
+
+describe('Job transitions', () => {
+  describe('JOB_TRANSITIONS', () => {
+    it('should not contain duplicate status pairs', () => {
+      const pairs = JOB_TRANSITIONS.map(t => `${t.from}->${t.to}`);
+      expect(new Set(pairs).size).toBe(pairs.length);
+    });
+
+    it('should not allow jumping from DRAFT straight to PAID', () => {
+      expect(findJobTransition('DRAFT', 'PAID')).toBeUndefined();
+      const job = { status: 'DRAFT' as const, ownerId: owner.id, contractorId: null, locationId: null };
+      expect(canTransitionJob(job, 'PAID', admin)).toBe(false);
+    });
+
+    it('should match enforce_job_status_transition in supabase/triggers.sql', () => {
+      const sql = readFileSync(join(process.cwd(), 'supabase/triggers.sql'), 'utf8');
+      const body = sql.slice(
+        sql.indexOf('function enforce_job_status_transition()'),
+        sql.indexOf('as t(from_status, to_status, roles)')
+      );
+      const rows = [...body.matchAll(/\('(\w+)'::job_status,\s*'(\w+)'::job_status,\s*array\[([^\]]*)\]/g)]
+        .map(([, from, to, roles]) => `${from}->${to}:${roles.replace(/[\s']/g, '').split(',').sort().join(',')}`)
+        .sort();
+      const transitions = JOB_TRANSITIONS
+        .map(t => `${t.from}->${t.to}:${[...t.roles].sort().join(',')}`)
+        .sort();
+
+      expect(rows).toEqual(transitions);
+    });
+  });
+
+  describe('canTransitionJob', () => {
+    it('should allow owners to submit their own drafts for review', () => {
+      const job = { status: 'DRAFT' as const, ownerId: owner.id, contractorId: null, locationId: null };
+      expect(canTransitionJob(job, 'PENDING_REVIEW', owner)).toBe(true);
+      expect(canTransitionJob(job, 'PENDING_REVIEW', otherOwner)).toBe(false);
+    });
+
+    it('should only allow admins to publish', () => {
+      const job = { status: 'PENDING_REVIEW' as const, ownerId: owner.id, contractorId: null, locationId: null };
+      expect(canTransitionJob(job, 'AVAILABLE', admin)).toBe(true);
+      expect(canTransitionJob(job, 'AVAILABLE', owner)).toBe(false);
+    });
+
+    it('should allow any contractor to claim an available job', () => {
+      const job = { status: 'AVAILABLE' as const, ownerId: owner.id, contractorId: null, locationId: null };
+      expect(canTransitionJob(job, 'CLAIMED', contractor)).toBe(true);
+      expect(canTransitionJob(job, 'CLAIMED', owner)).toBe(false);
+    });
+
+    it('should restrict managers to jobs at the locations they manage', () => {
+      const job = { status: 'DRAFT' as const, ownerId: owner.id, contractorId: null, locationId: 'location-1' };
+      expect(canTransitionJob(job, 'PENDING_REVIEW', manager)).toBe(true);
+      expect(canTransitionJob({ ...job, locationId: 'location-2' }, 'PENDING_REVIEW', manager)).toBe(false);
+      expect(canTransitionJob({ ...job, locationId: null }, 'PENDING_REVIEW', manager)).toBe(false);
+      expect(canTransitionJob({ ...job, locationId: null, ownerId: manager.id }, 'PENDING_REVIEW', manager)).toBe(true);
+    });
+
+    it('should restrict contractors to jobs assigned to them', () => {
+      const job = { status: 'IN_PROGRESS' as const, ownerId: owner.id, contractorId: contractor.id, locationId: null };
+      expect(canTransitionJob(job, 'COMPLETED', contractor)).toBe(true);
+      expect(canTransitionJob(job, 'COMPLETED', otherContractor)).toBe(false);
+    });
+  });
+
+  describe('getAvailableJobTransitions', () => {
+    it('should list only the actions the actor may take', () => {
+      const job = { status: 'COMPLETED' as const, ownerId: owner.id, contractorId: contractor.id, locationId: null };
+
+      expect(getAvailableJobTransitions(job, admin).map(t => t.to)).toEqual(['IN_PROGRESS', 'PAID']);
+      expect(getAvailableJobTransitions(job, owner).map(t => t.to)).toEqual(['IN_PROGRESS']);
+      expect(getAvailableJobTransitions(job, contractor)).toEqual([]);
+    });
+  });
+
+  describe('assertJobTransition', () => {
+    it('should throw a ValidationError for unknown transitions', () => {
+      const job = { status: 'DRAFT' as const, ownerId: owner.id, contractorId: null, locationId: null };
+      expect(() => assertJobTransition(job, 'PAID', admin)).toThrow(ValidationError);
+    });
+
+    it('should throw a PermissionError when the role is not allowed', () => {
+      const job = { status: 'COMPLETED' as const, ownerId: owner.id, contractorId: contractor.id, locationId: null };
+      expect(() => assertJobTransition(job, 'PAID', owner)).toThrow(PermissionError);
+    });
+  });
+});
+
+describe('transitionJob', () => {
+  const jobRow = {
+    id: 'job-1',
+    title: 'Fix leak',
+    description: 'Kitchen sink',
+    status: 'IN_PROGRESS',
+    owner_id: owner.id,
+    contractor_id: contractor.id,
+    location_id: null,
+    completion_notes: null,
+  };
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  let calls: { table: string; method: string; args: any[] }[];
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const createSupabase = (results: Record<string, any[]>) => ({
+    from: (table: string) => {
+      const queue = results[table] ?? [];
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const builder: any = {};
+      ['select', 'update', 'insert', 'eq', 'is', 'in'].forEach(method => {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        builder[method] = (...args: any[]) => {
+          calls.push({ table, method, args });
+          return builder;
+        };
+      });
+      builder.maybeSingle = () => Promise.resolve(queue.shift());
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      builder.then = (resolve: any) => resolve(queue.shift() ?? { error: null });
+      return builder;
+    },
+  });
+
+  beforeEach(() => {
+    calls = [];
+    vi.clearAllMocks();
+  });
+
+  it('should update the job and notify', async () => {
+    const { notifyJobStatusChange } = await import('@/lib/services/notifications');
+    const supabase = createSupabase({
+      visible_jobs: [{ data: jobRow, error: null }],
+      jobs: [{ data: { ...jobRow, status: 'COMPLETED' }, error: null }],
+    });
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const job = await transitionJob(supabase as any, {
+      jobId: 'job-1',
+      toStatus: 'COMPLETED',
+      actor: contractor,
+    });
+
+    expect(job.status).toBe('COMPLETED');
+    expect(calls).toContainEqual({ table: 'jobs', method: 'eq', args: ['status', 'IN_PROGRESS'] });
+    expect(calls.find(c => c.table === 'jobs' && c.method === 'update')?.args[0]).toMatchObject({
+      status: 'COMPLETED',
+      changed_by: contractor.id,
+    });
+    expect(notifyJobStatusChange).toHaveBeenCalledWith('job-1', 'Fix leak', 'COMPLETED', [
+      { id: owner.id, role: 'OWNER' },
+      { id: contractor.id, role: 'CONTRACTOR' },
+    ], null);
+  });
+
+  it('should reject illegal transitions without writing', async () => {
+    const supabase = createSupabase({ visible_jobs: [{ data: jobRow, error: null }] });
+
+    await expect(
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      transitionJob(supabase as any, { jobId: 'job-1', toStatus: 'PAID', actor: admin })
+    ).rejects.toThrow(ValidationError);
+    expect(calls.some(c => c.method === 'update' || c.method === 'insert')).toBe(false);
+  });
+
+  it('should throw NotFoundError when the job does not exist', async () => {
+    const supabase = createSupabase({ visible_jobs: [{ data: null, error: null }] });
+
+    await expect(
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      transitionJob(supabase as any, { jobId: 'missing', toStatus: 'COMPLETED', actor: admin })
+    ).rejects.toThrow(NotFoundError);
+  });
+
+  it("should load a manager's locations before checking the transition", async () => {
+    const draft = { ...jobRow, status: 'DRAFT', contractor_id: null, location_id: 'location-1' };
+    const unloadedManager = { id: manager.id, type: manager.type };
+
+    const allowed = createSupabase({
+      visible_jobs: [{ data: draft, error: null }],
+      location_managers: [{ data: [{ location_id: 'location-1' }], error: null }],
+      jobs: [{ data: { ...draft, status: 'PENDING_REVIEW' }, error: null }],
+    });
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const job = await transitionJob(allowed as any, { jobId: 'job-1', toStatus: 'PENDING_REVIEW', actor: unloadedManager });
+    expect(job.status).toBe('PENDING_REVIEW');
+    expect(calls).toContainEqual({ table: 'location_managers', method: 'eq', args: ['manager_id', manager.id] });
+
+    calls = [];
+    const denied = createSupabase({
+      visible_jobs: [{ data: draft, error: null }],
+      location_managers: [{ data: [{ location_id: 'location-2' }], error: null }],
+    });
+    await expect(
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      transitionJob(denied as any, { jobId: 'job-1', toStatus: 'PENDING_REVIEW', actor: unloadedManager })
+    ).rejects.toThrow(PermissionError);
+    expect(calls.some(c => c.method === 'update')).toBe(false);
+  });
+
+  it('should fail when the status changed concurrently', async () => {
+    const supabase = createSupabase({
+      visible_jobs: [{ data: jobRow, error: null }],
+      jobs: [{ data: null, error: null }],
+    });
+
+    await expect(
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      transitionJob(supabase as any, { jobId: 'job-1', toStatus: 'COMPLETED', actor: contractor })
+    ).rejects.toThrow(ConflictError);
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { getTableColumns } from 'drizzle-orm';
+import {
+  JOB_TABLE_SELECT,
+  assertJobFieldsWritable,
+  canViewJobField,
+  getJobSelect,
+  projectJob,
+} from '../jobs/visibility';
+import { jobs } from '../db/schema';
+import { PermissionError } from '@/types/errors';
+
+const job = {
+  id: 'job-1',
+  title: 'Fix leak',
+  listingPrice: '500',
+  contractorPrice: '350',
+  notes: 'Owner is difficult',
+};
+
+describe('Job field visibility', () => {
+  it('should restrict pricing and notes by role', () => {
+    expect(canViewJobField('ADMIN', 'notes')).toBe(true);
+    expect(canViewJobField('OWNER', 'listingPrice')).toBe(true);
+    expect(canViewJobField('OWNER', 'contractorPrice')).toBe(false);
+    expect(canViewJobField('CONTRACTOR', 'contractorPrice')).toBe(true);
+    expect(canViewJobField('CONTRACTOR', 'listingPrice')).toBe(false);
+    expect(canViewJobField(null, 'title')).toBe(true);
+  });
+
+  describe('getJobSelect', () => {
+    it('should select only permitted snake_case columns for contractors', () => {
+      const columns = getJobSelect('CONTRACTOR').split(', ');
+
+      expect(columns).toContain('contractor_price');
+      expect(columns).toContain('owner_id');
+      expect(columns).not.toContain('listing_price');
+      expect(columns).not.toContain('notes');
+      expect(columns).not.toContain('*');
+    });
+
+    it('should select every column for admins', () => {
+      const columns = getJobSelect('ADMIN').split(', ');
+
+      expect(columns).toEqual(expect.arrayContaining(['listing_price', 'contractor_price', 'notes']));
+    });
+
+    it('should select no restricted columns without a role', () => {
+      const columns = getJobSelect(null).split(', ');
+
+      expect(columns).not.toEqual(expect.arrayContaining(['listing_price']));
+      expect(columns).not.toContain('contractor_price');
+      expect(columns).not.toContain('notes');
+    });
+  });
+
+  describe('projectJob', () => {
+    it('should strip restricted fields for contractors', () => {
+      const projected = projectJob(job, 'CONTRACTOR');
+
+      expect(projected).not.toHaveProperty('listingPrice');
+      expect(projected).not.toHaveProperty('notes');
+      expect(projected).toHaveProperty('contractorPrice', '350');
+    });
+
+    it('should strip contractor pricing and notes for managers', () => {
+      expect(projectJob(job, 'MANAGER')).toEqual({ id: 'job-1', title: 'Fix leak', listingPrice: '500' });
+    });
+
+    it('should not mutate the original object', () => {
+      projectJob(job, 'CONTRACTOR');
+      expect(job).toHaveProperty('notes');
+    });
+  });
+
+  describe('assertJobFieldsWritable', () => {
+    it('should reject writes to fields the role cannot read', () => {
+      expect(() => assertJobFieldsWritable({ notes: 'x' }, 'OWNER')).toThrow(PermissionError);
+      expect(() => assertJobFieldsWritable({ listingPrice: '100' }, 'OWNER')).not.toThrow();
+    });
+  });
+
+  describe('database column grants', () => {
+    const policies = readFileSync(join(process.cwd(), 'supabase/rls-policies.sql'), 'utf8');
+    const grant = policies.match(/grant select \(([^)]*)\) on jobs to authenticated;/);
+    const granted = grant![1].split(',').map(column => column.trim());
+    const restricted = ['listing_price', 'contractor_price', 'notes'];
+
+    it('should grant every jobs column except the restricted ones', () => {
+      const columns = Object.values(getTableColumns(jobs)).map(column => column.name);
+
+      expect([...granted].sort()).toEqual(columns.filter(column => !restricted.includes(column)).sort());
+    });
+
+    it('should leave restricted columns out of realtime payloads', () => {
+      // Realtime only sends subscribers the columns they may select
+      const row = Object.fromEntries(Object.values(getTableColumns(jobs)).map(column => [column.name, 'value']));
+      const payload = Object.fromEntries(Object.entries(row).filter(([column]) => granted.includes(column)));
+
+      expect(payload).toHaveProperty('title');
+      restricted.forEach(column => expect(payload).not.toHaveProperty(column));
+    });
+
+    it('should only return granted columns from writes', () => {
+      expect(JOB_TABLE_SELECT.split(', ')).toEqual(expect.arrayContaining(granted));
+      expect(JOB_TABLE_SELECT.split(', ')).toHaveLength(granted.length);
+    });
+  });
+});
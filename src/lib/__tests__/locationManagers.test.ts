@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { setLocationManagers } from '../services/locationManagers';
+import { setLocationManagersSchema } from '../locations/schemas';
+import { NotFoundError, PermissionError, ValidationError } from '@/types/errors';
+
+const admin = { id: 'admin-1', email: 'admin@example.com', type: 'ADMIN' as const };
+const owner = { id: 'owner-1', email: 'owner@example.com', type: 'OWNER' as const };
+const otherOwner = { id: 'owner-2', email: 'other@example.com', type: 'OWNER' as const };
+
+const MANAGER_1 = '11111111-1111-4111-8111-111111111111';
+const MANAGER_2 = '22222222-2222-4222-8222-222222222222';
+
+const locationRow = { id: 'loc-1', organisation_id: 'org-1', organisation: { owner_id: owner.id } };
+
+describe('Location managers service', () => {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  let calls: { table: string; method: string; args: any[] }[];
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const createSupabase = (results: Record<string, any[]>) => ({
+    from: (table: string) => {
+      const queue = results[table] ?? [];
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const builder: any = {};
+      ['select', 'delete', 'upsert', 'eq', 'in', 'not'].forEach(method => {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        builder[method] = (...args: any[]) => {
+          calls.push({ table, method, args });
+          return builder;
+        };
+      });
+      builder.maybeSingle = () => Promise.resolve(queue.shift() ?? { data: null, error: null });
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      builder.then = (resolve: any) => resolve(queue.shift() ?? { data: null, error: null });
+      return builder;
+    },
+  });
+
+  beforeEach(() => {
+    calls = [];
+  });
+
+  it('should replace the assignments with the given managers', async () => {
+    const supabase = createSupabase({
+      locations: [{ data: locationRow, error: null }],
+      user_organisations: [{ data: [{ user_id: MANAGER_1 }, { user_id: MANAGER_2 }], error: null }],
+      location_managers: [
+        { error: null },
+        { error: null },
+        { data: [{ location_id: 'loc-1', manager_id: MANAGER_1, assigned_by: owner.id }], error: null },
+      ],
+    });
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const assignments = await setLocationManagers(supabase as any, {
+      locationId: 'loc-1',
+      managerIds: [MANAGER_1, MANAGER_2],
+      actor: owner,
+    });
+
+    expect(calls).toContainEqual({ table: 'user_organisations', method: 'eq', args: ['user.type', 'MANAGER'] });
+    expect(calls).toContainEqual({
+      table: 'location_managers',
+      method: 'not',
+      args: ['manager_id', 'in', `(${MANAGER_1},${MANAGER_2})`],
+    });
+    expect(calls.find(c => c.method === 'upsert')?.args[0]).toEqual([
+      { location_id: 'loc-1', manager_id: MANAGER_1, assigned_by: owner.id },
+      { location_id: 'loc-1', manager_id: MANAGER_2, assigned_by: owner.id },
+    ]);
+    expect(assignments[0]).toMatchObject({ locationId: 'loc-1', managerId: MANAGER_1 });
+  });
+
+  it('should remove every assignment when no managers are given', async () => {
+    const supabase = createSupabase({
+      locations: [{ data: locationRow, error: null }],
+      location_managers: [{ error: null }, { data: [], error: null }],
+    });
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    await setLocationManagers(supabase as any, { locationId: 'loc-1', managerIds: [], actor: admin });
+
+    expect(calls.some(c => c.method === 'delete')).toBe(true);
+    expect(calls.some(c => c.method === 'not' || c.method === 'upsert')).toBe(false);
+  });
+
+  it("should not let owners assign managers in other owners' organisations", async () => {
+    const supabase = createSupabase({ locations: [{ data: locationRow, error: null }] });
+
+    await expect(
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      setLocationManagers(supabase as any, { locationId: 'loc-1', managerIds: [MANAGER_1], actor: otherOwner })
+    ).rejects.toThrow(PermissionError);
+    expect(calls.some(c => c.method === 'delete' || c.method === 'upsert')).toBe(false);
+  });
+
+  it("should reject users who aren't managers in the organisation", async () => {
+    const supabase = createSupabase({
+      locations: [{ data: locationRow, error: null }],
+      user_organisations: [{ data: [{ user_id: MANAGER_1 }], error: null }],
+    });
+
+    await expect(
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      setLocationManagers(supabase as any, { locationId: 'loc-1', managerIds: [MANAGER_1, MANAGER_2], actor: owner })
+    ).rejects.toThrow(ValidationError);
+    expect(calls.some(c => c.method === 'delete' || c.method === 'upsert')).toBe(false);
+  });
+
+  it('should reject unknown locations', async () => {
+    const supabase = createSupabase({ locations: [{ data: null, error: null }] });
+
+    await expect(
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      setLocationManagers(supabase as any, { locationId: 'nope', managerIds: [], actor: admin })
+    ).rejects.toThrow(NotFoundError);
+  });
+
+  it('should drop duplicate manager IDs from requests', () => {
+    expect(setLocationManagersSchema.parse({ managerIds: [MANAGER_1, MANAGER_1] })).toEqual({ managerIds: [MANAGER_1] });
+    expect(() => setLocationManagersSchema.parse({ managerIds: ['not-a-uuid'] })).toThrow();
+  });
+});
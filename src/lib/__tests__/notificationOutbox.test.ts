@@ -0,0 +1,207 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  MAX_DELIVERY_ATTEMPTS,
+  RETRY_MAX_DELAY_MS,
+  getRetryDelay,
+  getRetryState,
+} from '../notifications/outbox';
+import { attemptDelivery, processNotificationOutbox, queueDelivery, replayDelivery } from '../services/notificationOutbox';
+import { NotFoundError } from '@/types/errors';
+
+const send = vi.fn();
+
+vi.mock('@/lib/email/transport', () => ({
+  getEmailTransport: () => ({ name: 'memory', send }),
+}));
+
+const now = new Date('2026-01-01T09:00:00Z');
+
+describe('Notification outbox retries', () => {
+  it('should back off exponentially up to the maximum delay', () => {
+    expect(getRetryDelay(1)).toBe(60_000);
+    expect(getRetryDelay(2)).toBe(120_000);
+    expect(getRetryDelay(4)).toBe(480_000);
+    expect(getRetryDelay(20)).toBe(RETRY_MAX_DELAY_MS);
+  });
+
+  it('should schedule the next attempt until attempts run out', () => {
+    expect(getRetryState(1, now)).toEqual({ status: 'pending', nextAttemptAt: new Date('2026-01-01T09:01:00Z') });
+    expect(getRetryState(MAX_DELIVERY_ATTEMPTS - 1, now).status).toBe('pending');
+    expect(getRetryState(MAX_DELIVERY_ATTEMPTS, now)).toEqual({ status: 'dead' });
+  });
+});
+
+describe('Notification outbox service', () => {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  let calls: { table: string; method: string; args: any[] }[];
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const createSupabase = (results: Record<string, any[]>) => ({
+    from: (table: string) => {
+      const queue = results[table] ?? [];
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const builder: any = {};
+      ['select', 'insert', 'update', 'eq', 'neq', 'lte', 'order', 'limit'].forEach(method => {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        builder[method] = (...args: any[]) => {
+          calls.push({ table, method, args });
+          return builder;
+        };
+      });
+      const next = () => Promise.resolve(queue.shift() ?? { data: null, error: null });
+      builder.single = next;
+      builder.maybeSingle = next;
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      builder.then = (resolve: any) => next().then(resolve);
+      return builder;
+    },
+  });
+
+  const emailRow = (overrides: Record<string, unknown> = {}) => ({
+    id: 'outbox-1',
+    kind: 'email',
+    status: 'pending',
+    user_id: null,
+    recipient: 'user@example.com',
+    payload: { to: 'user@example.com', subject: 'Hello', html: '<p>Hi</p>', text: 'Hi' },
+    attempts: 1,
+    last_error: 'Connection refused',
+    next_attempt_at: '2026-01-01T08:59:00Z',
+    ...overrides,
+  });
+
+  const updates = () => calls.filter(c => c.table === 'notification_outbox' && c.method === 'update').map(c => c.args[0]);
+
+  beforeEach(() => {
+    calls = [];
+    send.mockReset();
+  });
+
+  it('should record a delivery, claimed, before it is attempted', async () => {
+    const supabase = createSupabase({ notification_outbox: [{ data: emailRow({ attempts: 0, last_error: null }), error: null }] });
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const entry = await queueDelivery(supabase as any, { kind: 'email', payload: emailRow().payload }, now);
+
+    const insert = calls.find(c => c.method === 'insert')!.args[0];
+    expect(insert).toMatchObject({
+      kind: 'email',
+      status: 'pending',
+      recipient: 'user@example.com',
+      attempts: 0,
+      next_attempt_at: '2026-01-01T09:05:00.000Z',
+    });
+    expect(entry.id).toBe('outbox-1');
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it('should mark a recorded delivery sent once it is delivered', async () => {
+    const supabase = createSupabase({
+      notification_outbox: [{ data: emailRow({ status: 'sent', attempts: 1, last_error: null }), error: null }],
+    });
+
+    const entry = await attemptDelivery(
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      supabase as any,
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      { ...emailRow({ attempts: 0, last_error: null }), lastError: null } as any,
+      now
+    );
+
+    expect(send).toHaveBeenCalledWith(emailRow().payload);
+    expect(updates()[0]).toMatchObject({ status: 'sent', attempts: 1, last_error: null });
+    expect(entry.status).toBe('sent');
+  });
+
+  it('should schedule a retry when the first attempt fails', async () => {
+    send.mockRejectedValue(new Error('Connection refused'));
+    const supabase = createSupabase({ notification_outbox: [{ data: emailRow(), error: null }] });
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    await attemptDelivery(supabase as any, { ...emailRow({ attempts: 0 }) } as any, now);
+
+    expect(updates()[0]).toMatchObject({
+      status: 'pending',
+      attempts: 1,
+      last_error: 'Connection refused',
+      next_attempt_at: '2026-01-01T09:01:00.000Z',
+    });
+  });
+
+  it('should deliver due entries and mark them sent', async () => {
+    const supabase = createSupabase({
+      notification_outbox: [
+        { data: [emailRow()], error: null },
+        { data: emailRow(), error: null },
+        { data: emailRow({ status: 'sent', attempts: 2 }), error: null },
+      ],
+    });
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const result = await processNotificationOutbox(supabase as any, now);
+
+    expect(result).toEqual({ sent: ['outbox-1'], retrying: [], dead: [] });
+    expect(send).toHaveBeenCalledWith(emailRow().payload);
+    expect(updates()[1]).toMatchObject({ status: 'sent', attempts: 2, last_error: null });
+  });
+
+  it('should dead-letter a delivery on its last failed attempt', async () => {
+    send.mockRejectedValue(new Error('Mailbox unavailable'));
+    const due = emailRow({ attempts: MAX_DELIVERY_ATTEMPTS - 1 });
+    const supabase = createSupabase({
+      notification_outbox: [
+        { data: [due], error: null },
+        { data: due, error: null },
+        { data: emailRow({ status: 'dead', attempts: MAX_DELIVERY_ATTEMPTS }), error: null },
+      ],
+    });
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const result = await processNotificationOutbox(supabase as any, now);
+
+    expect(result.dead).toEqual(['outbox-1']);
+    expect(updates()[1]).toEqual(expect.objectContaining({
+      status: 'dead',
+      attempts: MAX_DELIVERY_ATTEMPTS,
+      last_error: 'Mailbox unavailable',
+    }));
+  });
+
+  it('should skip entries another worker has claimed', async () => {
+    const supabase = createSupabase({
+      notification_outbox: [
+        { data: [emailRow()], error: null },
+        { data: null, error: null },
+      ],
+    });
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const result = await processNotificationOutbox(supabase as any, now);
+
+    expect(result).toEqual({ sent: [], retrying: [], dead: [] });
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it('should replay a dead delivery with a fresh set of attempts', async () => {
+    const supabase = createSupabase({
+      notification_outbox: [
+        { data: emailRow({ status: 'pending', attempts: 0 }), error: null },
+        { data: emailRow({ status: 'sent', attempts: 1 }), error: null },
+      ],
+    });
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const entry = await replayDelivery(supabase as any, 'outbox-1', now);
+
+    expect(entry.status).toBe('sent');
+    expect(updates()[0]).toMatchObject({ status: 'pending', attempts: 0 });
+    expect(calls).toContainEqual({ table: 'notification_outbox', method: 'neq', args: ['status', 'sent'] });
+  });
+
+  it('should not replay a delivery that has been sent', async () => {
+    const supabase = createSupabase({ notification_outbox: [{ data: null, error: null }] });
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    await expect(replayDelivery(supabase as any, 'outbox-1', now)).rejects.toBeInstanceOf(NotFoundError);
+  });
+});
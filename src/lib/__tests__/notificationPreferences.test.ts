@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  DEFAULT_NOTIFICATION_DELIVERY,
+  getDeliveryPlan,
+  groupDigestNotifications,
+  resolveNotificationPreferences,
+  type DigestNotification,
+} from '../notifications/preferences';
+import { notificationDigestEmail } from '../email/templates';
+import { sendNotificationDigests } from '../services/notificationDigests';
+
+vi.mock('@/lib/services/notifications', () => ({
+  sendEmailNotification: vi.fn().mockResolvedValue(true),
+}));
+
+const notification = (overrides: Partial<DigestNotification>): DigestNotification => ({
+  id: 'notification-1',
+  userId: 'user-1',
+  title: 'Job assigned',
+  message: 'You have a new job',
+  link: '/dashboard/jobs/job-1',
+  read: false,
+  createdAt: new Date('2026-01-01T09:00:00Z'),
+  ...overrides,
+});
+
+describe('Notification preferences', () => {
+  it('should fill in the default for types without a preference', () => {
+    const preferences = resolveNotificationPreferences([{ type: 'new_job', delivery: 'digest' }]);
+
+    expect(preferences.new_job).toBe('digest');
+    expect(preferences.job_status).toBe(DEFAULT_NOTIFICATION_DELIVERY);
+    expect(Object.keys(preferences)).toHaveLength(7);
+  });
+
+  it('should plan delivery for each preference', () => {
+    expect(getDeliveryPlan('in_app')).toEqual({ inApp: true, email: false, digest: false });
+    expect(getDeliveryPlan('email')).toEqual({ inApp: true, email: true, digest: false });
+    expect(getDeliveryPlan('digest')).toEqual({ inApp: true, email: false, digest: true });
+    expect(getDeliveryPlan('off')).toEqual({ inApp: false, email: false, digest: false });
+  });
+
+  it('should group digest notifications by user, oldest first', () => {
+    const groups = groupDigestNotifications([
+      notification({ id: 'n-2', createdAt: new Date('2026-01-01T10:00:00Z') }),
+      notification({ id: 'n-1' }),
+      notification({ id: 'n-3', read: true }),
+      notification({ id: 'n-4', userId: 'user-2' }),
+    ]);
+
+    expect(groups.get('user-1')?.unread.map(n => n.id)).toEqual(['n-1', 'n-2']);
+    expect(groups.get('user-1')?.read.map(n => n.id)).toEqual(['n-3']);
+    expect(groups.get('user-2')?.unread.map(n => n.id)).toEqual(['n-4']);
+  });
+
+  it('should build a digest email listing every notification', () => {
+    const email = notificationDigestEmail(
+      [
+        { title: 'Job assigned', message: 'You have a new job', url: 'https://app.test/dashboard/jobs/job-1', createdAt: new Date() },
+        { title: 'Insurance', message: 'Expires soon', createdAt: new Date() },
+      ],
+      'https://app.test/dashboard/notifications'
+    );
+
+    expect(email.subject).toBe('Your daily summary: 2 new notifications');
+    expect(email.html).toContain('<a href="https://app.test/dashboard/jobs/job-1">Job assigned</a>');
+    expect(email.html).toContain('Expires soon');
+    expect(email.text).toContain('View all notifications at: https://app.test/dashboard/notifications');
+  });
+});
+
+describe('Notification digests service', () => {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  let calls: { table: string; method: string; args: any[] }[];
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const createSupabase = (results: Record<string, any[]>) => ({
+    from: (table: string) => {
+      const queue = results[table] ?? [];
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const builder: any = {};
+      ['select', 'update', 'eq', 'lte', 'in', 'order'].forEach(method => {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        builder[method] = (...args: any[]) => {
+          calls.push({ table, method, args });
+          return builder;
+        };
+      });
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      builder.then = (resolve: any) => resolve(queue.shift() ?? { data: null, error: null });
+      return builder;
+    },
+  });
+
+  const row = (id: string, userId: string, read = false) => ({
+    id,
+    user_id: userId,
+    title: `Notification ${id}`,
+    message: 'Something happened',
+    link: '/dashboard/jobs/job-1',
+    read,
+    created_at: '2026-01-01T09:00:00Z',
+    user: { email: `${userId}@example.com` },
+  });
+
+  beforeEach(() => {
+    calls = [];
+    vi.clearAllMocks();
+  });
+
+  it('should email each user one summary and clear their pending notifications', async () => {
+    const { sendEmailNotification } = await import('@/lib/services/notifications');
+    const supabase = createSupabase({
+      notifications: [
+        { data: [row('n-1', 'user-1'), row('n-2', 'user-1', true), row('n-3', 'user-2', true)], error: null },
+        { error: null },
+        { error: null },
+      ],
+    });
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const result = await sendNotificationDigests(supabase as any);
+
+    expect(result).toEqual({ sent: [{ userId: 'user-1', count: 1 }], cleared: ['user-2'], failed: [] });
+    expect(sendEmailNotification).toHaveBeenCalledTimes(1);
+    expect(sendEmailNotification).toHaveBeenCalledWith('user-1@example.com', expect.objectContaining({
+      subject: 'Your daily summary: 1 new notification',
+    }));
+    expect(calls.filter(c => c.method === 'in').map(c => c.args)).toEqual([
+      ['id', ['n-1', 'n-2']],
+      ['id', ['n-3']],
+    ]);
+  });
+
+  it('should keep notifications pending when the email fails', async () => {
+    const { sendEmailNotification } = await import('@/lib/services/notifications');
+    vi.mocked(sendEmailNotification).mockResolvedValueOnce(false);
+    const supabase = createSupabase({
+      notifications: [{ data: [row('n-1', 'user-1')], error: null }],
+    });
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const result = await sendNotificationDigests(supabase as any);
+
+    expect(result.failed).toEqual(['user-1']);
+    expect(calls.some(c => c.method === 'update')).toBe(false);
+  });
+});
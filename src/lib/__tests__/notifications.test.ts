@@ -0,0 +1,101 @@
+import { describe, it, expect, vi } from 'vitest';
+import { existsSync, readdirSync } from 'fs';
+import { join } from 'path';
+import { getNotificationHref, isNotificationType } from '../notifications/types';
+import { notifyJobAssignment } from '../services/notifications';
+
+const writes: { table: string; method: string; row: Record<string, unknown> }[] = [];
+
+vi.mock('@supabase/supabase-js', () => ({
+  createClient: () => ({
+    from: (table: string) => {
+      let row: Record<string, unknown> | null = null;
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const builder: any = {
+        select: () => builder,
+        eq: () => builder,
+        maybeSingle: async () => ({ data: null, error: null }),
+        single: async () => ({ data: { id: `${table}-1`, attempts: 0, ...row }, error: null }),
+        then: (resolve: (result: unknown) => void) => resolve({ data: null, error: null }),
+      };
+      ['insert', 'update'].forEach(method => {
+        builder[method] = (values: Record<string, unknown>) => {
+          row = values;
+          writes.push({ table, method, row: values });
+          return builder;
+        };
+      });
+      return builder;
+    },
+  }),
+}));
+
+/**
+ * Whether an app path is served by a page under src/app, matching dynamic
+ * segments like [id]
+ */
+function resolvesToPage(path: string): boolean {
+  let dir = join(process.cwd(), 'src/app');
+  for (const segment of path.split('?')[0].split('/').filter(Boolean)) {
+    if (existsSync(join(dir, segment))) {
+      dir = join(dir, segment);
+      continue;
+    }
+    const dynamic = readdirSync(dir).find(entry => /^\[[^.\]]+\]$/.test(entry));
+    if (!dynamic) return false;
+    dir = join(dir, dynamic);
+  }
+  return existsSync(join(dir, 'page.tsx'));
+}
+
+describe('Notifications', () => {
+  it('should recognise notification types', () => {
+    expect(isNotificationType('new_job')).toBe(true);
+    expect(isNotificationType('insurance')).toBe(true);
+    expect(isNotificationType('unknown')).toBe(false);
+    expect(isNotificationType(null)).toBe(false);
+  });
+
+  describe('getNotificationHref', () => {
+    it('should follow links inside the app', () => {
+      expect(getNotificationHref('/dashboard/jobs/job-1')).toBe('/dashboard/jobs/job-1');
+      expect(getNotificationHref('/dashboard/jobs/job-1?tab=files')).toBe('/dashboard/jobs/job-1?tab=files');
+    });
+
+    it('should ignore missing links', () => {
+      expect(getNotificationHref(null)).toBeNull();
+      expect(getNotificationHref(undefined)).toBeNull();
+      expect(getNotificationHref('')).toBeNull();
+    });
+
+    it('should not follow links outside the app', () => {
+      expect(getNotificationHref('https://example.com')).toBeNull();
+      expect(getNotificationHref('//example.com/dashboard')).toBeNull();
+      expect(getNotificationHref('/\\example.com')).toBeNull();
+      expect(getNotificationHref('javascript:alert(1)')).toBeNull();
+    });
+  });
+
+  it('should record a notification in the outbox before delivering it', async () => {
+    writes.length = 0;
+    await notifyJobAssignment('job-1', 'Fix leak', 'contractor-1');
+
+    expect(writes.map(({ table, method }) => `${method} ${table}`)).toEqual([
+      'insert notification_outbox',
+      'insert notifications',
+      'update notification_outbox',
+    ]);
+    expect(writes[2].row).toMatchObject({ status: 'sent', attempts: 1 });
+  });
+
+  it('should store job links that open the job page', async () => {
+    writes.length = 0;
+    await notifyJobAssignment('job-1', 'Fix leak', 'contractor-1');
+
+    const notification = writes.find(write => write.table === 'notifications');
+    const href = getNotificationHref(notification?.row.link as string);
+    expect(href).toBe('/dashboard/jobs/job-1');
+    expect(resolvesToPage(href!)).toBe(true);
+    expect(resolvesToPage('/jobs/job-1')).toBe(false);
+  });
+});
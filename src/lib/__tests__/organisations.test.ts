@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import {
+  canViewAllOrganisations,
+  getOrganisationColumn,
+  resolveActiveOrganisationId,
+} from '../organisations/scope';
+
+const organisations = [{ id: 'org-1' }, { id: 'org-2' }];
+
+describe('Organisation scope', () => {
+  it('should scope jobs and locations by organisation', () => {
+    expect(getOrganisationColumn('jobs')).toBe('organisation_id');
+    expect(getOrganisationColumn('locations')).toBe('organisation_id');
+    expect(getOrganisationColumn('users')).toBeNull();
+  });
+
+  it('should only let admins view every organisation', () => {
+    expect(canViewAllOrganisations('ADMIN')).toBe(true);
+    expect(canViewAllOrganisations('OWNER')).toBe(false);
+    expect(canViewAllOrganisations(null)).toBe(false);
+  });
+
+  describe('resolveActiveOrganisationId', () => {
+    it('should keep the preferred organisation while it is visible', () => {
+      expect(resolveActiveOrganisationId(organisations, 'org-2', 'MANAGER')).toBe('org-2');
+    });
+
+    it('should fall back to the first organisation for owners and managers', () => {
+      expect(resolveActiveOrganisationId(organisations, 'org-9', 'MANAGER')).toBe('org-1');
+      expect(resolveActiveOrganisationId(organisations, null, 'OWNER')).toBe('org-1');
+      expect(resolveActiveOrganisationId([], null, 'OWNER')).toBeNull();
+    });
+
+    it('should fall back to every organisation for admins', () => {
+      expect(resolveActiveOrganisationId(organisations, null, 'ADMIN')).toBeNull();
+      expect(resolveActiveOrganisationId(organisations, 'org-1', 'ADMIN')).toBe('org-1');
+    });
+
+    it('should never scope contractors', () => {
+      expect(resolveActiveOrganisationId(organisations, 'org-1', 'CONTRACTOR')).toBeNull();
+      expect(resolveActiveOrganisationId(organisations, 'org-1', null)).toBeNull();
+    });
+  });
+});
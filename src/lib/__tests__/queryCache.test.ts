@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { addCachedItem, findCachedItem, removeCachedItem, updateCachedItem } from '../queryCache';
+
+const list = [{ id: 'a', title: 'First' }, { id: 'b', title: 'Second' }];
+const infinite = { pages: [{ rows: list, nextCursor: null, totalCount: 2 }], pageParams: [null] };
+
+describe('Optimistic cache writes', () => {
+  it('should update the item in lists, infinite pages and detail data', () => {
+    expect(updateCachedItem(list, 'b', { title: 'Changed' })).toEqual([list[0], { id: 'b', title: 'Changed' }]);
+    expect(updateCachedItem(infinite, 'a', { title: 'Changed' })).toMatchObject({
+      pages: [{ rows: [{ id: 'a', title: 'Changed' }, list[1]], totalCount: 2 }],
+      pageParams: [null],
+    });
+    expect(updateCachedItem(list[0], 'a', { title: 'Changed' })).toEqual({ id: 'a', title: 'Changed' });
+    expect(updateCachedItem(list[0], 'b', { title: 'Changed' })).toBe(list[0]);
+  });
+
+  it('should remove and add items', () => {
+    expect(removeCachedItem(list, 'a')).toEqual([list[1]]);
+    expect(removeCachedItem(infinite, 'a')).toMatchObject({ pages: [{ rows: [list[1]] }] });
+    expect(removeCachedItem(list[0], 'a')).toBe(list[0]);
+
+    const item = { id: 'c', title: 'New' };
+    expect(addCachedItem(list, item)).toEqual([item, ...list]);
+    expect(addCachedItem(infinite, item)).toMatchObject({ pages: [{ rows: [item, ...list] }] });
+  });
+
+  it('should leave data of other shapes alone', () => {
+    const counts = { unread: 3 };
+    const names = ['a', 'b'];
+
+    expect(updateCachedItem(counts, 'a', {})).toBe(counts);
+    expect(removeCachedItem(names, 'a')).toBe(names);
+    expect(addCachedItem(names, { id: 'c' })).toBe(names);
+    expect(updateCachedItem(undefined, 'a', {})).toBeUndefined();
+  });
+
+  it('should find the item in any cached query', () => {
+    expect(findCachedItem([[['jobs'], { unread: 3 }], [['jobs', 'infinite'], infinite]], 'b')).toBe(list[1]);
+    expect(findCachedItem([[['jobs', 'detail', 'a'], list[0]]], 'a')).toBe(list[0]);
+    expect(findCachedItem([[['jobs'], list]], 'z')).toBeUndefined();
+  });
+});
@@ -54,6 +54,7 @@ describe('Query Key Factory', () => {
       expect(notificationKeys.all('user123')).toEqual(['notifications', 'user123']);
       expect(notificationKeys.unread()).toEqual(['notifications-unread']);
       expect(notificationKeys.unread('user123')).toEqual(['notifications-unread', 'user123']);
+      expect(notificationKeys.list('user123', { type: 'new_job' })).toEqual(['notifications', 'user123', 'list', { type: 'new_job' }]);
     });
   });
 
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { assertCan, can, canAccessRoute, getRouteRoles, TRASH_ROLES } from '../auth/rbac';
+import { PermissionError } from '@/types/errors';
+
+describe('RBAC', () => {
+  describe('can', () => {
+    it('should allow roles listed for the action', () => {
+      expect(can('ADMIN', 'delete', 'users')).toBe(true);
+      expect(can('OWNER', 'create', 'invitations')).toBe(true);
+      expect(can('CONTRACTOR', 'read', 'jobs')).toBe(true);
+    });
+
+    it('should deny roles not listed for the action', () => {
+      expect(can('CONTRACTOR', 'create', 'jobs')).toBe(false);
+      expect(can('MANAGER', 'delete', 'users')).toBe(false);
+    });
+
+    it('should deny when there is no role', () => {
+      expect(can(null, 'read', 'jobs')).toBe(false);
+      expect(can(undefined, 'read', 'jobs')).toBe(false);
+    });
+  });
+
+  describe('assertCan', () => {
+    it('should throw a PermissionError when denied', () => {
+      expect(() => assertCan('CONTRACTOR', 'delete', 'jobs')).toThrow(PermissionError);
+      expect(() => assertCan('ADMIN', 'delete', 'jobs')).not.toThrow();
+    });
+  });
+
+  describe('route access', () => {
+    it('should use the most specific matching route', () => {
+      expect(getRouteRoles('/dashboard/users/123')).toEqual(['ADMIN', 'OWNER']);
+      expect(getRouteRoles('/dashboard/settings')).toContain('CONTRACTOR');
+    });
+
+    it('should not treat prefixes of other words as matches', () => {
+      expect(getRouteRoles('/administrator')).toBeNull();
+    });
+
+    it('should keep contractors out of admin screens', () => {
+      expect(canAccessRoute('CONTRACTOR', '/admin')).toBe(false);
+      expect(canAccessRoute('CONTRACTOR', '/admin/users')).toBe(false);
+      expect(canAccessRoute('CONTRACTOR', '/dashboard/users')).toBe(false);
+      expect(canAccessRoute('CONTRACTOR', '/dashboard')).toBe(true);
+      expect(canAccessRoute('ADMIN', '/admin/users')).toBe(true);
+    });
+
+    it('should limit the Trash to admins and owners', () => {
+      expect(canAccessRoute('MANAGER', '/dashboard/trash')).toBe(false);
+      expect(canAccessRoute('CONTRACTOR', '/dashboard/trash')).toBe(false);
+      expect(canAccessRoute('OWNER', '/dashboard/trash')).toBe(true);
+    });
+
+    it('should match can_manage_trash() in supabase/rls-policies.sql', () => {
+      const sql = readFileSync(join(process.cwd(), 'supabase/rls-policies.sql'), 'utf8');
+      const body = sql.slice(sql.indexOf('function can_manage_trash()'));
+      const roles = body.match(/current_user_type\(\) in \(([^)]*)\)/)?.[1].replace(/[\s']/g, '').split(',');
+
+      expect(roles?.sort()).toEqual([...TRASH_ROLES].sort());
+      expect(can('MANAGER', 'delete', 'jobs')).toBe(false);
+      expect(can('MANAGER', 'delete', 'locations')).toBe(false);
+    });
+
+    it('should allow unrestricted routes for anyone', () => {
+      expect(canAccessRoute(null, '/login')).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getInvalidationKeys,
+  getRealtimeToast,
+  getReconnectDelay,
+  RECONNECT_MAX_DELAY,
+  type RealtimeChange,
+} from '../realtime/changes';
+
+const change = (overrides: Partial<RealtimeChange>): RealtimeChange => ({
+  table: 'jobs',
+  eventType: 'UPDATE',
+  new: {},
+  old: {},
+  ...overrides,
+});
+
+describe('Realtime changes', () => {
+  describe('getInvalidationKeys', () => {
+    it('should refresh every job query and the job history', () => {
+      expect(getInvalidationKeys(change({ new: { id: 'job-1' } }), 'user-1')).toEqual([
+        ['jobs'],
+        ['job-history', 'job-1'],
+      ]);
+    });
+
+    it('should use the old row for deletes', () => {
+      const keys = getInvalidationKeys(change({ eventType: 'DELETE', old: { id: 'job-1' } }), 'user-1');
+      expect(keys).toContainEqual(['job-history', 'job-1']);
+    });
+
+    it("should refresh the user's notifications and unread count", () => {
+      expect(getInvalidationKeys(change({ table: 'notifications', eventType: 'INSERT' }), 'user-1')).toEqual([
+        ['notifications', 'user-1'],
+        ['notifications-unread', 'user-1'],
+      ]);
+    });
+
+    it('should refresh files and the job they belong to', () => {
+      expect(getInvalidationKeys(change({ table: 'job_files', new: { job_id: 'job-1' } }), 'user-1')).toEqual([
+        ['files'],
+        ['jobs', 'detail', 'job-1'],
+        ['job-history', 'job-1'],
+      ]);
+      expect(getInvalidationKeys(change({ table: 'job_files', eventType: 'DELETE' }), 'user-1')).toEqual([
+        ['files'],
+        ['jobs', 'detail'],
+      ]);
+    });
+
+    it('should ignore other tables', () => {
+      expect(getInvalidationKeys(change({ table: 'users' }), 'user-1')).toEqual([]);
+    });
+  });
+
+  describe('getRealtimeToast', () => {
+    it("should toast the user's new notifications", () => {
+      const inserted = change({
+        table: 'notifications',
+        eventType: 'INSERT',
+        new: { user_id: 'user-1', title: 'Job assigned', message: 'You have a new job' },
+      });
+      expect(getRealtimeToast(inserted, 'user-1')).toEqual({ title: 'Job assigned', description: 'You have a new job' });
+      expect(getRealtimeToast(inserted, 'user-2')).toBeNull();
+    });
+
+    it('should not toast read receipts or job changes', () => {
+      expect(getRealtimeToast(change({ table: 'notifications', new: { user_id: 'user-1' } }), 'user-1')).toBeNull();
+      expect(getRealtimeToast(change({ eventType: 'INSERT', new: { id: 'job-1' } }), 'user-1')).toBeNull();
+    });
+  });
+
+  describe('getReconnectDelay', () => {
+    it('should back off exponentially', () => {
+      expect(getReconnectDelay(0, () => 1)).toBe(1000);
+      expect(getReconnectDelay(1, () => 1)).toBe(2000);
+      expect(getReconnectDelay(3, () => 1)).toBe(8000);
+    });
+
+    it('should cap the delay', () => {
+      expect(getReconnectDelay(20, () => 1)).toBe(RECONNECT_MAX_DELAY);
+    });
+
+    it('should add jitter of up to half the delay', () => {
+      expect(getReconnectDelay(1, () => 0)).toBe(1000);
+      expect(getReconnectDelay(1, () => 0.5)).toBe(1500);
+    });
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect, expectTypeOf } from 'vitest';
+import { include, type IncludeOptions } from '../db/relations';
+import type { FileRecord, Location, User } from '../db/schema';
+
+describe('Relation includes', () => {
+  it('should embed relations by foreign key, in a stable order', () => {
+    const withDetails = include('jobs', { location: true, contractor: ['id', 'name'], files: ['id', 'storagePath'] });
+
+    expect(withDetails.select).toBe(
+      'contractor:users!contractor_id(id,name), '
+      + 'files:job_files!job_id(target:files!file_id(id,storage_path)), '
+      + 'location:locations!location_id(*)'
+    );
+    expect(withDetails.key).toBe('contractor(id,name),files(id,storage_path),location(*)');
+    expect(include('jobs', { contractor: ['id', 'name'], location: true, files: ['id', 'storagePath'] }).key)
+      .toBe(withDetails.key);
+    expect(withDetails.softDeleted).toEqual(['files']);
+  });
+
+  it('should unwrap rows linked through a linking table', () => {
+    const withFiles = include('jobs', { files: true });
+    const file = { id: 'file-1', name: 'photo.jpg' };
+
+    expect(withFiles.transform({ id: 'job-1', files: [{ target: file }, { target: null }] }))
+      .toEqual({ id: 'job-1', files: [file] });
+  });
+
+  it('should type the rows relations add', () => {
+    const withDetails = include('jobs', { owner: true, location: true, contractor: ['id', 'name'], files: true });
+    type Added = NonNullable<typeof withDetails.result>;
+
+    expectTypeOf<Added['owner']>().toEqualTypeOf<User>();
+    expectTypeOf<Added['location']>().toEqualTypeOf<Location | null>();
+    expectTypeOf<Added['contractor']>().toEqualTypeOf<Pick<User, 'id' | 'name'> | null>();
+    expectTypeOf<Added['files']>().toEqualTypeOf<FileRecord[]>();
+    expect(withDetails.key).toBe('contractor(id,name),files(*),location(*),owner(*)');
+
+    const invalid: IncludeOptions<'jobs'>[] = [
+      // @ts-expect-error - not a relation of jobs
+      { managers: true },
+      // @ts-expect-error - not a column of users
+      { contractor: ['colour'] },
+    ];
+    expect(invalid).toHaveLength(2);
+  });
+
+  it('should reject unknown relations', () => {
+    // @ts-expect-error - not a relation of locations
+    expect(() => include('locations', { jobs: true })).toThrow('Unknown relation "jobs" for locations');
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { CLIENT_VERSION_HEADER, compareVersions, getVersionInfo, isOutdatedClientWrite, isVersionSupported } from '../version';
+
+describe('compareVersions', () => {
+  it('should compare numerically rather than lexically', () => {
+    expect(compareVersions('1.10.0', '1.9.0')).toBeGreaterThan(0);
+    expect(compareVersions('1.2.0', '1.10.0')).toBeLessThan(0);
+  });
+
+  it('should treat missing segments as zero', () => {
+    expect(compareVersions('1.0', '1.0.0')).toBe(0);
+    expect(compareVersions('2', '1.9.9')).toBeGreaterThan(0);
+  });
+});
+
+describe('isVersionSupported', () => {
+  it('should allow versions at or above the minimum', () => {
+    expect(isVersionSupported('1.2.0', '1.2.0')).toBe(true);
+    expect(isVersionSupported('1.3.0', '1.2.0')).toBe(true);
+  });
+
+  it('should reject versions below the minimum', () => {
+    expect(isVersionSupported('1.1.9', '1.2.0')).toBe(false);
+  });
+});
+
+describe('getVersionInfo', () => {
+  const originalEnv = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  it('should read build details from the environment', () => {
+    process.env.NEXT_BUILD_ID = 'build-123';
+    process.env.VERCEL_GIT_COMMIT_SHA = 'abc123';
+    process.env.NEXT_BUILD_TIME = '2024-01-01T00:00:00.000Z';
+    process.env.MIN_SUPPORTED_CLIENT_VERSION = '1.2.0';
+
+    expect(getVersionInfo()).toMatchObject({
+      buildId: 'build-123',
+      commit: 'abc123',
+      buildTime: '2024-01-01T00:00:00.000Z',
+      minSupportedVersion: '1.2.0',
+    });
+  });
+
+  it('should fall back to permissive defaults', () => {
+    delete process.env.NEXT_BUILD_ID;
+    delete process.env.VERCEL_GIT_COMMIT_SHA;
+    delete process.env.GIT_COMMIT_SHA;
+    delete process.env.MIN_SUPPORTED_CLIENT_VERSION;
+
+    expect(getVersionInfo()).toMatchObject({
+      buildId: 'development',
+      commit: null,
+      minSupportedVersion: '0.0.0',
+    });
+  });
+});
+
+describe('isOutdatedClientWrite', () => {
+  const request = (method: string, version?: string) => ({
+    method,
+    headers: new Headers(version ? { [CLIENT_VERSION_HEADER]: version } : {}),
+  });
+
+  it('should flag writes from clients below the minimum', () => {
+    expect(isOutdatedClientWrite(request('POST', '1.1.0'), '1.2.0')).toBe(true);
+    expect(isOutdatedClientWrite(request('PATCH', '1.2.0'), '1.2.0')).toBe(false);
+  });
+
+  it('should let reads and requests without a version through', () => {
+    expect(isOutdatedClientWrite(request('GET', '1.1.0'), '1.2.0')).toBe(false);
+    expect(isOutdatedClientWrite(request('POST'), '1.2.0')).toBe(false);
+  });
+});
+
+describe('apiFetch', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.resetModules();
+  });
+
+  it('should send the client version with each request', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response(JSON.stringify({ data: [] }), { status: 200 }));
+    vi.stubGlobal('fetch', fetchMock);
+    const { apiFetch } = await import('../api/client');
+
+    await apiFetch('/api/jobs');
+
+    expect(fetchMock.mock.calls[0][1].headers).toHaveProperty(CLIENT_VERSION_HEADER);
+  });
+
+  it('should refuse writes without calling the server once the client is outdated', async () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+    const { markClientOutdated } = await import('../version');
+    const { apiFetch } = await import('../api/client');
+    markClientOutdated();
+
+    await expect(apiFetch('/api/jobs/job-1/claim', { method: 'POST' })).rejects.toMatchObject({
+      type: 'OUTDATED_CLIENT',
+    });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('should mark the client outdated when the server refuses a write', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response(JSON.stringify({
+      error: { message: 'Out of date', type: 'OUTDATED_CLIENT', severity: 'warning' },
+    }), { status: 426 })));
+    const { isClientOutdated } = await import('../version');
+    const { apiFetch } = await import('../api/client');
+
+    await expect(apiFetch('/api/invitations', { method: 'POST' })).rejects.toMatchObject({ type: 'OUTDATED_CLIENT' });
+    expect(isClientOutdated()).toBe(true);
+  });
+});
@@ -0,0 +1,40 @@
+import { AppError, ErrorResponse, ErrorSeverity, ErrorType, OutdatedClientError } from '@/types/errors';
+import { APP_VERSION, CLIENT_VERSION_HEADER, isClientOutdated, markClientOutdated } from '@/lib/version';
+
+/**
+ * Call one of the app's API routes from the browser
+ *
+ * Unwraps the `{ data }` envelope, and rebuilds the route's error body as an
+ * AppError so callers can handle it like any other app error. Writes are
+ * refused once the client is known to be out of date, and the server refuses
+ * them too based on the version header.
+ */
+export async function apiFetch<T>(url: string, init: RequestInit = {}): Promise<T> {
+  const method = (init.method ?? 'GET').toUpperCase();
+  if (method !== 'GET' && isClientOutdated()) {
+    throw new OutdatedClientError();
+  }
+
+  const response = await fetch(url, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', [CLIENT_VERSION_HEADER]: APP_VERSION, ...init.headers },
+  });
+
+  const body = await response.json().catch(() => null);
+
+  if (response.status === 426) {
+    markClientOutdated();
+  }
+
+  if (!response.ok) {
+    const error = (body as ErrorResponse | null)?.error;
+    throw new AppError(
+      error?.message || 'Something went wrong. Please try again.',
+      error?.type || ErrorType.NETWORK,
+      error?.severity || ErrorSeverity.ERROR,
+      error?.context
+    );
+  }
+
+  return (body as { data: T }).data;
+}
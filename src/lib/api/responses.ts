@@ -0,0 +1,73 @@
+import { NextResponse } from 'next/server';
+import { camelizeKeys } from 'humps';
+import { ZodError } from 'zod';
+import { transformError } from '@/lib/error-handling';
+import { ErrorResponse, ErrorType, ValidationError } from '@/types/errors';
+
+const statusByErrorType: Record<ErrorType, number> = {
+  [ErrorType.AUTH]: 401,
+  [ErrorType.PERMISSION]: 403,
+  [ErrorType.NOT_FOUND]: 404,
+  [ErrorType.CONFLICT]: 409,
+  [ErrorType.OUTDATED_CLIENT]: 426,
+  [ErrorType.VALIDATION]: 400,
+  [ErrorType.FILE_UPLOAD]: 400,
+  [ErrorType.NETWORK]: 502,
+  [ErrorType.DATABASE]: 500,
+  [ErrorType.UNKNOWN]: 500,
+};
+
+/**
+ * Respond with camelized data wrapped in a `{ data }` envelope
+ */
+export function jsonData<T>(data: T, init?: ResponseInit) {
+  return NextResponse.json({ data: camelizeKeys(data as object) as T }, init);
+}
+
+/**
+ * Read a request's JSON body, treating a malformed body as a validation error
+ */
+export async function readJson(request: Request): Promise<unknown> {
+  try {
+    return await request.json();
+  } catch {
+    throw new ValidationError('The request body must be valid JSON.');
+  }
+}
+
+/**
+ * Convert a Zod error into a ValidationError with per-field messages
+ */
+export function fromZodError(error: ZodError): ValidationError {
+  const fields = error.issues.reduce<Record<string, string>>((acc, issue) => {
+    const key = issue.path.join('.') || '_';
+    if (!acc[key]) acc[key] = issue.message;
+    return acc;
+  }, {});
+  return new ValidationError('Please check the highlighted fields.', fields);
+}
+
+/**
+ * Map any error to a consistent JSON error body and HTTP status
+ */
+export function jsonError(error: unknown, context?: string) {
+  const appError = error instanceof ZodError ? fromZodError(error) : transformError(error, context);
+  const status = statusByErrorType[appError.type] ?? 500;
+
+  if (status >= 500) {
+    console.error(`${appError.name}${context ? ` in ${context}` : ''}:`, appError.originalError ?? appError);
+  }
+
+  const body: ErrorResponse = {
+    error: {
+      message: appError.message,
+      type: appError.type,
+      severity: appError.severity,
+      timestamp: appError.timestamp.toISOString(),
+      // Server-side failures may carry internals that shouldn't reach the client
+      context: status < 500 ? appError.context : undefined,
+    },
+  };
+
+  return NextResponse.json(body, { status });
+}
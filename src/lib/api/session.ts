@@ -0,0 +1,60 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import type { UserType } from '@/lib/db/schema';
+import { transformError } from '@/lib/error-handling';
+import { AppError, ErrorType, ErrorSeverity, PermissionError } from '@/types/errors';
+
+export interface RequestActor {
+  id: string;
+  email: string;
+  type: UserType;
+}
+
+/**
+ * Resolve the signed-in user making an API request
+ *
+ * @throws AppError (AUTH) when there is no session
+ * @throws PermissionError when the account has no active user record
+ */
+export async function getRequestActor(supabase: SupabaseClient): Promise<RequestActor> {
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    throw new AppError('Please sign in to continue.', ErrorType.AUTH, ErrorSeverity.WARNING);
+  }
+
+  const { data, error } = await supabase
+    .from('users')
+    .select('id, email, type, status')
+    .eq('id', user.id)
+    .maybeSingle();
+
+  if (error) {
+    throw transformError(error, 'fetching current user');
+  }
+  if (!data || data.status !== 'ACTIVE') {
+    throw new PermissionError('Your account does not have access to this resource.');
+  }
+
+  return { id: data.id, email: data.email, type: data.type };
+}
+
+/**
+ * Check that a request to a scheduled job comes from the scheduler
+ *
+ * Vercel Cron sends `Authorization: Bearer $CRON_SECRET`. Without a secret
+ * configured, jobs can only be triggered outside production so they can be
+ * run by hand while developing.
+ *
+ * @throws AppError (AUTH) when the secret is missing or wrong
+ */
+export function assertCronRequest(request: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    if (process.env.NODE_ENV !== 'production') return;
+    throw new AppError('Scheduled jobs are not configured.', ErrorType.AUTH, ErrorSeverity.ERROR);
+  }
+
+  if (request.headers.get('authorization') !== `Bearer ${secret}`) {
+    throw new AppError('Invalid cron secret.', ErrorType.AUTH, ErrorSeverity.WARNING);
+  }
+}
@@ -0,0 +1,168 @@
+import type { UserType } from '@/lib/db/schema';
+import { PermissionError } from '@/types/errors';
+
+/**
+ * Role-based access control
+ *
+ * Roles come from the `users.type` enum. This module is shared by the
+ * middleware (route access), API routes (action checks) and the UI
+ * (`useCan`, `<RequireRole>`), so it must stay free of runtime imports that
+ * can't run on the edge.
+ */
+
+export const ALL_ROLES: readonly UserType[] = ['ADMIN', 'OWNER', 'MANAGER', 'CONTRACTOR'];
+
+// Who can move jobs and locations to the Trash, restore them and see them
+// there. Keep in sync with can_manage_trash() in supabase/rls-policies.sql.
+export const TRASH_ROLES: readonly UserType[] = ['ADMIN', 'OWNER'];
+
+export type RbacAction = 'read' | 'create' | 'update' | 'delete';
+
+export type RbacResource =
+  | 'jobs'
+  | 'users'
+  | 'invitations'
+  | 'locations'
+  | 'organisations'
+  | 'files'
+  | 'documents'
+  | 'notifications'
+  | 'outbox';
+
+/**
+ * Which roles may perform each action on each resource
+ */
+export const PERMISSIONS: Record<RbacResource, Record<RbacAction, readonly UserType[]>> = {
+  jobs: {
+    read: ALL_ROLES,
+    create: ['ADMIN', 'OWNER', 'MANAGER'],
+    update: ['ADMIN', 'OWNER', 'MANAGER'],
+    delete: TRASH_ROLES,
+  },
+  users: {
+    read: ['ADMIN', 'OWNER', 'MANAGER'],
+    create: ['ADMIN'],
+    update: ['ADMIN'],
+    delete: ['ADMIN'],
+  },
+  invitations: {
+    read: ['ADMIN', 'OWNER'],
+    create: ['ADMIN', 'OWNER'],
+    update: ['ADMIN', 'OWNER'],
+    delete: ['ADMIN', 'OWNER'],
+  },
+  locations: {
+    read: ALL_ROLES,
+    create: ['ADMIN', 'OWNER'],
+    update: ['ADMIN', 'OWNER'],
+    delete: TRASH_ROLES,
+  },
+  organisations: {
+    read: ['ADMIN', 'OWNER', 'MANAGER'],
+    create: ['ADMIN', 'OWNER'],
+    update: ['ADMIN', 'OWNER'],
+    delete: ['ADMIN'],
+  },
+  files: {
+    read: ALL_ROLES,
+    create: ALL_ROLES,
+    update: ['ADMIN'],
+    delete: ['ADMIN', 'OWNER', 'MANAGER'],
+  },
+  // Contractor compliance documents; contractors only ever see their own and
+  // owners those of contractors in their organisations (can_review_contractor)
+  documents: {
+    read: ['ADMIN', 'OWNER', 'CONTRACTOR'],
+    create: ['ADMIN', 'CONTRACTOR'],
+    update: ['ADMIN', 'OWNER'],
+    delete: ['ADMIN'],
+  },
+  notifications: {
+    read: ALL_ROLES,
+    create: ['ADMIN'],
+    update: ALL_ROLES,
+    delete: ALL_ROLES,
+  },
+  // Failed notification and email deliveries waiting to be retried
+  outbox: {
+    read: ['ADMIN'],
+    create: ['ADMIN'],
+    update: ['ADMIN'],
+    delete: ['ADMIN'],
+  },
+};
+
+/**
+ * Which user types each role may invite. Owners bring in their own managers
+ * and contractors; only admins can create admins and owners.
+ */
+export const INVITABLE_ROLES: Record<UserType, readonly UserType[]> = {
+  ADMIN: ALL_ROLES,
+  OWNER: ['MANAGER', 'CONTRACTOR'],
+  MANAGER: [],
+  CONTRACTOR: [],
+};
+
+/**
+ * Route prefixes and the roles allowed to load them.
+ * The most specific matching prefix wins.
+ */
+export const ROUTE_ROLES: Record<string, readonly UserType[]> = {
+  '/admin': ['ADMIN'],
+  '/dashboard/users': ['ADMIN', 'OWNER'],
+  '/dashboard/invitations': ['ADMIN', 'OWNER'],
+  '/dashboard/locations': ['ADMIN', 'OWNER'],
+  '/dashboard/onboarding': ['CONTRACTOR'],
+  '/dashboard/trash': TRASH_ROLES,
+  '/dashboard': ALL_ROLES,
+};
+
+/**
+ * Check whether a role may perform an action on a resource
+ */
+export function can(role: UserType | null | undefined, action: RbacAction, resource: RbacResource): boolean {
+  if (!role) return false;
+  return PERMISSIONS[resource][action].includes(role);
+}
+
+/**
+ * Throw a PermissionError unless the role may perform the action
+ */
+export function assertCan(role: UserType | null | undefined, action: RbacAction, resource: RbacResource) {
+  if (!can(role, action, resource)) {
+    throw new PermissionError("You don't have permission to perform this action.", {
+      action,
+      resource,
+      role,
+    });
+  }
+}
+
+/**
+ * Throw a PermissionError unless the role may invite users of `userType`
+ */
+export function assertCanInvite(role: UserType | null | undefined, userType: UserType) {
+  assertCan(role, 'create', 'invitations');
+  if (!role || !INVITABLE_ROLES[role].includes(userType)) {
+    throw new PermissionError(`You can't invite users as ${userType}.`, { role, userType });
+  }
+}
+
+/**
+ * Find the roles allowed on a path, or null if the path isn't role-restricted
+ */
+export function getRouteRoles(path: string): readonly UserType[] | null {
+  const match = Object.keys(ROUTE_ROLES)
+    .filter(route => path === route || path.startsWith(route + '/'))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? ROUTE_ROLES[match] : null;
+}
+
+/**
+ * Check whether a role may load a path
+ */
+export function canAccessRoute(role: UserType | null | undefined, path: string): boolean {
+  const roles = getRouteRoles(path);
+  if (!roles) return true;
+  return !!role && roles.includes(role);
+}
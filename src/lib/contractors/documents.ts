@@ -0,0 +1,117 @@
+import type {
+  ContractorDocumentReview,
+  ContractorDocuments,
+  ContractorDocumentType,
+} from '@/lib/db/schema';
+import { FileUploadError, PermissionError } from '@/types/errors';
+
+/**
+ * Contractor compliance documents
+ *
+ * Contractors upload each required document during onboarding. Every upload
+ * gets a review row that an admin approves or rejects, and a contractor can
+ * only claim jobs once every document is approved and their insurance is
+ * current.
+ */
+
+export const CONTRACTOR_DOCUMENTS_BUCKET = 'contractor-documents';
+
+export const MAX_DOCUMENT_SIZE = 10 * 1024 * 1024; // 10MB
+
+export const ALLOWED_DOCUMENT_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'application/pdf'] as const;
+
+interface ContractorDocumentDefinition {
+  type: ContractorDocumentType;
+  label: string;
+  column: keyof ContractorDocuments;
+}
+
+// Every document a contractor must have approved, in onboarding order
+export const CONTRACTOR_DOCUMENTS: readonly ContractorDocumentDefinition[] = [
+  { type: 'white_card_front', label: 'White card (front)', column: 'whiteCardFrontFileId' },
+  { type: 'white_card_back', label: 'White card (back)', column: 'whiteCardBackFileId' },
+  { type: 'license_front', label: "Driver's licence (front)", column: 'licenseFrontFileId' },
+  { type: 'license_back', label: "Driver's licence (back)", column: 'licenseBackFileId' },
+  { type: 'insurance', label: 'Insurance certificate', column: 'insuranceDocumentFileId' },
+];
+
+export function getContractorDocument(type: ContractorDocumentType): ContractorDocumentDefinition {
+  return CONTRACTOR_DOCUMENTS.find(document => document.type === type)!;
+}
+
+/**
+ * Throw a FileUploadError if a file can't be used as a compliance document
+ */
+export function validateDocumentFile(file: { type: string; size: number; name: string }) {
+  if (!(ALLOWED_DOCUMENT_MIME_TYPES as readonly string[]).includes(file.type)) {
+    throw new FileUploadError('Upload a JPG, PNG, WebP or PDF file.', { fileName: file.name, type: file.type });
+  }
+  if (file.size > MAX_DOCUMENT_SIZE) {
+    throw new FileUploadError('Files must be 10MB or smaller.', { fileName: file.name, size: file.size });
+  }
+}
+
+/**
+ * Storage path for a document. The first folder is the contractor's ID,
+ * which the storage policies use to limit access to their own files.
+ */
+export function getDocumentStoragePath(userId: string, type: ContractorDocumentType, fileName: string, now = Date.now()) {
+  const extension = fileName.includes('.') ? fileName.split('.').pop()!.toLowerCase() : 'bin';
+  return `${userId}/${type}-${now}.${extension}`;
+}
+
+export interface ContractorVerification {
+  verified: boolean;
+  missing: ContractorDocumentType[];
+  pending: ContractorDocumentType[];
+  rejected: ContractorDocumentType[];
+  approved: ContractorDocumentType[];
+  insuranceExpired: boolean;
+}
+
+type ReviewState = Pick<ContractorDocumentReview, 'documentType' | 'status'>;
+
+/**
+ * Work out where a contractor is in verification from their reviews
+ */
+export function getContractorVerification(
+  documents: Pick<ContractorDocuments, 'insuranceExpiryDate'> | null,
+  reviews: ReviewState[],
+  now: Date = new Date()
+): ContractorVerification {
+  const statusByType = new Map(reviews.map(review => [review.documentType, review.status]));
+  const byStatus = (status: string | undefined) =>
+    CONTRACTOR_DOCUMENTS.filter(({ type }) => statusByType.get(type) === status).map(({ type }) => type);
+
+  const expiry = documents?.insuranceExpiryDate;
+  const insuranceExpired = !expiry || new Date(expiry).getTime() <= now.getTime();
+  const missing = byStatus(undefined);
+  const approved = byStatus('approved');
+
+  return {
+    verified: approved.length === CONTRACTOR_DOCUMENTS.length && !insuranceExpired,
+    missing,
+    pending: byStatus('pending'),
+    rejected: byStatus('rejected'),
+    approved,
+    insuranceExpired,
+  };
+}
+
+/**
+ * Throw a PermissionError unless the contractor is fully verified
+ */
+export function assertContractorVerified(verification: ContractorVerification) {
+  if (verification.verified) return;
+
+  const reason = verification.insuranceExpired && verification.approved.length === CONTRACTOR_DOCUMENTS.length
+    ? 'Your insurance has expired. Upload a current certificate to keep claiming jobs.'
+    : 'Your documents need to be approved before you can claim jobs.';
+
+  throw new PermissionError(reason, {
+    missing: verification.missing,
+    pending: verification.pending,
+    rejected: verification.rejected,
+    insuranceExpired: verification.insuranceExpired,
+  });
+}
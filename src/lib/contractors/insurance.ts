@@ -0,0 +1,48 @@
+/**
+ * Insurance expiry monitoring
+ *
+ * A scheduled job (see /api/cron/insurance-expiry) reminds contractors as
+ * their insurance approaches expiry and suspends their claim eligibility once
+ * it lapses. `insuranceReminderDays` on contractor_documents records the last
+ * reminder sent so each threshold is only sent once per expiry date.
+ */
+
+// Days before expiry to send a reminder, largest first
+export const INSURANCE_REMINDER_DAYS = [30, 14, 7] as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Whole days until the insurance expires, rounded up; zero or less once lapsed
+ */
+export function getDaysUntilExpiry(expiry: Date | string, now: Date = new Date()): number {
+  return Math.ceil((new Date(expiry).getTime() - now.getTime()) / DAY_MS);
+}
+
+/**
+ * The reminder threshold that is due, or null if nothing new needs sending
+ *
+ * Returns the smallest threshold the contractor has reached that is below the
+ * last one sent, so a missed run sends one reminder rather than several.
+ */
+export function getDueInsuranceReminder(
+  expiry: Date | string,
+  lastReminderDays: number | null,
+  now: Date = new Date()
+): number | null {
+  const daysLeft = getDaysUntilExpiry(expiry, now);
+  if (daysLeft <= 0) return null;
+
+  const reached = INSURANCE_REMINDER_DAYS.filter(days => daysLeft <= days);
+  if (reached.length === 0) return null;
+
+  const threshold = reached[reached.length - 1];
+  return lastReminderDays === null || threshold < lastReminderDays ? threshold : null;
+}
+
+/**
+ * The latest expiry date that should be checked for reminders
+ */
+export function getReminderWindowEnd(now: Date = new Date()): Date {
+  return new Date(now.getTime() + INSURANCE_REMINDER_DAYS[0] * DAY_MS);
+}
@@ -0,0 +1,25 @@
+import { z } from 'zod';
+
+/**
+ * Request payload schemas for contractor document review
+ */
+
+export const reviewDocumentSchema = z.object({
+  decision: z.enum(['approved', 'rejected']),
+  reason: z.string().trim().max(500).nullish(),
+}).strict();
+
+// ABN is 11 digits, BSB 6, account numbers 6-10; spaces and dashes are allowed while typing
+const digits = (length: string) => z.string().trim().transform(value => value.replace(/[\s-]/g, '')).pipe(
+  z.string().regex(new RegExp(`^\\d{${length}}$`), 'Enter digits only')
+);
+
+export const contractorDetailsSchema = z.object({
+  abn: digits('11'),
+  bsb: digits('6'),
+  accountNumber: digits('6,10'),
+  insuranceExpiryDate: z.coerce.date().refine(date => date.getTime() > Date.now(), 'Insurance must not have expired'),
+});
+
+export type ReviewDocumentInput = z.infer<typeof reviewDocumentSchema>;
+export type ContractorDetailsInput = z.infer<typeof contractorDetailsSchema>;
@@ -0,0 +1,168 @@
+import { getTableName, type Column, type InferSelectModel, type Table } from 'drizzle-orm';
+import { files, jobFiles, jobs, locations, organisations, users } from './schema';
+import { toColumnName } from '@/lib/supabase/filters';
+import { isSoftDeleteTable } from '@/lib/trash/softDelete';
+
+/**
+ * Relations
+ *
+ * The related rows each table can embed in a select, following the foreign
+ * keys in schema.ts. `include` turns a choice of them into a PostgREST select
+ * and the type of the rows it returns, for the CRUD hooks:
+ *
+ * ```typescript
+ * const withDetails = include('jobs', { location: true, contractor: ['id', 'name'], files: true });
+ *
+ * const { data } = useJobs({ include: withDetails });
+ * data?.[0].location?.address;   // Location | null
+ * data?.[0].contractor?.name;    // Pick<User, 'id' | 'name'> | null
+ * data?.[0].files[0].name;       // FileRecord[]
+ * ```
+ *
+ * Soft-deleted rows are left out of "many" relations unless the list
+ * includes deleted rows.
+ */
+
+type Cardinality = 'one' | 'optional' | 'many';
+
+interface Relation<Row, C extends Cardinality> {
+  cardinality: C;
+  // The embed for this relation under an alias, selecting these columns
+  select: (alias: string, columns: string) => string;
+  // Whether deleted_at on the embedded (or linking) rows hides them
+  softDelete: boolean;
+  // Whether the embed returns links to unwrap into the rows they point to
+  throughLink: boolean;
+  // Type only
+  readonly row?: Row;
+}
+
+// Key of the linked row within each link, for relations through a linking table
+const LINK_TARGET = 'target';
+
+/**
+ * The row a foreign key column points to; null when the column is nullable
+ */
+function one<Target extends Table, Fk extends Column>(target: Target, column: Fk) {
+  return {
+    cardinality: column.notNull ? 'one' : 'optional',
+    select: (alias: string, columns: string) => `${alias}:${getTableName(target)}!${column.name}(${columns})`,
+    softDelete: false,
+    throughLink: false,
+  } as Relation<InferSelectModel<Target>, Fk['_']['notNull'] extends true ? 'one' : 'optional'>;
+}
+
+/**
+ * Rows linked through a linking table, e.g. a job's files through job_files
+ *
+ * `column` is the link's foreign key to this table and `targetColumn` its
+ * foreign key to the linked rows.
+ */
+function manyThrough<Target extends Table>(target: Target, link: Table, column: Column, targetColumn: Column) {
+  return {
+    cardinality: 'many',
+    select: (alias: string, columns: string) =>
+      `${alias}:${getTableName(link)}!${column.name}(${LINK_TARGET}:${getTableName(target)}!${targetColumn.name}(${columns}))`,
+    softDelete: isSoftDeleteTable(getTableName(link)),
+    throughLink: true,
+  } as Relation<InferSelectModel<Target>, 'many'>;
+}
+
+export const RELATIONS = {
+  jobs: {
+    owner: one(users, jobs.ownerId),
+    contractor: one(users, jobs.contractorId),
+    location: one(locations, jobs.locationId),
+    organisation: one(organisations, jobs.organisationId),
+    files: manyThrough(files, jobFiles, jobFiles.jobId, jobFiles.fileId),
+  },
+  locations: {
+    organisation: one(organisations, locations.organisationId),
+  },
+  files: {
+    uploader: one(users, files.uploadedBy),
+  },
+};
+
+export type RelationTable = keyof typeof RELATIONS;
+
+type RelationsOf<N extends RelationTable> = (typeof RELATIONS)[N];
+
+type RowOf<R> = R extends Relation<infer Row, Cardinality> ? Row : never;
+
+/**
+ * Relations to include: `true` for every column, or a list of columns
+ */
+export type IncludeOptions<N extends RelationTable> = {
+  [K in keyof RelationsOf<N>]?: true | readonly (keyof RowOf<RelationsOf<N>[K]> & string)[];
+};
+
+type Selected<Row, S> = S extends readonly (infer K extends keyof Row)[] ? Pick<Row, K> : Row;
+
+type Included<R, S> = R extends Relation<infer Row, infer C>
+  ? C extends 'many' ? Selected<Row, S>[]
+    : C extends 'optional' ? Selected<Row, S> | null
+      : Selected<Row, S>
+  : never;
+
+/**
+ * The fields included relations add to each row
+ */
+export type IncludedRelations<N extends RelationTable, I extends IncludeOptions<N>> = {
+  -readonly [K in keyof I & keyof RelationsOf<N>]-?: Included<RelationsOf<N>[K], Exclude<I[K], undefined>>;
+};
+
+/**
+ * Relations to embed in a select, with the type `R` they add to each row
+ */
+export interface Include<R> {
+  table: string;
+  // Embeds to add to the select
+  select: string;
+  // Stable string for query keys
+  key: string;
+  // Relations whose soft-deleted rows are left out
+  softDeleted: string[];
+  // Reshape a (camelCase) row as returned into the included type
+  transform: <T extends object>(row: T) => T & R;
+  // Type only
+  readonly result?: R;
+}
+
+/**
+ * Choose relations to embed in a table's select
+ */
+export function include<N extends RelationTable, const I extends IncludeOptions<N>>(
+  table: N,
+  options: I
+): Include<IncludedRelations<N, I>> {
+  const relations = RELATIONS[table] as Record<string, Relation<unknown, Cardinality>>;
+  const chosen = Object.entries(options as Record<string, true | readonly string[] | undefined>)
+    .filter((entry): entry is [string, true | readonly string[]] => entry[1] !== undefined)
+    .sort(([a], [b]) => a.localeCompare(b));
+
+  const embeds = chosen.map(([alias, columns]) => {
+    const relation = relations[alias];
+    if (!relation) {
+      throw new Error(`Unknown relation "${alias}" for ${table}`);
+    }
+    return { alias, relation, columns: columns === true ? '*' : columns.map(toColumnName).join(',') };
+  });
+  const linked = embeds.filter(({ relation }) => relation.throughLink).map(({ alias }) => alias);
+
+  return {
+    table,
+    select: embeds.map(({ alias, relation, columns }) => relation.select(alias, columns)).join(', '),
+    key: embeds.map(({ alias, columns }) => `${alias}(${columns})`).join(','),
+    softDeleted: embeds.filter(({ relation }) => relation.softDelete).map(({ alias }) => alias),
+    transform: <T extends object>(row: T) => {
+      if (linked.length === 0) return row as T & IncludedRelations<N, I>;
+      const reshaped: Record<string, unknown> = { ...(row as Record<string, unknown>) };
+      linked.forEach(alias => {
+        const links = (reshaped[alias] ?? []) as Record<string, unknown>[];
+        reshaped[alias] = links.map(link => link[LINK_TARGET]).filter(Boolean);
+      });
+      return reshaped as T & IncludedRelations<N, I>;
+    },
+  };
+}
@@ -1,9 +1,11 @@
-import { pgTable, uuid, text, timestamp, pgEnum, primaryKey, bigint, boolean, index } from 'drizzle-orm/pg-core';
+import { pgTable, uuid, text, timestamp, pgEnum, primaryKey, bigint, boolean, index, uniqueIndex, integer, doublePrecision, jsonb } from 'drizzle-orm/pg-core';
 import { sql } from 'drizzle-orm';
 
 // Enums
 export const userTypeEnum = pgEnum('user_type', ['ADMIN', 'OWNER', 'MANAGER', 'CONTRACTOR']);
+export type UserType = typeof userTypeEnum.enumValues[number];
 export const userStatusEnum = pgEnum('user_status', ['ACTIVE', 'INACTIVE', 'SUSPENDED']);
+export type UserStatus = typeof userStatusEnum.enumValues[number];
 export const jobStatusEnum = pgEnum('job_status', [
   'DRAFT',
   'PENDING_REVIEW',
@@ -15,8 +17,11 @@ export const jobStatusEnum = pgEnum('job_status', [
   'PAID',
   'ARCHIVED',
 ]);
+export type JobStatus = typeof jobStatusEnum.enumValues[number];
 export const jobCategoryEnum = pgEnum('job_category', ['ELECTRICAL', 'PLUMBING', 'GENERAL_MAINTENANCE', 'OFF_PLATFORM']);
+export type JobCategory = typeof jobCategoryEnum.enumValues[number];
 export const fileEventTypeEnum = pgEnum('file_event_type', ['ADDED', 'REMOVED']);
+export type FileEventType = typeof fileEventTypeEnum.enumValues[number];
 export const contractorSpecialityEnum = pgEnum('contractor_speciality', ['electrical', 'plumbing', 'general_maintenance']);
 
 // User Table
@@ -26,6 +31,8 @@ export const users = pgTable('users', {
   name: text('name').notNull(),
   type: userTypeEnum('type').notNull(),
   status: userStatusEnum('status').notNull().default('ACTIVE'),
+  // Set when a contractor's insurance lapses; cleared once they're verified again
+  claimsSuspended: boolean('claims_suspended').notNull().default(false),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
   deletedAt: timestamp('deleted_at'),
@@ -34,9 +41,11 @@ export const users = pgTable('users', {
   index('idx_users_email').on(table.email),
   index('idx_users_created_at').on(table.createdAt),
 ]);
+export type User = typeof users.$inferSelect;
 
 // User Invitations Table
 export const invitationStatusEnum = pgEnum('invitation_status', ['pending', 'completed', 'expired', 'revoked']);
+export type InvitationStatus = typeof invitationStatusEnum.enumValues[number];
 
 export const userInvitations = pgTable('user_invitations', {
   id: uuid('id').primaryKey().defaultRandom(),
@@ -56,18 +65,25 @@ export const userInvitations = pgTable('user_invitations', {
   index('idx_user_invitations_token').on(table.token),
   index('idx_user_invitations_expires_at').on(table.expiresAt),
 ]);
+export type UserInvitation = typeof userInvitations.$inferSelect;
 
 // User History Table
 export const userHistories = pgTable('user_history', {
   id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').notNull().references(() => users.id),
   email: text('email').notNull(),
   name: text('name').notNull(),
   type: userTypeEnum('type').notNull(),
   status: userStatusEnum('status').notNull(),
+  claimsSuspended: boolean('claims_suspended').notNull().default(false),
   changedBy: uuid('changed_by').references(() => users.id),
   validFrom: timestamp('valid_from').notNull(),
   validTo: timestamp('valid_to'),
-});
+}, (table) => [
+  index('idx_user_history_user_id').on(table.userId),
+  index('idx_user_history_valid_from').on(table.validFrom),
+]);
+export type UserHistory = typeof userHistories.$inferSelect;
 
 // Organisation Table
 export const organisations = pgTable('organisations', {
@@ -83,22 +99,32 @@ export const organisations = pgTable('organisations', {
 }, (table) => [
   index('idx_organisations_owner_id').on(table.ownerId),
 ]);
+export type Organisation = typeof organisations.$inferSelect;
 
 // Organisation History Table
 export const organisationHistories = pgTable('organisation_history', {
   id: uuid('id').primaryKey().defaultRandom(),
+  organisationId: uuid('organisation_id').notNull().references(() => organisations.id),
   name: text('name').notNull(),
   ownerId: uuid('owner_id').references(() => users.id).notNull(),
   changedBy: uuid('changed_by').references(() => users.id),
   validFrom: timestamp('valid_from').notNull(),
   validTo: timestamp('valid_to'),
-});
+}, (table) => [
+  index('idx_organisation_history_organisation_id').on(table.organisationId),
+  index('idx_organisation_history_valid_from').on(table.validFrom),
+]);
+export type OrganisationHistory = typeof organisationHistories.$inferSelect;
 
 // Location Table
 export const locations = pgTable('locations', {
   id: uuid('id').primaryKey().defaultRandom(),
   name: text('name').notNull(),
   address: text('address').notNull(),
+  // Geocoded from `address`; null until geocoded or when the address can't be found
+  latitude: doublePrecision('latitude'),
+  longitude: doublePrecision('longitude'),
+  geocodeAttemptedAt: timestamp('geocode_attempted_at'),
   organisationId: uuid('organisation_id').references(() => organisations.id),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
@@ -108,18 +134,26 @@ export const locations = pgTable('locations', {
   deletedBy: uuid('deleted_by').references(() => users.id),
 }, (table) => [
   index('idx_locations_organisation_id').on(table.organisationId),
+  index('idx_locations_coordinates').on(table.latitude, table.longitude),
 ]);
+export type Location = typeof locations.$inferSelect;
+export type NewLocation = typeof locations.$inferInsert;
 
 // Location History Table
 export const locationHistories = pgTable('location_history', {
   id: uuid('id').primaryKey().defaultRandom(),
+  locationId: uuid('location_id').notNull().references(() => locations.id),
   name: text('name').notNull(),
   address: text('address').notNull(),
   organisationId: uuid('organisation_id').references(() => organisations.id),
   changedBy: uuid('changed_by').references(() => users.id),
   validFrom: timestamp('valid_from').notNull(),
   validTo: timestamp('valid_to'),
-});
+}, (table) => [
+  index('idx_location_history_location_id').on(table.locationId),
+  index('idx_location_history_valid_from').on(table.validFrom),
+]);
+export type LocationHistory = typeof locationHistories.$inferSelect;
 
 // Job Table
 export const jobs = pgTable('jobs', {
@@ -137,6 +171,7 @@ export const jobs = pgTable('jobs', {
   changedBy: uuid('changed_by').references(() => users.id),
   // Pricing fields
   listingPrice: text('listing_price'), // Set by owner/manager, visible to setter and admin only
+  listingPriceSetBy: uuid('listing_price_set_by').references(() => users.id), // Kept by the jobs_record_listing_price_setter trigger
   contractorPrice: text('contractor_price'), // Set by admin, visible to contractors only
   notes: text('notes'), // Internal notes, visible to admins only
   createdAt: timestamp('created_at').defaultNow().notNull(),
@@ -156,6 +191,8 @@ export const jobs = pgTable('jobs', {
   index('idx_jobs_status_location').on(table.status, table.locationId),
   index('idx_jobs_contractor_status').on(table.contractorId, table.status).where(sql`contractor_id IS NOT NULL`),
 ]);
+export type Job = typeof jobs.$inferSelect;
+export type NewJob = typeof jobs.$inferInsert;
 
 // Job History Table (Temporal)
 export const jobHistories = pgTable('job_history', {
@@ -180,6 +217,7 @@ export const jobHistories = pgTable('job_history', {
   index('idx_job_history_changed_by').on(table.changedBy),
   index('idx_job_history_status').on(table.status),
 ]);
+export type JobHistory = typeof jobHistories.$inferSelect;
 
 // Files Table (generic)
 export const files = pgTable('files', {
@@ -201,34 +239,71 @@ export const files = pgTable('files', {
   index('idx_files_created_at').on(table.createdAt),
   index('idx_files_bucket').on(table.bucket),
 ]);
+export type FileRecord = typeof files.$inferSelect;
 
 // Contractor Documents Table
 export const contractorDocuments = pgTable('contractor_documents', {
   id: uuid('id').primaryKey().defaultRandom(),
   userId: uuid('user_id').notNull().references(() => users.id).unique(),
-  
+
   // White Card
   whiteCardFrontFileId: uuid('white_card_front_file_id').references(() => files.id),
   whiteCardBackFileId: uuid('white_card_back_file_id').references(() => files.id),
-  
+
   // Driver's License
   licenseFrontFileId: uuid('license_front_file_id').references(() => files.id),
   licenseBackFileId: uuid('license_back_file_id').references(() => files.id),
-  
+
   // Business Information
   abn: text('abn'),
   bsb: text('bsb'),
   accountNumber: text('account_number'),
-  
+
   // Insurance
   insuranceDocumentFileId: uuid('insurance_document_file_id').references(() => files.id),
   insuranceExpiryDate: timestamp('insurance_expiry_date'),
-  
+  // Smallest reminder threshold (in days) already sent for the current expiry date
+  insuranceReminderDays: integer('insurance_reminder_days'),
+
+  // Set once every document is approved; cleared when a document is replaced or rejected
+  verifiedAt: timestamp('verified_at'),
+
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 }, (table) => [
   index('idx_contractor_documents_user_id').on(table.userId),
 ]);
+export type ContractorDocuments = typeof contractorDocuments.$inferSelect;
+
+// Contractor Document Reviews Table
+// One row per required document, reset to pending whenever a new file is uploaded
+export const contractorDocumentTypeEnum = pgEnum('contractor_document_type', [
+  'white_card_front',
+  'white_card_back',
+  'license_front',
+  'license_back',
+  'insurance',
+]);
+export type ContractorDocumentType = typeof contractorDocumentTypeEnum.enumValues[number];
+export const documentReviewStatusEnum = pgEnum('document_review_status', ['pending', 'approved', 'rejected']);
+export type DocumentReviewStatus = typeof documentReviewStatusEnum.enumValues[number];
+
+export const contractorDocumentReviews = pgTable('contractor_document_reviews', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').notNull().references(() => users.id),
+  documentType: contractorDocumentTypeEnum('document_type').notNull(),
+  fileId: uuid('file_id').notNull().references(() => files.id),
+  status: documentReviewStatusEnum('status').default('pending').notNull(),
+  reason: text('reason'), // Required when rejected, shown to the contractor
+  reviewedBy: uuid('reviewed_by').references(() => users.id),
+  reviewedAt: timestamp('reviewed_at'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex('idx_contractor_document_reviews_user_type').on(table.userId, table.documentType),
+  index('idx_contractor_document_reviews_status').on(table.status),
+]);
+export type ContractorDocumentReview = typeof contractorDocumentReviews.$inferSelect;
 
 // Job-Files Linking Table
 export const jobFiles = pgTable('job_files', {
@@ -254,11 +329,15 @@ export const contractorProfiles = pgTable('contractor_profiles', {
   hourlyRate: text('hourly_rate'), // Using text for decimal values
   yearsExperience: bigint('years_experience', { mode: 'number' }),
   serviceRadiusKm: bigint('service_radius_km', { mode: 'number' }),
+  // Where the contractor travels from, for service radius matching
+  baseLatitude: doublePrecision('base_latitude'),
+  baseLongitude: doublePrecision('base_longitude'),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 }, (table) => [
   index('idx_contractor_profiles_user_id').on(table.userId),
 ]);
+export type ContractorProfile = typeof contractorProfiles.$inferSelect;
 
 // Relations (many-to-many, one-to-many, etc.)
 // User-Organisation (many-to-many via UserOrganisations)
@@ -278,29 +357,74 @@ export const notifications = pgTable('notifications', {
   link: text('link'),
   read: boolean('read').notNull().default(false),
   type: text('type'), // 'job_status', 'new_job', 'assignment', etc.
+  // Waiting for the user's daily digest email (see sendNotificationDigests)
+  digestPending: boolean('digest_pending').notNull().default(false),
   createdAt: timestamp('created_at').defaultNow().notNull(),
 }, (table) => [
   index('idx_notifications_user_id').on(table.userId),
   index('idx_notifications_read').on(table.read),
   index('idx_notifications_created_at').on(table.createdAt),
   index('idx_notifications_type').on(table.type),
+  index('idx_notifications_digest_pending').on(table.digestPending),
 ]);
+export type Notification = typeof notifications.$inferSelect;
 
-// User-JobHistory (one-to-many)
-// Job-JobHistory (one-to-many)
-// User-Job (OwnerJobs, ContractorJobs)
-// User-Location (ManagerLocation, many-to-many)
-export const managerLocations = pgTable('manager_locations', {
+// Notification Preferences Table
+// How each user wants each notification type delivered. Types without a row
+// use DEFAULT_NOTIFICATION_DELIVERY (see src/lib/notifications/preferences.ts)
+export const notificationDeliveryEnum = pgEnum('notification_delivery', ['in_app', 'email', 'digest', 'off']);
+export type NotificationDelivery = typeof notificationDeliveryEnum.enumValues[number];
+
+export const notificationPreferences = pgTable('notification_preferences', {
   userId: uuid('user_id').notNull().references(() => users.id),
-  locationId: uuid('location_id').notNull().references(() => locations.id),
+  type: text('type').notNull(),
+  delivery: notificationDeliveryEnum('delivery').notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.userId, table.type] }),
+]);
+export type NotificationPreference = typeof notificationPreferences.$inferSelect;
+
+// Notification Outbox Table
+// Retry queue for in-app notifications and emails that failed to deliver
+// (see src/lib/services/notificationOutbox.ts)
+export const outboxKindEnum = pgEnum('outbox_kind', ['in_app', 'email']);
+export type OutboxKind = typeof outboxKindEnum.enumValues[number];
+export const outboxStatusEnum = pgEnum('outbox_status', ['pending', 'sent', 'dead']);
+export type OutboxStatus = typeof outboxStatusEnum.enumValues[number];
+
+export const notificationOutbox = pgTable('notification_outbox', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  kind: outboxKindEnum('kind').notNull(),
+  status: outboxStatusEnum('status').default('pending').notNull(),
+  userId: uuid('user_id').references(() => users.id),
+  recipient: text('recipient'), // Email address, for email deliveries
+  payload: jsonb('payload').$type<Record<string, unknown>>().notNull(),
+  attempts: integer('attempts').default(0).notNull(),
+  lastError: text('last_error'),
+  nextAttemptAt: timestamp('next_attempt_at').defaultNow().notNull(),
+  sentAt: timestamp('sent_at'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
 }, (table) => [
-  primaryKey({ columns: [table.userId, table.locationId] }),
+  index('idx_notification_outbox_status_next_attempt').on(table.status, table.nextAttemptAt),
 ]);
+export type NotificationOutboxEntry = typeof notificationOutbox.$inferSelect;
 
-// User-Location (ManagerLocation, many-to-many)
+// User-JobHistory (one-to-many)
+// Job-JobHistory (one-to-many)
+// User-Job (OwnerJobs, ContractorJobs)
+// Location-Manager (many-to-many): the managers assigned to each location.
+// Managers only see jobs, files and notifications for their locations.
+// Replaces the old manager_locations table (see supabase/migrations/merge-location-managers.sql)
 export const locationManagers = pgTable('location_managers', {
   locationId: uuid('location_id').notNull().references(() => locations.id),
   managerId: uuid('manager_id').notNull().references(() => users.id),
+  assignedBy: uuid('assigned_by').references(() => users.id),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
 }, (table) => [
   primaryKey({ columns: [table.locationId, table.managerId] }),
-]); 
\ No newline at end of file
+  index('idx_location_managers_manager_id').on(table.managerId),
+]);
+export type LocationManager = typeof locationManagers.$inferSelect;
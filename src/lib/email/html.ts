@@ -0,0 +1,57 @@
+/**
+ * HTML for emails
+ *
+ * `html` is a tagged template that escapes everything interpolated into it
+ * unless it is itself `SafeHtml`, so values like job titles can't break
+ * out of the markup. Nested `html` fragments and arrays of them are kept
+ * as they are.
+ */
+
+export class SafeHtml {
+  constructor(readonly value: string) {}
+
+  toString(): string {
+    return this.value;
+  }
+}
+
+export type HtmlValue = SafeHtml | string | number | boolean | null | undefined | HtmlValue[];
+
+const ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+export function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, char => ESCAPES[char]);
+}
+
+function renderValue(value: HtmlValue): string {
+  if (value instanceof SafeHtml) return value.value;
+  if (Array.isArray(value)) return value.map(renderValue).join('');
+  // Leaves conditional fragments like `${notes && html`...`}` empty
+  if (value === null || value === undefined || value === false) return '';
+  return escapeHtml(String(value));
+}
+
+export function html(strings: TemplateStringsArray, ...values: HtmlValue[]): SafeHtml {
+  return new SafeHtml(strings.reduce((result, string, i) => result + string + (i < values.length ? renderValue(values[i]) : ''), ''));
+}
+
+/**
+ * Mark markup as safe without escaping it. Only for markup we wrote.
+ */
+export function raw(value: string): SafeHtml {
+  return new SafeHtml(value);
+}
+
+/**
+ * A URL for an `href` or `src`, or `#` for anything but http(s) and
+ * mailto links
+ */
+export function safeUrl(url: string): string {
+  return /^(https?:|mailto:|\/)/i.test(url.trim()) ? url.trim() : '#';
+}
@@ -0,0 +1,345 @@
+import { html, SafeHtml, escapeHtml, type HtmlValue } from '@/lib/email/html';
+import type { JobStatus, UserType } from '@/lib/db/schema';
+
+/**
+ * Email strings by locale
+ *
+ * Messages use `{name}` placeholders. Each locale also sets how dates are
+ * written and the time zone they're shown in.
+ */
+
+export const EMAIL_LOCALES = ['en', 'fr'] as const;
+export type EmailLocale = typeof EMAIL_LOCALES[number];
+
+export const DEFAULT_EMAIL_LOCALE: EmailLocale = 'en';
+
+type Plural = { one: string; other: string };
+export type Message = string | Plural;
+
+interface Action {
+  label: string;
+  /** Plain-text version, with a {url} placeholder */
+  text: string;
+}
+
+export interface EmailStrings {
+  dateLocale: string;
+  timeZone: string;
+  common: {
+    title: string;
+    copyright: string;
+    automated: string;
+    job: string;
+    location: string;
+    viewJob: Action;
+  };
+  jobStatus: { subject: string; heading: string; intro: string; newStatus: string };
+  newJob: { subject: string; heading: string; intro: string };
+  jobCompleted: { subject: string; heading: string; intro: string; completedBy: string; notes: string };
+  jobClaimed: { subject: string; heading: string; intro: string; contractor: string; contractorEmail: string };
+  fileUploaded: { subject: string; heading: string; intro: string; file: string; uploadedBy: string };
+  invitation: {
+    subject: string;
+    heading: string;
+    greeting: string;
+    body: string;
+    expiry: string;
+    defaultInviter: string;
+    action: Action;
+  };
+  documentApproved: { subject: string; heading: string; body: string; action: Action };
+  documentRejected: { subject: string; heading: string; body: string; reason: string; instructions: string; action: Action };
+  insuranceExpiring: { subject: Plural; heading: string; body: string; instructions: string; action: Action };
+  insuranceLapsed: { subject: string; heading: string; body: string; instructions: string; action: Action };
+  digest: { subject: Plural; heading: string; intro: string; action: Action };
+  roles: Record<UserType, string>;
+  jobStatuses: Record<JobStatus, string>;
+}
+
+const en: EmailStrings = {
+  dateLocale: 'en-GB',
+  timeZone: 'Europe/London',
+  common: {
+    title: '{brand} Notification',
+    copyright: '© {year} {legalName}. All rights reserved.',
+    automated: 'This is an automated notification. Please do not reply to this email.',
+    job: 'Job',
+    location: 'Location',
+    viewJob: { label: 'View Job Details', text: 'View job details at: {url}' },
+  },
+  jobStatus: {
+    subject: 'Job Status Updated: {job}',
+    heading: 'Job Status Update',
+    intro: 'The status of the following job has been updated:',
+    newStatus: 'New Status',
+  },
+  newJob: {
+    subject: 'New Job Available: {job}',
+    heading: 'New Job Available',
+    intro: 'A new job matching your profile is now available:',
+  },
+  jobCompleted: {
+    subject: 'Job Completed: {job}',
+    heading: 'Job Completed',
+    intro: 'The following job has been marked as complete:',
+    completedBy: 'Completed by',
+    notes: 'Completion Notes',
+  },
+  jobClaimed: {
+    subject: 'Job Claimed: {job}',
+    heading: 'Job Claimed Notification',
+    intro: 'A contractor has claimed the following job:',
+    contractor: 'Contractor',
+    contractorEmail: 'Contractor Email',
+  },
+  fileUploaded: {
+    subject: 'New file uploaded to job: {job}',
+    heading: 'File Upload Notification',
+    intro: 'A new file has been uploaded to the following job:',
+    file: 'File',
+    uploadedBy: 'Uploaded by',
+  },
+  invitation: {
+    subject: "You've been invited to join {brand}",
+    heading: "You're Invited",
+    greeting: 'Hi {name},',
+    body: '{inviter} has invited you to join {brand} as a {role}.',
+    expiry: 'Create your account using the link below. This invitation expires on {date}.',
+    defaultInviter: 'The {brand} team',
+    action: { label: 'Accept Invitation', text: 'Accept the invitation at: {url}' },
+  },
+  documentApproved: {
+    subject: 'Document Approved: {document}',
+    heading: 'Document Approved',
+    body: 'Your {document} has been approved.',
+    action: { label: 'View Your Documents', text: 'View your documents at: {url}' },
+  },
+  documentRejected: {
+    subject: 'Document Rejected: {document}',
+    heading: 'Document Rejected',
+    body: 'Your {document} could not be approved.',
+    reason: 'Reason',
+    instructions: 'Please upload a new copy so we can review it again.',
+    action: { label: 'Upload Again', text: 'Please upload a new copy at: {url}' },
+  },
+  insuranceExpiring: {
+    subject: { one: 'Your insurance expires in {count} day', other: 'Your insurance expires in {count} days' },
+    heading: 'Insurance Expiring Soon',
+    body: 'Your public liability insurance expires on {date}.',
+    instructions: 'Upload your renewed certificate before then to keep claiming jobs without interruption.',
+    action: { label: 'Upload Certificate', text: 'Upload it at: {url}' },
+  },
+  insuranceLapsed: {
+    subject: 'Your insurance has expired',
+    heading: 'Insurance Expired',
+    body: 'Your public liability insurance expired on {date}.',
+    instructions: "You can't claim new jobs until you upload a current certificate and it has been approved.",
+    action: { label: 'Upload Certificate', text: 'Upload it at: {url}' },
+  },
+  digest: {
+    subject: { one: 'Your daily summary: {count} new notification', other: 'Your daily summary: {count} new notifications' },
+    heading: 'Your Daily Summary',
+    intro: "Here's what happened since your last summary:",
+    action: { label: 'View All Notifications', text: 'View all notifications at: {url}' },
+  },
+  roles: {
+    ADMIN: 'Admin',
+    OWNER: 'Owner',
+    MANAGER: 'Manager',
+    CONTRACTOR: 'Contractor',
+  },
+  jobStatuses: {
+    DRAFT: 'Draft',
+    PENDING_REVIEW: 'Pending Review',
+    AVAILABLE: 'Available',
+    CLAIMED: 'Claimed',
+    SUBMITTED: 'Submitted',
+    IN_PROGRESS: 'In Progress',
+    COMPLETED: 'Completed',
+    PAID: 'Paid',
+    ARCHIVED: 'Archived',
+  },
+};
+
+const fr: EmailStrings = {
+  dateLocale: 'fr-FR',
+  timeZone: 'Europe/Paris',
+  common: {
+    title: 'Notification {brand}',
+    copyright: '© {year} {legalName}. Tous droits réservés.',
+    automated: 'Ceci est une notification automatique. Merci de ne pas répondre à cet e-mail.',
+    job: 'Mission',
+    location: 'Lieu',
+    viewJob: { label: 'Voir la mission', text: 'Voir la mission : {url}' },
+  },
+  jobStatus: {
+    subject: 'Statut de mission mis à jour : {job}',
+    heading: 'Mise à jour du statut',
+    intro: 'Le statut de la mission suivante a été mis à jour :',
+    newStatus: 'Nouveau statut',
+  },
+  newJob: {
+    subject: 'Nouvelle mission disponible : {job}',
+    heading: 'Nouvelle mission disponible',
+    intro: 'Une nouvelle mission correspondant à votre profil est disponible :',
+  },
+  jobCompleted: {
+    subject: 'Mission terminée : {job}',
+    heading: 'Mission terminée',
+    intro: 'La mission suivante a été marquée comme terminée :',
+    completedBy: 'Réalisée par',
+    notes: 'Notes de fin',
+  },
+  jobClaimed: {
+    subject: 'Mission acceptée : {job}',
+    heading: 'Mission acceptée',
+    intro: 'Un prestataire a accepté la mission suivante :',
+    contractor: 'Prestataire',
+    contractorEmail: 'E-mail du prestataire',
+  },
+  fileUploaded: {
+    subject: 'Nouveau fichier ajouté à la mission : {job}',
+    heading: 'Nouveau fichier',
+    intro: 'Un nouveau fichier a été ajouté à la mission suivante :',
+    file: 'Fichier',
+    uploadedBy: 'Ajouté par',
+  },
+  invitation: {
+    subject: 'Vous êtes invité à rejoindre {brand}',
+    heading: 'Vous êtes invité',
+    greeting: 'Bonjour {name},',
+    body: '{inviter} vous invite à rejoindre {brand} en tant que {role}.',
+    expiry: 'Créez votre compte avec le lien ci-dessous. Cette invitation expire le {date}.',
+    defaultInviter: "L'équipe {brand}",
+    action: { label: "Accepter l'invitation", text: "Accepter l'invitation : {url}" },
+  },
+  documentApproved: {
+    subject: 'Document approuvé : {document}',
+    heading: 'Document approuvé',
+    body: 'Votre document « {document} » a été approuvé.',
+    action: { label: 'Voir vos documents', text: 'Voir vos documents : {url}' },
+  },
+  documentRejected: {
+    subject: 'Document refusé : {document}',
+    heading: 'Document refusé',
+    body: "Votre document « {document} » n'a pas pu être approuvé.",
+    reason: 'Motif',
+    instructions: 'Merci de téléverser une nouvelle copie afin que nous puissions la vérifier à nouveau.',
+    action: { label: 'Téléverser à nouveau', text: 'Téléversez une nouvelle copie : {url}' },
+  },
+  insuranceExpiring: {
+    subject: { one: 'Votre assurance expire dans {count} jour', other: 'Votre assurance expire dans {count} jours' },
+    heading: 'Assurance bientôt expirée',
+    body: 'Votre assurance responsabilité civile expire le {date}.',
+    instructions: "Téléversez votre attestation renouvelée avant cette date pour continuer à accepter des missions sans interruption.",
+    action: { label: "Téléverser l'attestation", text: "Téléversez-la ici : {url}" },
+  },
+  insuranceLapsed: {
+    subject: 'Votre assurance a expiré',
+    heading: 'Assurance expirée',
+    body: 'Votre assurance responsabilité civile a expiré le {date}.',
+    instructions: "Vous ne pouvez plus accepter de missions tant qu'une attestation valide n'a pas été téléversée et approuvée.",
+    action: { label: "Téléverser l'attestation", text: "Téléversez-la ici : {url}" },
+  },
+  digest: {
+    subject: { one: 'Votre résumé du jour : {count} nouvelle notification', other: 'Votre résumé du jour : {count} nouvelles notifications' },
+    heading: 'Votre résumé du jour',
+    intro: "Voici ce qui s'est passé depuis votre dernier résumé :",
+    action: { label: 'Voir toutes les notifications', text: 'Voir toutes les notifications : {url}' },
+  },
+  roles: {
+    ADMIN: 'administrateur',
+    OWNER: 'propriétaire',
+    MANAGER: 'gestionnaire',
+    CONTRACTOR: 'prestataire',
+  },
+  jobStatuses: {
+    DRAFT: 'Brouillon',
+    PENDING_REVIEW: 'En attente de validation',
+    AVAILABLE: 'Disponible',
+    CLAIMED: 'Acceptée',
+    SUBMITTED: 'Soumise',
+    IN_PROGRESS: 'En cours',
+    COMPLETED: 'Terminée',
+    PAID: 'Payée',
+    ARCHIVED: 'Archivée',
+  },
+};
+
+const STRINGS: Record<EmailLocale, EmailStrings> = { en, fr };
+
+export function isEmailLocale(value: unknown): value is EmailLocale {
+  return typeof value === 'string' && (EMAIL_LOCALES as readonly string[]).includes(value);
+}
+
+/**
+ * The supported locale for a language tag such as `fr-BE`, falling back to
+ * EMAIL_LOCALE and then English
+ */
+export function resolveEmailLocale(tag?: string | null): EmailLocale {
+  for (const candidate of [tag, process.env.EMAIL_LOCALE]) {
+    const language = candidate?.toLowerCase().split(/[-_]/)[0];
+    if (isEmailLocale(language)) return language;
+  }
+  return DEFAULT_EMAIL_LOCALE;
+}
+
+type Values = Record<string, HtmlValue>;
+
+function pick(message: Message, values: Values, pluralRules: Intl.PluralRules): string {
+  if (typeof message === 'string') return message;
+  return pluralRules.select(Number(values.count)) === 'one' ? message.one : message.other;
+}
+
+/**
+ * Strings and formatting for one locale
+ *
+ * `text` fills placeholders as they are; `html` escapes the message and its
+ * values, keeping values that are already `SafeHtml` (e.g. `<strong>`).
+ */
+export function createTranslator(locale: EmailLocale) {
+  const strings = STRINGS[locale];
+  const pluralRules = new Intl.PluralRules(strings.dateLocale);
+
+  return {
+    locale,
+    strings,
+    text(message: Message, values: Values = {}): string {
+      return pick(message, values, pluralRules).replace(/\{(\w+)\}/g, (match, key: string) =>
+        key in values ? String(values[key] ?? '') : match
+      );
+    },
+    html(message: Message, values: Values = {}): SafeHtml {
+      const parts = pick(message, values, pluralRules).split(/\{(\w+)\}/);
+      // Odd parts are placeholder names
+      return html`${parts.map((part, i) =>
+        i % 2 === 0 ? new SafeHtml(escapeHtml(part)) : part in values ? html`${values[part]}` : `{${part}}`
+      )}`;
+    },
+    date(value: Date | string): string {
+      return new Date(value).toLocaleDateString(strings.dateLocale, {
+        day: 'numeric',
+        month: 'long',
+        year: 'numeric',
+        timeZone: strings.timeZone,
+      });
+    },
+    dateTime(value: Date | string): string {
+      return new Date(value).toLocaleString(strings.dateLocale, {
+        day: 'numeric',
+        month: 'short',
+        hour: '2-digit',
+        minute: '2-digit',
+        timeZone: strings.timeZone,
+      });
+    },
+    role(type: string): string {
+      return strings.roles[type as UserType] ?? type;
+    },
+    jobStatus(status: string): string {
+      return strings.jobStatuses[status as JobStatus] ?? status;
+    },
+  };
+}
+
+export type EmailTranslator = ReturnType<typeof createTranslator>;
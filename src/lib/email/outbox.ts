@@ -0,0 +1,101 @@
+import { randomUUID } from 'node:crypto';
+import { mkdir, readdir, readFile, rm, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { EmailMessage, EmailTransport } from '@/lib/email/transport';
+
+/**
+ * Local outboxes
+ *
+ * Transports that keep messages instead of sending them, so notification
+ * flows can be tried out and tested without an email service. The file
+ * outbox survives restarts and is what /dev/outbox shows.
+ */
+
+export interface OutboxMessage extends EmailMessage {
+  id: string;
+  sentAt: string;
+}
+
+export interface Outbox extends EmailTransport {
+  /** Newest first */
+  list(): Promise<OutboxMessage[]>;
+  get(id: string): Promise<OutboxMessage | null>;
+  clear(): Promise<void>;
+}
+
+export const DEFAULT_OUTBOX_DIR = '.outbox';
+
+const newestFirst = (a: OutboxMessage, b: OutboxMessage) => b.sentAt.localeCompare(a.sentAt);
+
+const toOutboxMessage = (message: EmailMessage): OutboxMessage => ({
+  id: randomUUID(),
+  sentAt: new Date().toISOString(),
+  to: message.to,
+  subject: message.subject,
+  html: message.html,
+  text: message.text,
+});
+
+export function createMemoryOutbox(): Outbox {
+  let messages: OutboxMessage[] = [];
+
+  return {
+    name: 'memory',
+    async send(message) {
+      messages.push(toOutboxMessage(message));
+    },
+    async list() {
+      return [...messages].sort(newestFirst);
+    },
+    async get(id) {
+      return messages.find(message => message.id === id) ?? null;
+    },
+    async clear() {
+      messages = [];
+    },
+  };
+}
+
+/**
+ * Outbox that writes each message to its own JSON file in `directory`
+ * (relative to the working directory)
+ */
+export function createFileOutbox(directory: string = DEFAULT_OUTBOX_DIR): Outbox {
+  const root = path.resolve(directory);
+  // IDs are UUIDs we generated; anything else can't name a file in the outbox
+  const fileFor = (id: string) => /^[0-9a-f-]{36}$/i.test(id) ? path.join(root, `${id}.json`) : null;
+
+  const readMessage = async (file: string): Promise<OutboxMessage | null> => {
+    try {
+      return JSON.parse(await readFile(file, 'utf8')) as OutboxMessage;
+    } catch {
+      return null;
+    }
+  };
+
+  return {
+    name: 'outbox',
+    async send(message) {
+      const stored = toOutboxMessage(message);
+      await mkdir(root, { recursive: true });
+      await writeFile(fileFor(stored.id)!, JSON.stringify(stored, null, 2));
+    },
+    async list() {
+      let files: string[];
+      try {
+        files = (await readdir(root)).filter(file => file.endsWith('.json'));
+      } catch {
+        return [];
+      }
+      const messages = await Promise.all(files.map(file => readMessage(path.join(root, file))));
+      return messages.filter((message): message is OutboxMessage => !!message).sort(newestFirst);
+    },
+    async get(id) {
+      const file = fileFor(id);
+      return file ? readMessage(file) : null;
+    },
+    async clear() {
+      await rm(root, { recursive: true, force: true });
+    },
+  };
+}
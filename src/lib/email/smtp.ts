@@ -0,0 +1,237 @@
+import { randomUUID } from 'node:crypto';
+import net from 'node:net';
+import tls from 'node:tls';
+import { NetworkError } from '@/types/errors';
+import type { EmailMessage, EmailTransport } from '@/lib/email/transport';
+
+/**
+ * Minimal SMTP client
+ *
+ * Enough of RFC 5321 to hand a message to a relay or a local catcher such as
+ * Mailpit: implicit TLS or STARTTLS, AUTH PLAIN (only over an encrypted
+ * connection unless allowed) and a multipart text/HTML body.
+ */
+
+export interface SmtpOptions {
+  host: string;
+  /** Defaults to 465 when `secure`, otherwise 587 */
+  port?: number;
+  /** Connect over TLS from the start; otherwise STARTTLS is used if offered */
+  secure?: boolean;
+  user?: string;
+  password?: string;
+  /**
+   * Send credentials even when the connection isn't encrypted (the server
+   * offered no STARTTLS); otherwise sending is refused
+   */
+  allowInsecureAuth?: boolean;
+  /** Sender, e.g. `Tofil <no-reply@example.com>` */
+  from: string;
+  timeoutMs?: number;
+}
+
+interface SmtpReply {
+  code: number;
+  message: string;
+}
+
+// Reads SMTP replies, joining multi-line replies (`250-...` then `250 ...`)
+function createReplyReader(socket: net.Socket) {
+  let buffer = '';
+  let lines: string[] = [];
+  const replies: SmtpReply[] = [];
+  const waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void }[] = [];
+  let failure: Error | null = null;
+
+  const onData = (chunk: Buffer) => {
+    buffer += chunk.toString('utf8');
+    let index: number;
+    while ((index = buffer.indexOf('\r\n')) !== -1) {
+      const line = buffer.slice(0, index);
+      buffer = buffer.slice(index + 2);
+      lines.push(line);
+      if (line.charAt(3) !== '-') {
+        const reply = { code: Number(line.slice(0, 3)), message: lines.map(l => l.slice(4)).join('\n') };
+        lines = [];
+        const next = waiting.shift();
+        if (next) next.resolve(reply);
+        else replies.push(reply);
+      }
+    }
+  };
+  const onFailure = (error?: Error) => {
+    failure = error ?? new Error('Connection closed');
+    waiting.splice(0).forEach(({ reject }) => reject(failure!));
+  };
+  const onClose = () => onFailure();
+
+  socket.on('data', onData);
+  socket.on('error', onFailure);
+  socket.on('close', onClose);
+
+  return {
+    read(): Promise<SmtpReply> {
+      const reply = replies.shift();
+      if (reply) return Promise.resolve(reply);
+      if (failure) return Promise.reject(failure);
+      return new Promise((resolve, reject) => waiting.push({ resolve, reject }));
+    },
+    dispose() {
+      socket.off('data', onData);
+      socket.off('error', onFailure);
+      socket.off('close', onClose);
+    },
+  };
+}
+
+// Header values can't contain line breaks, or they could add headers
+const headerValue = (value: string) => value.replace(/[\r\n]+/g, ' ').trim();
+
+const encodeHeader = (value: string) =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+
+const encodeBody = (value: string) =>
+  Buffer.from(value, 'utf8').toString('base64').replace(/.{1,76}/g, '$&\r\n');
+
+/**
+ * The address inside `Name <address>`, or the value itself
+ */
+export function getAddress(mailbox: string): string {
+  const match = mailbox.match(/<([^<>]+)>\s*$/);
+  return (match ? match[1] : mailbox).trim();
+}
+
+/**
+ * Render a message as RFC 5322 text with text and HTML alternatives
+ */
+export function buildMimeMessage(message: EmailMessage, from: string, date: Date = new Date()): string {
+  const boundary = `boundary-${randomUUID()}`;
+  const domain = getAddress(from).split('@')[1] || 'localhost';
+
+  return [
+    `From: ${headerValue(from)}`,
+    `To: ${headerValue(message.to)}`,
+    `Subject: ${encodeHeader(headerValue(message.subject))}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBody(message.text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBody(message.html),
+    `--${boundary}--`,
+    '',
+  ].join('\r\n');
+}
+
+function connect(host: string, port: number, secure: boolean, timeoutMs: number): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = secure
+      ? tls.connect({ host, port, servername: host })
+      : net.connect({ host, port });
+    socket.setTimeout(timeoutMs, () => socket.destroy(new Error('Connection timed out')));
+    socket.once(secure ? 'secureConnect' : 'connect', () => {
+      socket.off('error', reject);
+      resolve(socket);
+    });
+    socket.once('error', reject);
+  });
+}
+
+function upgradeToTls(socket: net.Socket, host: string, timeoutMs: number): Promise<tls.TLSSocket> {
+  return new Promise((resolve, reject) => {
+    const secureSocket = tls.connect({ socket, servername: host });
+    secureSocket.setTimeout(timeoutMs, () => secureSocket.destroy(new Error('Connection timed out')));
+    secureSocket.once('secureConnect', () => {
+      secureSocket.off('error', reject);
+      resolve(secureSocket);
+    });
+    secureSocket.once('error', reject);
+  });
+}
+
+export function createSmtpTransport({
+  host,
+  secure,
+  port,
+  user,
+  password,
+  allowInsecureAuth = false,
+  from,
+  timeoutMs = 10_000,
+}: SmtpOptions): EmailTransport {
+  const useTls = secure ?? port === 465;
+  const resolvedPort = port ?? (useTls ? 465 : 587);
+  const clientName = getAddress(from).split('@')[1] || 'localhost';
+
+  return {
+    name: 'smtp',
+    async send(message) {
+      const recipient = getAddress(message.to);
+      if (!recipient || /[\r\n<>]/.test(recipient)) {
+        throw new NetworkError(`Invalid recipient address: ${message.to}`);
+      }
+
+      let socket: net.Socket | null = null;
+      try {
+        socket = await connect(host, resolvedPort, useTls, timeoutMs);
+        let reader = createReplyReader(socket);
+
+        // Errors name the command by its verb so credentials and message
+        // bodies don't end up in logs
+        const command = async (line: string | null, expected: number[], label = line?.split(' ')[0] ?? 'greeting') => {
+          if (line !== null) socket!.write(`${line}\r\n`);
+          const reply = await reader.read();
+          if (!expected.includes(reply.code)) {
+            throw new Error(`${label} failed: ${reply.code} ${reply.message}`);
+          }
+          return reply;
+        };
+
+        await command(null, [220]);
+        const hello = await command(`EHLO ${clientName}`, [250]);
+        let encrypted = useTls;
+
+        if (!useTls && /^STARTTLS\b/im.test(hello.message)) {
+          await command('STARTTLS', [220]);
+          reader.dispose();
+          socket = await upgradeToTls(socket, host, timeoutMs);
+          reader = createReplyReader(socket);
+          await command(`EHLO ${clientName}`, [250]);
+          encrypted = true;
+        }
+
+        if (user) {
+          if (!encrypted && !allowInsecureAuth) {
+            throw new Error(
+              'AUTH refused: the server did not offer STARTTLS, so credentials would be sent unencrypted ' +
+              '(set SMTP_ALLOW_INSECURE_AUTH=true to allow this)'
+            );
+          }
+          const credentials = Buffer.from(`\0${user}\0${password ?? ''}`, 'utf8').toString('base64');
+          await command(`AUTH PLAIN ${credentials}`, [235]);
+        }
+
+        await command(`MAIL FROM:<${getAddress(from)}>`, [250]);
+        await command(`RCPT TO:<${recipient}>`, [250, 251]);
+        await command('DATA', [354]);
+        // Lines starting with a dot are escaped by doubling it
+        const body = buildMimeMessage(message, from).replace(/^\./gm, '..');
+        await command(`${body}.`, [250], 'message');
+        await command('QUIT', [221]).catch(() => undefined);
+      } catch (error) {
+        throw new NetworkError(`Sending email over SMTP failed: ${(error as Error).message}`, error as Error);
+      } finally {
+        socket?.destroy();
+      }
+    },
+  };
+}
@@ -1,105 +1,153 @@
+import { html, safeUrl, type SafeHtml } from '@/lib/email/html';
+import { createTranslator, resolveEmailLocale, type EmailTranslator } from '@/lib/email/locales';
+import { getEmailTheme, type EmailTheme } from '@/lib/email/theme';
+
+/**
+ * Email templates
+ *
+ * Each template returns an HTML and a plain-text version. HTML is built
+ * with the `html` tag, so interpolated values are escaped; strings come
+ * from the locale (see locales.ts) and branding from themeConfig.
+ */
+
 export interface EmailTemplate {
   subject: string;
   html: string;
   text: string;
 }
 
-export function getBaseTemplate(content: string): string {
-  return `
-<!DOCTYPE html>
-<html>
+export interface EmailTemplateOptions {
+  /** A supported locale or a language tag such as `fr-FR`; defaults to EMAIL_LOCALE */
+  locale?: string | null;
+  theme?: EmailTheme;
+}
+
+interface EmailContext {
+  t: EmailTranslator;
+  theme: EmailTheme;
+}
+
+const getContext = ({ locale, theme }: EmailTemplateOptions): EmailContext => ({
+  t: createTranslator(resolveEmailLocale(locale)),
+  theme: theme ?? getEmailTheme(),
+});
+
+export function getBaseTemplate(content: SafeHtml, options: EmailTemplateOptions = {}): string {
+  const { t, theme } = getContext(options);
+  const { colors } = theme;
+  const year = new Date().getFullYear();
+
+  return html`<!DOCTYPE html>
+<html lang="${t.locale}">
 <head>
   <meta charset="utf-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>Tofil Notification</title>
+  <title>${t.text(t.strings.common.title, { brand: theme.name })}</title>
   <style>
-    body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; }
+    body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: ${colors.text}; }
     .container { max-width: 600px; margin: 0 auto; padding: 20px; }
-    .header { background-color: #0066cc; color: white; padding: 20px; text-align: center; border-radius: 8px 8px 0 0; }
-    .content { background-color: #f9f9f9; padding: 30px; border: 1px solid #ddd; border-radius: 0 0 8px 8px; }
-    .button { display: inline-block; padding: 12px 24px; background-color: #0066cc; color: white; text-decoration: none; border-radius: 5px; margin-top: 20px; }
-    .footer { margin-top: 30px; text-align: center; color: #666; font-size: 14px; }
+    .header { background-color: ${colors.primary}; color: ${colors.primaryForeground}; padding: 20px; text-align: center; border-radius: 8px 8px 0 0; }
+    .header img { max-height: 48px; }
+    .content { background-color: ${colors.background}; padding: 30px; border: 1px solid ${colors.border}; border-radius: 0 0 8px 8px; }
+    .button { display: inline-block; padding: 12px 24px; background-color: ${colors.primary}; color: ${colors.primaryForeground}; text-decoration: none; border-radius: 5px; margin-top: 20px; }
+    .muted { color: ${colors.muted}; }
+    .footer { margin-top: 30px; text-align: center; color: ${colors.muted}; font-size: 14px; }
   </style>
 </head>
 <body>
   <div class="container">
     <div class="header">
-      <h1>Tofil</h1>
+      ${theme.logoUrl ? html`<img src="${safeUrl(theme.logoUrl)}" alt="${theme.name}">` : html`<h1>${theme.name}</h1>`}
     </div>
     <div class="content">
-      ${content}
+${content}
     </div>
     <div class="footer">
-      <p>© 2024 Tofil Group. All rights reserved.</p>
-      <p>This is an automated notification. Please do not reply to this email.</p>
+      <p>${t.text(t.strings.common.copyright, { year, legalName: theme.legalName })}</p>
+      <p>${t.strings.common.automated}</p>
     </div>
   </div>
 </body>
 </html>
-  `;
+`.value;
+}
+
+// Plain-text body: lines joined with line breaks, skipping null and false
+// so optional lines can be written inline
+function getTextTemplate(lines: (string | null | false)[], { t }: EmailContext): string {
+  return [...lines, '', '--', t.strings.common.automated]
+    .filter((line): line is string => typeof line === 'string')
+    .join('\n');
 }
 
+const detail = (label: string, value: string) => html`<p><strong>${label}:</strong> ${value}</p>`;
+
+const button = (label: string, url: string) => html`<a href="${safeUrl(url)}" class="button">${label}</a>`;
+
+const strong = (value: string) => html`<strong>${value}</strong>`;
+
 export function jobStatusChangeEmail(
   jobTitle: string,
   newStatus: string,
-  jobUrl: string
+  jobUrl: string,
+  options: EmailTemplateOptions = {}
 ): EmailTemplate {
-  const subject = `Job Status Updated: ${jobTitle}`;
-  
-  const htmlContent = `
-    <h2>Job Status Update</h2>
-    <p>The status of the following job has been updated:</p>
-    <p><strong>Job:</strong> ${jobTitle}</p>
-    <p><strong>New Status:</strong> ${newStatus}</p>
-    <a href="${jobUrl}" class="button">View Job Details</a>
-  `;
-  
-  const textContent = `
-Job Status Update
-
-The status of the following job has been updated:
-Job: ${jobTitle}
-New Status: ${newStatus}
-
-View job details at: ${jobUrl}
-  `;
-  
+  const context = getContext(options);
+  const { t } = context;
+  const strings = t.strings.jobStatus;
+  const status = t.jobStatus(newStatus);
+
+  const htmlContent = html`
+      <h2>${strings.heading}</h2>
+      <p>${strings.intro}</p>
+      ${detail(t.strings.common.job, jobTitle)}
+      ${detail(strings.newStatus, status)}
+      ${button(t.strings.common.viewJob.label, jobUrl)}`;
+
   return {
-    subject,
-    html: getBaseTemplate(htmlContent),
-    text: textContent
+    subject: t.text(strings.subject, { job: jobTitle }),
+    html: getBaseTemplate(htmlContent, options),
+    text: getTextTemplate([
+      strings.heading,
+      '',
+      strings.intro,
+      `${t.strings.common.job}: ${jobTitle}`,
+      `${strings.newStatus}: ${status}`,
+      '',
+      t.text(t.strings.common.viewJob.text, { url: jobUrl }),
+    ], context),
   };
 }
 
 export function newJobAvailableEmail(
   jobTitle: string,
   location: string,
-  jobUrl: string
+  jobUrl: string,
+  options: EmailTemplateOptions = {}
 ): EmailTemplate {
-  const subject = `New Job Available: ${jobTitle}`;
-  
-  const htmlContent = `
-    <h2>New Job Available</h2>
-    <p>A new job matching your profile is now available:</p>
-    <p><strong>Job:</strong> ${jobTitle}</p>
-    <p><strong>Location:</strong> ${location}</p>
-    <a href="${jobUrl}" class="button">View Job Details</a>
-  `;
-  
-  const textContent = `
-New Job Available
-
-A new job matching your profile is now available:
-Job: ${jobTitle}
-Location: ${location}
-
-View job details at: ${jobUrl}
-  `;
-  
+  const context = getContext(options);
+  const { t } = context;
+  const strings = t.strings.newJob;
+
+  const htmlContent = html`
+      <h2>${strings.heading}</h2>
+      <p>${strings.intro}</p>
+      ${detail(t.strings.common.job, jobTitle)}
+      ${detail(t.strings.common.location, location)}
+      ${button(t.strings.common.viewJob.label, jobUrl)}`;
+
   return {
-    subject,
-    html: getBaseTemplate(htmlContent),
-    text: textContent
+    subject: t.text(strings.subject, { job: jobTitle }),
+    html: getBaseTemplate(htmlContent, options),
+    text: getTextTemplate([
+      strings.heading,
+      '',
+      strings.intro,
+      `${t.strings.common.job}: ${jobTitle}`,
+      `${t.strings.common.location}: ${location}`,
+      '',
+      t.text(t.strings.common.viewJob.text, { url: jobUrl }),
+    ], context),
   };
 }
 
@@ -107,34 +155,34 @@ export function jobCompletedEmail(
   jobTitle: string,
   contractorName: string,
   completionNotes: string | null,
-  jobUrl: string
+  jobUrl: string,
+  options: EmailTemplateOptions = {}
 ): EmailTemplate {
-  const subject = `Job Completed: ${jobTitle}`;
-  
-  const htmlContent = `
-    <h2>Job Completed</h2>
-    <p>The following job has been marked as complete:</p>
-    <p><strong>Job:</strong> ${jobTitle}</p>
-    <p><strong>Completed by:</strong> ${contractorName}</p>
-    ${completionNotes ? `<p><strong>Completion Notes:</strong> ${completionNotes}</p>` : ''}
-    <a href="${jobUrl}" class="button">View Job Details</a>
-  `;
-  
-  const textContent = `
-Job Completed
-
-The following job has been marked as complete:
-Job: ${jobTitle}
-Completed by: ${contractorName}
-${completionNotes ? `Completion Notes: ${completionNotes}` : ''}
-
-View job details at: ${jobUrl}
-  `;
-  
+  const context = getContext(options);
+  const { t } = context;
+  const strings = t.strings.jobCompleted;
+
+  const htmlContent = html`
+      <h2>${strings.heading}</h2>
+      <p>${strings.intro}</p>
+      ${detail(t.strings.common.job, jobTitle)}
+      ${detail(strings.completedBy, contractorName)}
+      ${completionNotes && detail(strings.notes, completionNotes)}
+      ${button(t.strings.common.viewJob.label, jobUrl)}`;
+
   return {
-    subject,
-    html: getBaseTemplate(htmlContent),
-    text: textContent
+    subject: t.text(strings.subject, { job: jobTitle }),
+    html: getBaseTemplate(htmlContent, options),
+    text: getTextTemplate([
+      strings.heading,
+      '',
+      strings.intro,
+      `${t.strings.common.job}: ${jobTitle}`,
+      `${strings.completedBy}: ${contractorName}`,
+      !!completionNotes && `${strings.notes}: ${completionNotes}`,
+      '',
+      t.text(t.strings.common.viewJob.text, { url: jobUrl }),
+    ], context),
   };
 }
 
@@ -143,35 +191,270 @@ export function jobClaimedEmail(
   contractorName: string,
   contractorEmail: string,
   location: string,
-  jobUrl: string
+  jobUrl: string,
+  options: EmailTemplateOptions = {}
+): EmailTemplate {
+  const context = getContext(options);
+  const { t } = context;
+  const strings = t.strings.jobClaimed;
+
+  const htmlContent = html`
+      <h2>${strings.heading}</h2>
+      <p>${strings.intro}</p>
+      ${detail(t.strings.common.job, jobTitle)}
+      ${detail(t.strings.common.location, location)}
+      ${detail(strings.contractor, contractorName)}
+      ${detail(strings.contractorEmail, contractorEmail)}
+      ${button(t.strings.common.viewJob.label, jobUrl)}`;
+
+  return {
+    subject: t.text(strings.subject, { job: jobTitle }),
+    html: getBaseTemplate(htmlContent, options),
+    text: getTextTemplate([
+      strings.heading,
+      '',
+      strings.intro,
+      `${t.strings.common.job}: ${jobTitle}`,
+      `${t.strings.common.location}: ${location}`,
+      `${strings.contractor}: ${contractorName}`,
+      `${strings.contractorEmail}: ${contractorEmail}`,
+      '',
+      t.text(t.strings.common.viewJob.text, { url: jobUrl }),
+    ], context),
+  };
+}
+
+export function fileUploadedEmail(
+  jobTitle: string,
+  fileName: string,
+  contractorName: string,
+  jobUrl: string,
+  options: EmailTemplateOptions = {}
 ): EmailTemplate {
-  const subject = `Job Claimed: ${jobTitle}`;
-  
-  const htmlContent = `
-    <h2>Job Claimed Notification</h2>
-    <p>A contractor has claimed the following job:</p>
-    <p><strong>Job:</strong> ${jobTitle}</p>
-    <p><strong>Location:</strong> ${location}</p>
-    <p><strong>Contractor:</strong> ${contractorName}</p>
-    <p><strong>Contractor Email:</strong> ${contractorEmail}</p>
-    <a href="${jobUrl}" class="button">View Job Details</a>
-  `;
-  
-  const textContent = `
-Job Claimed Notification
-
-A contractor has claimed the following job:
-Job: ${jobTitle}
-Location: ${location}
-Contractor: ${contractorName}
-Contractor Email: ${contractorEmail}
-
-View job details at: ${jobUrl}
-  `;
-  
+  const context = getContext(options);
+  const { t } = context;
+  const strings = t.strings.fileUploaded;
+
+  const htmlContent = html`
+      <h2>${strings.heading}</h2>
+      <p>${strings.intro}</p>
+      ${detail(t.strings.common.job, jobTitle)}
+      ${detail(strings.file, fileName)}
+      ${detail(strings.uploadedBy, contractorName)}
+      ${button(t.strings.common.viewJob.label, jobUrl)}`;
+
   return {
-    subject,
-    html: getBaseTemplate(htmlContent),
-    text: textContent
+    subject: t.text(strings.subject, { job: jobTitle }),
+    html: getBaseTemplate(htmlContent, options),
+    text: getTextTemplate([
+      strings.heading,
+      '',
+      strings.intro,
+      `${t.strings.common.job}: ${jobTitle}`,
+      `${strings.file}: ${fileName}`,
+      `${strings.uploadedBy}: ${contractorName}`,
+      '',
+      t.text(t.strings.common.viewJob.text, { url: jobUrl }),
+    ], context),
   };
-} 
\ No newline at end of file
+}
+
+export function userInvitationEmail(
+  name: string,
+  inviterName: string | null,
+  userType: string,
+  inviteUrl: string,
+  expiresAt: Date,
+  options: EmailTemplateOptions = {}
+): EmailTemplate {
+  const context = getContext(options);
+  const { t, theme } = context;
+  const strings = t.strings.invitation;
+  const inviter = inviterName || t.text(strings.defaultInviter, { brand: theme.name });
+  const role = t.role(userType);
+  const expiry = t.date(expiresAt);
+
+  const htmlContent = html`
+      <h2>${strings.heading}</h2>
+      <p>${t.text(strings.greeting, { name })}</p>
+      <p>${t.html(strings.body, { inviter, brand: theme.name, role: strong(role) })}</p>
+      <p>${t.text(strings.expiry, { date: expiry })}</p>
+      ${button(strings.action.label, inviteUrl)}`;
+
+  return {
+    subject: t.text(strings.subject, { brand: theme.name }),
+    html: getBaseTemplate(htmlContent, options),
+    text: getTextTemplate([
+      strings.heading,
+      '',
+      t.text(strings.greeting, { name }),
+      '',
+      t.text(strings.body, { inviter, brand: theme.name, role }),
+      t.text(strings.expiry, { date: expiry }),
+      '',
+      t.text(strings.action.text, { url: inviteUrl }),
+    ], context),
+  };
+}
+
+export function documentReviewedEmail(
+  documentLabel: string,
+  approved: boolean,
+  reason: string | null,
+  onboardingUrl: string,
+  options: EmailTemplateOptions = {}
+): EmailTemplate {
+  const context = getContext(options);
+  const { t } = context;
+
+  if (approved) {
+    const strings = t.strings.documentApproved;
+    const htmlContent = html`
+      <h2>${strings.heading}</h2>
+      <p>${t.html(strings.body, { document: strong(documentLabel) })}</p>
+      ${button(strings.action.label, onboardingUrl)}`;
+
+    return {
+      subject: t.text(strings.subject, { document: documentLabel }),
+      html: getBaseTemplate(htmlContent, options),
+      text: getTextTemplate([
+        strings.heading,
+        '',
+        t.text(strings.body, { document: documentLabel }),
+        '',
+        t.text(strings.action.text, { url: onboardingUrl }),
+      ], context),
+    };
+  }
+
+  const strings = t.strings.documentRejected;
+  const htmlContent = html`
+      <h2>${strings.heading}</h2>
+      <p>${t.html(strings.body, { document: strong(documentLabel) })}</p>
+      ${reason && detail(strings.reason, reason)}
+      <p>${strings.instructions}</p>
+      ${button(strings.action.label, onboardingUrl)}`;
+
+  return {
+    subject: t.text(strings.subject, { document: documentLabel }),
+    html: getBaseTemplate(htmlContent, options),
+    text: getTextTemplate([
+      strings.heading,
+      '',
+      t.text(strings.body, { document: documentLabel }),
+      !!reason && `${strings.reason}: ${reason}`,
+      '',
+      t.text(strings.action.text, { url: onboardingUrl }),
+    ], context),
+  };
+}
+
+export function insuranceExpiringEmail(
+  daysLeft: number,
+  expiresAt: Date,
+  onboardingUrl: string,
+  options: EmailTemplateOptions = {}
+): EmailTemplate {
+  const context = getContext(options);
+  const { t } = context;
+  const strings = t.strings.insuranceExpiring;
+  const expiry = t.date(expiresAt);
+
+  const htmlContent = html`
+      <h2>${strings.heading}</h2>
+      <p>${t.html(strings.body, { date: strong(expiry) })}</p>
+      <p>${strings.instructions}</p>
+      ${button(strings.action.label, onboardingUrl)}`;
+
+  return {
+    subject: t.text(strings.subject, { count: daysLeft }),
+    html: getBaseTemplate(htmlContent, options),
+    text: getTextTemplate([
+      strings.heading,
+      '',
+      t.text(strings.body, { date: expiry }),
+      strings.instructions,
+      '',
+      t.text(strings.action.text, { url: onboardingUrl }),
+    ], context),
+  };
+}
+
+export function insuranceLapsedEmail(
+  expiredAt: Date,
+  onboardingUrl: string,
+  options: EmailTemplateOptions = {}
+): EmailTemplate {
+  const context = getContext(options);
+  const { t } = context;
+  const strings = t.strings.insuranceLapsed;
+  const expiry = t.date(expiredAt);
+
+  const htmlContent = html`
+      <h2>${strings.heading}</h2>
+      <p>${t.html(strings.body, { date: strong(expiry) })}</p>
+      <p>${strings.instructions}</p>
+      ${button(strings.action.label, onboardingUrl)}`;
+
+  return {
+    subject: strings.subject,
+    html: getBaseTemplate(htmlContent, options),
+    text: getTextTemplate([
+      strings.heading,
+      '',
+      t.text(strings.body, { date: expiry }),
+      strings.instructions,
+      '',
+      t.text(strings.action.text, { url: onboardingUrl }),
+    ], context),
+  };
+}
+
+export interface DigestEmailItem {
+  title: string;
+  message: string;
+  url?: string | null;
+  createdAt: Date | string;
+}
+
+export function notificationDigestEmail(
+  items: DigestEmailItem[],
+  notificationsUrl: string,
+  options: EmailTemplateOptions = {}
+): EmailTemplate {
+  const context = getContext(options);
+  const { t } = context;
+  const strings = t.strings.digest;
+
+  const htmlItems = items.map(item => html`
+        <li style="margin-bottom: 16px;">
+          <strong>${item.url ? html`<a href="${safeUrl(item.url)}">${item.title}</a>` : item.title}</strong>
+          <br>${item.message}
+          <br><small class="muted">${t.dateTime(item.createdAt)}</small>
+        </li>`);
+
+  const htmlContent = html`
+      <h2>${strings.heading}</h2>
+      <p>${strings.intro}</p>
+      <ul style="padding-left: 20px;">${htmlItems}
+      </ul>
+      ${button(strings.action.label, notificationsUrl)}`;
+
+  return {
+    subject: t.text(strings.subject, { count: items.length }),
+    html: getBaseTemplate(htmlContent, options),
+    text: getTextTemplate([
+      strings.heading,
+      '',
+      strings.intro,
+      '',
+      ...items.flatMap(item => [
+        `- ${item.title} (${t.dateTime(item.createdAt)})`,
+        `  ${item.message}`,
+        !!item.url && `  ${item.url}`,
+      ]),
+      '',
+      t.text(strings.action.text, { url: notificationsUrl }),
+    ], context),
+  };
+}
@@ -0,0 +1,56 @@
+import { themeConfig } from '@/lib/theme-config';
+
+/**
+ * Email branding, taken from themeConfig
+ *
+ * Email clients don't support CSS variables and some don't support hsl(),
+ * so the theme's HSL colours are converted to hex.
+ */
+
+export interface EmailTheme {
+  name: string;
+  legalName: string;
+  /** Absolute, as emails are read outside the app */
+  logoUrl: string | null;
+  colors: {
+    primary: string;
+    primaryForeground: string;
+    text: string;
+    muted: string;
+    border: string;
+    background: string;
+  };
+}
+
+/**
+ * Convert a theme colour ("210 100% 50%") to hex
+ */
+export function hslToHex(hsl: string): string {
+  const [h, s, l] = hsl.replace(/%/g, '').trim().split(/\s+/).map(Number);
+  const saturation = s / 100;
+  const lightness = l / 100;
+  const a = saturation * Math.min(lightness, 1 - lightness);
+  const channel = (n: number) => {
+    const k = (n + h / 30) % 12;
+    const value = lightness - a * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+    return Math.round(value * 255).toString(16).padStart(2, '0');
+  };
+  return `#${channel(0)}${channel(8)}${channel(4)}`;
+}
+
+export function getEmailTheme(appUrl: string = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'): EmailTheme {
+  const { brand, colors } = themeConfig;
+  return {
+    name: brand.name,
+    legalName: brand.legalName,
+    logoUrl: brand.logo ? new URL(brand.logo, appUrl).toString() : null,
+    colors: {
+      primary: hslToHex(colors.primary.light),
+      primaryForeground: hslToHex(colors.primary.foreground),
+      text: hslToHex(colors.foreground.light),
+      muted: hslToHex(colors.muted.foreground.light),
+      border: hslToHex(colors.border.light),
+      background: hslToHex(colors.secondary.light),
+    },
+  };
+}
@@ -0,0 +1,117 @@
+import { NetworkError } from '@/types/errors';
+import { createFileOutbox, createMemoryOutbox, type Outbox } from '@/lib/email/outbox';
+import { createSmtpTransport } from '@/lib/email/smtp';
+
+/**
+ * Email transports
+ *
+ * A transport delivers a rendered email. The transport is chosen with
+ * EMAIL_TRANSPORT:
+ * - `edge-function`: POST to the Supabase Edge Function `send-email` (the
+ *   default in production)
+ * - `smtp`: any SMTP server, configured with the SMTP_* variables
+ * - `outbox`: write each message to a local folder instead of sending it,
+ *   for previewing at /dev/outbox (the default outside production)
+ * - `memory`: keep messages in memory, for tests
+ */
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface EmailTransport {
+  name: string;
+  /** Rejects with a NetworkError if the message can't be handed over */
+  send(message: EmailMessage): Promise<void>;
+}
+
+export type EmailTransportName = 'edge-function' | 'smtp' | 'outbox' | 'memory';
+
+interface EdgeFunctionOptions {
+  supabaseUrl: string;
+  serviceKey: string;
+  functionName?: string;
+}
+
+/**
+ * Transport that hands messages to a Supabase Edge Function
+ */
+export function createEdgeFunctionTransport({
+  supabaseUrl,
+  serviceKey,
+  functionName = 'send-email',
+}: EdgeFunctionOptions): EmailTransport {
+  return {
+    name: 'edge-function',
+    async send({ to, subject, html, text }) {
+      let response: Response;
+      try {
+        response = await fetch(`${supabaseUrl}/functions/v1/${functionName}`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${serviceKey}`,
+          },
+          body: JSON.stringify({ to, subject, html, text }),
+        });
+      } catch (error) {
+        throw new NetworkError('Could not reach the email service.', error as Error);
+      }
+      if (!response.ok) {
+        throw new NetworkError(`Sending email failed with status ${response.status}: ${await response.text()}`);
+      }
+    },
+  };
+}
+
+let memoryOutbox: Outbox | null = null;
+
+/**
+ * The outbox that `memory` and `outbox` transports write to, for reading
+ * messages back in tests and on the /dev/outbox page
+ */
+export function getOutbox(name: 'outbox' | 'memory' = 'outbox'): Outbox {
+  if (name === 'memory') {
+    memoryOutbox ??= createMemoryOutbox();
+    return memoryOutbox;
+  }
+  return createFileOutbox(process.env.EMAIL_OUTBOX_DIR || undefined);
+}
+
+export function getEmailTransportName(): EmailTransportName {
+  const configured = process.env.EMAIL_TRANSPORT;
+  if (configured === 'edge-function' || configured === 'smtp' || configured === 'outbox' || configured === 'memory') {
+    return configured;
+  }
+  return process.env.NODE_ENV === 'production' ? 'edge-function' : 'outbox';
+}
+
+/**
+ * The email transport configured for this environment
+ */
+export function getEmailTransport(): EmailTransport {
+  const name = getEmailTransportName();
+  switch (name) {
+    case 'smtp':
+      return createSmtpTransport({
+        host: process.env.SMTP_HOST || 'localhost',
+        port: process.env.SMTP_PORT ? Number(process.env.SMTP_PORT) : undefined,
+        secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : undefined,
+        user: process.env.SMTP_USER || undefined,
+        password: process.env.SMTP_PASSWORD || undefined,
+        allowInsecureAuth: process.env.SMTP_ALLOW_INSECURE_AUTH === 'true',
+        from: process.env.EMAIL_FROM || 'Tofil <no-reply@localhost>',
+      });
+    case 'outbox':
+    case 'memory':
+      return getOutbox(name);
+    default:
+      return createEdgeFunctionTransport({
+        supabaseUrl: process.env.NEXT_PUBLIC_SUPABASE_URL || '',
+        serviceKey: process.env.SUPABASE_SERVICE_ROLE_KEY || '',
+      });
+  }
+}
@@ -127,7 +127,8 @@ export function transformError(error: unknown, context?: string): AppError {
     // Check for permission errors
     if (
       error.message?.includes("row-level security") ||
-      error.message?.includes("permission denied")
+      error.message?.includes("permission denied") ||
+      error.code === "42501"
     ) {
       return new PermissionError(message, { context });
     }
@@ -135,7 +136,8 @@ export function transformError(error: unknown, context?: string): AppError {
     // Check for validation errors
     if (
       error.message?.includes("not-null constraint") ||
-      error.message?.includes("check constraint")
+      error.message?.includes("check constraint") ||
+      error.code === "23514"
     ) {
       return new ValidationError(message);
     }
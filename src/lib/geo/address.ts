@@ -0,0 +1,55 @@
+/**
+ * Address normalization
+ *
+ * `normalizeAddress` tidies free-text addresses for storage and geocoding;
+ * `getAddressKey` reduces an address to a form where trivially different
+ * spellings compare equal (case, punctuation, abbreviations).
+ */
+
+const STATES = ['ACT', 'NSW', 'NT', 'QLD', 'SA', 'TAS', 'VIC', 'WA'];
+
+// Street type abbreviations, expanded when building address keys
+const STREET_TYPES: Record<string, string> = {
+  st: 'street',
+  rd: 'road',
+  ave: 'avenue',
+  av: 'avenue',
+  dr: 'drive',
+  ln: 'lane',
+  ct: 'court',
+  cres: 'crescent',
+  cr: 'crescent',
+  pl: 'place',
+  pde: 'parade',
+  hwy: 'highway',
+  tce: 'terrace',
+  blvd: 'boulevard',
+  cl: 'close',
+};
+
+/**
+ * Tidy an address: collapse whitespace, space commas consistently and
+ * upper-case state abbreviations
+ */
+export function normalizeAddress(address: string): string {
+  return address
+    .replace(/\s+/g, ' ')
+    .split(',')
+    .map(part => part.trim())
+    .filter(Boolean)
+    .join(', ')
+    .replace(/\b[a-z]{2,3}\b/gi, word => (STATES.includes(word.toUpperCase()) ? word.toUpperCase() : word));
+}
+
+/**
+ * Comparison key for an address, e.g. for matching fixtures or cached results
+ */
+export function getAddressKey(address: string): string {
+  return normalizeAddress(address)
+    .toLowerCase()
+    .replace(/[^a-z0-9\s/-]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(word => STREET_TYPES[word] ?? word)
+    .join(' ');
+}
@@ -0,0 +1,57 @@
+/**
+ * Distance helpers for latitude/longitude coordinates
+ */
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/**
+ * Great-circle distance between two points in kilometres (haversine formula)
+ */
+export function haversineDistanceKm(from: Coordinates, to: Coordinates): number {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+}
+
+/**
+ * Coordinates from nullable latitude/longitude columns, or null if either is missing
+ */
+export function toCoordinates(
+  latitude: number | null | undefined,
+  longitude: number | null | undefined
+): Coordinates | null {
+  return latitude == null || longitude == null ? null : { latitude, longitude };
+}
+
+export interface BoundingBox {
+  minLatitude: number;
+  maxLatitude: number;
+  minLongitude: number;
+  maxLongitude: number;
+}
+
+/**
+ * A box that contains every point within `radiusKm` of the centre, for
+ * narrowing a query with indexed range filters before exact distance checks.
+ * Not suitable near the poles or across the antimeridian.
+ */
+export function getBoundingBox(centre: Coordinates, radiusKm: number): BoundingBox {
+  const latitudeDelta = (radiusKm / EARTH_RADIUS_KM) * (180 / Math.PI);
+  const longitudeDelta = latitudeDelta / Math.cos(toRadians(centre.latitude));
+  return {
+    minLatitude: centre.latitude - latitudeDelta,
+    maxLatitude: centre.latitude + latitudeDelta,
+    minLongitude: centre.longitude - longitudeDelta,
+    maxLongitude: centre.longitude + longitudeDelta,
+  };
+}
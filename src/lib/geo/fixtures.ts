@@ -0,0 +1,13 @@
+import type { Coordinates } from '@/lib/geo/distance';
+
+/**
+ * Known addresses for the fixture geocoder (tests and offline development)
+ */
+export const GEOCODE_FIXTURES: Record<string, Coordinates> = {
+  '1 George Street, Sydney NSW 2000': { latitude: -33.8611, longitude: 151.2100 },
+  '100 Church Street, Parramatta NSW 2150': { latitude: -33.8136, longitude: 151.0034 },
+  '1 Bondi Road, Bondi Junction NSW 2022': { latitude: -33.8925, longitude: 151.2563 },
+  '50 Hunter Street, Newcastle NSW 2300': { latitude: -32.9271, longitude: 151.7787 },
+  '200 Crown Street, Wollongong NSW 2500': { latitude: -34.4248, longitude: 150.8931 },
+  '1 Collins Street, Melbourne VIC 3000': { latitude: -37.8136, longitude: 144.9731 },
+};
@@ -0,0 +1,104 @@
+import { NetworkError } from '@/types/errors';
+import type { Coordinates } from '@/lib/geo/distance';
+import { getAddressKey, normalizeAddress } from '@/lib/geo/address';
+import { GEOCODE_FIXTURES } from '@/lib/geo/fixtures';
+
+/**
+ * Geocoding
+ *
+ * Geocoders turn an address into coordinates. The provider is chosen with
+ * GEOCODER_PROVIDER: `nominatim` (OpenStreetMap, the default) or `fixture`,
+ * which answers from a fixed list of addresses without network access and is
+ * used in tests and offline development.
+ */
+
+export interface GeocodeResult extends Coordinates {
+  // The provider's canonical form of the address, if it returns one
+  formattedAddress: string | null;
+}
+
+export interface Geocoder {
+  /** Resolves to null when the address can't be found */
+  geocode(address: string): Promise<GeocodeResult | null>;
+}
+
+interface NominatimOptions {
+  baseUrl?: string;
+  userAgent?: string;
+  countryCodes?: string;
+}
+
+/**
+ * Geocoder backed by OpenStreetMap Nominatim
+ *
+ * The public instance allows about one request per second and requires an
+ * identifying User-Agent; point `baseUrl` at a self-hosted instance for
+ * heavier use.
+ */
+export function createNominatimGeocoder({
+  baseUrl = 'https://nominatim.openstreetmap.org',
+  userAgent = 'tofil-geocoder',
+  countryCodes = 'au',
+}: NominatimOptions = {}): Geocoder {
+  return {
+    async geocode(address) {
+      const params = new URLSearchParams({
+        q: normalizeAddress(address),
+        format: 'jsonv2',
+        limit: '1',
+        countrycodes: countryCodes,
+      });
+
+      let response: Response;
+      try {
+        response = await fetch(`${baseUrl}/search?${params}`, {
+          headers: { 'User-Agent': userAgent, Accept: 'application/json' },
+        });
+      } catch (error) {
+        throw new NetworkError('Could not reach the geocoding service.', error as Error);
+      }
+      if (!response.ok) {
+        throw new NetworkError(`Geocoding failed with status ${response.status}.`);
+      }
+
+      const [match] = (await response.json()) as { lat: string; lon: string; display_name?: string }[];
+      if (!match) return null;
+
+      return {
+        latitude: Number(match.lat),
+        longitude: Number(match.lon),
+        formattedAddress: match.display_name ?? null,
+      };
+    },
+  };
+}
+
+/**
+ * Offline geocoder that only knows the given addresses
+ *
+ * Addresses are compared by `getAddressKey`, so "1 George St" matches
+ * "1 george street".
+ */
+export function createFixtureGeocoder(fixtures: Record<string, Coordinates> = GEOCODE_FIXTURES): Geocoder {
+  const byKey = new Map(Object.entries(fixtures).map(([address, coordinates]) => [getAddressKey(address), coordinates]));
+
+  return {
+    async geocode(address) {
+      const coordinates = byKey.get(getAddressKey(address));
+      return coordinates ? { ...coordinates, formattedAddress: normalizeAddress(address) } : null;
+    },
+  };
+}
+
+/**
+ * The geocoder configured for this environment
+ */
+export function getGeocoder(): Geocoder {
+  if (process.env.GEOCODER_PROVIDER === 'fixture') {
+    return createFixtureGeocoder();
+  }
+  return createNominatimGeocoder({
+    baseUrl: process.env.NOMINATIM_URL || undefined,
+    userAgent: process.env.GEOCODER_USER_AGENT || undefined,
+  });
+}
@@ -0,0 +1,160 @@
+import type {
+  FileEventType,
+  JobHistory,
+  LocationHistory,
+  OrganisationHistory,
+  UserHistory,
+} from '@/lib/db/schema';
+
+/**
+ * Temporal history helpers
+ *
+ * History rows are written by database triggers (see supabase/triggers.sql):
+ * each version is valid from `validFrom` until `validTo`, with `validTo` null
+ * for the current version. Job history also holds point-in-time file events,
+ * which are shown on the timeline but are not versions.
+ */
+
+export type HistoryEntity = 'jobs' | 'users' | 'organisations' | 'locations';
+
+interface HistoryRowMap {
+  jobs: JobHistory;
+  users: UserHistory;
+  organisations: OrganisationHistory;
+  locations: LocationHistory;
+}
+
+export type HistoryRow<E extends HistoryEntity = HistoryEntity> = HistoryRowMap[E];
+
+interface HistorySource<E extends HistoryEntity> {
+  table: string;
+  foreignKey: string;
+  fields: readonly (keyof HistoryRowMap[E] & string)[];
+}
+
+// Keep `fields` in sync with the tracked columns in the history triggers
+export const HISTORY_SOURCES: { [E in HistoryEntity]: HistorySource<E> } = {
+  jobs: {
+    table: 'job_history',
+    foreignKey: 'job_id',
+    fields: ['title', 'description', 'status', 'ownerId', 'locationId', 'contractorId', 'completionNotes'],
+  },
+  users: {
+    table: 'user_history',
+    foreignKey: 'user_id',
+    fields: ['email', 'name', 'type', 'status', 'claimsSuspended'],
+  },
+  organisations: {
+    table: 'organisation_history',
+    foreignKey: 'organisation_id',
+    fields: ['name', 'ownerId'],
+  },
+  locations: {
+    table: 'location_history',
+    foreignKey: 'location_id',
+    fields: ['name', 'address', 'organisationId'],
+  },
+};
+
+export interface FieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+interface BaseTimelineEntry {
+  id: string;
+  at: Date;
+  changedBy: string | null;
+}
+
+export type TimelineEntry =
+  | (BaseTimelineEntry & { kind: 'created'; version: HistoryRow })
+  | (BaseTimelineEntry & { kind: 'updated'; version: HistoryRow; changes: FieldChange[] })
+  | (BaseTimelineEntry & { kind: 'file'; event: FileEventType; fileId: string | null; fileName: string | null });
+
+type Row = Record<string, unknown> & {
+  id: string;
+  changedBy: string | null;
+  validFrom: Date | string;
+  validTo: Date | string | null;
+  fileEventType?: FileEventType | null;
+};
+
+const isFileEvent = (row: Row) => !!row.fileEventType;
+
+const byValidFrom = (a: Row, b: Row) => new Date(a.validFrom).getTime() - new Date(b.validFrom).getTime();
+
+/**
+ * List the tracked fields that differ between two versions
+ */
+export function diffVersions(
+  previous: Record<string, unknown>,
+  next: Record<string, unknown>,
+  fields: readonly string[]
+): FieldChange[] {
+  return fields
+    .filter(field => !isSameValue(previous[field], next[field]))
+    .map(field => ({ field, from: previous[field] ?? null, to: next[field] ?? null }));
+}
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return JSON.stringify(a ?? []) === JSON.stringify(b ?? []);
+  }
+  return (a ?? null) === (b ?? null);
+}
+
+/**
+ * Build a chronological timeline from an entity's history rows
+ *
+ * Versions are diffed against the one before; versions that change no
+ * tracked field are dropped.
+ */
+export function buildTimeline<E extends HistoryEntity>(entity: E, rows: HistoryRow<E>[]): TimelineEntry[] {
+  const { fields } = HISTORY_SOURCES[entity];
+  const sorted = [...(rows as unknown as Row[])].sort(byValidFrom);
+  const entries: TimelineEntry[] = [];
+  let previous: Row | null = null;
+
+  for (const row of sorted) {
+    const base = { id: row.id, at: new Date(row.validFrom), changedBy: row.changedBy };
+
+    if (isFileEvent(row)) {
+      entries.push({
+        ...base,
+        kind: 'file',
+        event: row.fileEventType as FileEventType,
+        fileId: (row.fileId as string | null) ?? null,
+        fileName: (row.fileName as string | null) ?? null,
+      });
+      continue;
+    }
+
+    const version = row as unknown as HistoryRow;
+    if (!previous) {
+      entries.push({ ...base, kind: 'created', version });
+    } else {
+      const changes = diffVersions(previous, row, fields);
+      if (changes.length > 0) {
+        entries.push({ ...base, kind: 'updated', version, changes });
+      }
+    }
+    previous = row;
+  }
+
+  return entries;
+}
+
+/**
+ * Find the version that was current at a point in time
+ */
+export function getVersionAt<E extends HistoryEntity>(rows: HistoryRow<E>[], at: Date): HistoryRow<E> | null {
+  const time = at.getTime();
+  const match = (rows as unknown as Row[]).find(row =>
+    !isFileEvent(row) &&
+    new Date(row.validFrom).getTime() <= time &&
+    (row.validTo === null || new Date(row.validTo).getTime() > time)
+  );
+  return (match as unknown as HistoryRow<E>) ?? null;
+}
@@ -0,0 +1,19 @@
+import { z } from 'zod';
+import { userTypeEnum } from '@/lib/db/schema';
+
+/**
+ * Request payload schemas for the invitations API
+ */
+
+export const createInvitationSchema = z.object({
+  email: z.string().trim().toLowerCase().email('Enter a valid email address'),
+  name: z.string().trim().min(1, 'Name is required'),
+  userType: z.enum(userTypeEnum.enumValues),
+}).strict();
+
+export const updateInvitationSchema = z.object({
+  action: z.enum(['resend', 'revoke', 'expire']),
+});
+
+export type CreateInvitationInput = z.infer<typeof createInvitationSchema>;
+export type UpdateInvitationInput = z.infer<typeof updateInvitationSchema>;
@@ -0,0 +1,52 @@
+import type { InvitationStatus, UserInvitation } from '@/lib/db/schema';
+
+/**
+ * Invitation lifecycle helpers shared by the invitations service, API routes
+ * and the management table
+ */
+
+export type InvitationAction = 'resend' | 'revoke' | 'expire';
+
+// Days a freshly sent invitation stays valid
+export const INVITATION_TTL_DAYS = 7;
+
+// Statuses each management action may be applied to
+export const INVITATION_ACTIONS: Record<InvitationAction, readonly InvitationStatus[]> = {
+  resend: ['pending', 'expired'],
+  revoke: ['pending'],
+  expire: ['pending'],
+};
+
+type InvitationState = Pick<UserInvitation, 'status' | 'expiresAt'>;
+
+/**
+ * Expiry date for an invitation sent at `from`
+ */
+export function getInvitationExpiry(from: Date = new Date()): Date {
+  return new Date(from.getTime() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Status to show and enforce, treating overdue pending invitations as expired
+ * even before the row itself has been updated
+ */
+export function getEffectiveInvitationStatus(
+  invitation: InvitationState,
+  now: Date = new Date()
+): InvitationStatus {
+  if (invitation.status === 'pending' && new Date(invitation.expiresAt).getTime() <= now.getTime()) {
+    return 'expired';
+  }
+  return invitation.status;
+}
+
+/**
+ * Check whether a management action applies to an invitation
+ */
+export function canApplyInvitationAction(
+  invitation: InvitationState,
+  action: InvitationAction,
+  now: Date = new Date()
+): boolean {
+  return INVITATION_ACTIONS[action].includes(getEffectiveInvitationStatus(invitation, now));
+}
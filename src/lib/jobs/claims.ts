@@ -0,0 +1,41 @@
+import { PermissionError } from '@/types/errors';
+
+/**
+ * Job claim eligibility
+ *
+ * A contractor may only claim a job if their profile lists every speciality
+ * the job requires. Keep in sync with the claim check in
+ * `enforce_job_status_transition` (supabase/triggers.sql).
+ */
+
+/**
+ * Specialities a job requires that the contractor doesn't have
+ */
+export function getMissingSpecialities(
+  required: readonly string[] | null | undefined,
+  specialities: readonly string[] | null | undefined
+): string[] {
+  const has = new Set((specialities ?? []).map(speciality => speciality.toLowerCase()));
+  return (required ?? []).filter(speciality => !has.has(speciality.toLowerCase()));
+}
+
+/**
+ * Throw a PermissionError unless the contractor has every required speciality
+ */
+export function assertContractorSpecialities(
+  required: readonly string[] | null | undefined,
+  specialities: readonly string[] | null | undefined
+) {
+  const missing = getMissingSpecialities(required, specialities);
+  if (missing.length > 0) {
+    throw new PermissionError(
+      `This job needs ${formatSpecialities(missing)}, which isn't on your profile.`,
+      { missingSpecialities: missing }
+    );
+  }
+}
+
+function formatSpecialities(specialities: string[]): string {
+  const names = specialities.map(speciality => speciality.replace(/_/g, ' '));
+  return names.length === 1 ? names[0] : `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`;
+}
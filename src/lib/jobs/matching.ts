@@ -0,0 +1,102 @@
+import type { ContractorProfile, Job, JobCategory, Location } from '@/lib/db/schema';
+import { haversineDistanceKm, toCoordinates } from '@/lib/geo/distance';
+import { getMissingSpecialities } from '@/lib/jobs/claims';
+
+/**
+ * Contractor/job matching
+ *
+ * A contractor matches a job when they have every speciality it requires and
+ * the job's location is within their service radius of their base. Matches
+ * are ranked by how many of the job's specialities (including the one implied
+ * by its category) the contractor has, then by distance.
+ *
+ * Distance is only known when both the job's location and the contractor's
+ * base have coordinates; without it the radius can't exclude a job, and it
+ * ranks after jobs at a known distance.
+ */
+
+export type MatchProfile = Pick<
+  ContractorProfile,
+  'userId' | 'specialities' | 'serviceRadiusKm' | 'baseLatitude' | 'baseLongitude'
+>;
+
+export type MatchableJob = Pick<Job, 'id' | 'category' | 'requiredSpecialities' | 'createdAt'> & {
+  location?: Pick<Location, 'latitude' | 'longitude'> | null;
+};
+
+export interface JobMatch {
+  eligible: boolean;
+  matchedSpecialities: string[];
+  missingSpecialities: string[];
+  distanceKm: number | null;
+  withinRadius: boolean;
+}
+
+// Speciality implied by a job's category; OFF_PLATFORM jobs imply none
+const CATEGORY_SPECIALITIES: Record<JobCategory, string | null> = {
+  ELECTRICAL: 'electrical',
+  PLUMBING: 'plumbing',
+  GENERAL_MAINTENANCE: 'general_maintenance',
+  OFF_PLATFORM: null,
+};
+
+function getJobSpecialities(job: MatchableJob): string[] {
+  const implied = CATEGORY_SPECIALITIES[job.category];
+  const specialities = (job.requiredSpecialities ?? []).map(speciality => speciality.toLowerCase());
+  return implied && !specialities.includes(implied) ? [...specialities, implied] : specialities;
+}
+
+/**
+ * Work out how well a job suits a contractor
+ */
+export function matchJob(job: MatchableJob, profile: MatchProfile): JobMatch {
+  const has = new Set((profile.specialities ?? []).map(speciality => speciality.toLowerCase()));
+  const missingSpecialities = getMissingSpecialities(job.requiredSpecialities, profile.specialities);
+
+  const base = toCoordinates(profile.baseLatitude, profile.baseLongitude);
+  const site = toCoordinates(job.location?.latitude, job.location?.longitude);
+  const distanceKm = base && site ? haversineDistanceKm(base, site) : null;
+  const withinRadius = distanceKm === null || profile.serviceRadiusKm == null || distanceKm <= profile.serviceRadiusKm;
+
+  return {
+    eligible: missingSpecialities.length === 0 && withinRadius,
+    matchedSpecialities: getJobSpecialities(job).filter(speciality => has.has(speciality)),
+    missingSpecialities,
+    distanceKm,
+    withinRadius,
+  };
+}
+
+/**
+ * Sort order for matches: more matched specialities, then nearer, then newer
+ */
+function compareMatches<T extends MatchableJob>(a: T & { match: JobMatch }, b: T & { match: JobMatch }): number {
+  const bySpecialities = b.match.matchedSpecialities.length - a.match.matchedSpecialities.length;
+  if (bySpecialities !== 0) return bySpecialities;
+
+  const aDistance = a.match.distanceKm ?? Infinity;
+  const bDistance = b.match.distanceKm ?? Infinity;
+  if (aDistance !== bDistance) return aDistance - bDistance;
+
+  return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
+}
+
+/**
+ * The jobs a contractor matches, best first
+ */
+export function rankJobsForContractor<T extends MatchableJob>(
+  jobs: T[],
+  profile: MatchProfile
+): (T & { match: JobMatch })[] {
+  return jobs
+    .map(job => ({ ...job, match: matchJob(job, profile) }))
+    .filter(job => job.match.eligible)
+    .sort(compareMatches);
+}
+
+/**
+ * The contractors who match a job
+ */
+export function findMatchingContractors(job: MatchableJob, profiles: MatchProfile[]): string[] {
+  return profiles.filter(profile => matchJob(job, profile).eligible).map(profile => profile.userId);
+}
@@ -0,0 +1,57 @@
+import { z } from 'zod';
+import { jobCategoryEnum, jobStatusEnum } from '@/lib/db/schema';
+
+/**
+ * Request payload schemas for the jobs API
+ * Payloads are camelCase, matching the shapes returned to the hooks.
+ */
+
+const jobStatus = z.enum(jobStatusEnum.enumValues);
+const jobCategory = z.enum(jobCategoryEnum.enumValues);
+
+export const createJobSchema = z.object({
+  title: z.string().trim().min(1, 'Title is required'),
+  description: z.string().trim().min(1, 'Description is required'),
+  category: jobCategory.optional(),
+  locationId: z.string().uuid().nullish(),
+  organisationId: z.string().uuid().nullish(),
+  requiredSpecialities: z.array(z.string()).optional(),
+  listingPrice: z.string().nullish(),
+  contractorPrice: z.string().nullish(),
+  notes: z.string().nullish(),
+}).strict();
+
+// Status changes go through the transition endpoint so they are validated
+export const updateJobSchema = createJobSchema
+  .partial()
+  .extend({ completionNotes: z.string().nullish() })
+  .strict();
+
+export const transitionJobSchema = z.object({
+  status: jobStatus,
+});
+
+export const listJobsQuerySchema = z.object({
+  status: jobStatus.optional(),
+  category: jobCategory.optional(),
+  locationId: z.string().uuid().optional(),
+  contractorId: z.string().uuid().optional(),
+  ownerId: z.string().uuid().optional(),
+  organisationId: z.string().uuid().optional(),
+  orderBy: z.enum(['createdAt', 'updatedAt', 'title', 'status']).default('createdAt'),
+  ascending: z.enum(['true', 'false']).default('false').transform(value => value === 'true'),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export const nearbyJobsQuerySchema = z.object({
+  latitude: z.coerce.number().min(-90).max(90),
+  longitude: z.coerce.number().min(-180).max(180),
+  radiusKm: z.coerce.number().positive().max(500).default(25),
+  status: jobStatus.optional(),
+});
+
+export type CreateJobInput = z.infer<typeof createJobSchema>;
+export type UpdateJobInput = z.infer<typeof updateJobSchema>;
+export type ListJobsQuery = z.infer<typeof listJobsQuerySchema>;
+export type NearbyJobsQuery = z.infer<typeof nearbyJobsQuerySchema>;
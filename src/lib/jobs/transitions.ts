@@ -0,0 +1,156 @@
+import type { Job, JobStatus, UserType } from '@/lib/db/schema';
+import { PermissionError, ValidationError } from '@/types/errors';
+
+/**
+ * Job lifecycle state machine
+ *
+ * Single source of truth for which status changes are legal and which
+ * user types may perform them. Used by the server when changing a job's
+ * status and by the UI to decide which actions to offer.
+ *
+ * Keep in sync with `enforce_job_status_transition` in supabase/triggers.sql;
+ * jobTransitions.test.ts fails when the two differ.
+ */
+
+export type JobTransitionAction =
+  | 'submit_for_review'
+  | 'return_to_draft'
+  | 'publish'
+  | 'unpublish'
+  | 'claim'
+  | 'release'
+  | 'submit'
+  | 'reject_submission'
+  | 'start'
+  | 'complete'
+  | 'reopen'
+  | 'mark_paid'
+  | 'archive';
+
+export interface JobTransition {
+  action: JobTransitionAction;
+  label: string;
+  from: JobStatus;
+  to: JobStatus;
+  roles: readonly UserType[];
+}
+
+/**
+ * The minimal job shape needed to evaluate a transition
+ */
+export type TransitionableJob = Pick<Job, 'status' | 'ownerId' | 'contractorId' | 'locationId'>;
+
+/**
+ * The user attempting a transition
+ */
+export interface TransitionActor {
+  id: string;
+  type: UserType;
+  // Locations a manager is assigned to; managers only act on jobs there
+  managedLocationIds?: readonly string[];
+}
+
+export const JOB_TRANSITIONS: readonly JobTransition[] = [
+  { action: 'submit_for_review', label: 'Submit for review', from: 'DRAFT', to: 'PENDING_REVIEW', roles: ['ADMIN', 'OWNER', 'MANAGER'] },
+  { action: 'archive', label: 'Archive', from: 'DRAFT', to: 'ARCHIVED', roles: ['ADMIN', 'OWNER', 'MANAGER'] },
+  { action: 'return_to_draft', label: 'Return to draft', from: 'PENDING_REVIEW', to: 'DRAFT', roles: ['ADMIN', 'OWNER', 'MANAGER'] },
+  { action: 'publish', label: 'Publish', from: 'PENDING_REVIEW', to: 'AVAILABLE', roles: ['ADMIN'] },
+  { action: 'unpublish', label: 'Unpublish', from: 'AVAILABLE', to: 'PENDING_REVIEW', roles: ['ADMIN'] },
+  { action: 'claim', label: 'Claim job', from: 'AVAILABLE', to: 'CLAIMED', roles: ['CONTRACTOR'] },
+  { action: 'release', label: 'Release job', from: 'CLAIMED', to: 'AVAILABLE', roles: ['ADMIN', 'CONTRACTOR'] },
+  { action: 'submit', label: 'Submit', from: 'CLAIMED', to: 'SUBMITTED', roles: ['CONTRACTOR'] },
+  { action: 'reject_submission', label: 'Reject submission', from: 'SUBMITTED', to: 'CLAIMED', roles: ['ADMIN'] },
+  { action: 'start', label: 'Start work', from: 'SUBMITTED', to: 'IN_PROGRESS', roles: ['ADMIN', 'CONTRACTOR'] },
+  { action: 'complete', label: 'Mark complete', from: 'IN_PROGRESS', to: 'COMPLETED', roles: ['ADMIN', 'CONTRACTOR'] },
+  { action: 'reopen', label: 'Reopen', from: 'COMPLETED', to: 'IN_PROGRESS', roles: ['ADMIN', 'OWNER', 'MANAGER'] },
+  { action: 'mark_paid', label: 'Mark paid', from: 'COMPLETED', to: 'PAID', roles: ['ADMIN'] },
+  { action: 'archive', label: 'Archive', from: 'PAID', to: 'ARCHIVED', roles: ['ADMIN'] },
+];
+
+/**
+ * Find the transition between two statuses, if one exists
+ */
+export function findJobTransition(from: JobStatus, to: JobStatus): JobTransition | undefined {
+  return JOB_TRANSITIONS.find(transition => transition.from === from && transition.to === to);
+}
+
+/**
+ * Check whether the actor is tied to the job closely enough to act on it.
+ * Admins can act on any job, owners only on their own, managers on their own
+ * and those at the locations they manage, and contractors only on jobs
+ * assigned to them (except claiming, which assigns the job).
+ */
+function isActorRelatedToJob(
+  transition: JobTransition,
+  job: TransitionableJob,
+  actor: TransitionActor
+): boolean {
+  switch (actor.type) {
+    case 'ADMIN':
+      return true;
+    case 'MANAGER':
+      return job.ownerId === actor.id
+        || (!!job.locationId && !!actor.managedLocationIds?.includes(job.locationId));
+    case 'OWNER':
+      return job.ownerId === actor.id;
+    case 'CONTRACTOR':
+      return transition.action === 'claim' || job.contractorId === actor.id;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Check whether the actor may move the job to the given status
+ */
+export function canTransitionJob(
+  job: TransitionableJob,
+  to: JobStatus,
+  actor: TransitionActor
+): boolean {
+  const transition = findJobTransition(job.status, to);
+  if (!transition || !transition.roles.includes(actor.type)) {
+    return false;
+  }
+  return isActorRelatedToJob(transition, job, actor);
+}
+
+/**
+ * List the transitions the actor may perform on the job in its current status
+ */
+export function getAvailableJobTransitions(
+  job: TransitionableJob,
+  actor: TransitionActor
+): JobTransition[] {
+  return JOB_TRANSITIONS.filter(
+    transition =>
+      transition.from === job.status &&
+      transition.roles.includes(actor.type) &&
+      isActorRelatedToJob(transition, job, actor)
+  );
+}
+
+/**
+ * Throw if the actor may not move the job to the given status
+ *
+ * @throws ValidationError when no transition exists between the statuses
+ * @throws PermissionError when the actor's role or relationship forbids it
+ */
+export function assertJobTransition(
+  job: TransitionableJob,
+  to: JobStatus,
+  actor: TransitionActor
+): JobTransition {
+  const transition = findJobTransition(job.status, to);
+  if (!transition) {
+    throw new ValidationError(`A job cannot move from ${job.status} to ${to}.`);
+  }
+  if (!transition.roles.includes(actor.type) || !isActorRelatedToJob(transition, job, actor)) {
+    throw new PermissionError("You don't have permission to perform this action.", {
+      from: job.status,
+      to,
+      role: actor.type,
+    });
+  }
+  return transition;
+}
@@ -0,0 +1,117 @@
+import { decamelize } from 'humps';
+import type { Job, UserType } from '@/lib/db/schema';
+import { PermissionError } from '@/types/errors';
+
+/**
+ * Field-level visibility for jobs
+ *
+ * Pricing and internal notes are only readable by some roles. The database
+ * enforces this: signed-in users can't select these columns from the jobs
+ * table (so neither `select *` nor realtime changes carry them), and read
+ * jobs through the visible_jobs view instead, which blanks each field for
+ * users who may not read it (see supabase/rls-policies.sql). Queries also
+ * select just the permitted columns, and API responses are projected again
+ * before they are sent.
+ */
+
+type JobField = keyof Job;
+
+// View signed-in users read jobs through
+export const VISIBLE_JOBS_VIEW = 'visible_jobs';
+
+// Fields with restricted visibility and the roles that may read them
+export const RESTRICTED_JOB_FIELDS: Partial<Record<JobField, readonly UserType[]>> = {
+  // Set by owner/manager; visible_jobs only shows owners and managers the prices they set
+  listingPrice: ['ADMIN', 'OWNER', 'MANAGER'],
+  contractorPrice: ['ADMIN', 'CONTRACTOR'], // Set by admin, visible to contractors
+  notes: ['ADMIN'], // Internal notes
+};
+
+export const JOB_FIELDS: readonly JobField[] = [
+  'id',
+  'title',
+  'description',
+  'status',
+  'category',
+  'ownerId',
+  'locationId',
+  'contractorId',
+  'organisationId',
+  'completionNotes',
+  'requiredSpecialities',
+  'changedBy',
+  'listingPrice',
+  'listingPriceSetBy',
+  'contractorPrice',
+  'notes',
+  'createdAt',
+  'updatedAt',
+  'deletedAt',
+  'createdBy',
+  'updatedBy',
+  'deletedBy',
+];
+
+/**
+ * Check whether a role may read a job field
+ */
+export function canViewJobField(role: UserType | null | undefined, field: JobField): boolean {
+  const roles = RESTRICTED_JOB_FIELDS[field];
+  if (!roles) return true;
+  return !!role && roles.includes(role);
+}
+
+/**
+ * List the job fields a role may read
+ */
+export function getVisibleJobFields(role: UserType | null | undefined): JobField[] {
+  return JOB_FIELDS.filter(field => canViewJobField(role, field));
+}
+
+/**
+ * Build a Supabase select string with only the columns a role may read
+ */
+export function getJobSelect(role: UserType | null | undefined): string {
+  return getVisibleJobFields(role).map(field => decamelize(field)).join(', ');
+}
+
+/**
+ * Columns any signed-in user may select from the jobs table itself, e.g. to
+ * return from writes; restricted ones are only readable through visible_jobs
+ */
+export const JOB_TABLE_SELECT = JOB_FIELDS
+  .filter(field => !RESTRICTED_JOB_FIELDS[field])
+  .map(field => decamelize(field))
+  .join(', ');
+
+/**
+ * Remove fields a role may not read from a camelCase job
+ */
+export function projectJob<T extends Partial<Job>>(job: T, role: UserType | null | undefined): T {
+  const projected = { ...job };
+  (Object.keys(RESTRICTED_JOB_FIELDS) as JobField[]).forEach(field => {
+    if (!canViewJobField(role, field)) {
+      delete projected[field];
+    }
+  });
+  return projected;
+}
+
+/**
+ * Project a list of jobs for a role
+ */
+export function projectJobs<T extends Partial<Job>>(jobs: T[], role: UserType | null | undefined): T[] {
+  return jobs.map(job => projectJob(job, role));
+}
+
+/**
+ * Throw if a write payload sets fields the role may not read
+ */
+export function assertJobFieldsWritable(input: Partial<Job>, role: UserType | null | undefined) {
+  const forbidden = (Object.keys(input) as JobField[]).filter(
+    field => input[field] !== undefined && !canViewJobField(role, field)
+  );
+  if (forbidden.length > 0) {
+    throw new PermissionError("You don't have permission to set these fields.", { fields: forbidden });
+  }
+}
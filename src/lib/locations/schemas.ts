@@ -0,0 +1,11 @@
+import { z } from 'zod';
+
+/**
+ * Request payload schemas for the locations API
+ */
+
+export const setLocationManagersSchema = z.object({
+  managerIds: z.array(z.string().uuid()).transform(ids => [...new Set(ids)]),
+}).strict();
+
+export type SetLocationManagersInput = z.infer<typeof setLocationManagersSchema>;
@@ -0,0 +1,72 @@
+import type { NotificationOutboxEntry, OutboxStatus } from '@/lib/db/schema';
+import type { EmailMessage } from '@/lib/email/transport';
+import type { NotificationType } from './types';
+
+/**
+ * Notification outbox
+ *
+ * In-app notifications and emails are written to `notification_outbox`
+ * before they are attempted, so none is lost if delivery fails or the
+ * process stops part way. Failed deliveries are retried by a worker with
+ * exponential backoff.
+ * After MAX_DELIVERY_ATTEMPTS they are dead-lettered for an admin to
+ * inspect and replay (see src/lib/services/notificationOutbox.ts).
+ */
+
+export const MAX_DELIVERY_ATTEMPTS = 6;
+
+export const RETRY_BASE_DELAY_MS = 60_000; // 1 minute
+export const RETRY_MAX_DELAY_MS = 6 * 60 * 60_000; // 6 hours
+
+export interface InAppDeliveryPayload {
+  userId: string;
+  title: string;
+  message: string;
+  type: NotificationType;
+  link?: string | null;
+  digestPending?: boolean;
+}
+
+export type OutboxDelivery =
+  | { kind: 'in_app'; payload: InAppDeliveryPayload }
+  | { kind: 'email'; payload: EmailMessage };
+
+export const OUTBOX_STATUS_LABELS: Record<OutboxStatus, string> = {
+  pending: 'Retrying',
+  sent: 'Delivered',
+  dead: 'Failed',
+};
+
+/**
+ * Delay before the next attempt once `attempts` have failed: 1 minute after
+ * the first failure, doubling up to 6 hours
+ */
+export function getRetryDelay(attempts: number): number {
+  return Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1));
+}
+
+/**
+ * What happens to a delivery after its `attempts`th failure
+ */
+export function getRetryState(
+  attempts: number,
+  now: Date = new Date()
+): { status: 'pending'; nextAttemptAt: Date } | { status: 'dead' } {
+  if (attempts >= MAX_DELIVERY_ATTEMPTS) {
+    return { status: 'dead' };
+  }
+  return { status: 'pending', nextAttemptAt: new Date(now.getTime() + getRetryDelay(attempts)) };
+}
+
+/**
+ * Who a delivery is for, for display
+ */
+export function getOutboxRecipient(entry: Pick<NotificationOutboxEntry, 'kind' | 'recipient' | 'userId'>): string {
+  return entry.recipient ?? entry.userId ?? 'Unknown';
+}
+
+export function getErrorMessage(error: unknown): string {
+  if (error instanceof Error) return error.message;
+  if (error && typeof error === 'object' && 'message' in error) return String(error.message);
+  return String(error);
+}
@@ -0,0 +1,77 @@
+import type { Notification, NotificationDelivery, NotificationPreference } from '@/lib/db/schema';
+import { NOTIFICATION_TYPES, type NotificationType } from './types';
+
+/**
+ * Notification delivery preferences
+ *
+ * Each user picks, per notification type, whether it is shown in-app only,
+ * also emailed straight away, batched into a daily digest email, or not
+ * sent at all. Preferences are stored in `notification_preferences` and read
+ * by createNotification in src/lib/services/notifications.ts.
+ */
+
+export const NOTIFICATION_DELIVERIES = ['in_app', 'email', 'digest', 'off'] as const satisfies readonly NotificationDelivery[];
+
+// Every notification used to be emailed, so that stays the default
+export const DEFAULT_NOTIFICATION_DELIVERY: NotificationDelivery = 'email';
+
+export const NOTIFICATION_DELIVERY_OPTIONS: Record<NotificationDelivery, { label: string; description: string }> = {
+  in_app: { label: 'In-app only', description: 'Shown in your notifications, never emailed' },
+  email: { label: 'Email immediately', description: 'Shown in your notifications and emailed straight away' },
+  digest: { label: 'Daily digest', description: 'Shown in your notifications and summarised in one email a day' },
+  off: { label: 'Off', description: 'Not sent at all' },
+};
+
+export type NotificationPreferenceMap = Record<NotificationType, NotificationDelivery>;
+
+export interface DeliveryPlan {
+  inApp: boolean;
+  email: boolean;
+  digest: boolean;
+}
+
+export function isNotificationDelivery(value: unknown): value is NotificationDelivery {
+  return (NOTIFICATION_DELIVERIES as readonly unknown[]).includes(value);
+}
+
+/**
+ * Every notification type's delivery, filling in the default for types the
+ * user hasn't set
+ */
+export function resolveNotificationPreferences(
+  rows: Pick<NotificationPreference, 'type' | 'delivery'>[]
+): NotificationPreferenceMap {
+  const stored = new Map(rows.map(row => [row.type, row.delivery]));
+  return Object.fromEntries(
+    NOTIFICATION_TYPES.map(type => [type, stored.get(type) ?? DEFAULT_NOTIFICATION_DELIVERY])
+  ) as NotificationPreferenceMap;
+}
+
+export function getDeliveryPlan(delivery: NotificationDelivery): DeliveryPlan {
+  return {
+    inApp: delivery !== 'off',
+    email: delivery === 'email',
+    digest: delivery === 'digest',
+  };
+}
+
+export type DigestNotification = Pick<Notification, 'id' | 'userId' | 'title' | 'message' | 'link' | 'read' | 'createdAt'>;
+
+/**
+ * Group pending digest notifications by user, oldest first. Notifications
+ * the user has already read in the app are kept apart: they're cleared from
+ * the digest without being emailed.
+ */
+export function groupDigestNotifications(notifications: DigestNotification[]) {
+  const byUser = new Map<string, { unread: DigestNotification[]; read: DigestNotification[] }>();
+  const sorted = [...notifications].sort(
+    (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+  );
+
+  for (const notification of sorted) {
+    const group = byUser.get(notification.userId) ?? { unread: [], read: [] };
+    (notification.read ? group.read : group.unread).push(notification);
+    byUser.set(notification.userId, group);
+  }
+  return byUser;
+}
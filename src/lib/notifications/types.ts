@@ -0,0 +1,54 @@
+/**
+ * In-app notifications
+ *
+ * Rows in `notifications` are written by createNotification in
+ * src/lib/services/notifications.ts with the service role; users can only
+ * read and mark their own (see supabase/rls-policies.sql).
+ */
+
+export const NOTIFICATION_TYPES = [
+  'job_status',
+  'new_job',
+  'assignment',
+  'job_complete',
+  'file_upload',
+  'document_review',
+  'insurance',
+] as const;
+
+export type NotificationType = typeof NOTIFICATION_TYPES[number];
+
+export const NOTIFICATION_TYPE_LABELS: Record<NotificationType, string> = {
+  job_status: 'Job updates',
+  new_job: 'New jobs',
+  assignment: 'Assignments',
+  job_complete: 'Completed jobs',
+  file_upload: 'File uploads',
+  document_review: 'Document reviews',
+  insurance: 'Insurance',
+};
+
+export const NOTIFICATIONS_PAGE_SIZE = 20;
+
+export function isNotificationType(value: unknown): value is NotificationType {
+  return (NOTIFICATION_TYPES as readonly unknown[]).includes(value);
+}
+
+/**
+ * Path of a job's page, for notification links and email buttons
+ */
+export function getJobPath(jobId: string): string {
+  return `/dashboard/jobs/${jobId}`;
+}
+
+/**
+ * Where a notification's stored link should take the user, or null if it
+ * isn't a path inside the app. Links are only ever followed within the app
+ * so a bad row can't send users elsewhere.
+ */
+export function getNotificationHref(link: string | null | undefined): string | null {
+  if (!link || !link.startsWith('/') || link.startsWith('//') || link.includes('\\')) {
+    return null;
+  }
+  return link;
+}
@@ -0,0 +1,51 @@
+import type { Organisation, UserType } from '@/lib/db/schema';
+
+/**
+ * Organisation scoping
+ *
+ * Owners and managers work in one "active" organisation at a time, chosen
+ * with the organisation switcher. CRUD hooks filter organisation-owned
+ * tables by it, and the row-level security policies in
+ * supabase/rls-policies.sql stop anyone reading another organisation's rows
+ * however they query. Admins may clear the active organisation to see every
+ * organisation; contractors work across organisations and are never scoped.
+ */
+
+export const ACTIVE_ORGANISATION_STORAGE_KEY = 'active-organisation-id';
+
+// Tables owned by an organisation and the column holding it
+export const ORGANISATION_SCOPED_TABLES: Readonly<Record<string, string>> = {
+  jobs: 'organisation_id',
+  locations: 'organisation_id',
+};
+
+export function getOrganisationColumn(tableName: string): string | null {
+  return ORGANISATION_SCOPED_TABLES[tableName] ?? null;
+}
+
+/**
+ * Whether a role can clear the active organisation to see every organisation
+ */
+export function canViewAllOrganisations(role: UserType | null): boolean {
+  return role === 'ADMIN';
+}
+
+/**
+ * Pick the active organisation from the ones the user can see
+ *
+ * Keeps the preferred (usually last used) organisation while the user can
+ * still see it, otherwise falls back to the first one. Admins fall back to
+ * every organisation instead.
+ */
+export function resolveActiveOrganisationId(
+  organisations: Pick<Organisation, 'id'>[],
+  preferredId: string | null,
+  role: UserType | null
+): string | null {
+  if (!role || role === 'CONTRACTOR') return null;
+  if (preferredId && organisations.some(organisation => organisation.id === preferredId)) {
+    return preferredId;
+  }
+  if (canViewAllOrganisations(role)) return null;
+  return organisations[0]?.id ?? null;
+}
@@ -0,0 +1,85 @@
+import type { InfiniteData } from '@tanstack/react-query';
+
+/**
+ * Optimistic cache writes
+ *
+ * Pure functions applying a change to whatever a query under an entity's key
+ * holds: a list of items, pages from an infinite query, or a single item. Data
+ * of any other shape is returned unchanged, so they can be passed straight to
+ * `queryClient.setQueriesData` for every query under the key.
+ */
+
+interface Identified {
+  id: string;
+}
+
+type Page<T> = { rows: T[] };
+
+const isItem = (value: unknown): value is Identified =>
+  typeof value === 'object' && value !== null && typeof (value as Identified).id === 'string';
+
+const isInfiniteData = (data: unknown): data is InfiniteData<Page<unknown>> =>
+  typeof data === 'object' && data !== null && Array.isArray((data as InfiniteData<unknown>).pages)
+  && (data as InfiniteData<unknown>).pages.every(page => Array.isArray((page as Page<unknown>)?.rows));
+
+// Apply a change to every list in the data, keeping the data as is when
+// nothing changes
+const mapLists = (data: unknown, change: (items: Identified[]) => Identified[]): unknown => {
+  if (Array.isArray(data)) {
+    return data.every(isItem) ? change(data) : data;
+  }
+  if (isInfiniteData(data)) {
+    return { ...data, pages: data.pages.map(page => ({ ...page, rows: change(page.rows as Identified[]) })) };
+  }
+  return data;
+};
+
+/**
+ * Merge changes into the item with this id, wherever it appears
+ */
+export function updateCachedItem(data: unknown, id: string, changes: object): unknown {
+  if (!Array.isArray(data) && isItem(data)) {
+    return data.id === id ? { ...data, ...changes } : data;
+  }
+  return mapLists(data, items => items.map(item => (item.id === id ? { ...item, ...changes } : item)));
+}
+
+/**
+ * Take the item with this id out of lists
+ */
+export function removeCachedItem(data: unknown, id: string): unknown {
+  return mapLists(data, items => items.filter(item => item.id !== id));
+}
+
+/**
+ * Add an item to the start of lists (the first page of infinite ones)
+ */
+export function addCachedItem<T extends Identified>(data: unknown, item: T): unknown {
+  if (Array.isArray(data)) {
+    return data.every(isItem) ? [item, ...data] : data;
+  }
+  if (isInfiniteData(data) && data.pages.length > 0) {
+    const [first, ...rest] = data.pages;
+    return { ...data, pages: [{ ...first, rows: [item, ...first.rows] }, ...rest] };
+  }
+  return data;
+}
+
+/**
+ * The first cached copy of the item with this id, from query data as
+ * returned by `queryClient.getQueriesData`
+ */
+export function findCachedItem<T extends Identified>(entries: [unknown, unknown][], id: string): T | undefined {
+  for (const [, data] of entries) {
+    if (!Array.isArray(data) && isItem(data)) {
+      if (data.id === id) return data as T;
+      continue;
+    }
+    const lists = Array.isArray(data) ? [data] : isInfiniteData(data) ? data.pages.map(page => page.rows) : [];
+    for (const list of lists) {
+      const item = (list as unknown[]).find(entry => isItem(entry) && entry.id === id);
+      if (item) return item as T;
+    }
+  }
+  return undefined;
+}
@@ -12,6 +12,7 @@ export const queryKeys = {
       filters ? [...queryKeys.users.lists(), filters] as const : queryKeys.users.lists(),
     details: () => [...queryKeys.users.all(), 'detail'] as const,
     detail: (id: string) => [...queryKeys.users.details(), id] as const,
+    history: (id: string) => ['user-history', id] as const,
     byType: (type: string) => [...queryKeys.users.lists(), { type }] as const,
   },
 
@@ -23,6 +24,12 @@ export const queryKeys = {
       filters ? [...queryKeys.locations.lists(), filters] as const : queryKeys.locations.lists(),
     details: () => [...queryKeys.locations.all(), 'detail'] as const,
     detail: (id: string) => [...queryKeys.locations.details(), id] as const,
+    history: (id: string) => ['location-history', id] as const,
+    managers: (organisationId?: string | null) =>
+      organisationId !== undefined
+        ? [...queryKeys.locations.all(), 'managers', organisationId] as const
+        : [...queryKeys.locations.all(), 'managers'] as const,
+    managed: (managerId: string) => [...queryKeys.locations.all(), 'managed', managerId] as const,
   },
 
   // Organisations
@@ -33,6 +40,7 @@ export const queryKeys = {
       filters ? [...queryKeys.organisations.lists(), filters] as const : queryKeys.organisations.lists(),
     details: () => [...queryKeys.organisations.all(), 'detail'] as const,
     detail: (id: string) => [...queryKeys.organisations.details(), id] as const,
+    history: (id: string) => ['organisation-history', id] as const,
   },
 
   // Jobs
@@ -49,6 +57,7 @@ export const queryKeys = {
     },
     details: () => [...queryKeys.jobs.all(), 'detail'] as const,
     detail: (id: string) => [...queryKeys.jobs.details(), id] as const,
+    matches: () => [...queryKeys.jobs.all(), 'matches'] as const,
     history: (jobId: string, userType?: string) => {
       const key = ['job-history', jobId];
       if (userType) key.push(userType);
@@ -71,6 +80,8 @@ export const queryKeys = {
     documents: (userId?: string) => 
       userId ? ['contractor-documents', userId] as const : ['contractor-documents'] as const,
     profile: (userId: string) => ['contractor-profile', userId] as const,
+    reviews: (status?: string) =>
+      status ? ['contractor-document-reviews', status] as const : ['contractor-document-reviews'] as const,
   },
 
   // User invitations
@@ -79,14 +90,26 @@ export const queryKeys = {
     lists: () => [...queryKeys.userInvitations.all(), 'list'] as const,
     list: (filters?: Record<string, unknown>) => 
       filters ? [...queryKeys.userInvitations.lists(), filters] as const : queryKeys.userInvitations.lists(),
+    byToken: (token: string) => [...queryKeys.userInvitations.all(), 'token', token] as const,
   },
 
   // Notifications
   notifications: {
     all: (userId?: string) => 
       userId ? ['notifications', userId] as const : ['notifications'] as const,
+    list: (userId: string, filters?: Record<string, unknown>) =>
+      filters ? ['notifications', userId, 'list', filters] as const : ['notifications', userId, 'list'] as const,
     unread: (userId?: string) => 
       userId ? ['notifications-unread', userId] as const : ['notifications-unread'] as const,
+    preferences: (userId: string) => ['notification-preferences', userId] as const,
+  },
+
+  // Notification outbox (admin)
+  notificationOutbox: {
+    all: () => ['notification-outbox'] as const,
+    lists: () => [...queryKeys.notificationOutbox.all(), 'list'] as const,
+    list: (status?: string) =>
+      status ? [...queryKeys.notificationOutbox.lists(), status] as const : queryKeys.notificationOutbox.lists(),
   },
 } as const;
 
@@ -122,4 +145,5 @@ export const jobKeys = queryKeys.jobs;
 export const fileKeys = queryKeys.files;
 export const contractorKeys = queryKeys.contractor;
 export const userInvitationKeys = queryKeys.userInvitations;
-export const notificationKeys = queryKeys.notifications;
\ No newline at end of file
+export const notificationKeys = queryKeys.notifications;
+export const notificationOutboxKeys = queryKeys.notificationOutbox;
\ No newline at end of file
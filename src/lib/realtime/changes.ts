@@ -0,0 +1,97 @@
+import { fileKeys, jobKeys, notificationKeys, queryKeys } from '@/lib/queryKeys';
+
+/**
+ * Realtime changes
+ *
+ * The browser subscribes to Postgres changes on these tables (see
+ * RealtimeProvider) and turns each change into query invalidations and,
+ * for new notifications, a toast. Changes are only delivered for rows the
+ * user can read under row-level security, and the tables must be in the
+ * `supabase_realtime` publication (see supabase/realtime.sql).
+ */
+
+export const REALTIME_TABLES = ['jobs', 'notifications', 'job_files'] as const;
+
+export type RealtimeTable = typeof REALTIME_TABLES[number];
+
+export type RealtimeStatus = 'connecting' | 'connected' | 'reconnecting' | 'disconnected';
+
+export interface RealtimeChange {
+  table: string;
+  eventType: 'INSERT' | 'UPDATE' | 'DELETE';
+  new: Record<string, unknown>;
+  old: Record<string, unknown>;
+}
+
+export interface RealtimeToast {
+  title: string;
+  description?: string;
+}
+
+export const RECONNECT_BASE_DELAY = 1000;
+export const RECONNECT_MAX_DELAY = 30_000;
+
+type QueryKey = readonly unknown[];
+
+// Deletes only carry the primary key, so fall back to the old row's ID
+const getRowValue = (change: RealtimeChange, column: string) =>
+  (change.new?.[column] ?? change.old?.[column]) as string | undefined;
+
+/**
+ * Query keys to invalidate for a change
+ *
+ * Job changes refresh every job query (lists, details and matches) since a
+ * status change can move a job between them.
+ */
+export function getInvalidationKeys(change: RealtimeChange, userId: string): QueryKey[] {
+  switch (change.table) {
+    case 'jobs': {
+      const jobId = getRowValue(change, 'id');
+      return jobId ? [jobKeys.all(), queryKeys.jobs.history(jobId)] : [jobKeys.all()];
+    }
+    case 'notifications':
+      return [notificationKeys.all(userId), notificationKeys.unread(userId)];
+    case 'job_files': {
+      const jobId = getRowValue(change, 'job_id');
+      return jobId
+        ? [fileKeys.all(), jobKeys.detail(jobId), queryKeys.jobs.history(jobId)]
+        : [fileKeys.all(), jobKeys.details()];
+    }
+    default:
+      return [];
+  }
+}
+
+/**
+ * Every query the realtime tables feed, for catching up after a dropped
+ * connection
+ */
+export function getAllRealtimeKeys(userId: string): QueryKey[] {
+  return [jobKeys.all(), ['job-history'], fileKeys.all(), notificationKeys.all(userId), notificationKeys.unread(userId)];
+}
+
+/**
+ * Toast to show for a change, if any
+ *
+ * Only new notifications are toasted: job and file changes that matter to
+ * the user already create a notification, so toasting them too would
+ * announce the same event twice.
+ */
+export function getRealtimeToast(change: RealtimeChange, userId: string): RealtimeToast | null {
+  if (change.table !== 'notifications' || change.eventType !== 'INSERT') return null;
+  if (change.new.user_id !== userId) return null;
+
+  const title = typeof change.new.title === 'string' ? change.new.title : 'New notification';
+  const description = typeof change.new.message === 'string' ? change.new.message : undefined;
+  return { title, description };
+}
+
+/**
+ * Delay before reconnect attempt `attempt` (from 0): exponential backoff
+ * capped at RECONNECT_MAX_DELAY, with jitter so clients that dropped together
+ * don't all reconnect at once
+ */
+export function getReconnectDelay(attempt: number, random: () => number = Math.random): number {
+  const delay = Math.min(RECONNECT_MAX_DELAY, RECONNECT_BASE_DELAY * 2 ** attempt);
+  return Math.round(delay / 2 + (delay / 2) * random());
+}
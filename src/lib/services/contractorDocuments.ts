@@ -0,0 +1,251 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { camelizeKeys } from 'humps';
+import type {
+  ContractorDocumentReview,
+  ContractorDocuments,
+} from '@/lib/db/schema';
+import type { RequestActor } from '@/lib/api/session';
+import {
+  assertContractorVerified,
+  getContractorDocument,
+  getContractorVerification,
+  type ContractorVerification,
+} from '@/lib/contractors/documents';
+import { getDueInsuranceReminder, getReminderWindowEnd } from '@/lib/contractors/insurance';
+import {
+  notifyDocumentReviewed,
+  notifyInsuranceExpiring,
+  notifyInsuranceLapsed,
+} from '@/lib/services/notifications';
+import { transformError } from '@/lib/error-handling';
+import { NotFoundError, PermissionError, ValidationError } from '@/types/errors';
+
+interface ReviewDocumentParams {
+  reviewId: string;
+  decision: 'approved' | 'rejected';
+  reason?: string | null;
+  reviewer: RequestActor;
+}
+
+/**
+ * Load a contractor's documents and reviews and work out their verification
+ */
+export async function fetchContractorVerification(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<ContractorVerification> {
+  const [documentsResult, reviewsResult] = await Promise.all([
+    supabase
+      .from('contractor_documents')
+      .select('insurance_expiry_date')
+      .eq('user_id', userId)
+      .maybeSingle(),
+    supabase
+      .from('contractor_document_reviews')
+      .select('document_type, status')
+      .eq('user_id', userId),
+  ]);
+
+  if (documentsResult.error) {
+    throw transformError(documentsResult.error, 'fetching contractor documents');
+  }
+  if (reviewsResult.error) {
+    throw transformError(reviewsResult.error, 'fetching document reviews');
+  }
+
+  return getContractorVerification(
+    documentsResult.data ? camelizeKeys(documentsResult.data) as Pick<ContractorDocuments, 'insuranceExpiryDate'> : null,
+    camelizeKeys(reviewsResult.data ?? []) as Pick<ContractorDocumentReview, 'documentType' | 'status'>[]
+  );
+}
+
+/**
+ * Throw a PermissionError unless the contractor may claim jobs
+ */
+export async function assertContractorCanClaim(supabase: SupabaseClient, userId: string) {
+  const { data: user, error } = await supabase
+    .from('users')
+    .select('claims_suspended')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw transformError(error, 'fetching contractor');
+  }
+  if (user?.claims_suspended) {
+    throw new PermissionError('Your insurance has expired. Upload a current certificate to claim jobs again.', {
+      claimsSuspended: true,
+    });
+  }
+
+  assertContractorVerified(await fetchContractorVerification(supabase, userId));
+}
+
+/**
+ * Approve or reject a pending document review
+ *
+ * Admins review every contractor's documents and owners those of the
+ * contractors in their organisations; row-level security hides the rest.
+ * Rejections need a reason, which is shown to the contractor. Afterwards the
+ * contractor's `verified_at` is set or cleared to match their verification.
+ */
+export async function reviewContractorDocument(
+  supabase: SupabaseClient,
+  { reviewId, decision, reason, reviewer }: ReviewDocumentParams
+): Promise<ContractorDocumentReview> {
+  const trimmedReason = reason?.trim() || null;
+  if (decision === 'rejected' && !trimmedReason) {
+    throw new ValidationError('Give a reason so the contractor knows what to fix.', {
+      reason: 'Required when rejecting',
+    });
+  }
+
+  const { data, error } = await supabase
+    .from('contractor_document_reviews')
+    .update({
+      status: decision,
+      reason: decision === 'rejected' ? trimmedReason : null,
+      reviewed_by: reviewer.id,
+      reviewed_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', reviewId)
+    .eq('status', 'pending')
+    .select('*')
+    .maybeSingle();
+
+  if (error) {
+    throw transformError(error, 'reviewing document');
+  }
+  if (!data) {
+    throw new NotFoundError('This document is no longer waiting for review.', { reviewId });
+  }
+
+  const review = camelizeKeys(data) as ContractorDocumentReview;
+  const verification = await fetchContractorVerification(supabase, review.userId);
+
+  const { error: verifyError } = await supabase
+    .from('contractor_documents')
+    .update({
+      verified_at: verification.verified ? new Date().toISOString() : null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('user_id', review.userId);
+
+  if (verifyError) {
+    throw transformError(verifyError, 'updating contractor verification');
+  }
+
+  // Verification with current insurance lifts a suspension from a lapsed policy
+  if (verification.verified) {
+    const { error: reinstateError } = await supabase
+      .from('users')
+      .update({ claims_suspended: false, updated_at: new Date().toISOString() })
+      .eq('id', review.userId)
+      .eq('claims_suspended', true);
+
+    if (reinstateError) {
+      throw transformError(reinstateError, 'reinstating contractor');
+    }
+  }
+
+  await notifyDocumentReviewed(
+    review.userId,
+    getContractorDocument(review.documentType).label,
+    decision === 'approved',
+    review.reason
+  );
+
+  return review;
+}
+
+export interface InsuranceExpiryResult {
+  reminded: { userId: string; days: number }[];
+  suspended: string[];
+}
+
+/**
+ * Send due insurance expiry reminders and suspend contractors whose insurance
+ * has lapsed
+ *
+ * Meant to run daily with the service client. Suspension sets
+ * `users.claims_suspended`, which the history trigger records in user_history,
+ * and clears `verified_at` so the contractor is re-verified after renewing.
+ */
+export async function checkInsuranceExpiry(
+  supabase: SupabaseClient,
+  now: Date = new Date()
+): Promise<InsuranceExpiryResult> {
+  const result: InsuranceExpiryResult = { reminded: [], suspended: [] };
+
+  const { data: expiring, error: expiringError } = await supabase
+    .from('contractor_documents')
+    .select('user_id, insurance_expiry_date, insurance_reminder_days')
+    .gt('insurance_expiry_date', now.toISOString())
+    .lte('insurance_expiry_date', getReminderWindowEnd(now).toISOString());
+
+  if (expiringError) {
+    throw transformError(expiringError, 'fetching expiring insurance');
+  }
+
+  for (const row of expiring ?? []) {
+    const days = getDueInsuranceReminder(row.insurance_expiry_date, row.insurance_reminder_days, now);
+    if (days === null) continue;
+
+    // Only record the reminder if the expiry date hasn't changed since we read it
+    const { data: updated, error } = await supabase
+      .from('contractor_documents')
+      .update({ insurance_reminder_days: days })
+      .eq('user_id', row.user_id)
+      .eq('insurance_expiry_date', row.insurance_expiry_date)
+      .select('user_id')
+      .maybeSingle();
+
+    if (error) {
+      throw transformError(error, 'recording insurance reminder');
+    }
+    if (!updated) continue;
+
+    await notifyInsuranceExpiring(row.user_id, days, new Date(row.insurance_expiry_date));
+    result.reminded.push({ userId: row.user_id, days });
+  }
+
+  const { data: lapsed, error: lapsedError } = await supabase
+    .from('contractor_documents')
+    .select('user_id, insurance_expiry_date, users!inner(claims_suspended)')
+    .lte('insurance_expiry_date', now.toISOString())
+    .eq('users.claims_suspended', false);
+
+  if (lapsedError) {
+    throw transformError(lapsedError, 'fetching lapsed insurance');
+  }
+
+  for (const row of lapsed ?? []) {
+    const { data: suspended, error } = await supabase
+      .from('users')
+      .update({ claims_suspended: true, updated_at: now.toISOString() })
+      .eq('id', row.user_id)
+      .eq('claims_suspended', false)
+      .select('id')
+      .maybeSingle();
+
+    if (error) {
+      throw transformError(error, 'suspending contractor');
+    }
+    if (!suspended) continue;
+
+    const { error: verifyError } = await supabase
+      .from('contractor_documents')
+      .update({ verified_at: null, updated_at: now.toISOString() })
+      .eq('user_id', row.user_id);
+
+    if (verifyError) {
+      throw transformError(verifyError, 'updating contractor verification');
+    }
+
+    await notifyInsuranceLapsed(row.user_id, new Date(row.insurance_expiry_date));
+    result.suspended.push(row.user_id);
+  }
+
+  return result;
+}
@@ -0,0 +1,321 @@
+import { SupabaseClient, type User as AuthUser } from '@supabase/supabase-js';
+import { camelizeKeys } from 'humps';
+import { randomBytes } from 'crypto';
+import type { UserInvitation } from '@/lib/db/schema';
+import type { RequestActor } from '@/lib/api/session';
+import type { CreateInvitationInput } from '@/lib/invitations/schemas';
+import {
+  canApplyInvitationAction,
+  getEffectiveInvitationStatus,
+  getInvitationExpiry,
+  type InvitationAction,
+} from '@/lib/invitations/status';
+import { userInvitationEmail } from '@/lib/email/templates';
+import { sendEmailNotification } from '@/lib/services/notifications';
+import { transformError } from '@/lib/error-handling';
+import { NotFoundError, PermissionError, ValidationError } from '@/types/errors';
+
+const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+
+// What an invitee may see about their invitation before signing up
+export type InvitationDetails = Pick<UserInvitation, 'email' | 'name' | 'userType' | 'status' | 'expiresAt'>;
+
+// What admins and owners see in the management table - the token only ever goes out by email
+export type ManagedInvitation = Omit<UserInvitation, 'token'>;
+
+export const MANAGED_INVITATION_COLUMNS =
+  'id, email, name, user_type, invited_by, status, expires_at, completed_at, created_at, updated_at';
+
+/**
+ * Strip the token and report overdue pending invitations as expired
+ */
+export function toManagedInvitation(invitation: UserInvitation): ManagedInvitation {
+  const managed: Partial<UserInvitation> = { ...invitation, status: getEffectiveInvitationStatus(invitation) };
+  delete managed.token;
+  return managed as ManagedInvitation;
+}
+
+/**
+ * Reduce an invitation to what the invitee may see
+ */
+export function toInvitationDetails(invitation: UserInvitation): InvitationDetails {
+  return {
+    email: invitation.email,
+    name: invitation.name,
+    userType: invitation.userType,
+    status: getEffectiveInvitationStatus(invitation),
+    expiresAt: invitation.expiresAt,
+  };
+}
+
+export function generateInvitationToken(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+export function getInvitationUrl(token: string): string {
+  return `${appUrl}/invite/${token}`;
+}
+
+/**
+ * Invite someone by email with a chosen user type and send them the link
+ */
+export async function createInvitation(
+  supabase: SupabaseClient,
+  input: CreateInvitationInput,
+  actor: RequestActor
+): Promise<UserInvitation> {
+  const { data: existingUser, error: userError } = await supabase
+    .from('users')
+    .select('id')
+    .eq('email', input.email)
+    .maybeSingle();
+
+  if (userError) {
+    throw transformError(userError, 'checking existing users');
+  }
+  if (existingUser) {
+    throw new ValidationError('A user with this email already exists.', { email: 'Already registered' });
+  }
+
+  const { data: pending, error: pendingError } = await supabase
+    .from('user_invitations')
+    .select('id')
+    .eq('email', input.email)
+    .eq('status', 'pending')
+    .gt('expires_at', new Date().toISOString())
+    .limit(1);
+
+  if (pendingError) {
+    throw transformError(pendingError, 'checking pending invitations');
+  }
+  if (pending && pending.length > 0) {
+    throw new ValidationError('This email already has a pending invitation. Resend it instead.', {
+      email: 'Already invited',
+    });
+  }
+
+  const { data, error } = await supabase
+    .from('user_invitations')
+    .insert({
+      email: input.email,
+      name: input.name,
+      user_type: input.userType,
+      invited_by: actor.id,
+      status: 'pending',
+      token: generateInvitationToken(),
+      expires_at: getInvitationExpiry().toISOString(),
+    })
+    .select('*')
+    .single();
+
+  if (error) {
+    throw transformError(error, 'creating invitation');
+  }
+
+  const invitation = camelizeKeys(data) as UserInvitation;
+  await sendInvitationEmail(supabase, invitation);
+  return invitation;
+}
+
+/**
+ * Resend, revoke or expire an invitation the actor manages
+ *
+ * Resending issues a fresh token and expiry so any earlier link stops working.
+ */
+export async function updateInvitation(
+  supabase: SupabaseClient,
+  id: string,
+  action: InvitationAction,
+  actor: RequestActor
+): Promise<UserInvitation> {
+  const invitation = await getManagedInvitation(supabase, id, actor);
+
+  if (!canApplyInvitationAction(invitation, action)) {
+    throw new ValidationError(`A ${getEffectiveInvitationStatus(invitation)} invitation can't be ${actionLabels[action]}.`);
+  }
+
+  const changes = action === 'resend'
+    ? { status: 'pending', token: generateInvitationToken(), expires_at: getInvitationExpiry().toISOString() }
+    : { status: action === 'revoke' ? 'revoked' : 'expired' };
+
+  const { data, error } = await supabase
+    .from('user_invitations')
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .eq('status', invitation.status)
+    .select('*')
+    .maybeSingle();
+
+  if (error) {
+    throw transformError(error, 'updating invitation');
+  }
+  if (!data) {
+    throw new ValidationError('This invitation was changed by someone else. Please refresh and try again.');
+  }
+
+  const updated = camelizeKeys(data) as UserInvitation;
+  if (action === 'resend') {
+    await sendInvitationEmail(supabase, updated);
+  }
+  return updated;
+}
+
+const actionLabels: Record<InvitationAction, string> = {
+  resend: 'resent',
+  revoke: 'revoked',
+  expire: 'expired',
+};
+
+/**
+ * Mark pending invitations past their expiry date as expired
+ * @returns the number of invitations expired
+ */
+export async function expireOverdueInvitations(supabase: SupabaseClient): Promise<number> {
+  const { data, error } = await supabase
+    .from('user_invitations')
+    .update({ status: 'expired', updated_at: new Date().toISOString() })
+    .eq('status', 'pending')
+    .lte('expires_at', new Date().toISOString())
+    .select('id');
+
+  if (error) {
+    throw transformError(error, 'expiring invitations');
+  }
+  return data?.length ?? 0;
+}
+
+/**
+ * Look up the public details of an invitation by its token
+ * Expects a service client - invitees are not signed in yet.
+ */
+export async function getInvitationByToken(
+  supabase: SupabaseClient,
+  token: string
+): Promise<UserInvitation> {
+  const { data, error } = await supabase
+    .from('user_invitations')
+    .select('*')
+    .eq('token', token)
+    .maybeSingle();
+
+  if (error) {
+    throw transformError(error, 'fetching invitation');
+  }
+  if (!data) {
+    throw new NotFoundError('This invitation link is not valid.');
+  }
+
+  const invitation = camelizeKeys(data) as UserInvitation;
+  return { ...invitation, status: getEffectiveInvitationStatus(invitation) };
+}
+
+/**
+ * Complete an invitation once the invitee has signed up
+ *
+ * Creates the user record with the invited user type and marks the
+ * invitation completed. The account comes from the invitee's session and
+ * must have confirmed its email address. Expects a service client, as the
+ * invitee has no users row (and so no access) yet.
+ *
+ * @throws PermissionError when the account's email is unconfirmed or doesn't match the invitation
+ */
+export async function acceptInvitation(
+  supabase: SupabaseClient,
+  token: string,
+  account: Pick<AuthUser, 'id' | 'email' | 'email_confirmed_at'>
+): Promise<UserInvitation> {
+  const invitation = await getInvitationByToken(supabase, token);
+  if (invitation.status !== 'pending') {
+    throw new ValidationError(`This invitation is ${invitation.status}.`);
+  }
+
+  if (account.email?.toLowerCase() !== invitation.email.toLowerCase()) {
+    throw new PermissionError('This invitation was sent to a different email address.');
+  }
+  if (!account.email_confirmed_at) {
+    throw new PermissionError('Confirm your email address before accepting this invitation.');
+  }
+
+  const { error: insertError } = await supabase
+    .from('users')
+    .insert({
+      id: account.id,
+      email: invitation.email,
+      name: invitation.name,
+      type: invitation.userType,
+      status: 'ACTIVE',
+    });
+
+  if (insertError) {
+    throw transformError(insertError, 'creating user');
+  }
+
+  const { data, error } = await supabase
+    .from('user_invitations')
+    .update({
+      status: 'completed',
+      completed_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', invitation.id)
+    .eq('status', 'pending')
+    .select('*')
+    .maybeSingle();
+
+  if (error) {
+    throw transformError(error, 'completing invitation');
+  }
+  if (!data) {
+    throw new ValidationError('This invitation has already been used.');
+  }
+
+  return camelizeKeys(data) as UserInvitation;
+}
+
+/**
+ * Fetch an invitation, checking the actor may manage it.
+ * Admins manage every invitation; owners only the ones they sent.
+ */
+async function getManagedInvitation(
+  supabase: SupabaseClient,
+  id: string,
+  actor: RequestActor
+): Promise<UserInvitation> {
+  const { data, error } = await supabase
+    .from('user_invitations')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    throw transformError(error, 'fetching invitation');
+  }
+  if (!data) {
+    throw new NotFoundError('Invitation not found.', { id });
+  }
+
+  const invitation = camelizeKeys(data) as UserInvitation;
+  if (actor.type !== 'ADMIN' && invitation.invitedBy !== actor.id) {
+    throw new PermissionError("You can only manage invitations you sent.", { id });
+  }
+  return invitation;
+}
+
+async function sendInvitationEmail(supabase: SupabaseClient, invitation: UserInvitation) {
+  const { data: inviter } = await supabase
+    .from('users')
+    .select('name')
+    .eq('id', invitation.invitedBy)
+    .maybeSingle();
+
+  await sendEmailNotification(
+    invitation.email,
+    userInvitationEmail(
+      invitation.name,
+      inviter?.name || null,
+      invitation.userType,
+      getInvitationUrl(invitation.token),
+      new Date(invitation.expiresAt)
+    )
+  );
+}
@@ -0,0 +1,189 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { camelizeKeys } from 'humps';
+import type { Job, JobStatus } from '@/lib/db/schema';
+import { assertJobTransition, type TransitionActor } from '@/lib/jobs/transitions';
+import { assertContractorSpecialities } from '@/lib/jobs/claims';
+import { notifyAdminJobClaimed, notifyJobStatusChange } from '@/lib/services/notifications';
+import { assertContractorCanClaim } from '@/lib/services/contractorDocuments';
+import { notifyMatchingContractors } from '@/lib/services/matching';
+import { getManagedLocationIds } from '@/lib/services/locationManagers';
+import { JOB_TABLE_SELECT, VISIBLE_JOBS_VIEW } from '@/lib/jobs/visibility';
+import { transformError } from '@/lib/error-handling';
+import { ConflictError, NotFoundError } from '@/types/errors';
+
+interface TransitionJobParams {
+  jobId: string;
+  toStatus: JobStatus;
+  actor: TransitionActor;
+}
+
+interface ClaimJobParams {
+  jobId: string;
+  actor: TransitionActor;
+}
+
+async function fetchJob(supabase: SupabaseClient, jobId: string): Promise<Job> {
+  const { data, error } = await supabase
+    .from(VISIBLE_JOBS_VIEW)
+    .select('*')
+    .eq('id', jobId)
+    .is('deleted_at', null)
+    .maybeSingle();
+
+  if (error) {
+    throw transformError(error, 'fetching job');
+  }
+  if (!data) {
+    throw new NotFoundError('Job not found.', { jobId });
+  }
+  return camelizeKeys(data) as Job;
+}
+
+// Managers may only act on jobs at their locations, so load those first
+async function withManagedLocations(supabase: SupabaseClient, actor: TransitionActor): Promise<TransitionActor> {
+  if (actor.type !== 'MANAGER' || actor.managedLocationIds) {
+    return actor;
+  }
+  return { ...actor, managedLocationIds: await getManagedLocationIds(supabase, actor.id) };
+}
+
+/**
+ * Move a job to a new status
+ *
+ * Validates the change against the lifecycle table, updates the job only if
+ * its status has not changed in the meantime and notifies the owner,
+ * contractor and location managers. Claims are handed to claimJob; releasing a job unassigns its
+ * contractor, and publishing notifies matching contractors. The job_history version is written by the jobs_record_history
+ * trigger.
+ */
+export async function transitionJob(
+  supabase: SupabaseClient,
+  { jobId, toStatus, actor }: TransitionJobParams
+): Promise<Job> {
+  const job = await fetchJob(supabase, jobId);
+  const transition = assertJobTransition(job, toStatus, await withManagedLocations(supabase, actor));
+  if (transition.action === 'claim') {
+    return claimFetchedJob(supabase, job, actor);
+  }
+
+  const now = new Date().toISOString();
+  const { data: updated, error: updateError } = await supabase
+    .from('jobs')
+    .update({
+      status: toStatus,
+      ...(transition.action === 'release' ? { contractor_id: null } : {}),
+      changed_by: actor.id,
+      updated_by: actor.id,
+      updated_at: now,
+    })
+    .eq('id', jobId)
+    .eq('status', job.status)
+    .select(JOB_TABLE_SELECT)
+    .maybeSingle();
+
+  if (updateError) {
+    throw transformError(updateError, 'updating job status');
+  }
+  if (!updated) {
+    throw new ConflictError('This job was changed by someone else. Please refresh and try again.', { jobId });
+  }
+
+  const updatedJob = camelizeKeys(updated) as Job;
+
+  const affectedUsers = [{ id: updatedJob.ownerId, role: 'OWNER' }];
+  if (updatedJob.contractorId) {
+    affectedUsers.push({ id: updatedJob.contractorId, role: 'CONTRACTOR' });
+  }
+  await notifyJobStatusChange(updatedJob.id, updatedJob.title, toStatus, affectedUsers, updatedJob.locationId);
+  if (transition.action === 'publish') {
+    await notifyMatchingContractors(supabase, updatedJob);
+  }
+
+  return updatedJob;
+}
+
+/**
+ * Claim an available job for a contractor
+ *
+ * The contractor must be verified and have every speciality the job requires.
+ * The update only matches while the job is still AVAILABLE, so when several
+ * contractors claim at once the database lets exactly one through and the
+ * rest get a ConflictError.
+ */
+export async function claimJob(supabase: SupabaseClient, { jobId, actor }: ClaimJobParams): Promise<Job> {
+  const job = await fetchJob(supabase, jobId);
+  if (job.status !== 'AVAILABLE' && job.contractorId) {
+    throw new ConflictError(
+      job.contractorId === actor.id ? 'You have already claimed this job.' : 'This job has already been claimed.',
+      { jobId }
+    );
+  }
+  assertJobTransition(job, 'CLAIMED', actor);
+  return claimFetchedJob(supabase, job, actor);
+}
+
+async function claimFetchedJob(supabase: SupabaseClient, job: Job, actor: TransitionActor): Promise<Job> {
+  await assertContractorCanClaim(supabase, actor.id);
+
+  const { data: profile, error: profileError } = await supabase
+    .from('contractor_profiles')
+    .select('specialities')
+    .eq('user_id', actor.id)
+    .maybeSingle();
+
+  if (profileError) {
+    throw transformError(profileError, 'fetching contractor profile');
+  }
+  assertContractorSpecialities(job.requiredSpecialities, profile?.specialities);
+
+  const now = new Date().toISOString();
+  const { data: claimed, error: claimError } = await supabase
+    .from('jobs')
+    .update({
+      status: 'CLAIMED',
+      contractor_id: actor.id,
+      changed_by: actor.id,
+      updated_by: actor.id,
+      updated_at: now,
+    })
+    .eq('id', job.id)
+    .eq('status', 'AVAILABLE')
+    .is('deleted_at', null)
+    .select(JOB_TABLE_SELECT)
+    .maybeSingle();
+
+  if (claimError) {
+    throw transformError(claimError, 'claiming job');
+  }
+  if (!claimed) {
+    throw new ConflictError('Another contractor claimed this job first.', { jobId: job.id });
+  }
+
+  const claimedJob = camelizeKeys(claimed) as Job;
+  await notifyClaim(supabase, claimedJob, actor.id);
+  return claimedJob;
+}
+
+async function notifyClaim(supabase: SupabaseClient, job: Job, contractorId: string) {
+  const [contractor, location] = await Promise.all([
+    supabase.from('users').select('name, email').eq('id', contractorId).maybeSingle(),
+    job.locationId
+      ? supabase.from('locations').select('name, address').eq('id', job.locationId).maybeSingle()
+      : Promise.resolve({ data: null }),
+  ]);
+  const locationName = location.data ? location.data.address || location.data.name : 'No location';
+
+  await Promise.all([
+    notifyJobStatusChange(job.id, job.title, 'CLAIMED', [
+      { id: job.ownerId, role: 'OWNER' },
+      { id: contractorId, role: 'CONTRACTOR' },
+    ], job.locationId),
+    notifyAdminJobClaimed(
+      job.id,
+      job.title,
+      locationName,
+      contractor.data?.name ?? 'Unknown contractor',
+      contractor.data?.email ?? ''
+    ),
+  ]);
+}
@@ -0,0 +1,116 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { camelizeKeys } from 'humps';
+import type { LocationManager } from '@/lib/db/schema';
+import type { RequestActor } from '@/lib/api/session';
+import { transformError } from '@/lib/error-handling';
+import { NotFoundError, PermissionError, ValidationError } from '@/types/errors';
+
+/**
+ * IDs of the locations a manager is assigned to
+ */
+export async function getManagedLocationIds(supabase: SupabaseClient, managerId: string): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('location_managers')
+    .select('location_id')
+    .eq('manager_id', managerId);
+
+  if (error) {
+    throw transformError(error, 'fetching managed locations');
+  }
+  return (data ?? []).map(row => row.location_id as string);
+}
+
+interface SetLocationManagersParams {
+  locationId: string;
+  managerIds: string[];
+  actor: RequestActor;
+}
+
+/**
+ * Replace the managers assigned to a location
+ *
+ * Only admins and the owner of the location's organisation can assign
+ * managers, and every manager must be an active MANAGER in that
+ * organisation. Existing assignments keep their original assigned_by.
+ */
+export async function setLocationManagers(
+  supabase: SupabaseClient,
+  { locationId, managerIds, actor }: SetLocationManagersParams
+): Promise<LocationManager[]> {
+  const { data: location, error: locationError } = await supabase
+    .from('locations')
+    .select('id, organisation_id, organisation:organisations(owner_id)')
+    .eq('id', locationId)
+    .maybeSingle();
+
+  if (locationError) {
+    throw transformError(locationError, 'fetching location');
+  }
+  if (!location) {
+    throw new NotFoundError('Location not found.', { locationId });
+  }
+
+  const organisation = location.organisation as unknown as { owner_id: string } | null;
+  if (actor.type !== 'ADMIN' && organisation?.owner_id !== actor.id) {
+    throw new PermissionError('Only the owner of this organisation can assign its managers.', { locationId });
+  }
+
+  if (managerIds.length > 0) {
+    if (!location.organisation_id) {
+      throw new ValidationError('Add this location to an organisation before assigning managers.', {
+        managerIds: 'Location has no organisation',
+      });
+    }
+
+    const { data: managers, error: managersError } = await supabase
+      .from('user_organisations')
+      .select('user_id, user:users!inner(type, status)')
+      .eq('organisation_id', location.organisation_id)
+      .in('user_id', managerIds)
+      .eq('user.type', 'MANAGER')
+      .eq('user.status', 'ACTIVE');
+
+    if (managersError) {
+      throw transformError(managersError, 'fetching managers');
+    }
+
+    const eligible = new Set((managers ?? []).map(row => row.user_id));
+    const ineligible = managerIds.filter(id => !eligible.has(id));
+    if (ineligible.length > 0) {
+      throw new ValidationError('Only active managers in this organisation can be assigned.', {
+        managerIds: `Not a manager in this organisation: ${ineligible.join(', ')}`,
+      });
+    }
+  }
+
+  let removal = supabase.from('location_managers').delete().eq('location_id', locationId);
+  if (managerIds.length > 0) {
+    removal = removal.not('manager_id', 'in', `(${managerIds.join(',')})`);
+  }
+  const { error: removeError } = await removal;
+  if (removeError) {
+    throw transformError(removeError, 'removing location managers');
+  }
+
+  if (managerIds.length > 0) {
+    const { error: assignError } = await supabase
+      .from('location_managers')
+      .upsert(
+        managerIds.map(managerId => ({ location_id: locationId, manager_id: managerId, assigned_by: actor.id })),
+        { onConflict: 'location_id,manager_id', ignoreDuplicates: true }
+      );
+    if (assignError) {
+      throw transformError(assignError, 'assigning location managers');
+    }
+  }
+
+  const { data, error } = await supabase
+    .from('location_managers')
+    .select('*')
+    .eq('location_id', locationId);
+
+  if (error) {
+    throw transformError(error, 'fetching location managers');
+  }
+  return camelizeKeys(data ?? []) as LocationManager[];
+}
@@ -0,0 +1,151 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { camelizeKeys } from 'humps';
+import type { Job, JobStatus, Location, UserType } from '@/lib/db/schema';
+import { getBoundingBox, haversineDistanceKm, toCoordinates, type Coordinates } from '@/lib/geo/distance';
+import { getGeocoder, type Geocoder } from '@/lib/geo/geocoder';
+import { VISIBLE_JOBS_VIEW, getJobSelect } from '@/lib/jobs/visibility';
+import { transformError } from '@/lib/error-handling';
+import { NotFoundError } from '@/types/errors';
+
+// Addresses that couldn't be found are retried after this long
+const GEOCODE_RETRY_DAYS = 7;
+
+export interface GeocodeBatchResult {
+  geocoded: string[];
+  notFound: string[];
+  failed: string[];
+}
+
+export type NearbyJob = Job & {
+  location: Pick<Location, 'name' | 'address' | 'latitude' | 'longitude'>;
+  distanceKm: number;
+};
+
+async function saveGeocode(
+  supabase: SupabaseClient,
+  location: Pick<Location, 'id' | 'address'>,
+  geocoder: Geocoder
+): Promise<Location> {
+  const result = await geocoder.geocode(location.address);
+
+  const { data, error } = await supabase
+    .from('locations')
+    .update({
+      latitude: result?.latitude ?? null,
+      longitude: result?.longitude ?? null,
+      geocode_attempted_at: new Date().toISOString(),
+    })
+    .eq('id', location.id)
+    // Don't store coordinates for an address that changed while we looked it up
+    .eq('address', location.address)
+    .select('*')
+    .maybeSingle();
+
+  if (error) {
+    throw transformError(error, 'saving location coordinates');
+  }
+  if (!data) {
+    throw new NotFoundError('Location not found or its address changed.', { locationId: location.id });
+  }
+  return camelizeKeys(data) as Location;
+}
+
+/**
+ * Geocode one location's address and store its coordinates
+ *
+ * Coordinates are cleared if the address can't be found.
+ */
+export async function geocodeLocation(
+  supabase: SupabaseClient,
+  locationId: string,
+  geocoder: Geocoder = getGeocoder()
+): Promise<Location> {
+  const { data, error } = await supabase
+    .from('locations')
+    .select('id, address')
+    .eq('id', locationId)
+    .maybeSingle();
+
+  if (error) {
+    throw transformError(error, 'fetching location');
+  }
+  if (!data) {
+    throw new NotFoundError('Location not found.', { locationId });
+  }
+  return saveGeocode(supabase, data, geocoder);
+}
+
+/**
+ * Geocode locations that have no coordinates yet
+ *
+ * Works through up to `limit` locations one at a time, to stay within
+ * provider rate limits. Addresses that weren't found are retried after a week.
+ */
+export async function geocodePendingLocations(
+  supabase: SupabaseClient,
+  { geocoder = getGeocoder(), limit = 25, now = new Date() }: { geocoder?: Geocoder; limit?: number; now?: Date } = {}
+): Promise<GeocodeBatchResult> {
+  const retryBefore = new Date(now.getTime() - GEOCODE_RETRY_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const { data, error } = await supabase
+    .from('locations')
+    .select('id, address')
+    .is('latitude', null)
+    .is('deleted_at', null)
+    .or(`geocode_attempted_at.is.null,geocode_attempted_at.lt.${retryBefore}`)
+    .order('created_at', { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    throw transformError(error, 'fetching locations to geocode');
+  }
+
+  const result: GeocodeBatchResult = { geocoded: [], notFound: [], failed: [] };
+  for (const location of data ?? []) {
+    try {
+      const saved = await saveGeocode(supabase, location, geocoder);
+      (saved.latitude === null ? result.notFound : result.geocoded).push(location.id);
+    } catch (error) {
+      console.error(`Failed to geocode location ${location.id}:`, error);
+      result.failed.push(location.id);
+    }
+  }
+  return result;
+}
+
+/**
+ * Jobs at geocoded locations within `radiusKm` of a point, nearest first
+ *
+ * Narrows the query to a bounding box, then checks the exact (haversine)
+ * distance. Jobs at locations without coordinates are never included.
+ */
+export async function findJobsWithinRadius(
+  supabase: SupabaseClient,
+  { origin, radiusKm, status, role }: { origin: Coordinates; radiusKm: number; status?: JobStatus; role: UserType }
+): Promise<NearbyJob[]> {
+  const box = getBoundingBox(origin, radiusKm);
+  let query = supabase
+    .from(VISIBLE_JOBS_VIEW)
+    .select(`${getJobSelect(role)}, location:locations!inner(name, address, latitude, longitude)`)
+    .gte('location.latitude', box.minLatitude)
+    .lte('location.latitude', box.maxLatitude)
+    .gte('location.longitude', box.minLongitude)
+    .lte('location.longitude', box.maxLongitude)
+    .is('deleted_at', null);
+  if (status) {
+    query = query.eq('status', status);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw transformError(error, 'fetching nearby jobs');
+  }
+
+  return (camelizeKeys(data ?? []) as Omit<NearbyJob, 'distanceKm'>[])
+    .flatMap(job => {
+      const site = toCoordinates(job.location.latitude, job.location.longitude);
+      if (!site) return [];
+      const distanceKm = haversineDistanceKm(origin, site);
+      return distanceKm <= radiusKm ? [{ ...job, distanceKm }] : [];
+    })
+    .sort((a, b) => a.distanceKm - b.distanceKm);
+}
@@ -0,0 +1,92 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { camelizeKeys } from 'humps';
+import type { Job, Location } from '@/lib/db/schema';
+import { VISIBLE_JOBS_VIEW, getJobSelect } from '@/lib/jobs/visibility';
+import {
+  findMatchingContractors,
+  rankJobsForContractor,
+  type JobMatch,
+  type MatchProfile,
+} from '@/lib/jobs/matching';
+import { notifyNewJob } from '@/lib/services/notifications';
+import { transformError } from '@/lib/error-handling';
+
+export type MatchedJob = Job & {
+  location: Pick<Location, 'name' | 'address' | 'latitude' | 'longitude'> | null;
+  match: JobMatch;
+};
+
+const MATCH_PROFILE_COLUMNS = 'user_id, specialities, service_radius_km, base_latitude, base_longitude';
+
+/**
+ * AVAILABLE jobs the contractor matches, best first
+ *
+ * Contractors without a profile only match jobs with no required specialities.
+ */
+export async function fetchMatchedJobs(supabase: SupabaseClient, contractorId: string): Promise<MatchedJob[]> {
+  const [profileResult, jobsResult] = await Promise.all([
+    supabase
+      .from('contractor_profiles')
+      .select(MATCH_PROFILE_COLUMNS)
+      .eq('user_id', contractorId)
+      .maybeSingle(),
+    supabase
+      .from(VISIBLE_JOBS_VIEW)
+      .select(`${getJobSelect('CONTRACTOR')}, location:locations(name, address, latitude, longitude)`)
+      .eq('status', 'AVAILABLE')
+      .is('deleted_at', null),
+  ]);
+
+  if (profileResult.error) {
+    throw transformError(profileResult.error, 'fetching contractor profile');
+  }
+  if (jobsResult.error) {
+    throw transformError(jobsResult.error, 'fetching available jobs');
+  }
+
+  const profile: MatchProfile = profileResult.data
+    ? camelizeKeys(profileResult.data) as MatchProfile
+    : { userId: contractorId, specialities: [], serviceRadiusKm: null, baseLatitude: null, baseLongitude: null };
+  const jobs = camelizeKeys(jobsResult.data ?? []) as Omit<MatchedJob, 'match'>[];
+
+  return rankJobsForContractor(jobs, profile);
+}
+
+/**
+ * Notify the contractors who match a newly available job
+ *
+ * Only active, verified contractors whose claims aren't suspended are
+ * notified, since nobody else could claim it. Returns the notified IDs.
+ */
+export async function notifyMatchingContractors(
+  supabase: SupabaseClient,
+  job: Pick<Job, 'id' | 'title' | 'category' | 'requiredSpecialities' | 'createdAt' | 'locationId'>
+): Promise<string[]> {
+  const [profilesResult, locationResult] = await Promise.all([
+    supabase
+      .from('contractor_profiles')
+      .select(`${MATCH_PROFILE_COLUMNS}, user:users!inner(status, claims_suspended, documents:contractor_documents!inner(verified_at))`)
+      .eq('user.status', 'ACTIVE')
+      .eq('user.claims_suspended', false)
+      .not('user.documents.verified_at', 'is', null),
+    job.locationId
+      ? supabase.from('locations').select('name, address, latitude, longitude').eq('id', job.locationId).maybeSingle()
+      : Promise.resolve({ data: null, error: null }),
+  ]);
+
+  if (profilesResult.error) {
+    throw transformError(profilesResult.error, 'fetching contractor profiles');
+  }
+  if (locationResult.error) {
+    throw transformError(locationResult.error, 'fetching job location');
+  }
+
+  const location = locationResult.data as Pick<Location, 'name' | 'address' | 'latitude' | 'longitude'> | null;
+  const profiles = camelizeKeys(profilesResult.data ?? []) as MatchProfile[];
+  const contractorIds = findMatchingContractors({ ...job, location }, profiles);
+
+  if (contractorIds.length > 0) {
+    await notifyNewJob(job.id, job.title, location?.address || location?.name || 'No location', contractorIds);
+  }
+  return contractorIds;
+}
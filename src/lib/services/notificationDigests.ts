@@ -0,0 +1,92 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { camelizeKeys } from 'humps';
+import { notificationDigestEmail } from '@/lib/email/templates';
+import { groupDigestNotifications, type DigestNotification } from '@/lib/notifications/preferences';
+import { getNotificationHref } from '@/lib/notifications/types';
+import { sendEmailNotification } from '@/lib/services/notifications';
+import { transformError } from '@/lib/error-handling';
+
+const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+
+export interface NotificationDigestResult {
+  sent: { userId: string; count: number }[];
+  cleared: string[];
+  failed: string[];
+}
+
+type PendingRow = DigestNotification & { user: { email: string | null } | null };
+
+/**
+ * Email each user with pending digest notifications a single summary
+ *
+ * Meant to run daily with the service client. Notifications are only taken
+ * out of the digest once the email is sent or queued in the outbox, so an
+ * email that can't be queued either is retried on the next run. Users who
+ * have read everything in the app since are cleared without an email.
+ */
+export async function sendNotificationDigests(
+  supabase: SupabaseClient,
+  now: Date = new Date()
+): Promise<NotificationDigestResult> {
+  const result: NotificationDigestResult = { sent: [], cleared: [], failed: [] };
+
+  const { data, error } = await supabase
+    .from('notifications')
+    .select('id, user_id, title, message, link, read, created_at, user:users!user_id(email)')
+    .eq('digest_pending', true)
+    .lte('created_at', now.toISOString())
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw transformError(error, 'fetching digest notifications');
+  }
+
+  const rows = camelizeKeys(data ?? []) as PendingRow[];
+  const emailByUser = new Map(rows.map(row => [row.userId, row.user?.email ?? null]));
+
+  for (const [userId, { unread, read }] of groupDigestNotifications(rows)) {
+    const email = emailByUser.get(userId);
+
+    if (unread.length > 0) {
+      if (!email) {
+        result.failed.push(userId);
+        continue;
+      }
+
+      const template = notificationDigestEmail(
+        unread.map(notification => {
+          const href = getNotificationHref(notification.link);
+          return {
+            title: notification.title,
+            message: notification.message,
+            url: href ? `${appUrl}${href}` : null,
+            createdAt: notification.createdAt,
+          };
+        }),
+        `${appUrl}/dashboard/notifications`
+      );
+      if (!await sendEmailNotification(email, template)) {
+        result.failed.push(userId);
+        continue;
+      }
+    }
+
+    const ids = [...unread, ...read].map(notification => notification.id);
+    const { error: clearError } = await supabase
+      .from('notifications')
+      .update({ digest_pending: false })
+      .in('id', ids);
+
+    if (clearError) {
+      throw transformError(clearError, 'clearing digest notifications');
+    }
+
+    if (unread.length > 0) {
+      result.sent.push({ userId, count: unread.length });
+    } else {
+      result.cleared.push(userId);
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,199 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { camelizeKeys } from 'humps';
+import type { NotificationOutboxEntry } from '@/lib/db/schema';
+import { getEmailTransport, type EmailMessage } from '@/lib/email/transport';
+import {
+  getErrorMessage,
+  getRetryState,
+  type InAppDeliveryPayload,
+  type OutboxDelivery,
+} from '@/lib/notifications/outbox';
+import { transformError } from '@/lib/error-handling';
+import { NotFoundError } from '@/types/errors';
+
+// How long a worker has to finish an attempt before another may pick it up
+const CLAIM_LEASE_MS = 5 * 60_000;
+
+export interface OutboxRunResult {
+  sent: string[];
+  retrying: string[];
+  dead: string[];
+}
+
+/**
+ * Record a delivery in the outbox before it is attempted
+ *
+ * The entry starts claimed by the caller, who should attempt it straight
+ * away with attemptDelivery; if the caller never records an outcome, the
+ * worker picks it up once the claim lapses.
+ */
+export async function queueDelivery(
+  supabase: SupabaseClient,
+  delivery: OutboxDelivery,
+  now: Date = new Date()
+): Promise<NotificationOutboxEntry> {
+  const { data, error } = await supabase
+    .from('notification_outbox')
+    .insert({
+      kind: delivery.kind,
+      status: 'pending',
+      user_id: delivery.kind === 'in_app' ? delivery.payload.userId : null,
+      recipient: delivery.kind === 'email' ? delivery.payload.to : null,
+      payload: delivery.payload,
+      attempts: 0,
+      next_attempt_at: new Date(now.getTime() + CLAIM_LEASE_MS).toISOString(),
+    })
+    .select('*')
+    .single();
+
+  if (error) {
+    throw transformError(error, 'queueing delivery');
+  }
+  return camelizeKeys(data) as NotificationOutboxEntry;
+}
+
+// Payloads are stored as given, so they come back with camelCase keys
+async function deliver(supabase: SupabaseClient, entry: NotificationOutboxEntry) {
+  if (entry.kind === 'email') {
+    await getEmailTransport().send(entry.payload as unknown as EmailMessage);
+    return;
+  }
+
+  const payload = entry.payload as unknown as InAppDeliveryPayload;
+  const { error } = await supabase
+    .from('notifications')
+    .insert({
+      user_id: payload.userId,
+      title: payload.title,
+      message: payload.message,
+      type: payload.type,
+      link: payload.link ?? null,
+      read: false,
+      digest_pending: payload.digestPending ?? false,
+    });
+
+  if (error) {
+    throw transformError(error, 'delivering notification');
+  }
+}
+
+/**
+ * Attempt a claimed delivery and record the outcome: sent, or pending with
+ * the next attempt scheduled, or dead once attempts run out
+ */
+export async function attemptDelivery(
+  supabase: SupabaseClient,
+  entry: NotificationOutboxEntry,
+  now: Date = new Date()
+): Promise<NotificationOutboxEntry> {
+  const attempts = entry.attempts + 1;
+  let update: Record<string, unknown>;
+
+  try {
+    await deliver(supabase, entry);
+    update = { status: 'sent', attempts, last_error: null, sent_at: now.toISOString() };
+  } catch (error) {
+    const retry = getRetryState(attempts, now);
+    update = {
+      status: retry.status,
+      attempts,
+      last_error: getErrorMessage(error),
+      ...(retry.status === 'pending' ? { next_attempt_at: retry.nextAttemptAt.toISOString() } : {}),
+    };
+  }
+
+  const { data, error } = await supabase
+    .from('notification_outbox')
+    .update({ ...update, updated_at: now.toISOString() })
+    .eq('id', entry.id)
+    .select('*')
+    .single();
+
+  if (error) {
+    throw transformError(error, 'recording delivery attempt');
+  }
+  return camelizeKeys(data) as NotificationOutboxEntry;
+}
+
+/**
+ * Retry pending deliveries that are due
+ *
+ * Meant to run every few minutes with the service client. Each delivery is
+ * claimed by pushing its next attempt back before trying it, so overlapping
+ * runs don't deliver the same one twice.
+ */
+export async function processNotificationOutbox(
+  supabase: SupabaseClient,
+  now: Date = new Date(),
+  limit = 50
+): Promise<OutboxRunResult> {
+  const result: OutboxRunResult = { sent: [], retrying: [], dead: [] };
+
+  const { data: due, error } = await supabase
+    .from('notification_outbox')
+    .select('*')
+    .eq('status', 'pending')
+    .lte('next_attempt_at', now.toISOString())
+    .order('next_attempt_at', { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    throw transformError(error, 'fetching due deliveries');
+  }
+
+  for (const row of due ?? []) {
+    const { data: claimed, error: claimError } = await supabase
+      .from('notification_outbox')
+      .update({ next_attempt_at: new Date(now.getTime() + CLAIM_LEASE_MS).toISOString() })
+      .eq('id', row.id)
+      .eq('status', 'pending')
+      .eq('next_attempt_at', row.next_attempt_at)
+      .select('*')
+      .maybeSingle();
+
+    if (claimError) {
+      throw transformError(claimError, 'claiming delivery');
+    }
+    if (!claimed) continue;
+
+    const entry = await attemptDelivery(supabase, camelizeKeys(claimed) as NotificationOutboxEntry, now);
+    if (entry.status === 'sent') result.sent.push(entry.id);
+    else if (entry.status === 'dead') result.dead.push(entry.id);
+    else result.retrying.push(entry.id);
+  }
+
+  return result;
+}
+
+/**
+ * Try a delivery again straight away, with a fresh set of attempts
+ *
+ * Used by admins to replay dead-lettered deliveries once the cause is fixed.
+ */
+export async function replayDelivery(
+  supabase: SupabaseClient,
+  id: string,
+  now: Date = new Date()
+): Promise<NotificationOutboxEntry> {
+  const { data, error } = await supabase
+    .from('notification_outbox')
+    .update({
+      status: 'pending',
+      attempts: 0,
+      next_attempt_at: new Date(now.getTime() + CLAIM_LEASE_MS).toISOString(),
+      updated_at: now.toISOString(),
+    })
+    .eq('id', id)
+    .neq('status', 'sent')
+    .select('*')
+    .maybeSingle();
+
+  if (error) {
+    throw transformError(error, 'replaying delivery');
+  }
+  if (!data) {
+    throw new NotFoundError('This delivery no longer needs replaying.', { id });
+  }
+
+  return attemptDelivery(supabase, camelizeKeys(data) as NotificationOutboxEntry, now);
+}
@@ -1,11 +1,20 @@
-import { createClient } from '@supabase/supabase-js';
-import { jobStatusChangeEmail, newJobAvailableEmail, jobCompletedEmail, jobClaimedEmail } from '@/lib/email/templates';
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import { type EmailTemplate, jobStatusChangeEmail, newJobAvailableEmail, jobCompletedEmail, jobClaimedEmail, fileUploadedEmail, documentReviewedEmail, insuranceExpiringEmail, insuranceLapsedEmail } from '@/lib/email/templates';
+import { getJobPath, type NotificationType } from '@/lib/notifications/types';
+import {
+  DEFAULT_NOTIFICATION_DELIVERY,
+  getDeliveryPlan,
+  isNotificationDelivery,
+} from '@/lib/notifications/preferences';
+import type { OutboxDelivery } from '@/lib/notifications/outbox';
+import type { NotificationDelivery, NotificationOutboxEntry } from '@/lib/db/schema';
+import { attemptDelivery, queueDelivery } from '@/lib/services/notificationOutbox';
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || ''; 
 const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
 const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
 
-export type NotificationType = 'job_status' | 'new_job' | 'assignment' | 'job_complete' | 'file_upload';
+export type { NotificationType };
 
 interface CreateNotificationParams {
   userId: string;
@@ -21,28 +30,59 @@ interface CreateNotificationParams {
   };
 }
 
-async function sendEmailNotification(to: string, template: { subject: string; html: string; text: string }) {
+/**
+ * Send an email with the configured transport (see src/lib/email/transport.ts)
+ *
+ * The email is recorded in the notification outbox before it is sent, so
+ * one that fails, or whose send is cut short, is retried. Resolves to
+ * whether it was recorded; failures are logged rather than thrown so a
+ * notification is never lost because its email failed.
+ */
+export async function sendEmailNotification(to: string, template: EmailTemplate): Promise<boolean> {
+  return deliverThroughOutbox(createClient(supabaseUrl, supabaseServiceKey), { kind: 'email', payload: { to, ...template } });
+}
+
+// Record a delivery in the outbox, then attempt it; resolves to whether it
+// was recorded. Delivery is at least once: if the outcome of a successful
+// attempt can't be recorded, the worker delivers it again.
+async function deliverThroughOutbox(serviceClient: SupabaseClient, delivery: OutboxDelivery): Promise<boolean> {
+  let entry: NotificationOutboxEntry;
   try {
-    const response = await fetch(`${supabaseUrl}/functions/v1/send-email`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${supabaseServiceKey}`,
-      },
-      body: JSON.stringify({
-        to,
-        subject: template.subject,
-        html: template.html,
-        text: template.text,
-      }),
-    });
+    entry = await queueDelivery(serviceClient, delivery);
+  } catch (error) {
+    console.error(`Failed to record ${delivery.kind} delivery in the outbox:`, error);
+    return false;
+  }
 
-    if (!response.ok) {
-      console.error('Failed to send email:', await response.text());
+  try {
+    const attempted = await attemptDelivery(serviceClient, entry);
+    if (attempted.status !== 'sent') {
+      console.error(`Failed to deliver ${delivery.kind} notification, will retry:`, attempted.lastError);
     }
   } catch (error) {
-    console.error('Error sending email:', error);
+    console.error(`Failed to record ${delivery.kind} delivery attempt, the worker will retry it:`, error);
+  }
+  return true;
+}
+
+// The user's delivery preference for a notification type, falling back to
+// the default if none is stored or it can't be read
+async function getNotificationDelivery(
+  serviceClient: SupabaseClient,
+  userId: string,
+  type: NotificationType
+): Promise<NotificationDelivery> {
+  const { data, error } = await serviceClient
+    .from('notification_preferences')
+    .select('delivery')
+    .eq('user_id', userId)
+    .eq('type', type)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Failed to fetch notification preference:', error);
   }
+  return isNotificationDelivery(data?.delivery) ? data.delivery : DEFAULT_NOTIFICATION_DELIVERY;
 }
 
 export async function createNotification({
@@ -57,27 +97,21 @@ export async function createNotification({
   try {
     // Service client with elevated permissions for creating notifications
     const serviceClient = createClient(supabaseUrl, supabaseServiceKey);
-    // Create in-app notification
-    const { error } = await serviceClient
-      .from('notifications')
-      .insert({
-        user_id: userId,
-        title,
-        message,
-        type,
-        link,
-        read: false
-      });
-
-    if (error) {
-      console.error('Failed to create notification:', error);
-      return false;
+    const plan = getDeliveryPlan(await getNotificationDelivery(serviceClient, userId, type));
+    if (!plan.inApp) {
+      return true;
     }
-    
-    // Send email notification if requested and user has email preferences enabled
-    if (sendEmail && emailTemplate) {
-      // Service client with elevated permissions for creating notifications
-      const serviceClient = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Create in-app notification, queued for the digest if the user wants one
+    const digestPending = sendEmail && plan.digest;
+    const recorded = await deliverThroughOutbox(serviceClient, {
+      kind: 'in_app',
+      payload: { userId, title, message, type, link, digestPending },
+    });
+    if (!recorded) return false;
+
+    // Send email notification if requested and the user wants it straight away
+    if (sendEmail && emailTemplate && plan.email) {
       // Get user email
       const { data: user } = await serviceClient
         .from('users')
@@ -86,15 +120,7 @@ export async function createNotification({
         .single();
       
       if (user?.email) {
-        // Check email preferences (localStorage or future DB implementation)
-        // For now, always send unless explicitly disabled in localStorage
-        const emailPref = typeof window !== 'undefined' 
-          ? localStorage.getItem(`email_notifications_${userId}`)
-          : 'true';
-        
-        if (emailPref !== 'false') {
-          await sendEmailNotification(user.email, emailTemplate);
-        }
+        await sendEmailNotification(user.email, emailTemplate);
       }
     }
     
@@ -105,22 +131,49 @@ export async function createNotification({
   }
 }
 
-// Helper function to notify job status changes
+// Managers assigned to a location. Uses the service client because the user
+// acting on a job (often a contractor) can't read location assignments.
+async function getLocationManagerIds(locationId?: string | null): Promise<string[]> {
+  if (!locationId) return [];
+
+  const serviceClient = createClient(supabaseUrl, supabaseServiceKey);
+  const { data, error } = await serviceClient
+    .from('location_managers')
+    .select('manager_id')
+    .eq('location_id', locationId);
+
+  if (error) {
+    console.error('Failed to fetch location managers:', error);
+    return [];
+  }
+  return (data ?? []).map(row => row.manager_id as string);
+}
+
+// Helper function to notify job status changes, including the managers of
+// the job's location
 export async function notifyJobStatusChange(
   jobId: string,
   jobTitle: string,
   newStatus: string,
-  affectedUsers: { id: string; role: string }[]
+  affectedUsers: { id: string; role: string }[],
+  locationId?: string | null
 ) {
-  const jobUrl = `${appUrl}/jobs/${jobId}`;
+  const jobUrl = `${appUrl}${getJobPath(jobId)}`;
   const emailTemplate = jobStatusChangeEmail(jobTitle, newStatus, jobUrl);
+
+  const recipients = [...affectedUsers];
+  for (const managerId of await getLocationManagerIds(locationId)) {
+    if (!recipients.some(user => user.id === managerId)) {
+      recipients.push({ id: managerId, role: 'MANAGER' });
+    }
+  }
   
-  const notifications = affectedUsers.map(user => ({
+  const notifications = recipients.map(user => ({
     userId: user.id,
     title: `Job Status Updated`,
     message: `The job "${jobTitle}" status has been changed to ${newStatus}`,
     type: 'job_status' as NotificationType,
-    link: `/jobs/${jobId}`,
+    link: getJobPath(jobId),
     emailTemplate
   }));
 
@@ -141,7 +194,7 @@ export async function notifyAdminJobClaimed(
 ) {
   try {
     const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'https://app.tofilgroup.com';
-    const jobUrl = `${appUrl}/jobs/${jobId}`;
+    const jobUrl = `${appUrl}${getJobPath(jobId)}`;
     
     // Get email template
     const emailTemplate = jobClaimedEmail(
@@ -174,7 +227,7 @@ export async function notifyNewJob(
   location: string,
   contractorIds: string[]
 ) {
-  const jobUrl = `${appUrl}/jobs/${jobId}`;
+  const jobUrl = `${appUrl}${getJobPath(jobId)}`;
   const emailTemplate = newJobAvailableEmail(jobTitle, location, jobUrl);
   
   const notifications = contractorIds.map(contractorId => ({
@@ -182,7 +235,7 @@ export async function notifyNewJob(
     title: `New Job Available`,
     message: `A new job "${jobTitle}" is available at ${location}`,
     type: 'new_job' as NotificationType,
-    link: `/jobs/${jobId}`,
+    link: getJobPath(jobId),
     emailTemplate
   }));
 
@@ -204,42 +257,31 @@ export async function notifyJobAssignment(
     title: `Job Assigned`,
     message: `You have been assigned to the job "${jobTitle}"`,
     type: 'assignment' as NotificationType,
-    link: `/jobs/${jobId}`
+    link: getJobPath(jobId)
   });
 }
 
-// Helper function to notify when a contractor uploads a file
+// Helper function to notify the owner and location managers when a contractor uploads a file
 export async function notifyFileUpload(
   jobId: string,
   jobTitle: string,
   fileName: string,
   ownerId: string,
-  managerId?: string,
+  locationId?: string | null,
   contractorName: string = 'Contractor'
 ) {
-  const usersToNotify = [ownerId];
-  if (managerId) usersToNotify.push(managerId);
-  
-  const jobUrl = `${appUrl}/jobs/${jobId}`;
+  const managerIds = await getLocationManagerIds(locationId);
+  const usersToNotify = [...new Set([ownerId, ...managerIds])];
   
-  // Simple email template for file uploads
-  const emailTemplate = {
-    subject: `New file uploaded to job: ${jobTitle}`,
-    html: `
-      <h2>File Upload Notification</h2>
-      <p>${contractorName} has uploaded a new file to the job "${jobTitle}"</p>
-      <p><strong>File:</strong> ${fileName}</p>
-      <p><a href="${jobUrl}">View Job Details</a></p>
-    `,
-    text: `${contractorName} has uploaded a new file "${fileName}" to the job "${jobTitle}". View at: ${jobUrl}`
-  };
+  const jobUrl = `${appUrl}${getJobPath(jobId)}`;
+  const emailTemplate = fileUploadedEmail(jobTitle, fileName, contractorName, jobUrl);
 
   const notifications = usersToNotify.map(userId => ({
     userId,
     title: `File Uploaded`,
     message: `${contractorName} uploaded "${fileName}" to "${jobTitle}"`,
     type: 'file_upload' as NotificationType,
-    link: `/jobs/${jobId}`,
+    link: getJobPath(jobId),
     emailTemplate
   }));
 
@@ -250,19 +292,19 @@ export async function notifyFileUpload(
   return results.every(result => result === true);
 }
 
-// Helper function to notify job completion
+// Helper function to notify the owner and location managers of job completion
 export async function notifyJobCompletion(
   jobId: string,
   jobTitle: string,
   ownerId: string,
-  managerId?: string,
+  locationId?: string | null,
   contractorName: string = 'Contractor',
   completionNotes?: string | null
 ) {
-  const usersToNotify = [ownerId];
-  if (managerId) usersToNotify.push(managerId);
+  const managerIds = await getLocationManagerIds(locationId);
+  const usersToNotify = [...new Set([ownerId, ...managerIds])];
   
-  const jobUrl = `${appUrl}/jobs/${jobId}`;
+  const jobUrl = `${appUrl}${getJobPath(jobId)}`;
   const emailTemplate = jobCompletedEmail(jobTitle, contractorName, completionNotes || null, jobUrl);
 
   const notifications = usersToNotify.map(userId => ({
@@ -270,7 +312,7 @@ export async function notifyJobCompletion(
     title: `Job Completed`,
     message: `The job "${jobTitle}" has been marked as complete`,
     type: 'job_complete' as NotificationType,
-    link: `/jobs/${jobId}`,
+    link: getJobPath(jobId),
     emailTemplate
   }));
 
@@ -279,4 +321,56 @@ export async function notifyJobCompletion(
   );
 
   return results.every(result => result === true);
-} 
\ No newline at end of file
+}
+
+// Helper function to notify a contractor that a compliance document was reviewed
+export async function notifyDocumentReviewed(
+  contractorId: string,
+  documentLabel: string,
+  approved: boolean,
+  reason?: string | null
+) {
+  const onboardingUrl = `${appUrl}/dashboard/onboarding`;
+  const emailTemplate = documentReviewedEmail(documentLabel, approved, reason || null, onboardingUrl);
+
+  return createNotification({
+    userId: contractorId,
+    title: approved ? `Document Approved` : `Document Rejected`,
+    message: approved
+      ? `Your ${documentLabel} has been approved`
+      : `Your ${documentLabel} was rejected: ${reason}`,
+    type: 'document_review',
+    link: '/dashboard/onboarding',
+    emailTemplate
+  });
+}
+
+// Helper function to remind a contractor that their insurance is about to expire
+export async function notifyInsuranceExpiring(contractorId: string, daysLeft: number, expiresAt: Date) {
+  const onboardingUrl = `${appUrl}/dashboard/onboarding`;
+  const emailTemplate = insuranceExpiringEmail(daysLeft, expiresAt, onboardingUrl);
+
+  return createNotification({
+    userId: contractorId,
+    title: 'Insurance Expiring Soon',
+    message: `Your insurance expires in ${daysLeft} days. Upload your renewed certificate to keep claiming jobs.`,
+    type: 'insurance',
+    link: '/dashboard/onboarding',
+    emailTemplate
+  });
+}
+
+// Helper function to tell a contractor their insurance lapsed and claims are suspended
+export async function notifyInsuranceLapsed(contractorId: string, expiredAt: Date) {
+  const onboardingUrl = `${appUrl}/dashboard/onboarding`;
+  const emailTemplate = insuranceLapsedEmail(expiredAt, onboardingUrl);
+
+  return createNotification({
+    userId: contractorId,
+    title: 'Insurance Expired',
+    message: 'Your insurance has expired. Upload a current certificate to claim jobs again.',
+    type: 'insurance',
+    link: '/dashboard/onboarding',
+    emailTemplate
+  });
+}
@@ -0,0 +1,47 @@
+import type { Filters } from './filters';
+
+/**
+ * Keyset cursors
+ *
+ * Pages through rows by `(created_at, id)` rather than by offset, so rows
+ * added or deleted while someone is paging don't shift or repeat later
+ * pages. `id` breaks ties between rows created at the same instant.
+ */
+
+export interface Cursor {
+  createdAt: string;
+  id: string;
+}
+
+interface CursorFields {
+  createdAt: Date;
+  id: string;
+}
+
+/**
+ * Cursor for the rows after this one
+ *
+ * Keeps `createdAt` as the database returned it: Postgres timestamps have
+ * microseconds, which a round trip through Date would drop.
+ */
+export function getCursor(row: { createdAt: Date | string; id: string }): Cursor {
+  return {
+    createdAt: row.createdAt instanceof Date ? row.createdAt.toISOString() : row.createdAt,
+    id: row.id,
+  };
+}
+
+/**
+ * Filters for the rows after a cursor, in the order pages are read: newest
+ * first unless `ascending`
+ */
+export function getCursorFilters(cursor: Cursor | null | undefined, ascending = false): Filters<CursorFields> {
+  if (!cursor) return {};
+  const after = (value: string) => (ascending ? { gt: value } : { lt: value });
+  return {
+    or: [
+      { createdAt: after(cursor.createdAt) },
+      { createdAt: cursor.createdAt, id: after(cursor.id) },
+    ],
+  };
+}
@@ -0,0 +1,225 @@
+/**
+ * Typed list filters
+ *
+ * A small DSL for filtering Supabase queries on an entity's (camelCase)
+ * fields, checked against the entity type:
+ *
+ * ```typescript
+ * const filters: Filters<Job> = {
+ *   status: { in: ['AVAILABLE', 'CLAIMED'] },
+ *   title: { ilike: '%boiler%' },
+ *   contractorId: null,                                  // is null
+ *   requiredSpecialities: { overlaps: ['plumbing'] },
+ *   createdAt: { between: [startOfMonth, endOfMonth] },
+ *   or: [{ category: 'PLUMBING' }, { updatedAt: { lt: lastWeek } }],
+ * };
+ * ```
+ *
+ * A plain value is an equality check and `null` means "is null"; fields set
+ * to `undefined` are skipped, so optional filters can be written inline.
+ * Fields within an object are ANDed; `or` takes a list of such objects.
+ */
+
+// Dates can be compared with Date objects or ISO strings
+type Comparable<V> = V extends Date ? Date | string : V;
+
+type ScalarOperators<V> = {
+  eq?: Comparable<V>;
+  neq?: Comparable<V>;
+  in?: readonly Comparable<V>[];
+  notIn?: readonly Comparable<V>[];
+  is?: [V] extends [boolean] ? boolean | null : null;
+  isNot?: [V] extends [boolean] ? boolean | null : null;
+} & ([V] extends [number | string | Date]
+  ? {
+      gt?: Comparable<V>;
+      gte?: Comparable<V>;
+      lt?: Comparable<V>;
+      lte?: Comparable<V>;
+      /** Inclusive range, e.g. of dates */
+      between?: readonly [Comparable<V>, Comparable<V>];
+    }
+  : unknown) & ([V] extends [string]
+  ? { ilike?: string; notIlike?: string }
+  : unknown);
+
+type ArrayOperators<E> = {
+  /** Has every one of these elements */
+  contains?: readonly E[];
+  /** Has at least one of these elements */
+  overlaps?: readonly E[];
+  is?: null;
+  isNot?: null;
+};
+
+// `null` (is null) only for nullable or optional fields
+type NullFilter<V> = [V] extends [NonNullable<V>] ? never : null;
+
+export type FieldFilter<V> = NonNullable<V> extends readonly (infer E)[]
+  ? ArrayOperators<E> | NullFilter<V>
+  : Comparable<NonNullable<V>> | ScalarOperators<NonNullable<V>> | NullFilter<V>;
+
+export type Filters<T> = {
+  [K in Exclude<keyof T, 'or'> & string]?: FieldFilter<T[K]>;
+} & {
+  or?: readonly Filters<T>[];
+};
+
+export type FilterOperator =
+  | 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte'
+  | 'in' | 'not.in' | 'ilike' | 'not.ilike' | 'is' | 'not.is'
+  | 'cs' | 'ov';
+
+type FilterValue = string | number | boolean | null | (string | number | boolean)[];
+
+export type FilterClause =
+  | { column: string; operator: FilterOperator; value: FilterValue }
+  | { or: FilterClause[][] };
+
+const OPERATORS: Record<string, FilterOperator> = {
+  eq: 'eq',
+  neq: 'neq',
+  gt: 'gt',
+  gte: 'gte',
+  lt: 'lt',
+  lte: 'lte',
+  in: 'in',
+  notIn: 'not.in',
+  ilike: 'ilike',
+  notIlike: 'not.ilike',
+  is: 'is',
+  isNot: 'not.is',
+  contains: 'cs',
+  overlaps: 'ov',
+};
+
+/**
+ * Column name for a camelCase field
+ */
+export function toColumnName(field: string): string {
+  return field.replace(/[A-Z]/g, char => `_${char.toLowerCase()}`);
+}
+
+const toValue = (value: unknown): FilterValue => {
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.map(toValue) as (string | number | boolean)[];
+  return value as FilterValue;
+};
+
+const isOperatorObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+
+// Stable order, so equal filters always compile (and key) the same
+const compareClauses = (a: FilterClause, b: FilterClause) =>
+  formatClause(a).localeCompare(formatClause(b));
+
+/**
+ * Turn filters into clauses, in a stable order
+ *
+ * Throws for unknown operators, which TypeScript only catches when the
+ * filters are written inline.
+ */
+export function compileFilters<T>(filters: Filters<T> | undefined): FilterClause[] {
+  if (!filters) return [];
+  const clauses: FilterClause[] = [];
+
+  for (const [field, filter] of Object.entries(filters as Record<string, unknown>)) {
+    if (filter === undefined) continue;
+
+    if (field === 'or') {
+      const groups = (filter as Filters<T>[]).map(group => compileFilters(group)).filter(group => group.length > 0);
+      if (groups.length > 0) clauses.push({ or: groups });
+      continue;
+    }
+
+    const column = toColumnName(field);
+    if (!isOperatorObject(filter)) {
+      clauses.push({ column, operator: filter === null ? 'is' : 'eq', value: toValue(filter) });
+      continue;
+    }
+
+    for (const [name, value] of Object.entries(filter)) {
+      if (value === undefined) continue;
+      if (name === 'between') {
+        const [from, to] = value as [unknown, unknown];
+        clauses.push({ column, operator: 'gte', value: toValue(from) });
+        clauses.push({ column, operator: 'lte', value: toValue(to) });
+        continue;
+      }
+      const operator = OPERATORS[name];
+      if (!operator) {
+        throw new Error(`Unknown filter operator "${name}" for ${field}`);
+      }
+      // Set-like operands are sorted so their order doesn't change the key
+      const operand = toValue(value);
+      clauses.push({ column, operator, value: Array.isArray(operand) ? [...operand].sort() : operand });
+    }
+  }
+
+  return clauses.sort(compareClauses);
+}
+
+// List items, and values inside `or`, are double-quoted when they contain
+// PostgREST's reserved characters
+const quote = (value: string | number | boolean | null) => {
+  const text = String(value);
+  return /[,.:()"\\\s{}]/.test(text) ? `"${text.replace(/["\\]/g, '\\$&')}"` : text;
+};
+
+const formatValue = (value: FilterValue, operator: FilterOperator, nested: boolean): string => {
+  if (!Array.isArray(value)) return nested ? quote(value) : String(value);
+  const items = value.map(quote).join(',');
+  return operator === 'cs' || operator === 'ov' ? `{${items}}` : `(${items})`;
+};
+
+const formatCondition = (clause: FilterClause, nested: boolean): string => {
+  if ('or' in clause) {
+    return `or(${formatGroups(clause.or)})`;
+  }
+  return `${clause.column}.${clause.operator}.${formatValue(clause.value, clause.operator, nested)}`;
+};
+
+// Groups for `or`: each group's clauses are ANDed
+const formatGroups = (groups: FilterClause[][]) =>
+  groups
+    .map(group => group.length === 1
+      ? formatCondition(group[0], true)
+      : `and(${group.map(clause => formatCondition(clause, true)).join(',')})`)
+    .join(',');
+
+/**
+ * A clause in PostgREST's filter syntax, e.g. `status.in.(AVAILABLE,CLAIMED)`
+ */
+export function formatClause(clause: FilterClause): string {
+  return formatCondition(clause, false);
+}
+
+/**
+ * A stable string for filters, for query keys: equal filters give the same
+ * key whatever order they were written in
+ */
+export function getFilterKey<T>(filters: Filters<T> | undefined): string {
+  return compileFilters(filters).map(formatClause).join('&');
+}
+
+/**
+ * The query builder methods filters are applied with; Supabase's
+ * PostgrestFilterBuilder has them all
+ */
+export interface FilterableQuery {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  filter(column: string, operator: string, value: any): this;
+  or(filters: string): this;
+}
+
+/**
+ * Apply filters to a Supabase query
+ */
+export function applyFilters<Q extends FilterableQuery, T>(query: Q, filters: Filters<T> | undefined): Q {
+  return compileFilters(filters).reduce((builder, clause) => {
+    if ('or' in clause) {
+      return builder.or(formatGroups(clause.or));
+    }
+    return builder.filter(clause.column, clause.operator, formatValue(clause.value, clause.operator, false));
+  }, query);
+}
@@ -0,0 +1,14 @@
+import { createClient } from '@supabase/supabase-js'
+
+/**
+ * Supabase client authenticated with the service role key.
+ * Bypasses RLS - only use on the server for work the caller's own session
+ * can't do (e.g. creating the user record for an accepted invitation).
+ */
+export function createServiceSupabaseClient() {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL || '',
+    process.env.SUPABASE_SERVICE_ROLE_KEY || '',
+    { auth: { persistSession: false, autoRefreshToken: false } }
+  )
+}
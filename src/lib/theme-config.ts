@@ -11,7 +11,8 @@
 export const themeConfig = {
   // Brand Information
   brand: {
-    name: "Your App Name",
+    name: "Tofil",
+    legalName: "Tofil Group", // Used in copyright notices
     tagline: "Your tagline here",
     logo: "/logo.png", // Place your logo in the public folder
   },
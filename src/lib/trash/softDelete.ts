@@ -0,0 +1,62 @@
+import type { UserType } from '@/lib/db/schema';
+import { PermissionError } from '@/types/errors';
+
+/**
+ * Soft delete
+ *
+ * Deleting a row from a soft-delete table sets its `deleted_at` (and
+ * `deleted_by`, where the table has it) instead of removing it, so it can be
+ * restored from the Trash. Lists leave deleted rows out unless asked for
+ * them. Only admins can purge a row for good, which row-level security in
+ * supabase/rls-policies.sql enforces too.
+ */
+
+// Tables with soft delete and the column recording who deleted a row, if any
+export const SOFT_DELETE_TABLES: Readonly<Record<string, string | null>> = {
+  users: null,
+  organisations: 'deleted_by',
+  locations: 'deleted_by',
+  jobs: 'deleted_by',
+  files: 'deleted_by',
+  job_files: 'deleted_by',
+};
+
+export function isSoftDeleteTable(tableName: string): boolean {
+  return tableName in SOFT_DELETE_TABLES;
+}
+
+/**
+ * Column values marking a row deleted
+ */
+export function getSoftDeleteValues(
+  tableName: string,
+  userId: string | null,
+  now: Date = new Date()
+): Record<string, string | null> {
+  const deletedByColumn = SOFT_DELETE_TABLES[tableName];
+  return {
+    deleted_at: now.toISOString(),
+    ...(deletedByColumn ? { [deletedByColumn]: userId } : {}),
+  };
+}
+
+/**
+ * Column values taking a row out of the Trash
+ */
+export function getRestoreValues(tableName: string): Record<string, null> {
+  const deletedByColumn = SOFT_DELETE_TABLES[tableName];
+  return {
+    deleted_at: null,
+    ...(deletedByColumn ? { [deletedByColumn]: null } : {}),
+  };
+}
+
+export function canPurge(role: UserType | null | undefined): boolean {
+  return role === 'ADMIN';
+}
+
+export function assertCanPurge(role: UserType | null | undefined): void {
+  if (!canPurge(role)) {
+    throw new PermissionError('Only admins can permanently delete items.', { role });
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * App version helpers shared by the /api/version route and useVersionCheck
+ */
+
+export interface VersionInfo {
+  buildId: string;
+  commit: string | null;
+  buildTime: string | null;
+  version: string;
+  minSupportedVersion: string;
+}
+
+// Baked into the client bundle at build time via next.config.ts
+export const APP_VERSION = process.env.NEXT_PUBLIC_APP_VERSION || '0.0.0';
+
+// Sent by apiFetch so the server can refuse writes from unsupported clients
+export const CLIENT_VERSION_HEADER = 'X-Client-Version';
+
+// Methods that never write, and so are allowed from any client version
+const READ_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+/**
+ * Compare two dotted version strings (e.g. "1.4.0" vs "1.10.2")
+ * @returns negative if a < b, 0 if equal, positive if a > b
+ */
+export function compareVersions(a: string, b: string): number {
+  const left = a.split('.').map(part => parseInt(part, 10) || 0);
+  const right = b.split('.').map(part => parseInt(part, 10) || 0);
+  const length = Math.max(left.length, right.length);
+
+  for (let i = 0; i < length; i++) {
+    const diff = (left[i] ?? 0) - (right[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+/**
+ * Whether a client running `clientVersion` is still allowed to write
+ */
+export function isVersionSupported(clientVersion: string, minSupportedVersion: string): boolean {
+  return compareVersions(clientVersion, minSupportedVersion) >= 0;
+}
+
+/**
+ * Whether a request is a write from a client older than the minimum supported
+ * version. Requests without the version header (cron jobs, webhooks) are let
+ * through.
+ */
+export function isOutdatedClientWrite(
+  request: Pick<Request, 'method' | 'headers'>,
+  minSupportedVersion: string
+): boolean {
+  const clientVersion = request.headers.get(CLIENT_VERSION_HEADER);
+  if (!clientVersion || READ_METHODS.includes(request.method.toUpperCase())) {
+    return false;
+  }
+  return !isVersionSupported(clientVersion, minSupportedVersion);
+}
+
+/**
+ * Build the version payload from the server environment
+ */
+export function getVersionInfo(): VersionInfo {
+  return {
+    buildId: process.env.NEXT_BUILD_ID || 'development',
+    commit: process.env.VERCEL_GIT_COMMIT_SHA || process.env.GIT_COMMIT_SHA || null,
+    buildTime: process.env.NEXT_BUILD_TIME || null,
+    version: APP_VERSION,
+    minSupportedVersion: process.env.MIN_SUPPORTED_CLIENT_VERSION || '0.0.0',
+  };
+}
+
+// Set once the running client is known to be older than the minimum supported
+// version, so writes can be refused until the user reloads.
+let clientOutdated = false;
+
+export function markClientOutdated() {
+  clientOutdated = true;
+}
+
+export function isClientOutdated() {
+  return clientOutdated;
+}
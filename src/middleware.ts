@@ -1,14 +1,20 @@
 import { createServerClient } from '@supabase/ssr';
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
+import { canAccessRoute, getRouteRoles } from '@/lib/auth/rbac';
+import { jsonError } from '@/lib/api/responses';
+import { getVersionInfo, isOutdatedClientWrite } from '@/lib/version';
+import { OutdatedClientError } from '@/types/errors';
 
 // Define public routes that don't require authentication
 const publicRoutes = [
   '/',
   '/login',
   '/signup',
+  '/invite',
   '/forgot-password',
   '/reset-password',
+  '/not-authorized',
   '/auth/callback',
   '/api',
   '/_next',
@@ -19,9 +25,17 @@ const publicRoutes = [
 // Define protected routes that require authentication
 const protectedRoutes = [
   '/dashboard',
+  '/admin',
 ];
 
 export async function middleware(req: NextRequest) {
+  const path = req.nextUrl.pathname;
+
+  // Refuse API writes from clients older than the minimum supported version
+  if (path.startsWith('/api/') && isOutdatedClientWrite(req, getVersionInfo().minSupportedVersion)) {
+    return jsonError(new OutdatedClientError());
+  }
+
   const res = NextResponse.next();
   const supabase = createServerClient(
     process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -41,8 +55,6 @@ export async function middleware(req: NextRequest) {
     }
   );
 
-  const path = req.nextUrl.pathname;
-
   // Bypass middleware for internal Next.js routes
   if (path.startsWith('/_next/') || path.startsWith('/api/') || path.startsWith('/public/')) {
     return res;
@@ -73,6 +85,19 @@ export async function middleware(req: NextRequest) {
       redirectUrl.searchParams.set('redirectTo', path);
       return NextResponse.redirect(redirectUrl);
     }
+
+    // Enforce role-based access for role-restricted routes
+    if (getRouteRoles(path)) {
+      const { data: appUser } = await supabase
+        .from('users')
+        .select('type')
+        .eq('id', user.id)
+        .maybeSingle();
+
+      if (!canAccessRoute(appUser?.type, path)) {
+        return NextResponse.redirect(new URL('/not-authorized', req.url));
+      }
+    }
   }
 
   return res;
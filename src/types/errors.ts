@@ -10,6 +10,9 @@ export enum ErrorType {
   VALIDATION = 'VALIDATION',
   FILE_UPLOAD = 'FILE_UPLOAD',
   DATABASE = 'DATABASE',
+  NOT_FOUND = 'NOT_FOUND',
+  CONFLICT = 'CONFLICT',
+  OUTDATED_CLIENT = 'OUTDATED_CLIENT',
   UNKNOWN = 'UNKNOWN',
 }
 
@@ -113,6 +116,36 @@ export class DatabaseError extends AppError {
   }
 }
 
+/**
+ * Not found-specific error
+ */
+export class NotFoundError extends AppError {
+  constructor(message: string, context?: Record<string, unknown>) {
+    super(message, ErrorType.NOT_FOUND, ErrorSeverity.WARNING, context);
+    this.name = 'NotFoundError';
+  }
+}
+
+/**
+ * Conflict-specific error, e.g. losing a race to claim a job
+ */
+export class ConflictError extends AppError {
+  constructor(message: string, context?: Record<string, unknown>) {
+    super(message, ErrorType.CONFLICT, ErrorSeverity.WARNING, context);
+    this.name = 'ConflictError';
+  }
+}
+
+/**
+ * The client is older than the minimum supported version and may not write
+ */
+export class OutdatedClientError extends AppError {
+  constructor(message = 'This version of the app is out of date. Please reload to continue.') {
+    super(message, ErrorType.OUTDATED_CLIENT, ErrorSeverity.WARNING);
+    this.name = 'OutdatedClientError';
+  }
+}
+
 /**
  * Error response type for API responses
  */
@@ -0,0 +1,134 @@
+-- Link existing history versions to the row they record
+-- Apply with: pnpm migrate:history-entities (before pnpm migrate:drizzle:push)
+--
+-- user_history, organisation_history and location_history used to have no
+-- column saying which user, organisation or location a version belongs to.
+-- The schema now requires user_id, organisation_id and location_id, which
+-- drizzle-kit can't add to tables that already have rows. This adds each
+-- column as nullable, fills it in from the version's own fields, and only
+-- then makes it NOT NULL. Versions are matched on:
+--
+--   user_history          email (unique on users)
+--   organisation_history  name and owner
+--   location_history      name, address and organisation
+--
+-- preferring the newest row that already existed when the version was
+-- recorded. Versions from before a rename or an email change no longer match,
+-- so they're linked by walking back from the version that replaced them (the
+-- history triggers close a version at the instant the next one starts). If
+-- any version still can't be matched the migration stops without changing
+-- anything; fix or remove those rows and run it again. It does nothing for
+-- tables that are already linked.
+
+do $$
+declare
+  unmatched integer;
+begin
+  -- User history
+  if to_regclass('public.user_history') is not null then
+    alter table user_history add column if not exists user_id uuid references users(id);
+
+    update user_history h
+    set user_id = (
+      select u.id from users u
+      where lower(u.email) = lower(h.email)
+      order by (u.created_at <= h.valid_from) desc, u.created_at desc
+      limit 1
+    )
+    where h.user_id is null;
+
+    loop
+      update user_history h
+      set user_id = n.user_id
+      from user_history n
+      where h.user_id is null
+        and n.user_id is not null
+        and n.valid_from = h.valid_to
+        and not exists (
+          select 1 from user_history other
+          where other.valid_from = h.valid_to and other.id <> n.id
+        );
+      exit when not found;
+    end loop;
+
+    select count(*) into unmatched from user_history where user_id is null;
+    if unmatched > 0 then
+      raise exception '% user_history rows match no user; nothing was changed', unmatched;
+    end if;
+
+    alter table user_history alter column user_id set not null;
+  end if;
+
+  -- Organisation history
+  if to_regclass('public.organisation_history') is not null then
+    alter table organisation_history add column if not exists organisation_id uuid references organisations(id);
+
+    update organisation_history h
+    set organisation_id = (
+      select o.id from organisations o
+      where o.name = h.name and o.owner_id = h.owner_id
+      order by (o.created_at <= h.valid_from) desc, o.created_at desc
+      limit 1
+    )
+    where h.organisation_id is null;
+
+    loop
+      update organisation_history h
+      set organisation_id = n.organisation_id
+      from organisation_history n
+      where h.organisation_id is null
+        and n.organisation_id is not null
+        and n.valid_from = h.valid_to
+        and not exists (
+          select 1 from organisation_history other
+          where other.valid_from = h.valid_to and other.id <> n.id
+        );
+      exit when not found;
+    end loop;
+
+    select count(*) into unmatched from organisation_history where organisation_id is null;
+    if unmatched > 0 then
+      raise exception '% organisation_history rows match no organisation; nothing was changed', unmatched;
+    end if;
+
+    alter table organisation_history alter column organisation_id set not null;
+  end if;
+
+  -- Location history
+  if to_regclass('public.location_history') is not null then
+    alter table location_history add column if not exists location_id uuid references locations(id);
+
+    update location_history h
+    set location_id = (
+      select l.id from locations l
+      where l.name = h.name
+        and l.address = h.address
+        and l.organisation_id is not distinct from h.organisation_id
+      order by (l.created_at <= h.valid_from) desc, l.created_at desc
+      limit 1
+    )
+    where h.location_id is null;
+
+    loop
+      update location_history h
+      set location_id = n.location_id
+      from location_history n
+      where h.location_id is null
+        and n.location_id is not null
+        and n.valid_from = h.valid_to
+        and not exists (
+          select 1 from location_history other
+          where other.valid_from = h.valid_to and other.id <> n.id
+        );
+      exit when not found;
+    end loop;
+
+    select count(*) into unmatched from location_history where location_id is null;
+    if unmatched > 0 then
+      raise exception '% location_history rows match no location; nothing was changed', unmatched;
+    end if;
+
+    alter table location_history alter column location_id set not null;
+  end if;
+end;
+$$;
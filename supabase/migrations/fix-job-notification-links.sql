@@ -0,0 +1,11 @@
+-- Point stored job notification links at the job page
+-- Apply with: pnpm migrate:notification-links
+--
+-- Job notifications used to link to /jobs/<id>, which isn't a page, so
+-- following them (or the links in digest emails built from them) gave a 404.
+-- New notifications link to /dashboard/jobs/<id>; this rewrites the old ones.
+-- Running it again does nothing.
+
+update notifications
+set link = '/dashboard' || link
+where link like '/jobs/%';
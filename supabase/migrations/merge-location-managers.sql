@@ -0,0 +1,46 @@
+-- Merge manager_locations into location_managers
+-- Apply with: pnpm migrate:location-managers (before pnpm migrate:drizzle:push)
+--
+-- Manager assignments used to be split across two join tables. This copies
+-- every manager_locations row into location_managers, the single table the
+-- app now uses, and only drops manager_locations once every row is there.
+-- Run it before pushing the schema so drizzle-kit doesn't drop
+-- manager_locations first. It does nothing once manager_locations is gone.
+
+do $$
+declare
+  missing integer;
+begin
+  if to_regclass('public.manager_locations') is null then
+    raise notice 'manager_locations already merged';
+    return;
+  end if;
+
+  create table if not exists location_managers (
+    location_id uuid not null references locations(id),
+    manager_id uuid not null references users(id),
+    primary key (location_id, manager_id)
+  );
+  alter table location_managers add column if not exists assigned_by uuid references users(id);
+  alter table location_managers add column if not exists created_at timestamp not null default now();
+  create index if not exists idx_location_managers_manager_id on location_managers (manager_id);
+
+  -- Rows in both tables are the same assignment, so conflicts are skipped
+  insert into location_managers (location_id, manager_id)
+  select location_id, user_id from manager_locations
+  on conflict (location_id, manager_id) do nothing;
+
+  select count(*) into missing
+  from manager_locations m
+  where not exists (
+    select 1 from location_managers l
+    where l.location_id = m.location_id and l.manager_id = m.user_id
+  );
+
+  if missing > 0 then
+    raise exception '% manager_locations rows were not copied; manager_locations was kept', missing;
+  end if;
+
+  drop table manager_locations;
+end;
+$$;
@@ -0,0 +1,22 @@
+-- Realtime publication
+-- Apply with: pnpm migrate:realtime
+--
+-- Adds the tables the app listens to (see src/lib/realtime/changes.ts) to
+-- Supabase's realtime publication. Changes are still filtered by each
+-- table's row-level security policies before they reach the browser, and
+-- only carry the columns the subscriber may select, so job pricing and notes
+-- are never sent (see "Job field visibility" in rls-policies.sql).
+
+do $$
+declare
+  table_name text;
+begin
+  foreach table_name in array array['jobs', 'notifications', 'job_files'] loop
+    if not exists (
+      select 1 from pg_publication_tables
+      where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = table_name
+    ) then
+      execute format('alter publication supabase_realtime add table public.%I', table_name);
+    end if;
+  end loop;
+end $$;
@@ -0,0 +1,699 @@
+-- Row-level security policies
+-- Apply with: pnpm migrate:drizzle:policies
+--
+-- The service role bypasses row-level security, so cron jobs and API routes
+-- using createServiceSupabaseClient() are unaffected; they check access in
+-- the application instead.
+
+-- ---------------------------------------------------------------------------
+-- Helpers
+--
+-- Security definer so policies can look up the caller's role and memberships
+-- without being filtered by the policies on users and user_organisations
+-- themselves.
+-- ---------------------------------------------------------------------------
+create or replace function current_user_type()
+returns user_type
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select type from users where id = auth.uid();
+$$;
+
+-- Owners of an organisation are members even without a user_organisations row
+create or replace function is_organisation_member(target_organisation_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from user_organisations
+    where organisation_id = target_organisation_id and user_id = auth.uid()
+  ) or exists (
+    select 1 from organisations
+    where id = target_organisation_id and owner_id = auth.uid()
+  );
+$$;
+
+create or replace function is_location_manager(target_location_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from location_managers
+    where location_id = target_location_id and manager_id = auth.uid()
+  );
+$$;
+
+-- Owners see their organisations' locations; managers only the locations
+-- they're assigned to (see src/lib/services/locationManagers.ts)
+create or replace function can_access_location(location_organisation_id uuid, target_location_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select case current_user_type()
+    when 'ADMIN' then true
+    when 'OWNER' then
+      location_organisation_id is not null and is_organisation_member(location_organisation_id)
+    when 'MANAGER' then
+      location_organisation_id is not null and is_organisation_member(location_organisation_id)
+      and is_location_manager(target_location_id)
+    else false
+  end;
+$$;
+
+-- Jobs follow their location, plus jobs the user created outside any
+-- organisation. Contractors are handled by their own policies.
+create or replace function can_access_job(job_organisation_id uuid, job_location_id uuid, job_owner_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select case current_user_type()
+    when 'ADMIN' then true
+    when 'OWNER' then
+      (job_organisation_id is not null and is_organisation_member(job_organisation_id))
+      or (job_organisation_id is null and job_owner_id = auth.uid())
+    when 'MANAGER' then
+      (job_organisation_id is not null and is_organisation_member(job_organisation_id)
+        and is_location_manager(job_location_id))
+      or (job_organisation_id is null and job_owner_id = auth.uid())
+    else false
+  end;
+$$;
+
+-- Admins review every contractor's compliance documents; owners review the
+-- contractors in organisations they own (see reviewContractorDocument in
+-- src/lib/services/contractorDocuments.ts)
+create or replace function can_review_contractor(contractor_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select case current_user_type()
+    when 'ADMIN' then true
+    when 'OWNER' then exists (
+      select 1 from user_organisations uo
+      join organisations o on o.id = uo.organisation_id
+      where uo.user_id = contractor_id and o.owner_id = auth.uid()
+    )
+    else false
+  end;
+$$;
+
+-- Who can move rows to the Trash, restore them and see them while they're
+-- there (see the Trash section below). Keep in sync with TRASH_ROLES in
+-- src/lib/auth/rbac.ts.
+create or replace function can_manage_trash()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(current_user_type() in ('ADMIN', 'OWNER'), false);
+$$;
+
+-- ---------------------------------------------------------------------------
+-- Organisations
+--
+-- Members see their organisations (the organisation switcher lists exactly
+-- these); admins see every organisation. Owners manage their own.
+-- ---------------------------------------------------------------------------
+alter table organisations enable row level security;
+
+drop policy if exists "Members read their organisations" on organisations;
+create policy "Members read their organisations"
+  on organisations for select
+  to authenticated
+  using (current_user_type() = 'ADMIN' or is_organisation_member(id));
+
+drop policy if exists "Owners create organisations" on organisations;
+create policy "Owners create organisations"
+  on organisations for insert
+  to authenticated
+  with check (
+    current_user_type() = 'ADMIN'
+    or (current_user_type() = 'OWNER' and owner_id = auth.uid())
+  );
+
+drop policy if exists "Owners update their organisations" on organisations;
+create policy "Owners update their organisations"
+  on organisations for update
+  to authenticated
+  using (current_user_type() = 'ADMIN' or owner_id = auth.uid())
+  with check (current_user_type() = 'ADMIN' or owner_id = auth.uid());
+
+alter table user_organisations enable row level security;
+
+drop policy if exists "Members read memberships" on user_organisations;
+create policy "Members read memberships"
+  on user_organisations for select
+  to authenticated
+  using (current_user_type() = 'ADMIN' or is_organisation_member(organisation_id));
+
+drop policy if exists "Owners manage memberships" on user_organisations;
+create policy "Owners manage memberships"
+  on user_organisations for all
+  to authenticated
+  using (
+    current_user_type() = 'ADMIN'
+    or exists (select 1 from organisations where id = organisation_id and owner_id = auth.uid())
+  )
+  with check (
+    current_user_type() = 'ADMIN'
+    or exists (select 1 from organisations where id = organisation_id and owner_id = auth.uid())
+  );
+
+-- ---------------------------------------------------------------------------
+-- Invitations
+--
+-- Invitations carry the signup token, so only admins and the owners who sent
+-- them (or own an organisation the sender belongs to) can read them. Owners
+-- invite managers and contractors (INVITABLE_ROLES in src/lib/auth/rbac.ts).
+-- Invitees look up and accept invitations through the service client.
+-- ---------------------------------------------------------------------------
+alter table user_invitations enable row level security;
+
+drop policy if exists "Senders read invitations" on user_invitations;
+create policy "Senders read invitations"
+  on user_invitations for select
+  to authenticated
+  using (
+    current_user_type() = 'ADMIN'
+    or invited_by = auth.uid()
+    or (current_user_type() = 'OWNER' and exists (
+      select 1 from user_organisations uo
+      join organisations o on o.id = uo.organisation_id
+      where uo.user_id = invited_by and o.owner_id = auth.uid()
+    ))
+  );
+
+drop policy if exists "Owners send invitations" on user_invitations;
+create policy "Owners send invitations"
+  on user_invitations for insert
+  to authenticated
+  with check (
+    current_user_type() = 'ADMIN'
+    or (current_user_type() = 'OWNER' and invited_by = auth.uid() and user_type in ('MANAGER', 'CONTRACTOR'))
+  );
+
+drop policy if exists "Senders update invitations" on user_invitations;
+create policy "Senders update invitations"
+  on user_invitations for update
+  to authenticated
+  using (current_user_type() = 'ADMIN' or (current_user_type() = 'OWNER' and invited_by = auth.uid()))
+  with check (current_user_type() = 'ADMIN' or (current_user_type() = 'OWNER' and invited_by = auth.uid()));
+
+-- ---------------------------------------------------------------------------
+-- Locations
+--
+-- Owners see and change their organisations' locations; managers only see
+-- the locations they're assigned to. Contractors can read the location of
+-- any job they can see.
+-- ---------------------------------------------------------------------------
+alter table locations enable row level security;
+
+drop policy if exists "Members read organisation locations" on locations;
+create policy "Members read organisation locations"
+  on locations for select
+  to authenticated
+  using (can_access_location(organisation_id, id));
+
+drop policy if exists "Contractors read job locations" on locations;
+create policy "Contractors read job locations"
+  on locations for select
+  to authenticated
+  using (
+    current_user_type() = 'CONTRACTOR'
+    and exists (select 1 from jobs where jobs.location_id = locations.id)
+  );
+
+-- Owners delete locations by setting deleted_at (see the Trash section below)
+drop policy if exists "Members manage organisation locations" on locations;
+drop policy if exists "Owners manage organisation locations" on locations;
+drop policy if exists "Owners create organisation locations" on locations;
+create policy "Owners create organisation locations"
+  on locations for insert
+  to authenticated
+  with check (
+    current_user_type() = 'ADMIN'
+    or (current_user_type() = 'OWNER'
+      and organisation_id is not null and is_organisation_member(organisation_id))
+  );
+
+drop policy if exists "Owners update organisation locations" on locations;
+create policy "Owners update organisation locations"
+  on locations for update
+  to authenticated
+  using (
+    current_user_type() = 'ADMIN'
+    or (current_user_type() = 'OWNER'
+      and organisation_id is not null and is_organisation_member(organisation_id))
+  )
+  with check (
+    current_user_type() = 'ADMIN'
+    or (current_user_type() = 'OWNER'
+      and organisation_id is not null and is_organisation_member(organisation_id))
+  );
+
+-- ---------------------------------------------------------------------------
+-- Location managers
+--
+-- Managers can see their own assignments; owners assign managers to the
+-- locations of organisations they own.
+-- ---------------------------------------------------------------------------
+alter table location_managers enable row level security;
+
+drop policy if exists "Members read location managers" on location_managers;
+create policy "Members read location managers"
+  on location_managers for select
+  to authenticated
+  using (
+    manager_id = auth.uid()
+    or (current_user_type() in ('ADMIN', 'OWNER')
+      and exists (select 1 from locations where locations.id = location_id))
+  );
+
+drop policy if exists "Owners assign location managers" on location_managers;
+create policy "Owners assign location managers"
+  on location_managers for all
+  to authenticated
+  using (
+    current_user_type() = 'ADMIN'
+    or exists (
+      select 1 from locations
+      join organisations on organisations.id = locations.organisation_id
+      where locations.id = location_id and organisations.owner_id = auth.uid()
+    )
+  )
+  with check (
+    current_user_type() = 'ADMIN'
+    or exists (
+      select 1 from locations
+      join organisations on organisations.id = locations.organisation_id
+      where locations.id = location_id and organisations.owner_id = auth.uid()
+    )
+  );
+
+-- ---------------------------------------------------------------------------
+-- Jobs
+--
+-- Owners see their organisations' jobs and managers the jobs at their
+-- locations (see can_access_job). Contractors see available jobs and the
+-- jobs assigned to them. Status and contractor changes are further limited
+-- by the triggers in triggers.sql.
+-- ---------------------------------------------------------------------------
+alter table jobs enable row level security;
+
+drop policy if exists "Members read organisation jobs" on jobs;
+create policy "Members read organisation jobs"
+  on jobs for select
+  to authenticated
+  using (can_access_job(organisation_id, location_id, owner_id));
+
+drop policy if exists "Contractors read available and assigned jobs" on jobs;
+create policy "Contractors read available and assigned jobs"
+  on jobs for select
+  to authenticated
+  using (
+    current_user_type() = 'CONTRACTOR'
+    and (status = 'AVAILABLE' or contractor_id = auth.uid())
+  );
+
+drop policy if exists "Members create organisation jobs" on jobs;
+create policy "Members create organisation jobs"
+  on jobs for insert
+  to authenticated
+  with check (can_access_job(organisation_id, location_id, owner_id));
+
+drop policy if exists "Members update organisation jobs" on jobs;
+create policy "Members update organisation jobs"
+  on jobs for update
+  to authenticated
+  using (can_access_job(organisation_id, location_id, owner_id))
+  with check (can_access_job(organisation_id, location_id, owner_id));
+
+-- Claiming, releasing and progressing work. jobs_guard_contractor_update in
+-- triggers.sql rejects contractor changes to any other column.
+drop policy if exists "Contractors update available and assigned jobs" on jobs;
+create policy "Contractors update available and assigned jobs"
+  on jobs for update
+  to authenticated
+  using (
+    current_user_type() = 'CONTRACTOR'
+    and (status = 'AVAILABLE' or contractor_id = auth.uid())
+  )
+  with check (
+    current_user_type() = 'CONTRACTOR'
+    and (contractor_id = auth.uid() or (status = 'AVAILABLE' and contractor_id is null))
+  );
+
+-- Members delete jobs by setting deleted_at (see the Trash section below)
+drop policy if exists "Members delete organisation jobs" on jobs;
+
+-- ---------------------------------------------------------------------------
+-- Job field visibility
+--
+-- Pricing and internal notes (RESTRICTED_JOB_FIELDS in
+-- src/lib/jobs/visibility.ts) can't be selected from jobs by signed-in users,
+-- so `select *` fails and realtime changes, which only carry the columns the
+-- subscriber may select, never include them. The app reads jobs through
+-- visible_jobs instead: the same rows as the select policies (including the
+-- restrictive Trash ones below), with the listing price blanked for everyone
+-- but admins and whoever set it, the contractor price for owners and
+-- managers, and notes for everyone but admins. Writes still go to jobs.
+-- ---------------------------------------------------------------------------
+revoke select on jobs from anon, authenticated;
+grant select (
+  id, title, description, status, category, owner_id, location_id,
+  contractor_id, organisation_id, completion_notes, required_specialities,
+  changed_by, listing_price_set_by, created_at, updated_at, deleted_at,
+  created_by, updated_by, deleted_by
+) on jobs to authenticated;
+
+-- Owned by the migration role, so it reads the restricted columns and repeats
+-- the row checks itself; security_barrier keeps callers' filters from
+-- running before them
+create or replace view visible_jobs
+with (security_barrier = true)
+as
+select
+  id, title, description, status, category, owner_id, location_id,
+  contractor_id, organisation_id, completion_notes, required_specialities,
+  changed_by, listing_price_set_by, created_at, updated_at, deleted_at,
+  created_by, updated_by, deleted_by,
+  case when current_user_type() = 'ADMIN' or listing_price_set_by = auth.uid()
+    then listing_price end as listing_price,
+  case when current_user_type() in ('ADMIN', 'CONTRACTOR')
+    then contractor_price end as contractor_price,
+  case when current_user_type() = 'ADMIN'
+    then notes end as notes
+from jobs
+where (can_access_job(organisation_id, location_id, owner_id)
+    or (current_user_type() = 'CONTRACTOR' and (status = 'AVAILABLE' or contractor_id = auth.uid())))
+  and (deleted_at is null or can_manage_trash());
+
+revoke all on visible_jobs from anon, authenticated;
+grant select on visible_jobs to authenticated;
+
+-- ---------------------------------------------------------------------------
+-- Files
+--
+-- Job files are visible to whoever can see the job, so managers only see
+-- files on jobs at their locations. Uploaders always see their own files,
+-- which covers contractors' compliance documents.
+-- ---------------------------------------------------------------------------
+alter table job_files enable row level security;
+
+drop policy if exists "Job viewers read job files" on job_files;
+create policy "Job viewers read job files"
+  on job_files for select
+  to authenticated
+  using (exists (select 1 from jobs where jobs.id = job_id));
+
+drop policy if exists "Job viewers attach files" on job_files;
+create policy "Job viewers attach files"
+  on job_files for insert
+  to authenticated
+  with check (created_by = auth.uid() and exists (select 1 from jobs where jobs.id = job_id));
+
+drop policy if exists "Job managers update job files" on job_files;
+create policy "Job managers update job files"
+  on job_files for update
+  to authenticated
+  using (
+    current_user_type() in ('ADMIN', 'OWNER', 'MANAGER')
+    and exists (select 1 from jobs where jobs.id = job_id)
+  );
+
+alter table files enable row level security;
+
+drop policy if exists "Users read their own and job files" on files;
+create policy "Users read their own and job files"
+  on files for select
+  to authenticated
+  using (
+    current_user_type() = 'ADMIN'
+    or uploaded_by = auth.uid()
+    or exists (select 1 from job_files where job_files.file_id = files.id)
+  );
+
+drop policy if exists "Users upload their own files" on files;
+create policy "Users upload their own files"
+  on files for insert
+  to authenticated
+  with check (uploaded_by = auth.uid());
+
+drop policy if exists "Uploaders update their own files" on files;
+create policy "Uploaders update their own files"
+  on files for update
+  to authenticated
+  using (current_user_type() = 'ADMIN' or uploaded_by = auth.uid())
+  with check (current_user_type() = 'ADMIN' or uploaded_by = auth.uid());
+
+-- ---------------------------------------------------------------------------
+-- Contractor documents
+--
+-- Contractors see and submit only their own documents and reviews. Reviewers
+-- (can_review_contractor) see them and approve or reject them; the guards in
+-- triggers.sql stop contractors approving their own.
+-- ---------------------------------------------------------------------------
+alter table contractor_documents enable row level security;
+
+drop policy if exists "Contractors and reviewers read contractor documents" on contractor_documents;
+create policy "Contractors and reviewers read contractor documents"
+  on contractor_documents for select
+  to authenticated
+  using (user_id = auth.uid() or can_review_contractor(user_id));
+
+drop policy if exists "Contractors submit their documents" on contractor_documents;
+create policy "Contractors submit their documents"
+  on contractor_documents for insert
+  to authenticated
+  with check (user_id = auth.uid() or current_user_type() = 'ADMIN');
+
+drop policy if exists "Contractors and reviewers update contractor documents" on contractor_documents;
+create policy "Contractors and reviewers update contractor documents"
+  on contractor_documents for update
+  to authenticated
+  using (user_id = auth.uid() or can_review_contractor(user_id))
+  with check (user_id = auth.uid() or can_review_contractor(user_id));
+
+alter table contractor_document_reviews enable row level security;
+
+drop policy if exists "Contractors and reviewers read document reviews" on contractor_document_reviews;
+create policy "Contractors and reviewers read document reviews"
+  on contractor_document_reviews for select
+  to authenticated
+  using (user_id = auth.uid() or can_review_contractor(user_id));
+
+drop policy if exists "Contractors submit documents for review" on contractor_document_reviews;
+create policy "Contractors submit documents for review"
+  on contractor_document_reviews for insert
+  to authenticated
+  with check (user_id = auth.uid() or current_user_type() = 'ADMIN');
+
+drop policy if exists "Contractors and reviewers update document reviews" on contractor_document_reviews;
+create policy "Contractors and reviewers update document reviews"
+  on contractor_document_reviews for update
+  to authenticated
+  using (user_id = auth.uid() or can_review_contractor(user_id))
+  with check (user_id = auth.uid() or can_review_contractor(user_id));
+
+-- ---------------------------------------------------------------------------
+-- History
+--
+-- Versions are written by the history triggers in triggers.sql and read by
+-- useHistory. Each history table follows the row it records: job and location
+-- history are visible to whoever can access the job or location (trashed ones
+-- only to those who can manage the Trash), organisation history to members,
+-- and user history to the user, admins and the owners of their organisations.
+-- ---------------------------------------------------------------------------
+alter table job_history enable row level security;
+
+drop policy if exists "Job viewers read job history" on job_history;
+create policy "Job viewers read job history"
+  on job_history for select
+  to authenticated
+  using (
+    exists (
+      select 1 from jobs j
+      where j.id = job_id
+        and (j.deleted_at is null or can_manage_trash())
+        and (
+          can_access_job(j.organisation_id, j.location_id, j.owner_id)
+          or (current_user_type() = 'CONTRACTOR' and j.contractor_id = auth.uid())
+        )
+    )
+  );
+
+alter table location_history enable row level security;
+
+drop policy if exists "Location viewers read location history" on location_history;
+create policy "Location viewers read location history"
+  on location_history for select
+  to authenticated
+  using (
+    exists (
+      select 1 from locations l
+      where l.id = location_id
+        and (l.deleted_at is null or can_manage_trash())
+        and can_access_location(l.organisation_id, l.id)
+    )
+  );
+
+alter table organisation_history enable row level security;
+
+drop policy if exists "Members read organisation history" on organisation_history;
+create policy "Members read organisation history"
+  on organisation_history for select
+  to authenticated
+  using (current_user_type() = 'ADMIN' or is_organisation_member(organisation_id));
+
+alter table user_history enable row level security;
+
+drop policy if exists "Users and their owners read user history" on user_history;
+create policy "Users and their owners read user history"
+  on user_history for select
+  to authenticated
+  using (
+    current_user_type() = 'ADMIN'
+    or user_id = auth.uid()
+    or exists (
+      select 1 from user_organisations uo
+      join organisations o on o.id = uo.organisation_id
+      where uo.user_id = user_history.user_id and o.owner_id = auth.uid()
+    )
+  );
+
+-- ---------------------------------------------------------------------------
+-- Notifications
+--
+-- Users read, mark as read and dismiss their own notifications. Notifications
+-- are only created by the service client (see src/lib/services/notifications.ts).
+-- ---------------------------------------------------------------------------
+alter table notifications enable row level security;
+
+drop policy if exists "Users read their notifications" on notifications;
+create policy "Users read their notifications"
+  on notifications for select
+  to authenticated
+  using (user_id = auth.uid());
+
+drop policy if exists "Users update their notifications" on notifications;
+create policy "Users update their notifications"
+  on notifications for update
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+drop policy if exists "Users delete their notifications" on notifications;
+create policy "Users delete their notifications"
+  on notifications for delete
+  to authenticated
+  using (user_id = auth.uid());
+
+-- Users choose how their own notifications are delivered
+alter table notification_preferences enable row level security;
+
+drop policy if exists "Users manage their notification preferences" on notification_preferences;
+create policy "Users manage their notification preferences"
+  on notification_preferences for all
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+-- Failed deliveries are queued and retried by the service client; admins
+-- can inspect them and replay them through /api/notification-outbox
+alter table notification_outbox enable row level security;
+
+drop policy if exists "Admins read the notification outbox" on notification_outbox;
+create policy "Admins read the notification outbox"
+  on notification_outbox for select
+  to authenticated
+  using (current_user_type() = 'ADMIN');
+
+-- ---------------------------------------------------------------------------
+-- Trash
+--
+-- Jobs, locations and the other tables with deleted_at are soft-deleted:
+-- deleting sets deleted_at/deleted_by through the update policies above, and
+-- restoring clears them. Only admins can purge a row for good.
+--
+-- Only admins and owners can move jobs and locations to the Trash
+-- or restore them. Everyone else can't see them once they're there, so
+-- trashed jobs can't be read, claimed or sent to contractors over realtime.
+-- These policies are restrictive: they apply on top of the ones above.
+-- ---------------------------------------------------------------------------
+drop policy if exists "Trashed jobs are hidden" on jobs;
+create policy "Trashed jobs are hidden"
+  on jobs as restrictive for select
+  to authenticated
+  using (deleted_at is null or can_manage_trash());
+
+drop policy if exists "Only managers trash and restore jobs" on jobs;
+drop policy if exists "Only owners trash and restore jobs" on jobs;
+create policy "Only owners trash and restore jobs"
+  on jobs as restrictive for update
+  to authenticated
+  using (deleted_at is null or can_manage_trash())
+  with check (deleted_at is null or can_manage_trash());
+
+drop policy if exists "Trashed locations are hidden" on locations;
+create policy "Trashed locations are hidden"
+  on locations as restrictive for select
+  to authenticated
+  using (deleted_at is null or can_manage_trash());
+
+drop policy if exists "Only managers trash and restore locations" on locations;
+drop policy if exists "Only owners trash and restore locations" on locations;
+create policy "Only owners trash and restore locations"
+  on locations as restrictive for update
+  to authenticated
+  using (deleted_at is null or can_manage_trash())
+  with check (deleted_at is null or can_manage_trash());
+
+drop policy if exists "Admins purge jobs" on jobs;
+create policy "Admins purge jobs"
+  on jobs for delete
+  to authenticated
+  using (current_user_type() = 'ADMIN');
+
+drop policy if exists "Admins purge locations" on locations;
+create policy "Admins purge locations"
+  on locations for delete
+  to authenticated
+  using (current_user_type() = 'ADMIN');
+
+drop policy if exists "Admins purge organisations" on organisations;
+create policy "Admins purge organisations"
+  on organisations for delete
+  to authenticated
+  using (current_user_type() = 'ADMIN');
+
+drop policy if exists "Admins purge files" on files;
+create policy "Admins purge files"
+  on files for delete
+  to authenticated
+  using (current_user_type() = 'ADMIN');
+
+drop policy if exists "Admins purge job files" on job_files;
+create policy "Admins purge job files"
+  on job_files for delete
+  to authenticated
+  using (current_user_type() = 'ADMIN');
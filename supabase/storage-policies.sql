@@ -0,0 +1,49 @@
+-- Storage buckets and policies
+-- Apply with: pnpm migrate:storage:policies
+
+-- ---------------------------------------------------------------------------
+-- Contractor compliance documents
+--
+-- Private bucket. Objects live under `<user id>/...` (see
+-- getDocumentStoragePath in src/lib/contractors/documents.ts); contractors
+-- can upload and read their own folder, admins can read everything.
+-- ---------------------------------------------------------------------------
+insert into storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+values (
+  'contractor-documents',
+  'contractor-documents',
+  false,
+  10485760,
+  array['image/jpeg', 'image/png', 'image/webp', 'application/pdf']
+)
+on conflict (id) do update
+set public = excluded.public,
+    file_size_limit = excluded.file_size_limit,
+    allowed_mime_types = excluded.allowed_mime_types;
+
+drop policy if exists "Contractors upload their own documents" on storage.objects;
+create policy "Contractors upload their own documents"
+  on storage.objects for insert
+  to authenticated
+  with check (
+    bucket_id = 'contractor-documents'
+    and (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+drop policy if exists "Contractors read their own documents" on storage.objects;
+create policy "Contractors read their own documents"
+  on storage.objects for select
+  to authenticated
+  using (
+    bucket_id = 'contractor-documents'
+    and (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+drop policy if exists "Admins read all contractor documents" on storage.objects;
+create policy "Admins read all contractor documents"
+  on storage.objects for select
+  to authenticated
+  using (
+    bucket_id = 'contractor-documents'
+    and exists (select 1 from public.users where id = auth.uid() and type = 'ADMIN')
+  );
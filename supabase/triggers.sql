@@ -0,0 +1,561 @@
+-- Database triggers
+-- Apply with: pnpm migrate:triggers
+
+-- ---------------------------------------------------------------------------
+-- Job status transitions
+--
+-- Mirrors JOB_TRANSITIONS in src/lib/jobs/transitions.ts so that status
+-- changes made directly through the Supabase client are held to the same
+-- rules as the server. Keep both lists in sync.
+-- ---------------------------------------------------------------------------
+create or replace function enforce_job_status_transition()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  actor_type user_type;
+  allowed_roles user_type[];
+begin
+  if new.status is not distinct from old.status then
+    return new;
+  end if;
+
+  select t.roles into allowed_roles
+  from (values
+    ('DRAFT'::job_status,          'PENDING_REVIEW'::job_status, array['ADMIN', 'OWNER', 'MANAGER']::user_type[]),
+    ('DRAFT'::job_status,          'ARCHIVED'::job_status,       array['ADMIN', 'OWNER', 'MANAGER']::user_type[]),
+    ('PENDING_REVIEW'::job_status, 'DRAFT'::job_status,          array['ADMIN', 'OWNER', 'MANAGER']::user_type[]),
+    ('PENDING_REVIEW'::job_status, 'AVAILABLE'::job_status,      array['ADMIN']::user_type[]),
+    ('AVAILABLE'::job_status,      'PENDING_REVIEW'::job_status, array['ADMIN']::user_type[]),
+    ('AVAILABLE'::job_status,      'CLAIMED'::job_status,        array['CONTRACTOR']::user_type[]),
+    ('CLAIMED'::job_status,        'AVAILABLE'::job_status,      array['ADMIN', 'CONTRACTOR']::user_type[]),
+    ('CLAIMED'::job_status,        'SUBMITTED'::job_status,      array['CONTRACTOR']::user_type[]),
+    ('SUBMITTED'::job_status,      'CLAIMED'::job_status,        array['ADMIN']::user_type[]),
+    ('SUBMITTED'::job_status,      'IN_PROGRESS'::job_status,    array['ADMIN', 'CONTRACTOR']::user_type[]),
+    ('IN_PROGRESS'::job_status,    'COMPLETED'::job_status,      array['ADMIN', 'CONTRACTOR']::user_type[]),
+    ('COMPLETED'::job_status,      'IN_PROGRESS'::job_status,    array['ADMIN', 'OWNER', 'MANAGER']::user_type[]),
+    ('COMPLETED'::job_status,      'PAID'::job_status,           array['ADMIN']::user_type[]),
+    ('PAID'::job_status,           'ARCHIVED'::job_status,       array['ADMIN']::user_type[])
+  ) as t(from_status, to_status, roles)
+  where t.from_status = old.status and t.to_status = new.status;
+
+  if allowed_roles is null then
+    raise exception 'Invalid job status transition from % to %', old.status, new.status
+      using errcode = 'check_violation';
+  end if;
+
+  -- The service role has already been checked by the application
+  if auth.role() = 'service_role' then
+    return new;
+  end if;
+
+  select type into actor_type from users where id = auth.uid();
+
+  if actor_type is null or not (actor_type = any(allowed_roles)) then
+    raise exception 'permission denied: % may not move a job from % to %', coalesce(actor_type::text, 'anonymous'), old.status, new.status
+      using errcode = 'insufficient_privilege';
+  end if;
+
+  -- The actor must also be tied to the job (isActorRelatedToJob): owners act
+  -- on their own jobs, managers on their own and those at the locations they
+  -- manage, and contractors on jobs assigned to them or that they claim
+  if not (
+    actor_type = 'ADMIN'
+    or (actor_type = 'OWNER' and old.owner_id = auth.uid())
+    or (actor_type = 'MANAGER' and (old.owner_id = auth.uid() or exists (
+      select 1 from location_managers
+      where location_id = old.location_id and manager_id = auth.uid()
+    )))
+    or (actor_type = 'CONTRACTOR'
+      and ((old.status = 'AVAILABLE' and new.status = 'CLAIMED') or old.contractor_id = auth.uid()))
+  ) then
+    raise exception 'permission denied: % may not change the status of this job', actor_type
+      using errcode = 'insufficient_privilege';
+  end if;
+
+  -- Contractors can only claim once their compliance documents are approved
+  -- and their insurance is current (see src/lib/contractors/documents.ts)
+  if old.status = 'AVAILABLE' and new.status = 'CLAIMED' and not exists (
+    select 1 from contractor_documents d
+    join users u on u.id = d.user_id
+    where d.user_id = auth.uid()
+      and d.verified_at is not null
+      and d.insurance_expiry_date > now()
+      and not u.claims_suspended
+  ) then
+    raise exception 'permission denied: contractor documents have not been verified'
+      using errcode = 'insufficient_privilege';
+  end if;
+
+  -- Claims assign the job to the claiming contractor, who must have every
+  -- required speciality (see src/lib/jobs/claims.ts)
+  if old.status = 'AVAILABLE' and new.status = 'CLAIMED' then
+    if new.contractor_id is distinct from auth.uid() then
+      raise exception 'permission denied: contractors can only claim jobs for themselves'
+        using errcode = 'insufficient_privilege';
+    end if;
+
+    if exists (
+      select 1 from unnest(new.required_specialities) as required
+      where lower(required) <> all (coalesce((
+        select array(select lower(s) from unnest(p.specialities) as s)
+        from contractor_profiles p
+        where p.user_id = auth.uid()
+      ), '{}'))
+    ) then
+      raise exception 'permission denied: contractor is missing a required speciality'
+        using errcode = 'insufficient_privilege';
+    end if;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists jobs_enforce_status_transition on jobs;
+create trigger jobs_enforce_status_transition
+  before update of status on jobs
+  for each row
+  execute function enforce_job_status_transition();
+
+-- Contractors are only assigned by claiming (or unassigned by releasing), so
+-- contractor_id can't be set directly to take a job without the claim checks.
+-- Concurrent claims are safe: the claim update matches on status = 'AVAILABLE'
+-- and Postgres re-checks that after waiting for the row lock, so only the
+-- first claim updates the row.
+create or replace function guard_job_contractor()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.contractor_id is not distinct from old.contractor_id
+    or auth.role() = 'service_role'
+    or exists (select 1 from users where id = auth.uid() and type = 'ADMIN') then
+    return new;
+  end if;
+
+  if (old.status = 'AVAILABLE' and new.status = 'CLAIMED' and new.contractor_id = auth.uid())
+    or (old.status = 'CLAIMED' and new.status = 'AVAILABLE' and new.contractor_id is null) then
+    return new;
+  end if;
+
+  raise exception 'permission denied: contractors are assigned by claiming the job'
+    using errcode = 'insufficient_privilege';
+end;
+$$;
+
+drop trigger if exists jobs_guard_contractor on jobs;
+create trigger jobs_guard_contractor
+  before update of contractor_id on jobs
+  for each row
+  execute function guard_job_contractor();
+
+-- The contractor update policy lets contractors update their own and
+-- available jobs, but only to claim, release and progress them: any change
+-- outside these columns is rejected.
+create or replace function guard_contractor_job_update()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  progress_columns text[] := array[
+    'status', 'contractor_id', 'completion_notes', 'changed_by', 'updated_by', 'updated_at'
+  ];
+begin
+  if auth.role() = 'service_role'
+    or not exists (select 1 from users where id = auth.uid() and type = 'CONTRACTOR') then
+    return new;
+  end if;
+
+  if (to_jsonb(new) - progress_columns) is distinct from (to_jsonb(old) - progress_columns) then
+    raise exception 'permission denied: contractors can only claim and progress jobs'
+      using errcode = 'insufficient_privilege';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists jobs_guard_contractor_update on jobs;
+create trigger jobs_guard_contractor_update
+  before update on jobs
+  for each row
+  execute function guard_contractor_job_update();
+
+-- Owners and managers only see the listing prices they set (see visible_jobs
+-- in rls-policies.sql), so record who set each one. The setter can't be
+-- written directly; service-role writes fall back to the row's updated_by.
+create or replace function record_listing_price_setter()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' or new.listing_price is distinct from old.listing_price then
+    new.listing_price_set_by := case
+      when new.listing_price is null then null
+      else coalesce(auth.uid(), new.updated_by, new.created_by)
+    end;
+  else
+    new.listing_price_set_by := old.listing_price_set_by;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists jobs_record_listing_price_setter on jobs;
+create trigger jobs_record_listing_price_setter
+  before insert or update on jobs
+  for each row
+  execute function record_listing_price_setter();
+
+-- ---------------------------------------------------------------------------
+-- Temporal history
+--
+-- Every insert or update of a tracked row closes the entity's open history
+-- version (valid_to = now()) and opens a new one, so history can't be skipped
+-- by writing through the Supabase client directly. Updates that don't touch a
+-- tracked column don't create a version. changed_by prefers the signed-in
+-- user and falls back to the row's updated_by for service-role writes.
+--
+-- Tracked columns mirror HISTORY_SOURCES in src/lib/history/timeline.ts.
+-- ---------------------------------------------------------------------------
+create or replace function record_job_history()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'UPDATE' and (
+    new.title, new.description, new.status, new.owner_id,
+    new.location_id, new.contractor_id, new.completion_notes
+  ) is not distinct from (
+    old.title, old.description, old.status, old.owner_id,
+    old.location_id, old.contractor_id, old.completion_notes
+  ) then
+    return new;
+  end if;
+
+  update job_history
+  set valid_to = now()
+  where job_id = new.id and valid_to is null and file_event_type is null;
+
+  insert into job_history (
+    job_id, title, description, status, owner_id, location_id,
+    contractor_id, completion_notes, changed_by, valid_from
+  ) values (
+    new.id, new.title, new.description, new.status, new.owner_id, new.location_id,
+    new.contractor_id, new.completion_notes, coalesce(auth.uid(), new.updated_by, new.created_by), now()
+  );
+
+  return new;
+end;
+$$;
+
+drop trigger if exists jobs_record_history on jobs;
+create trigger jobs_record_history
+  after insert or update on jobs
+  for each row
+  execute function record_job_history();
+
+create or replace function record_user_history()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'UPDATE' and (new.email, new.name, new.type, new.status, new.claims_suspended)
+    is not distinct from (old.email, old.name, old.type, old.status, old.claims_suspended) then
+    return new;
+  end if;
+
+  update user_history
+  set valid_to = now()
+  where user_id = new.id and valid_to is null;
+
+  insert into user_history (user_id, email, name, type, status, claims_suspended, changed_by, valid_from)
+  values (new.id, new.email, new.name, new.type, new.status, new.claims_suspended, auth.uid(), now());
+
+  return new;
+end;
+$$;
+
+drop trigger if exists users_record_history on users;
+create trigger users_record_history
+  after insert or update on users
+  for each row
+  execute function record_user_history();
+
+create or replace function record_organisation_history()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'UPDATE' and (new.name, new.owner_id)
+    is not distinct from (old.name, old.owner_id) then
+    return new;
+  end if;
+
+  update organisation_history
+  set valid_to = now()
+  where organisation_id = new.id and valid_to is null;
+
+  insert into organisation_history (organisation_id, name, owner_id, changed_by, valid_from)
+  values (new.id, new.name, new.owner_id, coalesce(auth.uid(), new.updated_by, new.created_by), now());
+
+  return new;
+end;
+$$;
+
+drop trigger if exists organisations_record_history on organisations;
+create trigger organisations_record_history
+  after insert or update on organisations
+  for each row
+  execute function record_organisation_history();
+
+create or replace function record_location_history()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'UPDATE' and (new.name, new.address, new.organisation_id)
+    is not distinct from (old.name, old.address, old.organisation_id) then
+    return new;
+  end if;
+
+  update location_history
+  set valid_to = now()
+  where location_id = new.id and valid_to is null;
+
+  insert into location_history (location_id, name, address, organisation_id, changed_by, valid_from)
+  values (new.id, new.name, new.address, new.organisation_id, coalesce(auth.uid(), new.updated_by, new.created_by), now());
+
+  return new;
+end;
+$$;
+
+drop trigger if exists locations_record_history on locations;
+create trigger locations_record_history
+  after insert or update on locations
+  for each row
+  execute function record_location_history();
+
+-- Coordinates belong to the address they were geocoded from, so a new address
+-- clears them (unless the same update sets new ones) and queues the location
+-- for geocoding again (see src/lib/services/locations.ts)
+create or replace function reset_location_coordinates()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.address is distinct from old.address
+    and (new.latitude, new.longitude) is not distinct from (old.latitude, old.longitude) then
+    new.latitude := null;
+    new.longitude := null;
+    new.geocode_attempted_at := null;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists locations_reset_coordinates on locations;
+create trigger locations_reset_coordinates
+  before update of address on locations
+  for each row
+  execute function reset_location_coordinates();
+
+-- File events are point-in-time rows (valid_from = valid_to) on job_history,
+-- carrying the job's state at the time. They sit outside the version chain.
+create or replace function record_job_file_event()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  link job_files;
+  event file_event_type;
+begin
+  if tg_op = 'INSERT' then
+    link := new;
+    event := 'ADDED';
+  elsif tg_op = 'DELETE' then
+    link := old;
+    event := 'REMOVED';
+  elsif old.deleted_at is null and new.deleted_at is not null then
+    link := new;
+    event := 'REMOVED';
+  elsif old.deleted_at is not null and new.deleted_at is null then
+    link := new;
+    event := 'ADDED';
+  else
+    return new;
+  end if;
+
+  insert into job_history (
+    job_id, title, description, status, owner_id, location_id, contractor_id,
+    completion_notes, changed_by, valid_from, valid_to, file_event_type, file_id, file_name
+  )
+  select
+    j.id, j.title, j.description, j.status, j.owner_id, j.location_id, j.contractor_id,
+    j.completion_notes,
+    coalesce(auth.uid(), case when event = 'ADDED' then link.created_by else link.deleted_by end),
+    now(), now(), event, link.file_id, f.name
+  from jobs j
+  left join files f on f.id = link.file_id
+  where j.id = link.job_id;
+
+  return coalesce(new, old);
+end;
+$$;
+
+drop trigger if exists job_files_record_history on job_files;
+create trigger job_files_record_history
+  after insert or update of deleted_at or delete on job_files
+  for each row
+  execute function record_job_file_event();
+
+-- ---------------------------------------------------------------------------
+-- Contractor document verification
+--
+-- Only reviewers (admins, owners of the contractor's organisations, see
+-- can_review_contractor in rls-policies.sql) or the service role may approve
+-- documents or mark a contractor verified. Replacing a document resets its review to pending and
+-- clears the contractor's verification until it is approved again.
+-- ---------------------------------------------------------------------------
+create or replace function guard_contractor_document_review()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.role() = 'service_role' or (new.user_id is distinct from auth.uid() and can_review_contractor(new.user_id)) then
+    return new;
+  end if;
+
+  -- Contractors may only (re)submit their own documents for review
+  if new.user_id is distinct from auth.uid() then
+    raise exception 'permission denied: cannot submit documents for another user'
+      using errcode = 'insufficient_privilege';
+  end if;
+
+  new.status := 'pending';
+  new.reason := null;
+  new.reviewed_by := null;
+  new.reviewed_at := null;
+  return new;
+end;
+$$;
+
+drop trigger if exists contractor_document_reviews_guard on contractor_document_reviews;
+create trigger contractor_document_reviews_guard
+  before insert or update on contractor_document_reviews
+  for each row
+  execute function guard_contractor_document_review();
+
+create or replace function guard_contractor_verification()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  -- A new expiry date starts the reminder schedule again
+  if tg_op = 'UPDATE' and new.insurance_expiry_date is distinct from old.insurance_expiry_date then
+    new.insurance_reminder_days := null;
+  end if;
+
+  if auth.role() = 'service_role' or (new.user_id is distinct from auth.uid() and can_review_contractor(new.user_id)) then
+    return new;
+  end if;
+
+  if tg_op = 'INSERT' then
+    new.verified_at := null;
+  elsif new.verified_at is distinct from old.verified_at
+    or (
+      new.white_card_front_file_id, new.white_card_back_file_id,
+      new.license_front_file_id, new.license_back_file_id,
+      new.insurance_document_file_id, new.insurance_expiry_date
+    ) is distinct from (
+      old.white_card_front_file_id, old.white_card_back_file_id,
+      old.license_front_file_id, old.license_back_file_id,
+      old.insurance_document_file_id, old.insurance_expiry_date
+    ) then
+    new.verified_at := null;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists contractor_documents_guard_verification on contractor_documents;
+create trigger contractor_documents_guard_verification
+  before insert or update on contractor_documents
+  for each row
+  execute function guard_contractor_verification();
+
+-- ---------------------------------------------------------------------------
+-- User roles
+--
+-- A user's type, status and claims suspension decide what they can do, so
+-- users can't change their own. Admins manage every user; owners manage the
+-- members of organisations they own but can't make anyone an admin. Users
+-- rows are created by accepting an invitation, which runs as the service role.
+-- ---------------------------------------------------------------------------
+create or replace function guard_user_role()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.role() = 'service_role' or exists (
+    select 1 from users where id = auth.uid() and type = 'ADMIN'
+  ) then
+    return new;
+  end if;
+
+  if tg_op = 'INSERT' then
+    raise exception 'permission denied: users are created by accepting an invitation'
+      using errcode = 'insufficient_privilege';
+  end if;
+
+  if (new.type, new.status, new.claims_suspended)
+    is not distinct from (old.type, old.status, old.claims_suspended) then
+    return new;
+  end if;
+
+  if new.id = auth.uid() or new.type = 'ADMIN' or not exists (
+    select 1 from user_organisations uo
+    join organisations o on o.id = uo.organisation_id
+    join users u on u.id = auth.uid()
+    where uo.user_id = new.id and o.owner_id = auth.uid() and u.type = 'OWNER'
+  ) then
+    raise exception 'permission denied: only admins and organisation owners can change a user''s role'
+      using errcode = 'insufficient_privilege';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists users_guard_role on users;
+create trigger users_guard_role
+  before insert or update on users
+  for each row
+  execute function guard_user_role();